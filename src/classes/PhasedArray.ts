@@ -8,21 +8,98 @@
  * should be handled outside the phased array class!"
  */
 
+import { generateTaper, type TaperConfig } from '@/dsp/tapers';
+import { elementPatternGain, isIsotropic, type ElementPatternConfig } from '@/dsp/elementPatterns';
+import { computeDirectivity as integrateDirectivity, predictGratingLobes, type GratingLobe } from '@/dsp/beamAnalysis';
+import { weightsToExcitation, type ArrayExcitation } from '@/dsp/adaptiveBeamforming';
+import {
+  isIdealQuantization,
+  quantizeAmplitudes,
+  quantizePhases,
+  type QuantizationConfig,
+} from '@/dsp/quantization';
+import { partitionAxis, subarrayCount, type SubarrayConfig } from '@/dsp/subarrays';
+import type { CellConfig } from '@/dsp/multiCell';
+import { getMedium } from '@/dsp/media';
+import {
+  DEFAULT_PROPAGATION,
+  attenuationDbPerMeter,
+  isLossless,
+  propagationGain,
+  type PropagationConfig,
+} from '@/dsp/propagation';
+import { conj, innerProduct, mul, solveLinearSystem, type Complex, type ComplexVector } from '@/dsp/complexMatrix';
+
 // ============================================================================
 // TYPES & INTERFACES
 // ============================================================================
 
-export type ArrayGeometry = 'linear' | 'curved';
+export type ArrayGeometry = 'linear' | 'curved' | 'planar-rect' | 'planar-hex' | 'ring';
+
+/** How the steering phases are realized: phase shifters or true time delays */
+export type SteeringMode = 'phase' | 'ttd';
 
 export interface Position2D {
   x: number;
   y: number;
 }
 
-export interface ElementPosition extends Position2D {
+export interface Position3D extends Position2D {
+  z: number;
+}
+
+export interface ElementPosition extends Position3D {
   index: number;
   phaseOffset: number;
   amplitude: number;
+  orientation: number;        // Element normal in radians, same convention as θ
+}
+
+interface ElementCoordinate extends Position3D {
+  orientation: number;
+}
+
+/**
+ * Array pattern sampled over the full θ×φ grid.
+ * magnitude[iPhi * theta.length + iTheta] holds the normalized array factor.
+ */
+export interface PatternGrid {
+  theta: number[];            // Polar angles from broadside in degrees
+  phi: number[];              // Azimuth angles in degrees
+  magnitude: Float32Array;
+}
+
+/**
+ * Pattern null placed by the null-steering solver, in the steering φ cut.
+ */
+export interface NullConstraint {
+  angle: number;              // Null direction θ in degrees
+  depthDb?: number;           // Response relative to the look direction (unset = full null)
+}
+
+/**
+ * One of several simultaneous beams formed by superposing steered weights.
+ */
+export interface BeamSpec {
+  steeringAngle: number;      // Beam direction θ in degrees (steering φ cut)
+  power: number;              // Relative power, normalized over all beams
+  phase: number;              // Relative phase in degrees
+}
+
+/**
+ * Grating lobe of the subarray lattice of a hybrid array.
+ */
+export interface SubarrayLobe extends GratingLobe {
+  levelDb: number;            // Array factor at the lobe, re the coherent maximum
+}
+
+/**
+ * Gain of one beam of a multi-beam excitation.
+ */
+export interface BeamGain {
+  steeringAngle: number;
+  lossDb: number;             // Array gain toward the beam re the full-aperture coherent maximum
+  splitLossDb: number;        // Share of the total power assigned to the beam, 10·log10(pᵦ/Σp)
 }
 
 export interface PhasedArrayConfig {
@@ -33,22 +110,26 @@ export interface PhasedArrayConfig {
   pitch: number;              // Element spacing in meters
   geometry: ArrayGeometry;
   curvatureRadius: number;    // For curved arrays (meters), 0 = linear
+  rows?: number;              // Planar arrays: element rows along z
+  columns?: number;           // Planar arrays: element columns along x
+  ringRadius?: number;        // Ring arrays (meters), unset/0 = circumference of N pitches
   frequency: number;          // Operating frequency in Hz
-  steeringAngle: number;      // Steering angle in degrees
+  steeringAngle: number;      // Steering angle θ₀ in degrees
+  steeringPhi?: number;       // Steering azimuth φ₀ in degrees (0 = in the x–y plane)
+  focusDistance?: number;     // Focal range in meters (unset/0/∞ = far-field steering)
   amplitudes?: number[];      // Per-element amplitude weights (0-1)
+  phases?: number[];          // Per-element phase trims in radians, added to the steering phases
+  taper?: TaperConfig;        // Named aperture taper that generates amplitudes
+  elementPattern?: ElementPatternConfig; // Element directivity (unset = isotropic)
+  nulls?: NullConstraint[];   // Pattern nulls, solved on top of the weights wherever the unit is evaluated
+  quantization?: QuantizationConfig; // Phase-shifter/attenuator resolution (unset = ideal)
+  steeringMode?: SteeringMode; // Phase shifters (default) or true time delay
+  beams?: BeamSpec[];         // Simultaneous beams (two or more), superposed onto the weights
+  subarrays?: SubarrayConfig; // Hybrid analog/digital partition (unset = fully analog)
+  cell?: CellConfig;          // Transmit power and noise floor as a cell (multi-cell analysis)
   enabled: boolean;
 }
 
-// ============================================================================
-// PHYSICAL CONSTANTS
-// ============================================================================
-
-const SPEED_OF_SOUND: Record<string, number> = {
-  air: 343,
-  water: 1481,
-  tissue: 1540,
-};
-
 // ============================================================================
 // PHASED ARRAY CLASS
 // ============================================================================
@@ -57,10 +138,16 @@ const SPEED_OF_SOUND: Record<string, number> = {
  * PhasedArray - Encapsulates all beamforming math and logic.
  * 
  * This class handles:
- * - Element position calculations (linear and curved geometries)
+ * - Element position calculations (linear, curved, planar and ring geometries)
  * - Phase offset computation for beam steering
- * - Array factor (gain pattern) computation
+ * - Array factor (gain pattern) computation, including element directivity
  * - Wavelength and wave number calculations
+ * 
+ * Angle convention: θ is measured from broadside (the −y direction the curved
+ * array faces) toward +x, so the far-field direction is û(θ) = (sin θ, −cos θ).
+ * Planar and ring arrays lie in the x–z plane (z out of the screen) and add an
+ * azimuth φ about the broadside axis, measured from +x toward +z:
+ * û(θ, φ) = (sin θ cos φ, −cos θ, sin θ sin φ). φ = 0 is the x–y plane.
  */
 export class PhasedArray {
   // ========================================================================
@@ -74,13 +161,29 @@ export class PhasedArray {
   private _pitch: number;
   private _geometry: ArrayGeometry;
   private _curvatureRadius: number;
+  private _rows: number;
+  private _columns: number;
+  private _ringRadius: number;
   private _frequency: number;
   private _steeringAngle: number;
+  private _steeringPhi: number;
+  private _focusDistance: number | null;
   private _amplitudes: number[];
+  private _phases: number[] | undefined;
+  private _taper: TaperConfig | undefined;
+  private _elementPattern: ElementPatternConfig | undefined;
+  private _nulls: NullConstraint[];
+  private _quantization: QuantizationConfig | undefined;
+  private _steeringMode: SteeringMode;
+  private _beams: BeamSpec[];
+  private _subarrays: SubarrayConfig | undefined;
+  private _cell: CellConfig | undefined;
   private _enabled: boolean;
   private _medium: string;
+  private _propagation: PropagationConfig;
   
   // Cached computations
+  private _coordinatesCache: ElementCoordinate[] | null = null;
   private _elementPositionsCache: ElementPosition[] | null = null;
   private _phaseOffsetsCache: number[] | null = null;
   private _lastSteeringAngle: number | null = null;
@@ -89,23 +192,44 @@ export class PhasedArray {
   // CONSTRUCTOR
   // ========================================================================
   
-  constructor(config: PhasedArrayConfig, medium: string = 'air') {
+  constructor(
+    config: PhasedArrayConfig,
+    medium: string = 'air',
+    propagation: PropagationConfig = DEFAULT_PROPAGATION
+  ) {
     this._id = config.id;
     this._name = config.name;
     this._position = { ...config.position };
-    this._elements = Math.max(2, Math.min(256, config.elements));
+    this._rows = PhasedArray.clampRows(config.rows);
+    this._columns = PhasedArray.clampColumns(config.columns);
+    this._elements = PhasedArray.elementCount(config);
     this._pitch = Math.max(0.001, config.pitch);
     this._geometry = config.geometry;
     this._curvatureRadius = Math.max(0, config.curvatureRadius);
+    this._ringRadius = Math.max(0, config.ringRadius ?? 0);
     this._frequency = Math.max(100, config.frequency);
     this._steeringAngle = config.steeringAngle;
-    this._amplitudes = config.amplitudes?.slice() || new Array(this._elements).fill(1);
+    this._steeringPhi = config.steeringPhi ?? 0;
+    this._focusDistance = PhasedArray.normalizeFocusDistance(config.focusDistance);
+    this._taper = config.taper ? { ...config.taper } : undefined;
+    this._amplitudes = config.amplitudes?.slice() || this.generateAmplitudes();
+    this._phases = config.phases?.slice();
+    this._elementPattern = config.elementPattern ? { ...config.elementPattern } : undefined;
+    this._nulls = config.nulls?.map((n) => ({ ...n })) ?? [];
+    this._quantization = config.quantization ? { ...config.quantization } : undefined;
+    this._steeringMode = config.steeringMode ?? 'phase';
+    this._beams = config.beams?.map((b) => ({ ...b })) ?? [];
+    this._subarrays = config.subarrays
+      ? { ...config.subarrays, assignment: config.subarrays.assignment?.slice() }
+      : undefined;
+    this._cell = config.cell ? { ...config.cell } : undefined;
     this._enabled = config.enabled;
     this._medium = medium;
+    this._propagation = { ...propagation };
     
     // Ensure amplitudes array matches element count
     if (this._amplitudes.length !== this._elements) {
-      this._amplitudes = new Array(this._elements).fill(1);
+      this._amplitudes = this.generateAmplitudes();
     }
   }
   
@@ -120,10 +244,32 @@ export class PhasedArray {
   get pitch(): number { return this._pitch; }
   get geometry(): ArrayGeometry { return this._geometry; }
   get curvatureRadius(): number { return this._curvatureRadius; }
+  get rows(): number { return this._rows; }
+  get columns(): number { return this._columns; }
   get frequency(): number { return this._frequency; }
   get steeringAngle(): number { return this._steeringAngle; }
+  get steeringPhi(): number { return this._steeringPhi; }
+  get focusDistance(): number | null { return this._focusDistance; }
   get amplitudes(): number[] { return [...this._amplitudes]; }
+  get phases(): number[] | undefined { return this._phases ? [...this._phases] : undefined; }
+  get taper(): TaperConfig | undefined { return this._taper ? { ...this._taper } : undefined; }
+  get elementPattern(): ElementPatternConfig | undefined {
+    return this._elementPattern ? { ...this._elementPattern } : undefined;
+  }
+  get nulls(): NullConstraint[] { return this._nulls.map((n) => ({ ...n })); }
+  get quantization(): QuantizationConfig | undefined {
+    return this._quantization ? { ...this._quantization } : undefined;
+  }
+  get steeringMode(): SteeringMode { return this._steeringMode; }
+  get beams(): BeamSpec[] { return this._beams.map((b) => ({ ...b })); }
+  get subarrays(): SubarrayConfig | undefined {
+    return this._subarrays
+      ? { ...this._subarrays, assignment: this._subarrays.assignment?.slice() }
+      : undefined;
+  }
+  get cell(): CellConfig | undefined { return this._cell ? { ...this._cell } : undefined; }
   get enabled(): boolean { return this._enabled; }
+  get propagation(): PropagationConfig { return { ...this._propagation }; }
   
   // ========================================================================
   // COMPUTED PROPERTIES (Derived from state)
@@ -133,7 +279,7 @@ export class PhasedArray {
    * Get the speed of sound in the current medium (m/s)
    */
   get speedOfSound(): number {
-    return SPEED_OF_SOUND[this._medium] || SPEED_OF_SOUND.air;
+    return getMedium(this._medium).speedOfSound;
   }
   
   /**
@@ -151,10 +297,100 @@ export class PhasedArray {
   }
   
   /**
-   * Calculate total array aperture (physical width)
+   * Absorption at the array frequency in dB/m (0 with attenuation off)
+   */
+  get attenuationDbPerMeter(): number {
+    return attenuationDbPerMeter(this._propagation, this._medium, this._frequency);
+  }
+  
+  /**
+   * Whether the elements lie in the x–z plane (planar and ring geometries)
+   */
+  get isPlanar(): boolean {
+    return this._geometry === 'planar-rect' || this._geometry === 'planar-hex' || this._geometry === 'ring';
+  }
+  
+  /**
+   * Ring radius in meters; 0 in the config spaces N elements one pitch apart
+   */
+  get ringRadius(): number {
+    return this._ringRadius > 0
+      ? this._ringRadius
+      : (this._elements * this._pitch) / (2 * Math.PI);
+  }
+  
+  /**
+   * Calculate total array aperture (physical width along x)
    */
   get aperture(): number {
-    return (this._elements - 1) * this._pitch;
+    switch (this._geometry) {
+      case 'planar-rect':
+      case 'planar-hex':
+        return (this._columns - 1) * this._pitch;
+      case 'ring':
+        return 2 * this.ringRadius;
+      default:
+        return (this._elements - 1) * this._pitch;
+    }
+  }
+  
+  /**
+   * Whether the array focuses at a finite range instead of steering a plane wave
+   */
+  get isFocused(): boolean {
+    return this._focusDistance !== null;
+  }
+  
+  /**
+   * Whether the weights form several simultaneous beams
+   */
+  get isMultibeam(): boolean {
+    return this._beams.length > 1;
+  }
+  
+  /**
+   * Whether the elements are grouped into two or more digital subarrays
+   */
+  get hasSubarrays(): boolean {
+    return this._subarrays !== undefined && subarrayCount(this._subarrays, this.axisElements) > 1;
+  }
+  
+  /**
+   * Direction θ of the digital beam; follows the analog steering unless set
+   */
+  get digitalSteeringAngle(): number {
+    return this._subarrays?.digitalSteeringAngle ?? this._steeringAngle;
+  }
+  
+  /**
+   * Elements along the array (x) axis: columns of planar grids, else all elements
+   */
+  get axisElements(): number {
+    return this._geometry === 'planar-rect' || this._geometry === 'planar-hex'
+      ? this._columns
+      : this._elements;
+  }
+  
+  /**
+   * Focal point at (steeringAngle, steeringPhi, focusDistance) from the array
+   * center, or null for far-field steering.
+   */
+  get focalPoint(): Position3D | null {
+    if (this._focusDistance === null) return null;
+    const u = PhasedArray.direction(this._steeringAngle, this._steeringPhi);
+    return {
+      x: this._position.x + this._focusDistance * u.x,
+      y: this._position.y + this._focusDistance * u.y,
+      z: this._focusDistance * u.z,
+    };
+  }
+  
+  /**
+   * Whether the elements sit on a uniform lattice along the array axis
+   * (the geometries that can produce grating lobes at multiples of λ/d)
+   */
+  get isPeriodicLattice(): boolean {
+    return this._geometry === 'linear' || this._geometry === 'planar-rect';
   }
   
   /**
@@ -171,6 +407,15 @@ export class PhasedArray {
   set steeringAngle(angle: number) {
     if (this._steeringAngle !== angle) {
       this._steeringAngle = angle;
+      this._elementPositionsCache = null;
+      this._phaseOffsetsCache = null;
+    }
+  }
+  
+  set steeringPhi(angle: number) {
+    if (this._steeringPhi !== angle) {
+      this._steeringPhi = angle;
+      this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
   }
@@ -178,15 +423,18 @@ export class PhasedArray {
   set frequency(freq: number) {
     if (this._frequency !== freq) {
       this._frequency = Math.max(100, freq);
+      this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
   }
   
   set elements(count: number) {
+    if (this._geometry === 'planar-rect' || this._geometry === 'planar-hex') return; // rows × columns
     const newCount = Math.max(2, Math.min(256, count));
     if (this._elements !== newCount) {
       this._elements = newCount;
-      this._amplitudes = new Array(newCount).fill(1);
+      this._amplitudes = this.generateAmplitudes();
+      this._coordinatesCache = null;
       this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
@@ -195,6 +443,7 @@ export class PhasedArray {
   set pitch(spacing: number) {
     if (this._pitch !== spacing) {
       this._pitch = Math.max(0.001, spacing);
+      this._coordinatesCache = null;
       this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
@@ -203,22 +452,86 @@ export class PhasedArray {
   set geometry(geo: ArrayGeometry) {
     if (this._geometry !== geo) {
       this._geometry = geo;
+      this.resizeGrid();
+    }
+  }
+  
+  /**
+   * Set planar grid dimensions. The element count becomes rows × columns.
+   */
+  setGrid(rows: number, columns: number): void {
+    this._rows = PhasedArray.clampRows(rows);
+    this._columns = PhasedArray.clampColumns(columns);
+    this.resizeGrid();
+  }
+  
+  set ringRadius(radius: number) {
+    if (this._ringRadius !== radius) {
+      this._ringRadius = Math.max(0, radius);
+      this._coordinatesCache = null;
       this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
   }
   
+  // Re-derive the element count and amplitudes after a geometry or grid change
+  private resizeGrid(): void {
+    const count = PhasedArray.elementCount({
+      geometry: this._geometry,
+      elements: this._elements,
+      rows: this._rows,
+      columns: this._columns,
+    });
+    if (count !== this._elements || this.isPlanar) {
+      this._elements = count;
+      this._amplitudes = this.generateAmplitudes();
+    }
+    this._coordinatesCache = null;
+    this._elementPositionsCache = null;
+    this._phaseOffsetsCache = null;
+  }
+  
   set curvatureRadius(radius: number) {
     if (this._curvatureRadius !== radius) {
       this._curvatureRadius = Math.max(0, radius);
+      this._coordinatesCache = null;
       this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
   }
   
+  /**
+   * Focus at a finite range (meters). Null, 0 or Infinity restores far-field steering.
+   */
+  set focusDistance(distance: number | null) {
+    const normalized = PhasedArray.normalizeFocusDistance(distance);
+    if (this._focusDistance !== normalized) {
+      this._focusDistance = normalized;
+      this._elementPositionsCache = null;
+      this._phaseOffsetsCache = null;
+    }
+  }
+  
+  /**
+   * Apply a named aperture taper. Regenerates all element amplitudes.
+   */
+  set taper(taper: TaperConfig | undefined) {
+    this._taper = taper ? { ...taper } : undefined;
+    this._amplitudes = this.generateAmplitudes();
+    this._elementPositionsCache = null;
+  }
+  
+  /**
+   * Set the element directivity pattern. Undefined restores isotropic elements.
+   */
+  set elementPattern(pattern: ElementPatternConfig | undefined) {
+    this._elementPattern = pattern ? { ...pattern } : undefined;
+  }
+  
   setMedium(medium: string): void {
     if (this._medium !== medium) {
       this._medium = medium;
+      this._elementPositionsCache = null;
       this._phaseOffsetsCache = null;
     }
   }
@@ -228,19 +541,17 @@ export class PhasedArray {
   // ========================================================================
   
   /**
-   * Calculate the physical positions of all array elements.
-   * Supports both linear and curved (arc) geometries.
-   * 
-   * @returns Array of element positions with phase offsets and amplitudes
+   * Calculate the physical coordinates and normals of all array elements.
+   * Linear, planar and ring elements face broadside; curved elements face
+   * outward along the arc normal. Planar grids are row-major (row along z,
+   * column along x) and hex grids offset every other row by half a pitch.
    */
-  getElementPositions(): ElementPosition[] {
-    // Return cached result if available
-    if (this._elementPositionsCache) {
-      return this._elementPositionsCache;
+  private computeElementCoordinates(): ElementCoordinate[] {
+    if (this._coordinatesCache) {
+      return this._coordinatesCache;
     }
     
-    const positions: ElementPosition[] = [];
-    const phaseOffsets = this.computePhaseOffsets();
+    const coordinates: ElementCoordinate[] = [];
     
     if (this._geometry === 'linear') {
       // Linear array: elements along x-axis centered at position
@@ -248,12 +559,34 @@ export class PhasedArray {
       const startX = this._position.x - arrayWidth / 2;
       
       for (let i = 0; i < this._elements; i++) {
-        positions.push({
-          index: i,
-          x: startX + i * this._pitch,
+        coordinates.push({ x: startX + i * this._pitch, y: this._position.y, z: 0, orientation: 0 });
+      }
+    } else if (this._geometry === 'planar-rect' || this._geometry === 'planar-hex') {
+      const hex = this._geometry === 'planar-hex';
+      const rowPitch = hex ? (this._pitch * Math.sqrt(3)) / 2 : this._pitch;
+      // Hex rows alternate by ±pitch/4 around the center so the grid stays centered
+      const rowShift = hex && this._rows > 1 ? this._pitch / 4 : 0;
+      
+      for (let r = 0; r < this._rows; r++) {
+        const shift = r % 2 === 0 ? -rowShift : rowShift;
+        for (let c = 0; c < this._columns; c++) {
+          coordinates.push({
+            x: this._position.x + (c - (this._columns - 1) / 2) * this._pitch + shift,
+            y: this._position.y,
+            z: (r - (this._rows - 1) / 2) * rowPitch,
+            orientation: 0,
+          });
+        }
+      }
+    } else if (this._geometry === 'ring') {
+      const radius = this.ringRadius;
+      for (let i = 0; i < this._elements; i++) {
+        const angle = (2 * Math.PI * i) / this._elements;
+        coordinates.push({
+          x: this._position.x + radius * Math.cos(angle),
           y: this._position.y,
-          phaseOffset: phaseOffsets[i],
-          amplitude: this._amplitudes[i],
+          z: radius * Math.sin(angle),
+          orientation: 0,
         });
       }
     } else {
@@ -272,21 +605,64 @@ export class PhasedArray {
         const fraction = this._elements > 1 ? i / (this._elements - 1) : 0.5;
         const angle = startAngle + fraction * arcAngle;
         
-        positions.push({
-          index: i,
+        coordinates.push({
           x: this._position.x + radius * Math.cos(angle),
           y: this._position.y + radius * Math.sin(angle) + radius, // Offset so center is at position
-          phaseOffset: phaseOffsets[i],
-          amplitude: this._amplitudes[i],
+          z: 0,
+          // Outward normal (cos, sin) expressed as an angle from broadside
+          orientation: Math.atan2(Math.cos(angle), -Math.sin(angle)),
         });
       }
     }
     
+    this._coordinatesCache = coordinates;
+    return coordinates;
+  }
+  
+  /**
+   * Calculate the physical positions of all array elements.
+   * Supports both linear and curved (arc) geometries.
+   * 
+   * @returns Array of element positions with phase offsets and amplitudes
+   */
+  getElementPositions(): ElementPosition[] {
+    // Return cached result if available
+    if (this._elementPositionsCache) {
+      return this._elementPositionsCache;
+    }
+    
+    const phaseOffsets = this.computePhaseOffsets();
+    const amplitudes = quantizeAmplitudes(this._amplitudes, this._quantization);
+    const digital = this.computeDigitalWeights();
+    const positions: ElementPosition[] = this.computeElementCoordinates().map((coord, i) => ({
+      index: i,
+      x: coord.x,
+      y: coord.y,
+      z: coord.z,
+      phaseOffset: phaseOffsets[i],
+      amplitude: amplitudes[i] * (digital ? digital.amplitudes[i] : 1),
+      orientation: coord.orientation,
+    }));
+    
     // Cache the result
     this._elementPositionsCache = positions;
     return positions;
   }
   
+  /**
+   * Element amplitudes from the taper. Planar grids use the separable product
+   * of a row and a column taper; rings are uniform by symmetry.
+   */
+  private generateAmplitudes(): number[] {
+    return PhasedArray.generateAmplitudes({
+      geometry: this._geometry,
+      elements: this._elements,
+      rows: this._rows,
+      columns: this._columns,
+      taper: this._taper,
+    });
+  }
+  
   // ========================================================================
   // CORE METHODS - Phase Offsets
   // ========================================================================
@@ -294,32 +670,39 @@ export class PhasedArray {
   /**
    * Compute the phase offsets required to steer the beam to the current steering angle.
    * 
-   * Formula: φ_n = -k * d * n * sin(θ₀)
+   * Each element is phased by its position projected onto the steering direction,
+   * so every geometry points at (θ₀, φ₀):
+   * 
+   * Formula: φ_n = k * (p_n - c) · û(θ₀, φ₀)
    * where:
    *   k = 2π/λ (wave number)
-   *   d = element spacing (pitch)
-   *   n = element index
-   *   θ₀ = steering angle
+   *   p_n = element position, c = array center
+   *   û(θ₀, φ₀) = (sin θ₀ cos φ₀, −cos θ₀, sin θ₀ sin φ₀) steering direction
+   * 
+   * For a linear array this reduces to the progressive shift k·d·n·sin(θ₀)
+   * (up to a common phase).
+   * 
+   * When a focus distance is set, the offsets instead equalize the path length
+   * from every element to the focal point F at (θ₀, focusDistance):
+   * 
+   * Formula: φ_n = k * (|F - c| - |F - p_n|)
+   * 
+   * Per-element phase trims from the config (adaptive or synthesized
+   * weights) are added on top of either set, and the sum is rounded to the
+   * phase-shifter states when the unit models quantization. Hybrid arrays
+   * add their digital subarray phases after the (analog) quantization.
    * 
    * @returns Array of phase offsets in radians
    */
   computePhaseOffsets(): number[] {
-    // Return cached result if steering angle hasn't changed
+    // Return cached result if steering angle hasn't changed (other setters clear the cache)
     if (this._phaseOffsetsCache && this._lastSteeringAngle === this._steeringAngle) {
       return this._phaseOffsetsCache;
     }
     
-    const k = this.waveNumber;
-    const d = this._pitch;
-    const theta0 = (this._steeringAngle * Math.PI) / 180; // Convert to radians
-    
-    const offsets: number[] = [];
-    
-    for (let n = 0; n < this._elements; n++) {
-      // Progressive phase shift: φ_n = -k * d * n * sin(θ₀)
-      const phase = -k * d * n * Math.sin(theta0);
-      offsets.push(phase);
-    }
+    const analog = quantizePhases(this.computeIdealPhaseOffsets(), this._quantization);
+    const digital = this.computeDigitalWeights();
+    const offsets = digital ? analog.map((phase, i) => phase + digital.phases[i]) : analog;
     
     // Cache the result
     this._phaseOffsetsCache = offsets;
@@ -328,37 +711,169 @@ export class PhasedArray {
     return offsets;
   }
   
+  /**
+   * Continuous steering or focusing phases plus trims, before quantization.
+   */
+  private computeIdealPhaseOffsets(): number[] {
+    const focalPoint = this.focalPoint;
+    const steering = focalPoint
+      ? this.computeFocusingPhases(focalPoint)
+      : this.computeSteeringPhases();
+    return this.hasPhaseTrims()
+      ? steering.map((phase, i) => phase + this._phases![i])
+      : steering;
+  }
+  
+  /**
+   * Phase trims apply only while they match the element count; a resized
+   * array falls back to pure steering phases.
+   */
+  private hasPhaseTrims(): boolean {
+    return this._phases !== undefined && this._phases.length === this._elements;
+  }
+  
+  /**
+   * Far-field steering phases from each element's projection onto û(θ₀).
+   * The projection cancels the −k·p·û path-length term of computeFieldAt at θ = θ₀.
+   */
+  private computeSteeringPhases(thetaDeg: number = this._steeringAngle): number[] {
+    const k = this.waveNumber;
+    const u = PhasedArray.direction(thetaDeg, this._steeringPhi);
+    
+    return this.computeElementCoordinates().map((coord) =>
+      k * ((coord.x - this._position.x) * u.x + (coord.y - this._position.y) * u.y + coord.z * u.z)
+    );
+  }
+  
+  /**
+   * Per-element phases that bring all wavefronts into phase at a focal point.
+   */
+  private computeFocusingPhases(focalPoint: Position3D): number[] {
+    const k = this.waveNumber;
+    const referenceRange = Math.hypot(
+      focalPoint.x - this._position.x,
+      focalPoint.y - this._position.y,
+      focalPoint.z
+    );
+    
+    return this.computeElementCoordinates().map((coord) =>
+      k * (referenceRange - Math.hypot(focalPoint.x - coord.x, focalPoint.y - coord.y, focalPoint.z - coord.z))
+    );
+  }
+  
+  /**
+   * Coherent focal gain in dB: power at the focal point relative to the
+   * incoherent sum of element powers, 10·log10(|Σ Aₙe^(jφₙ')|² / Σ Aₙ²).
+   * A perfectly focused uniform array reaches 10·log10(N).
+   * 
+   * @returns Focal gain in dB, or null when the array is not focused
+   */
+  computeFocalGain(): number | null {
+    const focalPoint = this.focalPoint;
+    if (!focalPoint) return null;
+    
+    // Coherent gain only: like the incoherent reference, without propagation losses
+    const field = this.sumElementFields(focalPoint.x, focalPoint.y, focalPoint.z, false);
+    const intensity = field.real * field.real + field.imag * field.imag;
+    const incoherent = this._amplitudes.reduce((sum, a) => sum + a * a, 0);
+    if (intensity <= 0 || incoherent <= 0) return -Infinity;
+    return 10 * Math.log10(intensity / incoherent);
+  }
+  
+  // ========================================================================
+  // CORE METHODS - Element Pattern
+  // ========================================================================
+  
+  /**
+   * Field gain of one element toward direction (dirX, dirY, ·).
+   * Element normals lie in the x–y plane, so only the x and y components of
+   * the direction enter; `length` is the full (3D) length of the direction.
+   * 
+   * @param orientation - Element normal angle in radians (ElementPosition.orientation)
+   */
+  computeElementGain(orientation: number, dirX: number, dirY: number, length: number = 1): number {
+    if (isIsotropic(this._elementPattern)) return 1;
+    if (length === 0) return 1;
+    const nx = Math.sin(orientation);
+    const ny = -Math.cos(orientation);
+    const cosAngle = (dirX * nx + dirY * ny) / length;
+    const sinAngle = (dirX * ny - dirY * nx) / length;
+    return elementPatternGain(this._elementPattern, cosAngle, sinAngle, this.waveNumber, this._pitch);
+  }
+  
+  /**
+   * Element pattern (field gain, 0 to 1) at a far-field angle for an element
+   * facing broadside.
+   * 
+   * @param thetaDeg - Observation angle in degrees
+   * @param phiDeg - Observation azimuth in degrees
+   */
+  computeElementPattern(thetaDeg: number, phiDeg: number = 0): number {
+    const u = PhasedArray.direction(thetaDeg, phiDeg);
+    return this.computeElementGain(0, u.x, u.y);
+  }
+  
   // ========================================================================
   // CORE METHODS - Array Factor
   // ========================================================================
   
   /**
-   * Compute the array factor (normalized gain) at a specific angle.
+   * Whether the closed-form ULA array factor describes this array exactly:
+   * straight line, equal amplitudes and purely progressive (unquantized)
+   * steering phases. All elements share one orientation, so the element
+   * pattern factors out.
+   */
+  private isUniformLinear(): boolean {
+    if (this._geometry !== 'linear' || this.isFocused || this.hasPhaseTrims() || this.hasSubarrays) return false;
+    if (!isIdealQuantization(this._quantization)) return false;
+    const a0 = this._amplitudes[0];
+    return this._amplitudes.every((a) => Math.abs(a - a0) < 1e-12);
+  }
+  
+  /**
+   * Compute the array factor (normalized gain) at a specific angle,
+   * including the element directivity pattern.
    * 
-   * Formula: AF(θ) = |sin(N·ψ/2) / (N·sin(ψ/2))|
-   * where: ψ = k·d·(sin(θ) - sin(θ₀))
+   * Uniform linear arrays use the closed form times the element pattern as a
+   * fast path; every other configuration (tapers, curved geometry) is summed
+   * over the actual elements.
    * 
-   * This is the theoretical beam pattern for a uniform linear array (ULA).
+   * @param thetaDeg - Observation angle in degrees
+   * @param phiDeg - Observation azimuth in degrees (0 = x–y plane)
+   * @returns Normalized array factor (0 to 1)
+   */
+  computeArrayFactor(thetaDeg: number, phiDeg: number = 0): number {
+    return this.isUniformLinear()
+      ? this.computeUniformLinearArrayFactor(thetaDeg, phiDeg) * this.computeElementPattern(thetaDeg, phiDeg)
+      : this.computeElementArrayFactor(thetaDeg, phiDeg);
+  }
+  
+  /**
+   * Closed-form array factor of a uniform linear array (ULA).
+   * 
+   * Formula: AF(θ) = |sin(N·ψ/2) / (N·sin(ψ/2))|
+   * where: ψ = k·d·(sin θ cos φ - sin θ₀ cos φ₀)
    * 
    * @param thetaDeg - Observation angle in degrees
+   * @param phiDeg - Observation azimuth in degrees
    * @returns Normalized array factor (0 to 1)
    */
-  computeArrayFactor(thetaDeg: number): number {
-    const theta = (thetaDeg * Math.PI) / 180;
-    const theta0 = (this._steeringAngle * Math.PI) / 180;
+  computeUniformLinearArrayFactor(thetaDeg: number, phiDeg: number = 0): number {
+    const u = PhasedArray.direction(thetaDeg, phiDeg);
+    const u0 = PhasedArray.direction(this._steeringAngle, this._steeringPhi);
     const k = this.waveNumber;
     const d = this._pitch;
     const N = this._elements;
     
-    // Phase difference: ψ = k·d·(sin(θ) - sin(θ₀))
-    const psi = k * d * (Math.sin(theta) - Math.sin(theta0));
+    // Phase difference along the array axis: ψ = k·d·(uₓ - u₀ₓ)
+    const psi = k * d * (u.x - u0.x);
     
     // Array factor: |sin(N·ψ/2) / (N·sin(ψ/2))|
     const halfPsiN = (N * psi) / 2;
     const halfPsi = psi / 2;
     
     // Handle singularity at ψ = 0 (main lobe direction)
-    if (Math.abs(halfPsi) < 1e-10) {
+    if (Math.abs(Math.sin(halfPsi)) < 1e-10) {
       return 1.0;
     }
     
@@ -368,53 +883,660 @@ export class PhasedArray {
     return Math.abs(numerator / denominator);
   }
   
+  /**
+   * General far-field array factor summed over the actual element positions,
+   * amplitudes, phases and element patterns:
+   * 
+   * Formula: AF(θ, φ) = |Σ Aₙ·gₙ(θ, φ)·e^(j(φₙ - k·pₙ·û(θ, φ)))| / Σ|Aₙ|
+   * where pₙ is the element position, û the observation direction and gₙ
+   * the element pattern evaluated relative to the element normal
+   * 
+   * @param thetaDeg - Observation angle in degrees
+   * @param phiDeg - Observation azimuth in degrees
+   * @returns Normalized array factor (0 to 1)
+   */
+  computeElementArrayFactor(thetaDeg: number, phiDeg: number = 0): number {
+    const { x: ux, y: uy, z: uz } = PhasedArray.direction(thetaDeg, phiDeg);
+    const k = this.waveNumber;
+    const elements = this.getElementPositions();
+    
+    let realSum = 0;
+    let imagSum = 0;
+    let amplitudeSum = 0;
+    
+    for (const element of elements) {
+      // Positions relative to the array center keep the phase reference stable
+      const px = element.x - this._position.x;
+      const py = element.y - this._position.y;
+      const phase = element.phaseOffset - k * (px * ux + py * uy + element.z * uz);
+      const weight = element.amplitude * this.computeElementGain(element.orientation, ux, uy);
+      realSum += weight * Math.cos(phase);
+      imagSum += weight * Math.sin(phase);
+      amplitudeSum += Math.abs(element.amplitude);
+    }
+    
+    if (amplitudeSum === 0) return 0;
+    return Math.min(1, Math.sqrt(realSum * realSum + imagSum * imagSum) / amplitudeSum);
+  }
+  
+  /**
+   * Array manifold (steering vector) toward (θ, φ): the response of each
+   * element to a unit plane wave from that direction, including its element
+   * pattern. Phases are referenced to the array center so that
+   * AF(θ, φ) = |Σ cₙ·vₙ(θ, φ)| for element excitations cₙ = Aₙ·e^(jφₙ).
+   * 
+   * Formula: vₙ(θ, φ) = gₙ(θ, φ)·e^(-j·k·(pₙ - c)·û(θ, φ))
+   * 
+   * @param thetaDeg - Direction angle in degrees
+   * @param phiDeg - Direction azimuth in degrees
+   * @param frequency - Frequency of the incident wave in Hz (defaults to the array frequency)
+   */
+  computeSteeringVector(thetaDeg: number, phiDeg: number = 0, frequency: number = this._frequency): Complex[] {
+    const { x: ux, y: uy, z: uz } = PhasedArray.direction(thetaDeg, phiDeg);
+    const k = (2 * Math.PI * frequency) / this.speedOfSound;
+    
+    return this.computeElementCoordinates().map((coord) => {
+      const phase = -k * ((coord.x - this._position.x) * ux + (coord.y - this._position.y) * uy + coord.z * uz);
+      const gain = this.computeElementGain(coord.orientation, ux, uy);
+      return { re: gain * Math.cos(phase), im: gain * Math.sin(phase) };
+    });
+  }
+  
+  /**
+   * Array factor along the array (x) axis as a function of the direction
+   * cosine u = sin θ, continued into the invisible region |u| > 1 where the
+   * periodic grating-lobe structure of the lattice lives.
+   * 
+   * Formula: AF(u) = |Σ Aₙ·e^(j(φₙ - k·xₙ·u))| / Σ|Aₙ|
+   * 
+   * @param u - Direction cosine along the array axis (any real value)
+   * @returns Normalized array factor (0 to 1)
+   */
+  computeArrayFactorU(u: number): number {
+    const k = this.waveNumber;
+    
+    let realSum = 0;
+    let imagSum = 0;
+    let amplitudeSum = 0;
+    
+    for (const element of this.getElementPositions()) {
+      const phase = element.phaseOffset - k * (element.x - this._position.x) * u;
+      realSum += element.amplitude * Math.cos(phase);
+      imagSum += element.amplitude * Math.sin(phase);
+      amplitudeSum += Math.abs(element.amplitude);
+    }
+    
+    if (amplitudeSum === 0) return 0;
+    return Math.min(1, Math.sqrt(realSum * realSum + imagSum * imagSum) / amplitudeSum);
+  }
+  
+  /**
+   * Grating lobes in visible space for the current pitch, frequency and
+   * steering, predicted from the lattice along the array axis. Only periodic
+   * lattices (linear and rectangular planar arrays) are considered.
+   */
+  predictGratingLobes(): GratingLobe[] {
+    if (!this.isPeriodicLattice) return [];
+    const steeringU = PhasedArray.direction(this._steeringAngle, this._steeringPhi).x;
+    return predictGratingLobes(this.pitchLambdaRatio, steeringU);
+  }
+  
   /**
    * Compute the array factor in dB.
    * 
    * @param thetaDeg - Observation angle in degrees
    * @param minDb - Minimum dB value (floor)
+   * @param phiDeg - Observation azimuth in degrees
    * @returns Array factor in dB
    */
-  computeArrayFactorDb(thetaDeg: number, minDb: number = -40): number {
-    const af = this.computeArrayFactor(thetaDeg);
+  computeArrayFactorDb(thetaDeg: number, minDb: number = -40, phiDeg: number = 0): number {
+    const af = this.computeArrayFactor(thetaDeg, phiDeg);
     if (af <= 0) return minDb;
     const db = 20 * Math.log10(af);
     return Math.max(minDb, db);
   }
   
   /**
-   * Generate the complete beam pattern across all angles.
+   * Generate the complete beam pattern across all angles of one φ cut.
+   * Negative θ covers the opposite half of the cut (φ + 180°).
    * 
    * @param angleResolution - Angular step in degrees (default 1°)
+   * @param phiDeg - Azimuth of the cut in degrees (default 0, the x–y plane)
    * @returns Array of { angle, magnitude, dB } for each angle
    */
-  generateBeamPattern(angleResolution: number = 1): Array<{ angle: number; magnitude: number; dB: number }> {
+  generateBeamPattern(
+    angleResolution: number = 1,
+    phiDeg: number = 0
+  ): Array<{ angle: number; magnitude: number; dB: number }> {
     const pattern: Array<{ angle: number; magnitude: number; dB: number }> = [];
     
     for (let angle = -180; angle <= 180; angle += angleResolution) {
-      const magnitude = this.computeArrayFactor(angle);
-      const dB = this.computeArrayFactorDb(angle);
+      const magnitude = this.computeArrayFactor(angle, phiDeg);
+      const dB = magnitude > 0 ? Math.max(-40, 20 * Math.log10(magnitude)) : -40;
       pattern.push({ angle, magnitude, dB });
     }
     
     return pattern;
   }
   
+  /**
+   * Sample the array factor over a θ×φ grid covering θ ∈ [0, thetaMax] and
+   * φ ∈ [-180, 180] (both ends inclusive so surfaces can close the seam).
+   * 
+   * @param thetaStep - Polar step in degrees
+   * @param phiStep - Azimuth step in degrees
+   * @param thetaMax - Largest polar angle in degrees (90 = front hemisphere, 180 = full sphere)
+   */
+  computePatternGrid(thetaStep: number = 1, phiStep: number = 2, thetaMax: number = 90): PatternGrid {
+    const thetaCount = Math.floor(thetaMax / thetaStep + 1e-9) + 1;
+    const phiCount = Math.floor(360 / phiStep + 1e-9) + 1;
+    const theta = Array.from({ length: thetaCount }, (_, i) => i * thetaStep);
+    const phi = Array.from({ length: phiCount }, (_, j) => -180 + j * phiStep);
+    const magnitude = new Float32Array(thetaCount * phiCount);
+    
+    phi.forEach((p, j) => {
+      theta.forEach((t, i) => {
+        magnitude[j * thetaCount + i] = this.computeArrayFactor(t, p);
+      });
+    });
+    
+    return { theta, phi, magnitude };
+  }
+  
+  /**
+   * Directivity in dBi toward the beam peak (θ₀, φ₀). With isotropic elements
+   * the radiated power has a closed form, as ∮ e^(jk·û·(pₘ − pₙ)) dΩ =
+   * 4π·sinc(k·|pₘ − pₙ|):
+   * 
+   * Formula: D = |Σ cₙ·e^(−jk·pₙ·û₀)|² / Σₘ Σₙ Re(cₘ·cₙ*)·sinc(k·|pₘ − pₙ|)
+   * 
+   * an O(N²) sum in place of a full-sphere grid. Directive element patterns
+   * are integrated numerically over a 2°×4° grid.
+   * 
+   * @param peakTheta - Polar angle of the beam peak in degrees
+   * @param peakPhi - Azimuth of the beam peak in degrees
+   */
+  computeDirectivity(peakTheta: number = this._steeringAngle, peakPhi: number = this._steeringPhi): number {
+    if (!isIsotropic(this._elementPattern)) {
+      return integrateDirectivity(this.computePatternGrid(2, 4, 180));
+    }
+    
+    const k = this.waveNumber;
+    const elements = this.getElementPositions();
+    const { x: ux, y: uy, z: uz } = PhasedArray.direction(peakTheta, peakPhi);
+    
+    let peakReal = 0;
+    let peakImag = 0;
+    let power = 0;
+    elements.forEach((m, i) => {
+      const phase = m.phaseOffset - k * (m.x * ux + m.y * uy + m.z * uz);
+      peakReal += m.amplitude * Math.cos(phase);
+      peakImag += m.amplitude * Math.sin(phase);
+      power += m.amplitude * m.amplitude;
+      // Cross terms, each pair once
+      for (let j = i + 1; j < elements.length; j++) {
+        const n = elements[j];
+        const kr = k * Math.hypot(m.x - n.x, m.y - n.y, m.z - n.z);
+        const sinc = kr > 0 ? Math.sin(kr) / kr : 1;
+        power += 2 * m.amplitude * n.amplitude * Math.cos(m.phaseOffset - n.phaseOffset) * sinc;
+      }
+    });
+    
+    const peak = peakReal * peakReal + peakImag * peakImag;
+    if (peak <= 0 || power <= 0) return 0;
+    return 10 * Math.log10(peak / power);
+  }
+  
+  /**
+   * Sample the front-hemisphere array factor on a square u-v (sine-space) grid,
+   * u = sin θ cos φ and v = sin θ sin φ, both spanning [-extent, extent].
+   * Row 0 is v = +extent. Cells outside the visible region u² + v² > 1 are NaN.
+   * 
+   * @param resolution - Cells per side
+   * @param extent - Half-width of the sampled window in sine space
+   */
+  computeSineSpacePattern(resolution: number, extent: number = 1): Float32Array {
+    const magnitude = new Float32Array(resolution * resolution);
+    const step = (2 * extent) / Math.max(1, resolution - 1);
+    
+    for (let row = 0; row < resolution; row++) {
+      const v = extent - row * step;
+      for (let col = 0; col < resolution; col++) {
+        const angles = PhasedArray.sineSpaceToAngles(-extent + col * step, v);
+        magnitude[row * resolution + col] = angles
+          ? this.computeArrayFactor(angles.theta, angles.phi)
+          : NaN;
+      }
+    }
+    
+    return magnitude;
+  }
+  
+  // ========================================================================
+  // CORE METHODS - Wideband Response
+  // ========================================================================
+  
+  /**
+   * Element excitations cₙ(f) = Aₙ·e^(jφₙ(f)) when the array radiates at
+   * frequency f. Phase shifters hold the phases set at the design frequency
+   * f₀, so the beam squints off θ₀ away from f₀. True time delays scale the
+   * geometric steering (or focusing) phase ψₙ with frequency, keeping the
+   * beam on θ₀; trims and quantization residuals stay fixed phases:
+   * 
+   * Formula: φₙ(f) = φₙ + (f/f₀ − 1)·ψₙ   (true time delay)
+   *          φₙ(f) = φₙ                   (phase shifters)
+   * 
+   * @param frequency - Radiated frequency in Hz (defaults to the design frequency)
+   */
+  computeExcitation(frequency: number = this._frequency): Complex[] {
+    const elements = this.getElementPositions();
+    const focalPoint = this.focalPoint;
+    const delayScale = this._steeringMode === 'ttd' ? frequency / this._frequency - 1 : 0;
+    const geometric = delayScale !== 0
+      ? (focalPoint ? this.computeFocusingPhases(focalPoint) : this.computeSteeringPhases())
+      : null;
+    
+    return elements.map(({ amplitude, phaseOffset }, i) => {
+      const phase = phaseOffset + (geometric ? delayScale * geometric[i] : 0);
+      return { re: amplitude * Math.cos(phase), im: amplitude * Math.sin(phase) };
+    });
+  }
+  
+  /**
+   * Array factor at a frequency other than the design frequency, with the
+   * steering realized according to the steering mode.
+   * 
+   * Formula: AF(θ, φ; f) = |Σ cₙ(f)·vₙ(θ, φ; f)| / Σ|Aₙ|
+   * 
+   * @param thetaDeg - Observation angle in degrees
+   * @param frequency - Radiated frequency in Hz
+   * @param phiDeg - Observation azimuth in degrees
+   * @returns Normalized array factor (0 to 1)
+   */
+  computeArrayFactorAtFrequency(thetaDeg: number, frequency: number, phiDeg: number = 0): number {
+    const excitation = this.computeExcitation(frequency);
+    const amplitudeSum = excitation.reduce((sum, c) => sum + Math.hypot(c.re, c.im), 0);
+    if (amplitudeSum === 0) return 0;
+    
+    const v = this.computeSteeringVector(thetaDeg, phiDeg, frequency);
+    let re = 0;
+    let im = 0;
+    excitation.forEach((c, i) => {
+      const p = mul(c, v[i]);
+      re += p.re;
+      im += p.im;
+    });
+    return Math.min(1, Math.hypot(re, im) / amplitudeSum);
+  }
+  
+  // ========================================================================
+  // CORE METHODS - Quantization
+  // ========================================================================
+  
+  /**
+   * Peak quantization lobe: the largest level of the error pattern between
+   * the quantized excitations c̃ₙ and the ideal ones cₙ over one φ cut,
+   * relative to the quantized main beam.
+   * 
+   * Formula: QL = max_θ |Σ (c̃ₙ − cₙ)·vₙ(θ)| / |Σ c̃ₙ·vₙ(θ₀)|
+   * 
+   * @param angleResolution - Angular step in degrees
+   * @returns Level in dB, or null for ideal (unquantized) hardware
+   */
+  computeQuantizationLobeLevel(angleResolution: number = 0.5): number | null {
+    if (isIdealQuantization(this._quantization)) return null;
+    
+    const idealPhases = this.computeIdealPhaseOffsets();
+    const digital = this.computeDigitalWeights();
+    const quantized = this.getElementPositions().map(({ amplitude, phaseOffset }) => ({
+      re: amplitude * Math.cos(phaseOffset),
+      im: amplitude * Math.sin(phaseOffset),
+    }));
+    const error = quantized.map((c, i) => {
+      const amplitude = this._amplitudes[i] * (digital ? digital.amplitudes[i] : 1);
+      const phase = idealPhases[i] + (digital ? digital.phases[i] : 0);
+      return { re: c.re - amplitude * Math.cos(phase), im: c.im - amplitude * Math.sin(phase) };
+    });
+    // |Σ cₙ·vₙ| for an excitation vector c
+    const response = (excitation: Complex[], v: Complex[]) => {
+      const sum = excitation.reduce((acc, c, i) => {
+        const p = mul(c, v[i]);
+        return { re: acc.re + p.re, im: acc.im + p.im };
+      }, { re: 0, im: 0 });
+      return Math.hypot(sum.re, sum.im);
+    };
+    
+    const beam = response(quantized, this.computeSteeringVector(this._steeringAngle, this._steeringPhi));
+    if (beam === 0) return null;
+    let peak = 0;
+    for (let angle = -180; angle <= 180; angle += angleResolution) {
+      peak = Math.max(peak, response(error, this.computeSteeringVector(angle, this._steeringPhi)));
+    }
+    return peak > 0 ? 20 * Math.log10(peak / beam) : -Infinity;
+  }
+  
+  // ========================================================================
+  // CORE METHODS - Subarrays
+  // ========================================================================
+  
+  /**
+   * Subarray index of every element. Planar grids are partitioned by
+   * column; every element sits in subarray 0 of a fully analog array.
+   */
+  computeSubarrayAssignment(): number[] {
+    if (!this._subarrays) return new Array(this._elements).fill(0);
+    const axis = partitionAxis(this._subarrays, this.axisElements);
+    const byColumn = this._geometry === 'planar-rect' || this._geometry === 'planar-hex';
+    return Array.from({ length: this._elements }, (_, i) => axis[byColumn ? i % this._columns : i]);
+  }
+  
+  /**
+   * Phase center of each subarray (mean element position) relative to the
+   * array center, or null for a subarray without elements.
+   */
+  private computeSubarrayCenters(assignment: number[]): Array<Position3D | null> {
+    const count = this._subarrays ? subarrayCount(this._subarrays, this.axisElements) : 1;
+    const sums = Array.from({ length: count }, () => ({ x: 0, y: 0, z: 0, n: 0 }));
+    this.computeElementCoordinates().forEach((coord, i) => {
+      const sum = sums[assignment[i]];
+      sum.x += coord.x - this._position.x;
+      sum.y += coord.y - this._position.y;
+      sum.z += coord.z;
+      sum.n += 1;
+    });
+    return sums.map(({ x, y, z, n }) => (n > 0 ? { x: x / n, y: y / n, z: z / n } : null));
+  }
+  
+  /**
+   * Digital stage of a hybrid array, expanded to the elements: the digital
+   * taper across subarrays and the phase that moves the beam from the analog
+   * direction û(θₐ) to the digital direction û(θ_d).
+   * 
+   * Formula: bₛ·e^(j·k·(cₛ - c)·(û(θ_d) - û(θₐ)))
+   * where cₛ is the phase center of subarray s
+   * 
+   * Focused arrays keep the digital taper but not the digital steering.
+   * 
+   * @returns Per-element amplitudes and phases, or null without subarrays
+   */
+  private computeDigitalWeights(): { amplitudes: number[]; phases: number[] } | null {
+    if (!this.hasSubarrays) return null;
+    const assignment = this.computeSubarrayAssignment();
+    const centers = this.computeSubarrayCenters(assignment);
+    const taper = generateTaper(this._subarrays!.digitalTaper, centers.length);
+    const k = this.waveNumber;
+    const ud = PhasedArray.direction(this.digitalSteeringAngle, this._steeringPhi);
+    const ua = PhasedArray.direction(this._steeringAngle, this._steeringPhi);
+    const subarrayPhases = centers.map((c) =>
+      c && !this.isFocused
+        ? k * (c.x * (ud.x - ua.x) + c.y * (ud.y - ua.y) + c.z * (ud.z - ua.z))
+        : 0
+    );
+    
+    return {
+      amplitudes: assignment.map((s) => taper[s]),
+      phases: assignment.map((s) => subarrayPhases[s]),
+    };
+  }
+  
+  /**
+   * Grating lobes raised by the subarray lattice in visible space, along the
+   * array axis. Interleaved subarrays repeat with the thinned pitch Q·d
+   * around the analog beam; contiguous (and custom) subarrays repeat with the
+   * mean spacing D of their phase centers around the digital beam. Each
+   * lobe carries the pattern level there: lobes that fall into nulls of the
+   * subarray pattern (digital and analog beams aligned) come out deep.
+   * Only periodic, far-field-steered lattices are considered.
+   */
+  predictSubarrayGratingLobes(): SubarrayLobe[] {
+    if (!this.hasSubarrays || !this.isPeriodicLattice || this.isFocused) return [];
+    const subarrays = this._subarrays!;
+    
+    const withLevels = (lobes: GratingLobe[]): SubarrayLobe[] =>
+      lobes.map((lobe) => {
+        const af = this.computeArrayFactorU(lobe.u);
+        return { ...lobe, levelDb: af > 0 ? 20 * Math.log10(af) : -Infinity };
+      });
+    
+    if (subarrays.partition === 'interleaved') {
+      const count = subarrayCount(subarrays, this.axisElements);
+      const analogU = PhasedArray.direction(this._steeringAngle, this._steeringPhi).x;
+      return withLevels(predictGratingLobes(this.pitchLambdaRatio * count, analogU));
+    }
+    
+    const centers = this.computeSubarrayCenters(this.computeSubarrayAssignment())
+      .filter((c): c is Position3D => c !== null)
+      .map((c) => c.x);
+    if (centers.length < 2) return [];
+    const spacing = (Math.max(...centers) - Math.min(...centers)) / (centers.length - 1);
+    const digitalU = PhasedArray.direction(this.digitalSteeringAngle, this._steeringPhi).x;
+    return withLevels(predictGratingLobes(spacing / this.wavelength, digitalU));
+  }
+  
+  // ========================================================================
+  // CORE METHODS - Multi-Beam
+  // ========================================================================
+  
+  /**
+   * Per-beam excitations: the current weights steered to each beam, scaled
+   * by the beam's share of the total power and rotated by its phase.
+   * 
+   * Formula: cₙ,ᵦ = √(pᵦ/Σp)·e^(jβᵦ)·Aₙ·e^(j(φₙ + ψₙ(θᵦ)))
+   * where φₙ are the phase trims and ψₙ(θᵦ) the steering phases toward beam b
+   */
+  private computeBeamComponents(beams: BeamSpec[]): Complex[][] {
+    const totalPower = beams.reduce((sum, b) => sum + Math.max(0, b.power), 0);
+    if (totalPower <= 0) throw new Error('Beams carry no power');
+    const trims = this.hasPhaseTrims() ? this._phases! : null;
+    
+    return beams.map((beam) => {
+      const gain = Math.sqrt(Math.max(0, beam.power) / totalPower);
+      const beamPhase = (beam.phase * Math.PI) / 180;
+      return this.computeSteeringPhases(beam.steeringAngle).map((psi, n) => {
+        const phase = beamPhase + psi + (trims ? trims[n] : 0);
+        const amplitude = gain * this._amplitudes[n];
+        return { re: amplitude * Math.cos(phase), im: amplitude * Math.sin(phase) };
+      });
+    });
+  }
+  
+  /**
+   * Excitation that radiates all beams at once, by superposing the per-beam
+   * excitations. The sum is peak-normalized, so amplitude limits show up as
+   * a loss of gain on every beam.
+   * 
+   * Formula: cₙ = Σᵦ cₙ,ᵦ
+   * 
+   * @param beams - Beams to form (defaults to the configured beams)
+   * @returns Peak-normalized amplitudes and phase trims relative to steering
+   */
+  computeMultibeamExcitation(beams: BeamSpec[] = this._beams): ArrayExcitation {
+    const components = this.computeBeamComponents(beams);
+    const excitation = this._amplitudes.map((_, n) =>
+      components.reduce((sum, c) => ({ re: sum.re + c[n].re, im: sum.im + c[n].im }), { re: 0, im: 0 })
+    );
+    return weightsToExcitation(excitation.map(conj), this.computeSteeringPhases());
+  }
+  
+  /**
+   * Pattern of each beam's share of the excitation over one φ cut, on the
+   * same scale as the composite pattern (normalized by the composite Σ|cₙ|).
+   * 
+   * @param angleResolution - Angular step in degrees
+   * @param beams - Beams to form (defaults to the configured beams)
+   * @returns One pattern of { angle, magnitude, dB } per beam
+   */
+  generateBeamContributions(
+    angleResolution: number = 1,
+    beams: BeamSpec[] = this._beams
+  ): Array<Array<{ angle: number; magnitude: number; dB: number }>> {
+    const components = this.computeBeamComponents(beams);
+    const compositeSum = this._amplitudes.reduce((sum, _, n) => {
+      const c = components.reduce((acc, b) => ({ re: acc.re + b[n].re, im: acc.im + b[n].im }), { re: 0, im: 0 });
+      return sum + Math.hypot(c.re, c.im);
+    }, 0);
+    
+    const steeringVectors: Array<{ angle: number; v: Complex[] }> = [];
+    for (let angle = -180; angle <= 180; angle += angleResolution) {
+      steeringVectors.push({ angle, v: this.computeSteeringVector(angle, this._steeringPhi) });
+    }
+    
+    return components.map((excitation) =>
+      steeringVectors.map(({ angle, v }) => {
+        const sum = excitation.reduce((acc, c, n) => {
+          const p = mul(c, v[n]);
+          return { re: acc.re + p.re, im: acc.im + p.im };
+        }, { re: 0, im: 0 });
+        const magnitude = compositeSum > 0 ? Math.min(1, Math.hypot(sum.re, sum.im) / compositeSum) : 0;
+        const dB = magnitude > 0 ? Math.max(-40, 20 * Math.log10(magnitude)) : -40;
+        return { angle, magnitude, dB };
+      })
+    );
+  }
+  
+  /**
+   * Gain toward each configured beam with the current (realized) weights,
+   * relative to the largest array gain the aperture can reach there. A lone
+   * uniform beam scores 0 dB; splitting the power costs 10·log10(pᵦ/Σp) and
+   * the rest of the loss comes from tapering and the beams' mutual coupling.
+   * 
+   * Formula: Lᵦ = |Σ cₙ·vₙ(θᵦ)|² / (Σ|cₙ|²·Σ|vₙ(θᵦ)|²)
+   */
+  computeBeamGains(): BeamGain[] {
+    const totalPower = this._beams.reduce((sum, b) => sum + Math.max(0, b.power), 0);
+    const excitation = this.getElementPositions().map(({ amplitude, phaseOffset }) => ({
+      re: amplitude * Math.cos(phaseOffset),
+      im: amplitude * Math.sin(phaseOffset),
+    }));
+    const excitationPower = excitation.reduce((sum, c) => sum + c.re * c.re + c.im * c.im, 0);
+    const toDb = (ratio: number) => (ratio > 0 ? 10 * Math.log10(ratio) : -Infinity);
+    
+    return this._beams.map((beam) => {
+      const v = this.computeSteeringVector(beam.steeringAngle, this._steeringPhi);
+      const response = excitation.reduce((acc, c, n) => {
+        const p = mul(c, v[n]);
+        return { re: acc.re + p.re, im: acc.im + p.im };
+      }, { re: 0, im: 0 });
+      const manifoldPower = v.reduce((sum, c) => sum + c.re * c.re + c.im * c.im, 0);
+      const bound = excitationPower * manifoldPower;
+      return {
+        steeringAngle: beam.steeringAngle,
+        lossDb: toDb(bound > 0 ? (response.re ** 2 + response.im ** 2) / bound : 0),
+        splitLossDb: toDb(totalPower > 0 ? Math.max(0, beam.power) / totalPower : 0),
+      };
+    });
+  }
+  
+  // ========================================================================
+  // CORE METHODS - Null Steering
+  // ========================================================================
+  
+  /**
+   * Excitation that places pattern nulls at the given directions (in the
+   * steering φ cut) with the smallest change to the current weights.
+   * 
+   * This is the closed-form LCMV solution around the quiescent weights w_q:
+   * the look direction keeps its response and each null direction is driven
+   * to its target response f, so with the constraint matrix C = [a₀, a₁, …]
+   * 
+   * Formula: w = w_q + C·(CᴴC)⁻¹·(f − Cᴴw_q)
+   * 
+   * A full null (no depth) targets zero, which is the projection of w_q onto
+   * the complement of the null steering vectors. A depth target scales the
+   * current response down to depthDb below the look direction, keeping its
+   * phase; responses already below the target are left alone.
+   * 
+   * @param nulls - Null constraints (defaults to the configured nulls)
+   * @returns Peak-normalized amplitudes and phase trims relative to steering
+   */
+  computeNullSteeringExcitation(nulls: NullConstraint[] = this._nulls): ArrayExcitation {
+    // Quiescent weights w = conj(c) from the current excitations cₙ = Aₙ·e^(jφₙ)
+    const quiescent: ComplexVector = this.getElementPositions().map(({ amplitude, phaseOffset }) => ({
+      re: amplitude * Math.cos(phaseOffset),
+      im: -amplitude * Math.sin(phaseOffset),
+    }));
+    const focalPoint = this.focalPoint;
+    const steeringPhases = focalPoint ? this.computeFocusingPhases(focalPoint) : this.computeSteeringPhases();
+    if (nulls.length === 0) return weightsToExcitation(quiescent, steeringPhases);
+    
+    const look = this.computeSteeringVector(this._steeringAngle, this._steeringPhi);
+    const constraints = [look, ...nulls.map((n) => this.computeSteeringVector(n.angle, this._steeringPhi))];
+    
+    // Current responses Cᴴw_q and their targets f
+    const responses = constraints.map((a) => innerProduct(a, quiescent));
+    const lookMagnitude = Math.hypot(responses[0].re, responses[0].im);
+    const targets = responses.map((r, i) => {
+      if (i === 0) return r;
+      const depthDb = nulls[i - 1].depthDb;
+      if (depthDb === undefined) return { re: 0, im: 0 };
+      const magnitude = Math.hypot(r.re, r.im);
+      const scale = magnitude > 0 ? Math.min(1, (lookMagnitude * 10 ** (depthDb / 20)) / magnitude) : 1;
+      return { re: r.re * scale, im: r.im * scale };
+    });
+    
+    // Gram matrix CᴴC, lightly loaded so that coincident constraints stay solvable
+    const loading = 1e-9 * this._elements;
+    const gram = constraints.map((a, i) =>
+      constraints.map((b, j) => {
+        const g = innerProduct(a, b);
+        return i === j ? { re: g.re + loading, im: g.im } : g;
+      })
+    );
+    const alpha = solveLinearSystem(
+      gram,
+      targets.map((t, i) => ({ re: t.re - responses[i].re, im: t.im - responses[i].im }))
+    );
+    
+    const weights = quiescent.map((w, n) =>
+      constraints.reduce((sum, a, k) => {
+        const step = mul(a[n], alpha[k]);
+        return { re: sum.re + step.re, im: sum.im + step.im };
+      }, w)
+    );
+    return weightsToExcitation(weights, steeringPhases);
+  }
+  
   // ========================================================================
   // CORE METHODS - Field Computation
   // ========================================================================
   
   /**
-   * Compute the complex field contribution at a point (x, y).
+   * Amplitude factor of one element's field at a range, from the spreading
+   * model and the medium's absorption at the array frequency.
+   * 
+   * @param distance - Range from the element in meters
+   * @returns Field scale factor (1 without propagation losses)
+   */
+  computePropagationGain(distance: number): number {
+    if (isLossless(this._propagation)) return 1;
+    return propagationGain(this._propagation, distance, this.attenuationDbPerMeter);
+  }
+  
+  /**
+   * Compute the complex field contribution at a point (x, y), including the
+   * spreading and absorption of the propagation model.
    * Used for interference pattern calculation.
    * 
    * @param x - X coordinate in meters
    * @param y - Y coordinate in meters
+   * @param z - Z coordinate in meters (0 = the x–y simulation plane)
    * @returns Complex field { real, imag }
    */
-  computeFieldAt(x: number, y: number): { real: number; imag: number } {
+  computeFieldAt(x: number, y: number, z: number = 0): { real: number; imag: number } {
+    return this.sumElementFields(x, y, z, true);
+  }
+  
+  // Phasor sum of the elements at a point, with or without propagation losses
+  private sumElementFields(
+    x: number,
+    y: number,
+    z: number,
+    withPropagation: boolean
+  ): { real: number; imag: number } {
     const elements = this.getElementPositions();
     const k = this.waveNumber;
+    const attenuation = this.attenuationDbPerMeter;
+    const lossless = !withPropagation || isLossless(this._propagation);
     
     let realSum = 0;
     let imagSum = 0;
@@ -423,14 +1545,18 @@ export class PhasedArray {
       // Distance from point to this element
       const dx = x - element.x;
       const dy = y - element.y;
-      const distance = Math.sqrt(dx * dx + dy * dy);
+      const dz = z - element.z;
+      const distance = Math.sqrt(dx * dx + dy * dy + dz * dz);
       
       // Phase: k * distance + element phase offset
       const phase = k * distance + element.phaseOffset;
       
-      // Add phasor: A * e^(j*phase)
-      realSum += element.amplitude * Math.cos(phase);
-      imagSum += element.amplitude * Math.sin(phase);
+      // Add phasor: A * g(direction) * g(range) * e^(j*phase)
+      const weight = element.amplitude
+        * this.computeElementGain(element.orientation, dx, dy, distance)
+        * (lossless ? 1 : propagationGain(this._propagation, distance, attenuation));
+      realSum += weight * Math.cos(phase);
+      imagSum += weight * Math.sin(phase);
     }
     
     return { real: realSum, imag: imagSum };
@@ -441,10 +1567,11 @@ export class PhasedArray {
    * 
    * @param x - X coordinate in meters
    * @param y - Y coordinate in meters
+   * @param z - Z coordinate in meters
    * @returns Intensity value
    */
-  computeIntensityAt(x: number, y: number): number {
-    const field = this.computeFieldAt(x, y);
+  computeIntensityAt(x: number, y: number, z: number = 0): number {
+    const field = this.computeFieldAt(x, y, z);
     return field.real * field.real + field.imag * field.imag;
   }
   
@@ -465,9 +1592,23 @@ export class PhasedArray {
       pitch: this._pitch,
       geometry: this._geometry,
       curvatureRadius: this._curvatureRadius,
+      rows: this._rows,
+      columns: this._columns,
+      ringRadius: this._ringRadius,
       frequency: this._frequency,
       steeringAngle: this._steeringAngle,
+      steeringPhi: this._steeringPhi,
+      focusDistance: this._focusDistance ?? undefined,
       amplitudes: [...this._amplitudes],
+      phases: this._phases ? [...this._phases] : undefined,
+      taper: this._taper ? { ...this._taper } : undefined,
+      elementPattern: this._elementPattern ? { ...this._elementPattern } : undefined,
+      nulls: this._nulls.length > 0 ? this.nulls : undefined,
+      quantization: this.quantization,
+      steeringMode: this._steeringMode,
+      beams: this._beams.length > 0 ? this.beams : undefined,
+      subarrays: this.subarrays,
+      cell: this.cell,
       enabled: this._enabled,
     };
   }
@@ -476,8 +1617,12 @@ export class PhasedArray {
    * Create a PhasedArray instance from a config object.
    * Factory method for instantiation from stored configs.
    */
-  static fromConfig(config: PhasedArrayConfig, medium: string = 'air'): PhasedArray {
-    return new PhasedArray(config, medium);
+  static fromConfig(
+    config: PhasedArrayConfig,
+    medium: string = 'air',
+    propagation: PropagationConfig = DEFAULT_PROPAGATION
+  ): PhasedArray {
+    return new PhasedArray(config, medium, propagation);
   }
   
   /**
@@ -495,14 +1640,95 @@ export class PhasedArray {
       frequency: 10000,
       steeringAngle: 0,
       amplitudes: new Array(8).fill(1),
+      taper: { type: 'uniform' },
       enabled: true,
     };
   }
   
+  /**
+   * Unit direction û(θ, φ) = (sin θ cos φ, −cos θ, sin θ sin φ) for angles in degrees.
+   */
+  static direction(thetaDeg: number, phiDeg: number = 0): Position3D {
+    const theta = (thetaDeg * Math.PI) / 180;
+    const phi = (phiDeg * Math.PI) / 180;
+    return {
+      x: Math.sin(theta) * Math.cos(phi),
+      y: -Math.cos(theta),
+      z: Math.sin(theta) * Math.sin(phi),
+    };
+  }
+  
+  /**
+   * Front-hemisphere angles (degrees) of a sine-space point, or null outside
+   * the visible region u² + v² ≤ 1.
+   */
+  static sineSpaceToAngles(u: number, v: number): { theta: number; phi: number } | null {
+    const sinTheta = Math.hypot(u, v);
+    if (sinTheta > 1) return null;
+    return {
+      theta: (Math.asin(sinTheta) * 180) / Math.PI,
+      phi: (Math.atan2(v, u) * 180) / Math.PI,
+    };
+  }
+  
+  /**
+   * Number of elements a configuration describes: rows × columns for planar
+   * grids, otherwise the (clamped) element count.
+   */
+  static elementCount(
+    config: Pick<PhasedArrayConfig, 'geometry' | 'elements' | 'rows' | 'columns'>
+  ): number {
+    if (config.geometry === 'planar-rect' || config.geometry === 'planar-hex') {
+      return PhasedArray.clampRows(config.rows) * PhasedArray.clampColumns(config.columns);
+    }
+    return Math.max(2, Math.min(256, config.elements));
+  }
+  
+  /**
+   * Taper amplitudes for a configuration. Planar grids use the outer product
+   * of row and column tapers; rings are uniform.
+   */
+  static generateAmplitudes(
+    config: Pick<PhasedArrayConfig, 'geometry' | 'elements' | 'rows' | 'columns' | 'taper'>
+  ): number[] {
+    const count = PhasedArray.elementCount(config);
+    switch (config.geometry) {
+      case 'planar-rect':
+      case 'planar-hex': {
+        const rowWeights = generateTaper(config.taper, PhasedArray.clampRows(config.rows));
+        const columnWeights = generateTaper(config.taper, PhasedArray.clampColumns(config.columns));
+        return rowWeights.flatMap((r) => columnWeights.map((c) => r * c));
+      }
+      case 'ring':
+        return new Array(count).fill(1);
+      default:
+        return generateTaper(config.taper, count);
+    }
+  }
+  
+  private static clampRows(rows: number | undefined): number {
+    return Math.max(1, Math.min(16, Math.round(rows ?? 4)));
+  }
+  
+  private static clampColumns(columns: number | undefined): number {
+    return Math.max(2, Math.min(16, Math.round(columns ?? 4)));
+  }
+  
+  /**
+   * Map stored focus values (undefined, null from JSON, 0, Infinity) to a
+   * finite focal range or null for far-field steering.
+   */
+  static normalizeFocusDistance(distance: number | null | undefined): number | null {
+    return typeof distance === 'number' && Number.isFinite(distance) && distance > 0
+      ? distance
+      : null;
+  }
+  
   /**
    * Clear all cached computations.
    */
   clearCache(): void {
+    this._coordinatesCache = null;
     this._elementPositionsCache = null;
     this._phaseOffsetsCache = null;
     this._lastSteeringAngle = null;
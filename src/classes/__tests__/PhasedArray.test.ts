@@ -0,0 +1,552 @@
+import { describe, expect, it } from 'vitest'
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeTestArray, makeUnitConfig } from '@/test/fixtures'
+import { generateTaper } from '@/dsp/tapers'
+import { DEFAULT_QUANTIZATION } from '@/dsp/quantization'
+import { computeDirectivity } from '@/dsp/beamAnalysis'
+
+const angles = Array.from({ length: 181 }, (_, i) => i - 90)
+
+describe('PhasedArray array factor', () => {
+  it.each([0, 20, -35, 60])('closed form and element sum agree for a ULA steered to %i°', (steeringAngle) => {
+    for (const pitch of [0.0172, 0.03]) {
+      const array = makeTestArray({ steeringAngle, pitch, elements: 12 })
+      angles.forEach((angle) => {
+        expect(array.computeElementArrayFactor(angle)).toBeCloseTo(
+          array.computeUniformLinearArrayFactor(angle),
+          6
+        )
+      })
+    }
+  })
+
+  it('sums over elements when the amplitudes are tapered', () => {
+    const taper = { type: 'chebyshev' as const, sidelobeLevel: -30 }
+    const tapered = makeTestArray({ elements: 16, taper, amplitudes: generateTaper(taper, 16) })
+    const uniform = makeTestArray({ elements: 16 })
+
+    expect(tapered.computeArrayFactor(0)).toBeCloseTo(1, 6)
+    // Uniform first sidelobe sits near -13 dB; the taper pushes it down to -30 dB
+    const sidelobeAngle = (Math.asin(1.43 / 8) * 180) / Math.PI
+    expect(uniform.computeArrayFactorDb(sidelobeAngle)).toBeGreaterThan(-14)
+    expect(tapered.computeArrayFactorDb(sidelobeAngle)).toBeLessThan(-25)
+  })
+
+  it('uses the arc positions of curved arrays', () => {
+    const linear = makeTestArray({ elements: 16, pitch: 0.02 })
+    const curved = makeTestArray({ elements: 16, pitch: 0.02, geometry: 'curved', curvatureRadius: 0.1 })
+
+    angles.forEach((angle) => {
+      expect(curved.computeArrayFactor(angle)).toBeCloseTo(curved.computeArrayFactor(-angle), 6)
+    })
+    const differs = angles.some(
+      (angle) => Math.abs(curved.computeArrayFactor(angle) - linear.computeArrayFactor(angle)) > 0.05
+    )
+    expect(differs).toBe(true)
+  })
+
+  it('matches the far-field limit of computeFieldAt', () => {
+    const array = makeTestArray({ elements: 8, steeringAngle: 25, taper: { type: 'hann' } })
+    const distance = 1000 * array.wavelength
+    const amplitudeSum = array.amplitudes.reduce((sum, a) => sum + a, 0)
+
+    for (const angle of [-60, -10, 0, 25, 40]) {
+      const rad = (angle * Math.PI) / 180
+      const field = array.computeFieldAt(distance * Math.sin(rad), -distance * Math.cos(rad))
+      const magnitude = Math.hypot(field.real, field.imag) / amplitudeSum
+      expect(magnitude).toBeCloseTo(array.computeArrayFactor(angle), 2)
+    }
+  })
+
+  it('regenerates amplitudes from the taper when the element count changes', () => {
+    const array = makeTestArray({ elements: 8, taper: { type: 'hamming' } })
+    array.elements = 12
+    expect(array.amplitudes).toEqual(generateTaper({ type: 'hamming' }, 12))
+  })
+})
+
+describe('PhasedArray near-field focusing', () => {
+  it('places the focal point at (steeringAngle, focusDistance) from the array center', () => {
+    const array = makeTestArray({ position: { x: 0.1, y: 0.2 }, steeringAngle: 30, focusDistance: 0.4 })
+    const focal = array.focalPoint
+    expect(focal?.x).toBeCloseTo(0.1 + 0.4 * Math.sin(Math.PI / 6), 9)
+    expect(focal?.y).toBeCloseTo(0.2 - 0.4 * Math.cos(Math.PI / 6), 9)
+  })
+
+  it.each(['linear', 'curved'] as const)('brings every %s element into phase at the focus', (geometry) => {
+    const array = makeTestArray({
+      elements: 24,
+      pitch: 0.01,
+      geometry,
+      curvatureRadius: 0.15,
+      steeringAngle: -20,
+      focusDistance: 0.25,
+    })
+    expect(array.computeFocalGain()).toBeCloseTo(10 * Math.log10(24), 6)
+
+    const focal = array.focalPoint!
+    const peak = array.computeIntensityAt(focal.x, focal.y)
+    for (const [dx, dy] of [[0.03, 0], [-0.03, 0], [0, 0.05], [0, -0.05]]) {
+      expect(array.computeIntensityAt(focal.x + dx, focal.y + dy)).toBeLessThan(peak)
+    }
+  })
+
+  it('treats missing, zero and infinite focus distances as far-field steering', () => {
+    for (const focusDistance of [undefined, 0, Infinity]) {
+      const array = makeTestArray({ focusDistance })
+      expect(array.isFocused).toBe(false)
+      expect(array.computeFocalGain()).toBeNull()
+    }
+    expect(PhasedArray.normalizeFocusDistance(null)).toBeNull()
+  })
+})
+
+describe('PhasedArray geometry-correct steering', () => {
+  const peakAngle = (array: PhasedArray) => {
+    const pattern = array.generateBeamPattern(0.5).filter(({ angle }) => Math.abs(angle) <= 90)
+    return pattern.reduce((best, p) => (p.magnitude > best.magnitude ? p : best)).angle
+  }
+
+  it.each([-50, -10, 30, 60])('steers a convex array to %i° from its arc positions', (steeringAngle) => {
+    const array = makeTestArray({
+      elements: 32,
+      pitch: 0.01,
+      geometry: 'curved',
+      curvatureRadius: 0.12,
+      steeringAngle,
+    })
+    expect(peakAngle(array)).toBeCloseTo(steeringAngle, 0)
+    expect(array.computeArrayFactor(steeringAngle)).toBeCloseTo(1, 6)
+  })
+
+  it('reduces to a progressive phase shift for linear arrays', () => {
+    const array = makeTestArray({ elements: 6, steeringAngle: 25 })
+    const phases = array.computePhaseOffsets()
+    const expectedStep = array.waveNumber * array.pitch * Math.sin((25 * Math.PI) / 180)
+    for (let n = 1; n < phases.length; n += 1) {
+      expect(phases[n] - phases[n - 1]).toBeCloseTo(expectedStep, 9)
+    }
+  })
+})
+
+describe('PhasedArray element patterns', () => {
+  const cosine = { type: 'cosine' as const, exponent: 1.5 }
+
+  it('multiplies the element pattern into the steered array factor', () => {
+    const array = makeTestArray({ elements: 12, steeringAngle: 40, elementPattern: cosine })
+    const expectedScanLoss = Math.pow(Math.cos((40 * Math.PI) / 180), 1.5)
+    expect(array.computeArrayFactor(40)).toBeCloseTo(expectedScanLoss, 6)
+    angles.forEach((angle) => {
+      expect(array.computeArrayFactor(angle)).toBeCloseTo(array.computeElementArrayFactor(angle), 6)
+    })
+  })
+
+  it('suppresses radiation behind directive elements in the far and near field', () => {
+    const array = makeTestArray({ elements: 8, elementPattern: cosine })
+    expect(array.computeArrayFactor(180)).toBe(0)
+    expect(array.computeIntensityAt(0.05, 0.5)).toBe(0)
+    expect(array.computeIntensityAt(0.05, -0.5)).toBeGreaterThan(0)
+  })
+
+  it('places the baffled piston null where k·w/2·sin θ = π', () => {
+    const reference = makeTestArray()
+    const array = makeTestArray({ elementPattern: { type: 'piston', width: reference.wavelength } })
+    expect(array.computeElementPattern(0)).toBeCloseTo(1, 9)
+    expect(array.computeElementPattern(90)).toBeCloseTo(0, 9)
+    expect(array.computeElementPattern(30)).toBeCloseTo(2 / Math.PI, 9)
+  })
+
+  it('radiates a dipole pattern equally to the front and back', () => {
+    const array = makeTestArray({ elementPattern: { type: 'dipole' } })
+    expect(array.computeElementPattern(0)).toBeCloseTo(1, 9)
+    expect(array.computeElementPattern(30)).toBeCloseTo(array.computeElementPattern(150), 9)
+    expect(array.computeElementPattern(90)).toBeCloseTo(0, 9)
+  })
+
+  it('orients curved elements along the arc normal', () => {
+    const config = { elements: 32, pitch: 0.01, steeringAngle: 60, elementPattern: cosine }
+    const linear = makeTestArray(config)
+    const curved = makeTestArray({ ...config, geometry: 'curved', curvatureRadius: 0.1 })
+
+    const orientations = curved.getElementPositions().map((e) => e.orientation)
+    expect(orientations[0]).toBeLessThan(0)
+    expect(orientations[31]).toBeCloseTo(-orientations[0], 9)
+    expect(curved.computeArrayFactor(60)).toBeGreaterThan(linear.computeArrayFactor(60))
+  })
+})
+
+describe('PhasedArray planar and ring geometries', () => {
+  const gridPeak = (array: PhasedArray) => {
+    const grid = array.computePatternGrid(1, 2, 90)
+    let best = 0
+    grid.magnitude.forEach((value, idx) => {
+      if (value > grid.magnitude[best]) best = idx
+    })
+    return {
+      theta: grid.theta[best % grid.theta.length],
+      phi: grid.phi[Math.floor(best / grid.theta.length)],
+    }
+  }
+
+  it('lays out rows × columns in the x–z plane', () => {
+    const array = makeTestArray({ geometry: 'planar-rect', rows: 4, columns: 6, elements: 8 })
+    const positions = array.getElementPositions()
+    expect(array.elements).toBe(24)
+    expect(array.amplitudes).toHaveLength(24)
+    positions.forEach((p) => expect(p.y).toBe(0))
+    expect(new Set(positions.map((p) => p.z.toFixed(6))).size).toBe(4)
+    expect(positions[6].x - positions[0].x).toBeCloseTo(0, 9)
+    expect(positions[6].z - positions[0].z).toBeCloseTo(array.pitch, 9)
+  })
+
+  it('offsets alternate hex rows by half a pitch', () => {
+    const array = makeTestArray({ geometry: 'planar-hex', rows: 3, columns: 5 })
+    const positions = array.getElementPositions()
+    expect(positions[5].x - positions[0].x).toBeCloseTo(array.pitch / 2, 9)
+    expect(positions[5].z - positions[0].z).toBeCloseTo((array.pitch * Math.sqrt(3)) / 2, 9)
+  })
+
+  it('reduces to the linear pattern in the φ = 0 cut of a rectangular array', () => {
+    const planar = makeTestArray({ geometry: 'planar-rect', rows: 3, columns: 8, steeringAngle: 25 })
+    const linear = makeTestArray({ elements: 8, steeringAngle: 25 })
+    angles.forEach((angle) => {
+      expect(planar.computeArrayFactor(angle, 0)).toBeCloseTo(linear.computeArrayFactor(angle), 6)
+    })
+  })
+
+  it.each([
+    ['planar-rect', 30, 60],
+    ['planar-hex', 20, -120],
+    ['ring', 40, 150],
+  ] as const)('steers a %s array to θ = %i°, φ = %i°', (geometry, steeringAngle, steeringPhi) => {
+    const array = makeTestArray({ geometry, rows: 8, columns: 8, elements: 24, steeringAngle, steeringPhi })
+    expect(array.computeArrayFactor(steeringAngle, steeringPhi)).toBeCloseTo(1, 6)
+    const peak = gridPeak(array)
+    expect(Math.abs(peak.theta - steeringAngle)).toBeLessThanOrEqual(2)
+    expect(Math.abs(peak.phi - steeringPhi)).toBeLessThanOrEqual(2)
+  })
+
+  it('samples the full θ×φ grid from computeArrayFactor', () => {
+    const array = makeTestArray({ geometry: 'planar-rect', rows: 4, columns: 4, steeringAngle: 15 })
+    const grid = array.computePatternGrid(10, 30, 180)
+    expect(grid.theta).toHaveLength(19)
+    expect(grid.phi).toEqual(Array.from({ length: 13 }, (_, j) => -180 + j * 30))
+    expect(grid.magnitude[4 * 19 + 7]).toBeCloseTo(array.computeArrayFactor(70, -60), 6)
+  })
+
+  it('applies separable row and column tapers to planar grids', () => {
+    const taper = { type: 'hann' as const }
+    const array = makeTestArray({ geometry: 'planar-rect', rows: 3, columns: 4, taper })
+    const rows = generateTaper(taper, 3)
+    const columns = generateTaper(taper, 4)
+    expect(array.amplitudes).toEqual(rows.flatMap((r) => columns.map((c) => r * c)))
+  })
+})
+
+describe('PhasedArray sine-space pattern', () => {
+  it('maps u-v points back to the direction they came from', () => {
+    const angles = PhasedArray.sineSpaceToAngles(0.3, -0.4)
+    expect(angles).not.toBeNull()
+    const u = PhasedArray.direction(angles!.theta, angles!.phi)
+    expect(u.x).toBeCloseTo(0.3, 9)
+    expect(u.z).toBeCloseTo(-0.4, 9)
+    expect(PhasedArray.sineSpaceToAngles(0.8, 0.8)).toBeNull()
+  })
+
+  it('peaks at the steering direction and masks the invisible region', () => {
+    const array = makeTestArray({ geometry: 'planar-rect', rows: 8, columns: 8, steeringAngle: 30, steeringPhi: 90 })
+    const resolution = 41
+    const pattern = array.computeSineSpacePattern(resolution)
+
+    expect(Number.isNaN(pattern[0])).toBe(true)
+    let peak = 20 * resolution + 20
+    pattern.forEach((value, idx) => {
+      if (value > pattern[peak]) peak = idx
+    })
+    // sin 30° = 0.5 along +v: column 20 (u = 0), row 10 (v = 0.5)
+    expect(peak).toBe(10 * resolution + 20)
+    expect(pattern[peak]).toBeCloseTo(1, 6)
+  })
+})
+
+describe('PhasedArray u-space array factor', () => {
+  it('matches the angular pattern in visible space and repeats every λ/d', () => {
+    const array = makeTestArray({ elements: 10, pitch: 0.025, steeringAngle: 15 })
+    const period = 1 / array.pitchLambdaRatio
+
+    for (const angle of [-60, -20, 0, 15, 45]) {
+      const u = Math.sin((angle * Math.PI) / 180)
+      expect(array.computeArrayFactorU(u)).toBeCloseTo(array.computeArrayFactor(angle), 6)
+      expect(array.computeArrayFactorU(u + period)).toBeCloseTo(array.computeArrayFactorU(u), 6)
+    }
+  })
+
+  it('only predicts grating lobes for periodic lattices', () => {
+    const pitch = 0.04
+    expect(makeTestArray({ pitch, steeringAngle: 30 }).predictGratingLobes().length).toBeGreaterThan(0)
+    expect(makeTestArray({ pitch, steeringAngle: 30, geometry: 'ring' }).predictGratingLobes()).toEqual([])
+  })
+})
+
+describe('PhasedArray phase trims and steering vector', () => {
+  it('adds phase trims to the steering phases', () => {
+    const phases = Array.from({ length: 8 }, (_, i) => 0.3 * i)
+    const plain = makeTestArray()
+    const trimmed = makeTestArray({ phases })
+
+    trimmed.computePhaseOffsets().forEach((phase, i) => {
+      expect(phase).toBeCloseTo(plain.computePhaseOffsets()[i] + phases[i], 10)
+    })
+    // A linear trim steers the uniform array off broadside
+    expect(trimmed.computeArrayFactor(0)).toBeLessThan(0.99)
+  })
+
+  it('reproduces the array factor from the steering vector', () => {
+    const array = makeTestArray({ elements: 10, steeringAngle: 25, geometry: 'curved', curvatureRadius: 0.08 })
+    const excitation = array.getElementPositions().map((e) => ({
+      re: e.amplitude * Math.cos(e.phaseOffset),
+      im: e.amplitude * Math.sin(e.phaseOffset),
+    }))
+    const amplitudeSum = array.amplitudes.reduce((sum, a) => sum + Math.abs(a), 0)
+
+    for (const angle of [-50, 0, 25, 70]) {
+      const v = array.computeSteeringVector(angle)
+      const re = excitation.reduce((sum, c, i) => sum + c.re * v[i].re - c.im * v[i].im, 0)
+      const im = excitation.reduce((sum, c, i) => sum + c.re * v[i].im + c.im * v[i].re, 0)
+      expect(Math.hypot(re, im) / amplitudeSum).toBeCloseTo(array.computeArrayFactor(angle), 6)
+    }
+  })
+})
+
+describe('PhasedArray null steering', () => {
+  const withNulls = (array: PhasedArray, nulls: PhasedArrayConfig['nulls']) =>
+    new PhasedArray({ ...array.toConfig(), ...array.computeNullSteeringExcitation(nulls) }, 'air')
+
+  it('places full nulls at the requested angles and keeps the main beam', () => {
+    const array = makeTestArray({ elements: 16, steeringAngle: 10 })
+    const nulled = withNulls(array, [{ angle: -30 }, { angle: 45 }])
+
+    expect(nulled.computeArrayFactorDb(-30, -300)).toBeLessThan(-100)
+    expect(nulled.computeArrayFactorDb(45, -300)).toBeLessThan(-100)
+    expect(nulled.computeArrayFactorDb(10)).toBeGreaterThan(-1)
+  })
+
+  it('limits partial nulls to the requested depth below the look direction', () => {
+    const array = makeTestArray({ elements: 16 })
+    const nulled = withNulls(array, [{ angle: 20, depthDb: -40 }])
+    const peak = nulled.computeArrayFactorDb(0, -300)
+
+    expect(nulled.computeArrayFactorDb(20, -300) - peak).toBeCloseTo(-40, 3)
+  })
+
+  it('leaves the weights unchanged without nulls', () => {
+    const taper = { type: 'hamming' as const }
+    const array = makeTestArray({ elements: 12, taper, amplitudes: generateTaper(taper, 12), steeringAngle: -20 })
+    const excitation = array.computeNullSteeringExcitation([])
+
+    excitation.amplitudes.forEach((a, i) => expect(a).toBeCloseTo(array.amplitudes[i] / Math.max(...array.amplitudes), 10))
+    excitation.phases.forEach((phase) => expect(phase).toBeCloseTo(0, 10))
+  })
+})
+
+describe('PhasedArray quantization', () => {
+  it('applies n-bit phase states in computePhaseOffsets', () => {
+    const quantization = { ...DEFAULT_QUANTIZATION, phaseBits: 3 }
+    const array = makeTestArray({ elements: 16, steeringAngle: 17, quantization })
+    const step = Math.PI / 4
+
+    array.computePhaseOffsets().forEach((phase) => {
+      expect(Math.abs(phase / step - Math.round(phase / step))).toBeLessThan(1e-9)
+    })
+    expect(array.toConfig().quantization).toEqual(quantization)
+  })
+
+  it('reports quantization lobes near the −6 dB per bit prediction', () => {
+    const ideal = makeTestArray({ elements: 32, steeringAngle: 17 })
+    const quantized = makeTestArray({ elements: 32, steeringAngle: 17, quantization: { ...DEFAULT_QUANTIZATION, phaseBits: 3 } })
+
+    expect(ideal.computeQuantizationLobeLevel()).toBeNull()
+    const level = quantized.computeQuantizationLobeLevel()!
+    expect(level).toBeLessThan(-12)
+    expect(level).toBeGreaterThan(-24)
+    // The quantized pattern no longer follows the ideal closed form
+    expect(quantized.computeArrayFactor(-40)).not.toBeCloseTo(ideal.computeArrayFactor(-40), 4)
+  })
+})
+
+describe('PhasedArray wideband response', () => {
+  it('matches the narrowband array factor at the design frequency in both steering modes', () => {
+    for (const steeringMode of ['phase', 'ttd'] as const) {
+      const array = makeTestArray({ elements: 12, steeringAngle: 25, steeringMode, taper: { type: 'hann' } })
+      for (const angle of [-60, 0, 25, 50]) {
+        expect(array.computeArrayFactorAtFrequency(angle, array.frequency)).toBeCloseTo(array.computeArrayFactor(angle), 9)
+      }
+      expect(array.toConfig().steeringMode).toBe(steeringMode)
+    }
+  })
+
+  it('keeps true-time-delay gain toward θ₀ across frequency', () => {
+    const phase = makeTestArray({ elements: 16, steeringAngle: 40 })
+    const ttd = makeTestArray({ elements: 16, steeringAngle: 40, steeringMode: 'ttd' })
+    const offBand = phase.frequency * 1.2
+
+    expect(ttd.computeArrayFactorAtFrequency(40, offBand)).toBeCloseTo(1, 9)
+    expect(phase.computeArrayFactorAtFrequency(40, offBand)).toBeLessThan(0.7)
+  })
+})
+
+describe('PhasedArray multi-beam', () => {
+  const twoBeams = [
+    { steeringAngle: -30, power: 1, phase: 0 },
+    { steeringAngle: 30, power: 1, phase: 0 },
+  ]
+
+  it('reduces to the steered weights for a single beam', () => {
+    const taper = { type: 'hamming' as const }
+    const array = makeTestArray({ elements: 12, taper, amplitudes: generateTaper(taper, 12), steeringAngle: 10 })
+    const excitation = array.computeMultibeamExcitation([{ steeringAngle: 10, power: 2, phase: 0 }])
+
+    excitation.amplitudes.forEach((a, i) => expect(a).toBeCloseTo(array.amplitudes[i] / Math.max(...array.amplitudes), 10))
+    excitation.phases.forEach((phase) => expect(phase).toBeCloseTo(0, 10))
+  })
+
+  it('splits the gain evenly between two equal beams', () => {
+    const stored = makeTestArray({ elements: 16, steeringAngle: -30, beams: twoBeams })
+    const array = makeTestArray({ elements: 16, steeringAngle: -30, beams: twoBeams, ...stored.computeMultibeamExcitation() })
+
+    expect(array.isMultibeam).toBe(true)
+    expect(array.computeArrayFactor(-30)).toBeCloseTo(array.computeArrayFactor(30), 6)
+    expect(array.computeArrayFactor(-30)).toBeGreaterThan(5 * array.computeArrayFactor(0))
+
+    const gains = array.computeBeamGains()
+    expect(gains).toHaveLength(2)
+    gains.forEach(({ lossDb, splitLossDb }) => {
+      expect(splitLossDb).toBeCloseTo(-3.01, 2)
+      // Peak normalization of the summed weights costs a little on top of the split
+      expect(lossDb).toBeLessThan(splitLossDb + 0.1)
+      expect(lossDb).toBeGreaterThan(splitLossDb - 1.5)
+    })
+  })
+
+  it('draws per-beam contributions that peak at their own beams', () => {
+    const array = makeTestArray({ elements: 16, steeringAngle: -30, beams: [twoBeams[0], { ...twoBeams[1], power: 0.25 }] })
+    const contributions = array.generateBeamContributions(1)
+    const peakAngle = (pattern: Array<{ angle: number; magnitude: number }>) =>
+      pattern.filter((p) => Math.abs(p.angle) <= 90).reduce((best, p) => (p.magnitude > best.magnitude ? p : best)).angle
+
+    expect(contributions.map(peakAngle)).toEqual([-30, 30])
+    const level = (pattern: Array<{ angle: number; magnitude: number }>, angle: number) =>
+      pattern.find((p) => p.angle === angle)!.magnitude
+    // Amplitude ratio √(1/0.25) = 2 between the beams
+    expect(level(contributions[0], -30) / level(contributions[1], 30)).toBeCloseTo(2, 6)
+  })
+})
+
+describe('PhasedArray subarrays', () => {
+  const halfWave = makeTestArray().wavelength / 2
+
+  it('matches the fully analog array while the digital beam follows θ₀', () => {
+    const analog = makeTestArray({ elements: 16, pitch: halfWave, steeringAngle: 25 })
+    const hybrid = makeTestArray({
+      elements: 16,
+      pitch: halfWave,
+      steeringAngle: 25,
+      subarrays: { partition: 'contiguous', count: 4 },
+    })
+
+    expect(hybrid.hasSubarrays).toBe(true)
+    angles.forEach((angle) => expect(hybrid.computeArrayFactor(angle)).toBeCloseTo(analog.computeArrayFactor(angle), 9))
+    hybrid.predictSubarrayGratingLobes().forEach(({ levelDb }) => expect(levelDb).toBeLessThan(-40))
+  })
+
+  it('raises contiguous subarray lobes at u_d + m·λ/D when the digital beam leaves the analog one', () => {
+    const array = makeTestArray({
+      elements: 16,
+      pitch: halfWave,
+      subarrays: { partition: 'contiguous', count: 4, digitalSteeringAngle: 20 },
+    })
+    const ud = Math.sin((20 * Math.PI) / 180)
+    const lobes = array.predictSubarrayGratingLobes()
+
+    // D = 4 elements = 2λ, so the lobes repeat every 0.5 in u
+    expect(lobes.map((lobe) => lobe.u)).toEqual([ud - 1, ud - 0.5, ud + 0.5].map((u) => expect.closeTo(u, 9)))
+    expect(Math.max(...lobes.map((lobe) => lobe.levelDb))).toBeGreaterThan(-20)
+    expect(array.computeArrayFactorU(ud)).toBeGreaterThan(array.computeArrayFactorU(0))
+  })
+
+  it('predicts interleaved lobes from the thinned pitch around the analog beam', () => {
+    const config = { elements: 16, pitch: halfWave }
+    const aligned = makeTestArray({ ...config, subarrays: { partition: 'interleaved', count: 4 } })
+    const offset = makeTestArray({
+      ...config,
+      subarrays: { partition: 'interleaved', count: 4, digitalSteeringAngle: 10 },
+    })
+
+    expect(aligned.computeSubarrayAssignment().slice(0, 6)).toEqual([0, 1, 2, 3, 0, 1])
+    expect(aligned.predictSubarrayGratingLobes().map((lobe) => lobe.u)).toEqual(
+      [-1, -0.5, 0.5, 1].map((u) => expect.closeTo(u, 9))
+    )
+    aligned.predictSubarrayGratingLobes().forEach(({ levelDb }) => expect(levelDb).toBeLessThan(-40))
+    expect(Math.max(...offset.predictSubarrayGratingLobes().map((lobe) => lobe.levelDb))).toBeGreaterThan(-40)
+  })
+
+  it('partitions planar grids by column and clamps custom assignments', () => {
+    const planar = makeTestArray({
+      geometry: 'planar-rect',
+      rows: 2,
+      columns: 4,
+      subarrays: { partition: 'contiguous', count: 2 },
+    })
+    const custom = makeTestArray({
+      elements: 4,
+      subarrays: { partition: 'custom', count: 2, assignment: [1, 0, 5, -1] },
+    })
+
+    expect(planar.computeSubarrayAssignment()).toEqual([0, 0, 1, 1, 0, 0, 1, 1])
+    expect(custom.computeSubarrayAssignment()).toEqual([1, 0, 1, 0])
+  })
+})
+
+describe('PhasedArray propagation losses', () => {
+  // Two close elements: at broadside both sit at range d and add in phase
+  const config = makeUnitConfig({ elements: 2, pitch: 0.001 })
+  const rangeOf = (r: number) => Math.hypot(r, 0.0005)
+
+  it('scales the element fields by 1/r, 1/√r and the medium absorption', () => {
+    const gainAt = (propagation: Parameters<typeof PhasedArray.fromConfig>[2], r: number) =>
+      Math.sqrt(PhasedArray.fromConfig({ ...config, frequency: 1e6 }, 'tissue', propagation).computeIntensityAt(0, -r)) / 2
+
+    expect(gainAt({ model: 'none', attenuation: false }, 0.5)).toBeCloseTo(1, 9)
+    expect(gainAt({ model: 'spherical', attenuation: false }, 0.5)).toBeCloseTo(1 / rangeOf(0.5), 9)
+    expect(gainAt({ model: 'cylindrical', attenuation: false }, 0.5)).toBeCloseTo(1 / Math.sqrt(rangeOf(0.5)), 9)
+    // 0.54 dB/(cm·MHz) over 10 cm at 1 MHz
+    expect(20 * Math.log10(gainAt({ model: 'none', attenuation: true }, 0.1))).toBeCloseTo(-5.4 * rangeOf(0.1) / 0.1, 9)
+  })
+
+  it('keeps the focal gain free of propagation losses', () => {
+    const focused = { ...config, elements: 16, pitch: 0.0172, focusDistance: 0.5, steeringAngle: 20 }
+    const lossless = PhasedArray.fromConfig(focused, 'air')
+    const lossy = PhasedArray.fromConfig(focused, 'air', { model: 'spherical', attenuation: true, frequencyScale: 1000 })
+
+    expect(lossy.computeFocalGain()).toBeCloseTo(lossless.computeFocalGain()!, 9)
+    expect(lossy.computeIntensityAt(lossy.focalPoint!.x, lossy.focalPoint!.y)).toBeLessThan(
+      lossless.computeIntensityAt(lossless.focalPoint!.x, lossless.focalPoint!.y)
+    )
+  })
+})
+
+describe('PhasedArray directivity', () => {
+  const numeric = (array: PhasedArray) => computeDirectivity(array.computePatternGrid(1, 2, 180))
+
+  it('gives 10·log10(N) for a half-wavelength ULA in closed form', () => {
+    const array = makeTestArray({ elements: 16, steeringAngle: 30, pitch: makeTestArray().wavelength / 2 })
+    expect(array.computeDirectivity()).toBeCloseTo(10 * Math.log10(16), 6)
+  })
+
+  it('matches the numerical integral for tapered and planar arrays', () => {
+    const tapered = makeTestArray({ elements: 12, steeringAngle: 20, taper: { type: 'hamming' } })
+    const planar = makeTestArray({ geometry: 'planar-rect', rows: 3, columns: 5, steeringAngle: 25 })
+    expect(Math.abs(tapered.computeDirectivity() - numeric(tapered))).toBeLessThan(0.1)
+    expect(Math.abs(planar.computeDirectivity() - numeric(planar))).toBeLessThan(0.1)
+  })
+})
@@ -1,8 +1,82 @@
-import React, { useCallback, useState } from 'react';
-import { useBeamStore, type Medium, type ArrayGeometry } from '@/state/beamStore';
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  useBeamStore,
+  MAX_BEAMS,
+  type Medium,
+  type ArrayGeometry,
+  type TaperConfig,
+  type TaperType,
+  type ElementPatternConfig,
+  type ElementPatternType,
+  type AdaptiveScenario,
+  type DoaScenario,
+  type SignalEmitter,
+  type CancellerSettings,
+  type NullConstraint,
+  type BeamSpec,
+  type PatternMask,
+  type MaskNotch,
+  type QuantizationConfig,
+  type AmplitudeQuantization,
+  type ToleranceSettings,
+  type CodebookSettings,
+  type CodebookType,
+  type CoverageMode,
+  type SubarrayConfig,
+  type SubarrayPartition,
+  type CellConfig,
+  type CellMapMode,
+  type PropagationConfig,
+  type PropagationModel,
+  type MediumDefinition,
+} from '@/state/beamStore';
+import { overridesStoredWeights, useEffectiveUnits } from '@/hooks/useEffectiveUnits';
+import { useCodebook } from '@/hooks/useCodebookCoverage';
 import { loadScenario, SCENARIO_LIST } from '@/config/scenarios';
+import { DEFAULT_TAPER, TAPER_DEFAULTS, TAPER_LABELS } from '@/dsp/tapers';
+import { ELEMENT_PATTERN_DEFAULTS, ELEMENT_PATTERN_LABELS } from '@/dsp/elementPatterns';
+import { gratingLobeFreePitch } from '@/dsp/beamAnalysis';
+import { emitterDirection } from '@/dsp/signalScene';
+import { AMPLITUDE_QUANTIZATION_LABELS, DEFAULT_QUANTIZATION } from '@/dsp/quantization';
+import { MAX_TOLERANCE_TRIALS } from '@/dsp/toleranceAnalysis';
+import { MAX_ADAPTIVE_ELEMENTS } from '@/dsp/adaptiveBeamforming';
+import {
+  CODEBOOK_TYPE_LABELS,
+  MAX_OVERSAMPLING,
+  codebookToCsv,
+  codebookToJson,
+  sweepCodebook,
+  type Codebook,
+  type CodebookSweep,
+} from '@/dsp/beamCodebook';
+import {
+  MAX_SUBARRAYS,
+  SUBARRAY_LOBE_FLOOR_DB,
+  SUBARRAY_PARTITION_LABELS,
+  partitionAxis,
+} from '@/dsp/subarrays';
+import { DEFAULT_CELL } from '@/dsp/multiCell';
+import { PROPAGATION_MODEL_LABELS, attenuationDbPerMeter } from '@/dsp/propagation';
+import { BUILT_IN_MEDIA, MEDIUM_LIMITS, acousticImpedance, getMedium, isBuiltInMedium } from '@/dsp/media';
+import { PhasedArray } from '@/classes/PhasedArray';
+import { downloadText } from '@/utils/download';
 import './BeamSidebar.css';
 
+// Initial focal range (m) when switching a unit from far-field to focused mode
+const DEFAULT_FOCUS_DISTANCE = 0.5;
+
+const GEOMETRY_OPTIONS: { value: ArrayGeometry; label: string }[] = [
+  { value: 'linear', label: 'Linear' },
+  { value: 'curved', label: 'Curved' },
+  { value: 'planar-rect', label: 'Planar (Rect)' },
+  { value: 'planar-hex', label: 'Planar (Hex)' },
+  { value: 'ring', label: 'Ring' },
+];
+
+// Geometries laid out in the x–z plane, steered in both θ and φ
+const isPlanarGeometry = (geometry: ArrayGeometry | undefined): boolean =>
+  geometry === 'planar-rect' || geometry === 'planar-hex' || geometry === 'ring';
+
 // ============================================================================
 // COLLAPSIBLE SECTION COMPONENT
 // ============================================================================
@@ -47,6 +121,7 @@ interface SliderControlProps {
   step?: number;
   unit?: string;
   onChange: (value: number) => void;
+  onCommit?: (value: number) => void; // Once the value is released (pointer up or key up)
   formatValue?: (value: number) => string;
   showTicks?: boolean;
 }
@@ -59,6 +134,7 @@ const SliderControl: React.FC<SliderControlProps> = ({
   step = 1,
   unit = '',
   onChange,
+  onCommit,
   formatValue,
   showTicks = false,
 }) => {
@@ -79,6 +155,8 @@ const SliderControl: React.FC<SliderControlProps> = ({
           step={step}
           value={value}
           onChange={(e) => onChange(parseFloat(e.target.value))}
+          onPointerUp={(e) => onCommit?.(parseFloat(e.currentTarget.value))}
+          onKeyUp={(e) => onCommit?.(parseFloat(e.currentTarget.value))}
           className="slider-input"
           style={{ '--fill-percent': `${percentage}%` } as React.CSSProperties}
         />
@@ -206,6 +284,1112 @@ const WeightsVisualization: React.FC<WeightsVisualizationProps> = ({ weights })
   );
 };
 
+// ============================================================================
+// APERTURE TAPER SELECTOR
+// ============================================================================
+
+interface TaperControlProps {
+  taper: TaperConfig;
+  onChange: (taper: TaperConfig) => void;
+}
+
+const TaperControl: React.FC<TaperControlProps> = ({ taper, onChange }) => {
+  const sidelobeLevel = taper.sidelobeLevel ?? TAPER_DEFAULTS.sidelobeLevel;
+  
+  return (
+    <div className="taper-control">
+      <div className="control-row">
+        <label>Taper</label>
+        <select
+          value={taper.type}
+          onChange={(e) => onChange({ ...taper, type: e.target.value as TaperType })}
+          className="beam-select"
+        >
+          {(Object.keys(TAPER_LABELS) as TaperType[]).map((type) => (
+            <option key={type} value={type}>{TAPER_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+      
+      {taper.type === 'taylor' && (
+        <SliderControl
+          label="n̄ (Taylor)"
+          value={taper.nbar ?? TAPER_DEFAULTS.nbar}
+          min={2}
+          max={10}
+          step={1}
+          onChange={(nbar) => onChange({ ...taper, nbar })}
+        />
+      )}
+      
+      {(taper.type === 'taylor' || taper.type === 'chebyshev') && (
+        <SliderControl
+          label="Sidelobe Level"
+          value={sidelobeLevel}
+          min={-60}
+          max={-15}
+          step={1}
+          unit=" dB"
+          onChange={(level) => onChange({ ...taper, sidelobeLevel: level })}
+        />
+      )}
+      
+      {taper.type === 'kaiser' && (
+        <SliderControl
+          label="β (Kaiser)"
+          value={taper.beta ?? TAPER_DEFAULTS.beta}
+          min={0}
+          max={12}
+          step={0.5}
+          onChange={(beta) => onChange({ ...taper, beta })}
+          formatValue={(v) => v.toFixed(1)}
+        />
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// ELEMENT PATTERN SELECTOR
+// ============================================================================
+
+interface ElementPatternControlProps {
+  pattern: ElementPatternConfig;
+  pitch: number;
+  wavelength: number;
+  onChange: (pattern: ElementPatternConfig) => void;
+}
+
+const ElementPatternControl: React.FC<ElementPatternControlProps> = ({ pattern, pitch, wavelength, onChange }) => {
+  // Piston width is stored in meters but edited in wavelengths; it defaults to the pitch
+  const widthLambda = (pattern.width ?? pitch) / wavelength;
+  
+  return (
+    <div className="element-pattern-control">
+      <div className="control-row">
+        <label>Element Pattern</label>
+        <select
+          value={pattern.type}
+          onChange={(e) => onChange({ ...pattern, type: e.target.value as ElementPatternType })}
+          className="beam-select"
+        >
+          {(Object.keys(ELEMENT_PATTERN_LABELS) as ElementPatternType[]).map((type) => (
+            <option key={type} value={type}>{ELEMENT_PATTERN_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+      
+      {pattern.type === 'cosine' && (
+        <SliderControl
+          label="Exponent (n)"
+          value={pattern.exponent ?? ELEMENT_PATTERN_DEFAULTS.exponent}
+          min={0.5}
+          max={8}
+          step={0.5}
+          onChange={(exponent) => onChange({ ...pattern, exponent })}
+          formatValue={(v) => v.toFixed(1)}
+        />
+      )}
+      
+      {pattern.type === 'piston' && (
+        <SliderControl
+          label="Piston Width"
+          value={widthLambda}
+          min={0.1}
+          max={3}
+          step={0.05}
+          onChange={(w) => onChange({ ...pattern, width: w * wavelength })}
+          formatValue={(v) => `${v.toFixed(2)}λ`}
+        />
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// SIGNAL SCENE (sources and interferers)
+// ============================================================================
+
+const MAX_EMITTERS = 8;
+// Distance (m) at which a far-field emitter is placed when it becomes a point emitter
+const POINT_EMITTER_RANGE = 0.8;
+
+interface EmitterControlProps {
+  emitter: SignalEmitter;
+  arrayPosition: { x: number; y: number };
+  arrayFrequency: number;
+  onChange: (updates: Partial<SignalEmitter>) => void;
+  onRemove: () => void;
+}
+
+const EmitterControl: React.FC<EmitterControlProps> = ({
+  emitter,
+  arrayPosition,
+  arrayFrequency,
+  onChange,
+  onRemove,
+}) => {
+  const handlePlacementChange = (placement: 'far-field' | 'point') => {
+    const direction = emitterDirection(emitter, arrayPosition);
+    if (placement === 'far-field') {
+      onChange({ angle: Math.round(direction), position: undefined });
+    } else {
+      const rad = (direction * Math.PI) / 180;
+      onChange({
+        position: {
+          x: arrayPosition.x + POINT_EMITTER_RANGE * Math.sin(rad),
+          y: arrayPosition.y - POINT_EMITTER_RANGE * Math.cos(rad),
+        },
+      });
+    }
+  };
+
+  return (
+    <div className={`emitter-card ${emitter.kind} ${emitter.enabled ? '' : 'disabled'}`}>
+      <div className="emitter-header">
+        <span className="emitter-name">{emitter.kind === 'source' ? '📶' : '⚡'} {emitter.name}</span>
+        <button
+          className={`emitter-enable ${emitter.enabled ? 'on' : 'off'}`}
+          onClick={() => onChange({ enabled: !emitter.enabled })}
+          aria-pressed={emitter.enabled}
+        >
+          {emitter.enabled ? 'On' : 'Off'}
+        </button>
+        <button className="emitter-remove" onClick={onRemove} title={`Remove ${emitter.name}`}>
+          ×
+        </button>
+      </div>
+      <ToggleGroup
+        options={[
+          { value: 'far-field', label: 'Far-field' },
+          { value: 'point', label: 'Point' },
+        ]}
+        value={emitter.position ? 'point' : 'far-field'}
+        onChange={handlePlacementChange}
+      />
+      {emitter.position ? (
+        <div className="position-controls">
+          <SliderControl
+            label="X"
+            value={emitter.position.x}
+            min={-1}
+            max={1}
+            step={0.05}
+            unit=" m"
+            formatValue={(v) => `${v.toFixed(2)} m`}
+            onChange={(x) => onChange({ position: { x, y: emitter.position?.y ?? 0 } })}
+          />
+          <SliderControl
+            label="Y"
+            value={emitter.position.y}
+            min={-1}
+            max={1}
+            step={0.05}
+            unit=" m"
+            formatValue={(v) => `${v.toFixed(2)} m`}
+            onChange={(y) => onChange({ position: { x: emitter.position?.x ?? 0, y } })}
+          />
+        </div>
+      ) : (
+        <SliderControl
+          label="Angle"
+          value={emitter.angle}
+          min={-90}
+          max={90}
+          step={1}
+          unit="°"
+          onChange={(angle) => onChange({ angle })}
+        />
+      )}
+      <SliderControl
+        label={emitter.kind === 'source' ? 'SNR' : 'INR'}
+        value={emitter.powerDb}
+        min={-20}
+        max={60}
+        step={1}
+        unit=" dB"
+        onChange={(powerDb) => onChange({ powerDb })}
+      />
+      <ToggleGroup
+        options={[
+          { value: 'co-channel', label: 'Co-channel' },
+          { value: 'offset', label: 'Own Carrier' },
+        ]}
+        value={emitter.frequency === undefined ? 'co-channel' : 'offset'}
+        onChange={(mode) => onChange({ frequency: mode === 'co-channel' ? undefined : arrayFrequency })}
+      />
+      {emitter.frequency !== undefined && (
+        <SliderControl
+          label="Frequency"
+          value={emitter.frequency}
+          min={100}
+          max={20000}
+          step={100}
+          formatValue={(v) => `${(v / 1000).toFixed(1)} kHz`}
+          onChange={(frequency) => onChange({ frequency })}
+        />
+      )}
+      <ToggleGroup
+        options={[
+          { value: 'incoherent', label: 'Incoherent' },
+          { value: 'coherent', label: 'Coherent' },
+        ]}
+        value={emitter.coherent ? 'coherent' : 'incoherent'}
+        onChange={(mode) => onChange({ coherent: mode === 'coherent' })}
+      />
+    </div>
+  );
+};
+
+// ============================================================================
+// ADAPTIVE SCENARIO (MVDR / CAPON)
+// ============================================================================
+
+interface AdaptiveScenarioControlProps {
+  scenario: AdaptiveScenario;
+  onChange: (updates: Partial<AdaptiveScenario>) => void;
+}
+
+const AdaptiveScenarioControl: React.FC<AdaptiveScenarioControlProps> = ({ scenario, onChange }) => (
+  <div className="scenario-controls">
+    <SliderControl
+      label="Diagonal Loading"
+      value={scenario.diagonalLoadingDb}
+      min={-30}
+      max={30}
+      step={1}
+      unit=" dB"
+      onChange={(diagonalLoadingDb) => onChange({ diagonalLoadingDb })}
+    />
+  </div>
+);
+
+// ============================================================================
+// DOA SCENARIO (MUSIC / ESPRIT)
+// ============================================================================
+
+interface DoaScenarioControlProps {
+  scenario: DoaScenario;
+  onChange: (updates: Partial<DoaScenario>) => void;
+}
+
+const DoaScenarioControl: React.FC<DoaScenarioControlProps> = ({ scenario, onChange }) => (
+  <div className="scenario-controls">
+    <SliderControl
+      label="Snapshots"
+      value={scenario.snapshots}
+      min={10}
+      max={1000}
+      step={10}
+      onChange={(snapshots) => onChange({ snapshots })}
+    />
+    <button className="scene-button" onClick={() => onChange({ seed: scenario.seed + 1 })}>
+      ↻ Resample Noise (seed {scenario.seed})
+    </button>
+  </div>
+);
+
+// ============================================================================
+// NULL STEERING (LCMV nulls on the active unit)
+// ============================================================================
+
+// Depth slider floor, shown as a full (unconstrained-depth) null
+const FULL_NULL_DEPTH = -100;
+
+interface NullSteeringControlProps {
+  nulls: NullConstraint[];
+  onChange: (nulls: NullConstraint[]) => void;
+}
+
+const NullSteeringControl: React.FC<NullSteeringControlProps> = ({ nulls, onChange }) => {
+  const updateNull = (index: number, updates: Partial<NullConstraint>) =>
+    onChange(nulls.map((n, i) => (i === index ? { ...n, ...updates } : n)));
+
+  return (
+    <>
+      {nulls.map((n, index) => (
+        <div key={index} className="emitter-card null">
+          <div className="emitter-header">
+            <span className="emitter-name">✕ Null {index + 1}</span>
+            <button
+              className="emitter-remove"
+              onClick={() => onChange(nulls.filter((_, i) => i !== index))}
+              title={`Remove null ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+          <SliderControl
+            label="Angle"
+            value={n.angle}
+            min={-180}
+            max={180}
+            step={1}
+            unit="°"
+            onChange={(angle) => updateNull(index, { angle })}
+          />
+          <SliderControl
+            label="Depth"
+            value={n.depthDb ?? FULL_NULL_DEPTH}
+            min={FULL_NULL_DEPTH}
+            max={-10}
+            step={1}
+            onChange={(depthDb) => updateNull(index, { depthDb: depthDb > FULL_NULL_DEPTH ? depthDb : undefined })}
+            formatValue={(v) => (v > FULL_NULL_DEPTH ? `${v} dB` : 'Full')}
+          />
+        </div>
+      ))}
+      {nulls.length > 0 && (
+        <button className="scene-button" onClick={() => onChange([])}>Clear Nulls</button>
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// MULTI-BEAM (simultaneous beams on the active unit)
+// ============================================================================
+
+interface MultibeamControlProps {
+  beams: BeamSpec[];
+  onAdd: () => void;
+  onChange: (index: number, updates: Partial<BeamSpec>) => void;
+  onRemove: (index: number) => void;
+}
+
+const MultibeamControl: React.FC<MultibeamControlProps> = ({ beams, onAdd, onChange, onRemove }) => {
+  const totalPower = beams.reduce((sum, b) => sum + b.power, 0);
+
+  return (
+    <>
+      {beams.map((beam, index) => (
+        <div key={index} className="emitter-card beam">
+          <div className="emitter-header">
+            <span className="emitter-name">
+              🔱 Beam {index + 1}
+              {totalPower > 0 ? ` · ${((beam.power / totalPower) * 100).toFixed(0)}% power` : ''}
+            </span>
+            <button className="emitter-remove" onClick={() => onRemove(index)} title={`Remove beam ${index + 1}`}>
+              ×
+            </button>
+          </div>
+          <SliderControl
+            label={index === 0 ? 'Angle (steering)' : 'Angle'}
+            value={beam.steeringAngle}
+            min={-90}
+            max={90}
+            step={1}
+            unit="°"
+            onChange={(steeringAngle) => onChange(index, { steeringAngle })}
+          />
+          <SliderControl
+            label="Relative Power"
+            value={beam.power}
+            min={0}
+            max={1}
+            step={0.05}
+            formatValue={(v) => `${v > 0 ? (10 * Math.log10(v)).toFixed(1) : '−∞'} dB`}
+            onChange={(power) => onChange(index, { power })}
+          />
+          <SliderControl
+            label="Phase"
+            value={beam.phase}
+            min={-180}
+            max={180}
+            step={5}
+            unit="°"
+            onChange={(phase) => onChange(index, { phase })}
+          />
+        </div>
+      ))}
+      {beams.length < MAX_BEAMS && (
+        <button className="scene-button" onClick={onAdd}>+ Beam</button>
+      )}
+    </>
+  );
+};
+
+// ============================================================================
+// SUBARRAYS (hybrid analog/digital partition of the active unit)
+// ============================================================================
+
+const SUBARRAY_PARTITION_OPTIONS: { value: SubarrayPartition | 'off'; label: string }[] = [
+  { value: 'off', label: 'Off' },
+  ...(Object.keys(SUBARRAY_PARTITION_LABELS) as SubarrayPartition[]).map(
+    (value) => ({ value, label: SUBARRAY_PARTITION_LABELS[value] })
+  ),
+];
+
+interface SubarrayControlProps {
+  subarrays: SubarrayConfig | undefined;
+  axisElements: number;
+  analogAngle: number;
+  onChange: (updates: Partial<SubarrayConfig> | null) => void;
+}
+
+const SubarrayControl: React.FC<SubarrayControlProps> = ({ subarrays, axisElements, analogAngle, onChange }) => {
+  const axis = subarrays ? partitionAxis(subarrays, axisElements) : [];
+  const count = Math.max(1, ...axis.map((s) => s + 1));
+
+  return (
+    <div className="scenario-controls">
+      <ToggleGroup
+        options={SUBARRAY_PARTITION_OPTIONS}
+        value={subarrays?.partition ?? 'off'}
+        onChange={(partition) => onChange(partition === 'off' ? null : { partition })}
+      />
+      {subarrays && (
+        <>
+          <SliderControl
+            label="Subarrays"
+            value={subarrays.count}
+            min={2}
+            max={Math.max(2, Math.min(MAX_SUBARRAYS, axisElements))}
+            step={1}
+            onChange={(value) => onChange({ count: value })}
+          />
+          {subarrays.partition === 'custom' && (
+            <div className="subarray-strip" title="Click an element to move it to the next subarray">
+              {axis.map((s, i) => (
+                <button
+                  key={i}
+                  className="subarray-cell"
+                  style={{ '--subarray-hue': `${(360 * s) / count}` } as React.CSSProperties}
+                  onClick={() => onChange({ assignment: axis.map((t, j) => (j === i ? (t + 1) % subarrays.count : t)) })}
+                >
+                  {s + 1}
+                </button>
+              ))}
+            </div>
+          )}
+          <div className="control-row">
+            <label>Digital Steering</label>
+          </div>
+          <ToggleGroup
+            options={[
+              { value: 'analog', label: 'Follow θ₀' },
+              { value: 'independent', label: 'Independent' },
+            ]}
+            value={subarrays.digitalSteeringAngle === undefined ? 'analog' : 'independent'}
+            onChange={(mode) => onChange({ digitalSteeringAngle: mode === 'analog' ? undefined : analogAngle })}
+          />
+          {subarrays.digitalSteeringAngle !== undefined && (
+            <SliderControl
+              label="Digital θ"
+              value={subarrays.digitalSteeringAngle}
+              min={-90}
+              max={90}
+              step={1}
+              unit="°"
+              onChange={(digitalSteeringAngle) => onChange({ digitalSteeringAngle })}
+            />
+          )}
+          <TaperControl
+            taper={subarrays.digitalTaper ?? DEFAULT_TAPER}
+            onChange={(digitalTaper) => onChange({ digitalTaper })}
+          />
+        </>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// PATTERN MASK (synthesis target)
+// ============================================================================
+
+interface PatternMaskControlProps {
+  mask: PatternMask;
+  onChange: (updates: Partial<PatternMask>) => void;
+}
+
+const PatternMaskControl: React.FC<PatternMaskControlProps> = ({ mask, onChange }) => {
+  const updateNotch = (index: number, updates: Partial<MaskNotch>) =>
+    onChange({ notches: mask.notches.map((n, i) => (i === index ? { ...n, ...updates } : n)) });
+
+  return (
+    <div className="scenario-controls">
+      <SliderControl
+        label="Main Lobe Region"
+        value={mask.mainLobeWidth}
+        min={2}
+        max={90}
+        step={1}
+        unit="°"
+        onChange={(mainLobeWidth) => onChange({ mainLobeWidth, beamwidth: Math.min(mask.beamwidth, mainLobeWidth) })}
+      />
+      <SliderControl
+        label="Beamwidth Held"
+        value={mask.beamwidth}
+        min={0}
+        max={mask.mainLobeWidth}
+        step={0.5}
+        unit="°"
+        onChange={(beamwidth) => onChange({ beamwidth })}
+      />
+      <SliderControl
+        label="Main Lobe Floor"
+        value={mask.mainLobeFloorDb}
+        min={-10}
+        max={0}
+        step={0.5}
+        unit=" dB"
+        onChange={(mainLobeFloorDb) => onChange({ mainLobeFloorDb })}
+      />
+      <SliderControl
+        label="Sidelobe Ceiling"
+        value={mask.sidelobeLevelDb}
+        min={-60}
+        max={-5}
+        step={1}
+        unit=" dB"
+        onChange={(sidelobeLevelDb) => onChange({ sidelobeLevelDb })}
+      />
+      {mask.notches.map((notch, index) => (
+        <div key={index} className="emitter-card notch">
+          <div className="emitter-header">
+            <span className="emitter-name">▽ Notch {index + 1}</span>
+            <button
+              className="emitter-remove"
+              onClick={() => onChange({ notches: mask.notches.filter((_, i) => i !== index) })}
+              title={`Remove notch ${index + 1}`}
+            >
+              ×
+            </button>
+          </div>
+          <SliderControl
+            label="Center"
+            value={notch.center}
+            min={-90}
+            max={90}
+            step={1}
+            unit="°"
+            onChange={(center) => updateNotch(index, { center })}
+          />
+          <SliderControl
+            label="Width"
+            value={notch.width}
+            min={1}
+            max={40}
+            step={1}
+            unit="°"
+            onChange={(width) => updateNotch(index, { width })}
+          />
+          <SliderControl
+            label="Depth"
+            value={notch.depthDb}
+            min={-80}
+            max={-10}
+            step={1}
+            unit=" dB"
+            onChange={(depthDb) => updateNotch(index, { depthDb })}
+          />
+        </div>
+      ))}
+      <button
+        className="scene-button"
+        onClick={() => onChange({ notches: [...mask.notches, { center: -40, width: 10, depthDb: -50 }] })}
+      >
+        + Notch
+      </button>
+    </div>
+  );
+};
+
+// ============================================================================
+// QUANTIZATION (phase shifters and attenuators of the active unit)
+// ============================================================================
+
+const AMPLITUDE_QUANTIZATION_OPTIONS = (Object.keys(AMPLITUDE_QUANTIZATION_LABELS) as AmplitudeQuantization[]).map(
+  (value) => ({ value, label: AMPLITUDE_QUANTIZATION_LABELS[value] })
+);
+
+interface QuantizationControlProps {
+  config: QuantizationConfig;
+  onChange: (updates: Partial<QuantizationConfig>) => void;
+}
+
+const QuantizationControl: React.FC<QuantizationControlProps> = ({ config, onChange }) => (
+  <div className="scenario-controls">
+    <SliderControl
+      label="Phase Bits"
+      value={config.phaseBits}
+      min={0}
+      max={8}
+      step={1}
+      onChange={(phaseBits) => onChange({ phaseBits })}
+      formatValue={(v) => (v > 0 ? `${v}-bit (${(360 / 2 ** v).toFixed(1)}°)` : 'Ideal')}
+    />
+    <div className="control-row">
+      <label>Amplitude</label>
+    </div>
+    <ToggleGroup
+      options={AMPLITUDE_QUANTIZATION_OPTIONS}
+      value={config.amplitudeMode}
+      onChange={(amplitudeMode) => onChange({ amplitudeMode })}
+    />
+    {config.amplitudeMode !== 'ideal' && (
+      <SliderControl
+        label={config.amplitudeMode === 'bits' ? 'Amplitude Bits' : 'Attenuator Bits'}
+        value={config.amplitudeBits}
+        min={1}
+        max={8}
+        step={1}
+        onChange={(amplitudeBits) => onChange({ amplitudeBits })}
+      />
+    )}
+    {config.amplitudeMode === 'db-step' && (
+      <SliderControl
+        label="Step"
+        value={config.amplitudeStepDb}
+        min={0.25}
+        max={3}
+        step={0.25}
+        unit=" dB"
+        onChange={(amplitudeStepDb) => onChange({ amplitudeStepDb })}
+      />
+    )}
+    <div className="control-row">
+      <label>Rounding</label>
+    </div>
+    <ToggleGroup
+      options={[
+        { value: 'nearest', label: 'Nearest' },
+        { value: 'random', label: 'Random' },
+      ]}
+      value={config.randomRounding ? 'random' : 'nearest'}
+      onChange={(value) => onChange({ randomRounding: value === 'random' })}
+    />
+    {config.randomRounding && (
+      <button className="scene-button" onClick={() => onChange({ seed: config.seed + 1 })}>
+        ↻ Reround (seed {config.seed})
+      </button>
+    )}
+  </div>
+);
+
+// ============================================================================
+// BEAM CODEBOOK (DFT beams of the active unit and their coverage)
+// ============================================================================
+
+const CODEBOOK_TYPE_OPTIONS = (Object.keys(CODEBOOK_TYPE_LABELS) as CodebookType[]).map(
+  (value) => ({ value, label: CODEBOOK_TYPE_LABELS[value] })
+);
+
+interface CodebookControlProps {
+  settings: CodebookSettings;
+  codebook: Codebook | null;
+  sweep: CodebookSweep | null;
+  unitName: string;
+  coverageMode: CoverageMode;
+  onChange: (updates: Partial<CodebookSettings>) => void;
+  onCoverageModeChange: (mode: CoverageMode) => void;
+}
+
+const CodebookControl: React.FC<CodebookControlProps> = ({
+  settings,
+  codebook,
+  sweep,
+  unitName,
+  coverageMode,
+  onChange,
+  onCoverageModeChange,
+}) => {
+  const filename = `codebook-${unitName.toLowerCase().replace(/[^a-z0-9]+/g, '-')}-${codebook?.beams.length ?? 0}`;
+
+  return (
+    <div className="scenario-controls">
+      <ToggleGroup
+        options={CODEBOOK_TYPE_OPTIONS}
+        value={settings.type}
+        onChange={(type) => onChange({ type })}
+      />
+      {settings.type === 'oversampled' && (
+        <SliderControl
+          label="Oversampling"
+          value={settings.oversampling}
+          min={2}
+          max={MAX_OVERSAMPLING}
+          step={1}
+          formatValue={(v) => `${v}×`}
+          onChange={(oversampling) => onChange({ oversampling })}
+        />
+      )}
+      <p className="hint-text">
+        {codebook && sweep
+          ? `${codebook.beams.length} beams; the sweep reaches ${Math.max(...sweep.gainDb).toFixed(1)} dB, ${sweep.worstGainDb.toFixed(1)} dB at worst between beams.`
+          : 'Enable the active array to build its codebook.'}
+      </p>
+      <div className="control-row">
+        <label>Coverage Map</label>
+      </div>
+      <ToggleGroup
+        options={[
+          { value: 'off', label: 'Off' },
+          { value: 'best-beam', label: 'Best Beam' },
+          { value: 'gain', label: 'Gain' },
+        ]}
+        value={coverageMode}
+        onChange={onCoverageModeChange}
+      />
+      {codebook && (
+        <div className="scene-buttons">
+          <button
+            className="scene-button"
+            onClick={() => downloadText(codebookToJson(codebook), `${filename}.json`, 'application/json')}
+          >
+            ⬇ JSON
+          </button>
+          <button
+            className="scene-button"
+            onClick={() => downloadText(codebookToCsv(codebook), `${filename}.csv`, 'text/csv')}
+          >
+            ⬇ CSV
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// ============================================================================
+// MEDIA LIBRARY (properties of the active medium, user-defined media)
+// ============================================================================
+
+interface MediumControlProps {
+  medium: MediumDefinition;
+  onChange: (updates: Partial<MediumDefinition>) => void;
+  onSpeedCommit: () => void;
+  onDuplicate: () => void;
+  onRemove: () => void;
+}
+
+const MediumControl: React.FC<MediumControlProps> = ({ medium, onChange, onSpeedCommit, onDuplicate, onRemove }) => {
+  const builtIn = isBuiltInMedium(medium.id);
+  return (
+    <div className="scenario-controls">
+      {builtIn ? (
+        <>
+          <div className="info-row">
+            <span className="info-label">Density ρ</span>
+            <span className="info-value">{medium.density} kg/m³</span>
+          </div>
+          <div className="info-row">
+            <span className="info-label">Sound Speed c</span>
+            <span className="info-value">{medium.speedOfSound} m/s</span>
+          </div>
+          <div className="info-row">
+            <span className="info-label">Absorption α₀</span>
+            <span className="info-value">{medium.attenuation} dB/(cm·MHz^y)</span>
+          </div>
+          <div className="info-row">
+            <span className="info-label">Power-Law Exponent y</span>
+            <span className="info-value">{medium.attenuationExponent}</span>
+          </div>
+        </>
+      ) : (
+        <>
+          <div className="control-row">
+            <label>Name</label>
+            <input
+              type="text"
+              className="beam-select medium-name"
+              value={medium.name}
+              onChange={(e) => onChange({ name: e.target.value })}
+            />
+          </div>
+          <SliderControl
+            label="Density ρ"
+            value={medium.density}
+            min={MEDIUM_LIMITS.density.min}
+            max={MEDIUM_LIMITS.density.max}
+            step={1}
+            unit=" kg/m³"
+            onChange={(density) => onChange({ density })}
+          />
+          <SliderControl
+            label="Sound Speed c"
+            value={medium.speedOfSound}
+            min={MEDIUM_LIMITS.speedOfSound.min}
+            max={MEDIUM_LIMITS.speedOfSound.max}
+            step={1}
+            unit=" m/s"
+            onChange={(speedOfSound) => onChange({ speedOfSound })}
+            onCommit={onSpeedCommit}
+          />
+          <SliderControl
+            label="Absorption α₀"
+            value={medium.attenuation}
+            min={MEDIUM_LIMITS.attenuation.min}
+            max={MEDIUM_LIMITS.attenuation.max}
+            step={0.01}
+            formatValue={(v) => `${v.toFixed(2)} dB/(cm·MHz^y)`}
+            onChange={(attenuation) => onChange({ attenuation })}
+          />
+          <SliderControl
+            label="Power-Law Exponent y"
+            value={medium.attenuationExponent}
+            min={MEDIUM_LIMITS.attenuationExponent.min}
+            max={MEDIUM_LIMITS.attenuationExponent.max}
+            step={0.05}
+            formatValue={(v) => v.toFixed(2)}
+            onChange={(attenuationExponent) => onChange({ attenuationExponent })}
+          />
+        </>
+      )}
+      <div className="info-row">
+        <span className="info-label">Impedance Z = ρc</span>
+        <span className="info-value">{acousticImpedance(medium).toPrecision(3)} MRayl</span>
+      </div>
+      <div className="scene-buttons">
+        <button className="scene-button" onClick={onDuplicate}>+ Custom from {medium.name}</button>
+        {!builtIn && (
+          <button className="scene-button" onClick={onRemove}>Remove</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// ============================================================================
+// PROPAGATION (spreading and medium absorption of the field maps)
+// ============================================================================
+
+const PROPAGATION_MODEL_OPTIONS = (Object.keys(PROPAGATION_MODEL_LABELS) as PropagationModel[]).map(
+  (value) => ({ value, label: PROPAGATION_MODEL_LABELS[value] })
+);
+
+interface PropagationControlProps {
+  config: PropagationConfig;
+  medium: Medium;
+  frequency: number;
+  onChange: (updates: Partial<PropagationConfig>) => void;
+}
+
+const PropagationControl: React.FC<PropagationControlProps> = ({ config, medium, frequency, onChange }) => (
+  <div className="scenario-controls">
+    <div className="control-row">
+      <label>Spreading</label>
+    </div>
+    <ToggleGroup options={PROPAGATION_MODEL_OPTIONS} value={config.model} onChange={(model) => onChange({ model })} />
+    <div className="control-row">
+      <label>Absorption</label>
+    </div>
+    <ToggleGroup
+      options={[
+        { value: 'off', label: 'Off' },
+        { value: 'on', label: 'On' },
+      ]}
+      value={config.attenuation ? 'on' : 'off'}
+      onChange={(value) => onChange({ attenuation: value === 'on' })}
+    />
+    {config.attenuation && (
+      <>
+        <div className="control-row">
+          <label>Absorbing Band</label>
+        </div>
+        <ToggleGroup
+          options={[
+            { value: 'simulated', label: 'Simulated f' },
+            { value: 'scaled', label: 'f × 1000' },
+          ]}
+          value={(config.frequencyScale ?? 1) > 1 ? 'scaled' : 'simulated'}
+          onChange={(value) => onChange({ frequencyScale: value === 'scaled' ? 1000 : 1 })}
+        />
+        <div className="info-row">
+          <span className="info-label">At active unit</span>
+          <span className="info-value">{(attenuationDbPerMeter(config, medium, frequency) / 100).toPrecision(3)} dB/cm</span>
+        </div>
+      </>
+    )}
+  </div>
+);
+
+// ============================================================================
+// MULTI-CELL (units as separate cells interfering with each other)
+// ============================================================================
+
+interface MultiCellControlProps {
+  mode: CellMapMode;
+  bandwidth: number;
+  cell: CellConfig;
+  onModeChange: (mode: CellMapMode) => void;
+  onBandwidthChange: (bandwidth: number) => void;
+  onCellChange: (updates: Partial<CellConfig>) => void;
+}
+
+const MultiCellControl: React.FC<MultiCellControlProps> = ({
+  mode,
+  bandwidth,
+  cell,
+  onModeChange,
+  onBandwidthChange,
+  onCellChange,
+}) => (
+  <div className="scenario-controls">
+    <ToggleGroup
+      options={[
+        { value: 'off', label: 'Off' },
+        { value: 'sinr', label: 'SINR' },
+        { value: 'serving', label: 'Serving' },
+        { value: 'throughput', label: 'Rate' },
+      ]}
+      value={mode}
+      onChange={onModeChange}
+    />
+    <SliderControl
+      label="Channel Bandwidth"
+      value={bandwidth}
+      min={100}
+      max={10000}
+      step={100}
+      onChange={onBandwidthChange}
+      formatValue={(v) => (v >= 1000 ? `${(v / 1000).toFixed(1)} kHz` : `${v} Hz`)}
+    />
+    <SliderControl
+      label="Tx Power (active)"
+      value={cell.txPowerDbm}
+      min={-10}
+      max={40}
+      step={1}
+      unit=" dBm"
+      onChange={(txPowerDbm) => onCellChange({ txPowerDbm })}
+    />
+    <SliderControl
+      label="Noise Floor (active)"
+      value={cell.noiseFloorDbm}
+      min={-40}
+      max={20}
+      step={1}
+      unit=" dBm"
+      onChange={(noiseFloorDbm) => onCellChange({ noiseFloorDbm })}
+    />
+  </div>
+);
+
+// ============================================================================
+// TOLERANCE ANALYSIS (Monte-Carlo element errors)
+// ============================================================================
+
+interface ToleranceControlProps {
+  settings: ToleranceSettings;
+  onChange: (updates: Partial<ToleranceSettings>) => void;
+}
+
+const ToleranceControl: React.FC<ToleranceControlProps> = ({ settings, onChange }) => (
+  <div className="scenario-controls">
+    <SliderControl
+      label="Trials"
+      value={settings.trials}
+      min={20}
+      max={MAX_TOLERANCE_TRIALS}
+      step={20}
+      onChange={(trials) => onChange({ trials })}
+    />
+    <SliderControl
+      label="Amplitude Error σ"
+      value={settings.amplitudeErrorDb}
+      min={0}
+      max={3}
+      step={0.1}
+      unit=" dB"
+      onChange={(amplitudeErrorDb) => onChange({ amplitudeErrorDb })}
+    />
+    <SliderControl
+      label="Phase Error σ"
+      value={settings.phaseErrorDeg}
+      min={0}
+      max={30}
+      step={0.5}
+      unit="°"
+      onChange={(phaseErrorDeg) => onChange({ phaseErrorDeg })}
+    />
+    <SliderControl
+      label="Element Failures"
+      value={settings.failureRate * 100}
+      min={0}
+      max={30}
+      step={1}
+      unit="%"
+      onChange={(percent) => onChange({ failureRate: percent / 100 })}
+    />
+    <SliderControl
+      label="Spec: Peak SLL"
+      value={settings.spec.sidelobeLevelDb}
+      min={-50}
+      max={-5}
+      step={1}
+      unit=" dB"
+      onChange={(sidelobeLevelDb) => onChange({ spec: { ...settings.spec, sidelobeLevelDb } })}
+    />
+    <SliderControl
+      label="Spec: Pointing Error"
+      value={settings.spec.pointingErrorDeg}
+      min={0.1}
+      max={5}
+      step={0.1}
+      unit="°"
+      onChange={(pointingErrorDeg) => onChange({ spec: { ...settings.spec, pointingErrorDeg } })}
+    />
+    <button className="scene-button" onClick={() => onChange({ seed: settings.seed + 1 })}>
+      ↻ New Trials (seed {settings.seed})
+    </button>
+  </div>
+);
+
+// ============================================================================
+// SIDELOBE CANCELLER (GSC with LMS / RLS)
+// ============================================================================
+
+interface CancellerControlProps {
+  settings: CancellerSettings;
+  onChange: (updates: Partial<CancellerSettings>) => void;
+}
+
+const CancellerControl: React.FC<CancellerControlProps> = ({ settings, onChange }) => (
+  <div className="scenario-controls">
+    <ToggleGroup
+      options={[
+        { value: 'lms', label: 'LMS' },
+        { value: 'rls', label: 'RLS' },
+      ]}
+      value={settings.algorithm}
+      onChange={(algorithm) => onChange({ algorithm })}
+    />
+    <SliderControl
+      label="Iterations"
+      value={settings.iterations}
+      min={10}
+      max={1000}
+      step={10}
+      onChange={(iterations) => onChange({ iterations })}
+    />
+    {settings.algorithm === 'lms' ? (
+      <SliderControl
+        label="Step Size μ"
+        value={settings.stepSize}
+        min={0.01}
+        max={1}
+        step={0.01}
+        onChange={(stepSize) => onChange({ stepSize })}
+      />
+    ) : (
+      <SliderControl
+        label="Forgetting Factor λ"
+        value={settings.forgettingFactor}
+        min={0.9}
+        max={1}
+        step={0.001}
+        onChange={(forgettingFactor) => onChange({ forgettingFactor })}
+        formatValue={(v) => v.toFixed(3)}
+      />
+    )}
+    <button className="scene-button" onClick={() => onChange({ seed: settings.seed + 1 })}>
+      ↻ Retrain (seed {settings.seed})
+    </button>
+  </div>
+);
+
 // ============================================================================
 // MAIN BEAM SIDEBAR COMPONENT
 // ============================================================================
@@ -218,12 +1402,27 @@ export const BeamSidebar: React.FC = () => {
     
     // Global State
     medium,
+    propagation,
+    customMedia,
+    unknownMedium,
     algorithm,
     weightType,
+    adaptiveScenario,
+    doaScenario,
+    patternMask,
+    showPatternMask,
+    toleranceSettings,
+    squintSpan,
+    codebookSettings,
+    coverageMode,
+    cellMapMode,
+    cellBandwidth,
+    emitters,
     weights,
     isPlaying,
     scanSpeed,
     interferenceCancel,
+    cancellerSettings,
     wavelength,
     speedOfSound,
     
@@ -236,17 +1435,56 @@ export const BeamSidebar: React.FC = () => {
     
     // Global Actions
     setMedium,
+    setPropagation,
+    addCustomMedium,
+    updateCustomMedium,
+    commitCustomMedium,
+    removeCustomMedium,
     setAlgorithm,
     setWeightType,
+    setAdaptiveScenario,
+    setDoaScenario,
+    setPatternMask,
+    setShowPatternMask,
+    setToleranceSettings,
+    setSquintSpan,
+    setCodebookSettings,
+    setCoverageMode,
+    setCellMapMode,
+    setCellBandwidth,
+    setSteeringMode,
+    addEmitter,
+    removeEmitter,
+    updateEmitter,
     togglePlayPause,
     setScanSpeed,
     setInterferenceCancel,
+    setCancellerSettings,
     triggerScan,
     resetSimulation,
+    setTaper,
+    setElementPattern,
+    setFocusDistance,
+    setNulls,
+    setQuantization,
+    addBeam,
+    updateBeam,
+    removeBeam,
+    setSubarrays,
+    setCellConfig,
   } = useBeamStore();
 
   // Get active unit
   const activeUnit = units.find(u => u.id === activeUnitId);
+  const activeMedium = customMedia.find((m) => m.id === medium) ?? getMedium(medium);
+  const effectiveActiveUnit = useEffectiveUnits().find(u => u.id === activeUnitId);
+  const adaptiveOverride = !!activeUnit && overridesStoredWeights(activeUnit, medium, algorithm, weightType);
+  const codebook = useCodebook();
+  const codebookSweep = useMemo(
+    () => (codebook && activeUnit ? sweepCodebook(activeUnit, medium, codebook) : null),
+    [codebook, activeUnit, medium]
+  );
+  const isGridGeometry = activeUnit?.geometry === 'planar-rect' || activeUnit?.geometry === 'planar-hex';
   
   // ============================================================================
   // HANDLERS FOR ACTIVE UNIT
@@ -258,6 +1496,10 @@ export const BeamSidebar: React.FC = () => {
     }
   }, [activeUnit, updateUnit]);
 
+  const handleFocusModeChange = useCallback((mode: 'far-field' | 'focused') => {
+    setFocusDistance(mode === 'focused' ? DEFAULT_FOCUS_DISTANCE : Infinity);
+  }, [setFocusDistance]);
+
   const handleFrequencyChange = useCallback((value: number) => {
     if (activeUnit) {
       // Recalculate pitch to maintain λ/2 spacing
@@ -270,11 +1512,8 @@ export const BeamSidebar: React.FC = () => {
 
   const handleSensorCountChange = useCallback((value: number) => {
     if (activeUnit) {
-      const count = Math.round(value);
-      updateUnit(activeUnit.id, { 
-        elements: count,
-        amplitudes: new Array(count).fill(1)
-      });
+      // Amplitudes are regenerated from the unit's taper by the store
+      updateUnit(activeUnit.id, { elements: Math.round(value) });
     }
   }, [activeUnit, updateUnit]);
 
@@ -291,11 +1530,22 @@ export const BeamSidebar: React.FC = () => {
       updateUnit(activeUnit.id, { 
         geometry,
         // Set default curvature for curved arrays
-        curvatureRadius: geometry === 'curved' ? 0.1 : 0
+        curvatureRadius: geometry === 'curved' ? 0.1 : 0,
+        // Start planar grids at 4 × 4; the store derives the element count
+        rows: activeUnit.rows ?? 4,
+        columns: activeUnit.columns ?? 4,
+        // φ steering only applies to arrays that extend out of the x–y plane
+        steeringPhi: isPlanarGeometry(geometry) ? activeUnit.steeringPhi : 0,
       });
     }
   }, [activeUnit, updateUnit]);
 
+  const handleSteeringPhiChange = useCallback((steeringPhi: number) => {
+    if (activeUnit) {
+      updateUnit(activeUnit.id, { steeringPhi });
+    }
+  }, [activeUnit, updateUnit]);
+
   const handleCurvatureRadiusChange = useCallback((radius: number) => {
     if (activeUnit) {
       updateUnit(activeUnit.id, { curvatureRadius: radius });
@@ -327,7 +1577,7 @@ export const BeamSidebar: React.FC = () => {
   const handleLoadScenario = useCallback((scenarioId: string) => {
     const scenario = loadScenario(scenarioId);
     if (scenario) {
-      loadScenarioConfig(scenario.units, scenario.medium);
+      loadScenarioConfig(scenario.units, scenario.medium, scenario.propagation, scenario.media);
     }
   }, [loadScenarioConfig]);
 
@@ -353,6 +1603,20 @@ export const BeamSidebar: React.FC = () => {
     ? activeUnit.pitch / (speedOfSound / activeUnit.frequency)
     : 0.5;
 
+  // Grating lobes brought into visible space by the current pitch and steering
+  const gratingLobes = useMemo(
+    () => (activeUnit ? PhasedArray.fromConfig(activeUnit, medium).predictGratingLobes() : []),
+    [activeUnit, medium]
+  );
+
+  // Elements along the array axis, and the subarray lattice lobes that the pattern does not cancel
+  const subarrayLayout = useMemo(() => {
+    if (!activeUnit) return { axisElements: 0, lobes: [] };
+    const array = PhasedArray.fromConfig(activeUnit, medium);
+    const lobes = array.predictSubarrayGratingLobes().filter((lobe) => lobe.levelDb > SUBARRAY_LOBE_FLOOR_DB);
+    return { axisElements: array.axisElements, lobes };
+  }, [activeUnit, medium]);
+
   return (
     <div className="beam-sidebar">
       {/* Header */}
@@ -420,6 +1684,73 @@ export const BeamSidebar: React.FC = () => {
             angle={activeUnit?.steeringAngle ?? 0} 
             onChange={handleSteeringAngleChange} 
           />
+          {isPlanarGeometry(activeUnit?.geometry) && (
+            <SliderControl
+              label="φ Steering Azimuth"
+              value={activeUnit?.steeringPhi ?? 0}
+              min={-180}
+              max={180}
+              step={1}
+              unit="°"
+              onChange={handleSteeringPhiChange}
+            />
+          )}
+          <div className="control-row focus-mode-row">
+            <label>Focus</label>
+            <ToggleGroup
+              options={[
+                { value: 'far-field', label: 'Far-field' },
+                { value: 'focused', label: 'Focused' },
+              ]}
+              value={activeUnit?.focusDistance ? 'focused' : 'far-field'}
+              onChange={handleFocusModeChange}
+            />
+          </div>
+          {activeUnit?.focusDistance ? (
+            <SliderControl
+              label="Focal Distance"
+              value={activeUnit.focusDistance * 100}
+              min={2}
+              max={150}
+              step={1}
+              unit=" cm"
+              onChange={(v) => setFocusDistance(v / 100)}
+            />
+          ) : null}
+        </CollapsibleSection>
+
+        {/* Section: Multi-Beam */}
+        <CollapsibleSection title="🔱 Multi-Beam" defaultOpen={false}>
+          <p className="hint-text">
+            {activeUnit?.focusDistance
+              ? 'Focused arrays form a single beam.'
+              : 'Superposes steered weights to radiate several beams at once; beam 1 follows the steering angle.'}
+          </p>
+          <MultibeamControl
+            beams={activeUnit?.beams ?? []}
+            onAdd={addBeam}
+            onChange={updateBeam}
+            onRemove={removeBeam}
+          />
+        </CollapsibleSection>
+
+        {/* Section: Subarrays */}
+        <CollapsibleSection title="🧩 Subarrays" defaultOpen={false}>
+          <p className="hint-text">
+            Splits the active array into digital channels: analog phase shifters steer to θ₀, the digital stage weights and steers the subarray outputs.
+          </p>
+          <SubarrayControl
+            subarrays={activeUnit?.subarrays}
+            axisElements={subarrayLayout.axisElements}
+            analogAngle={activeUnit?.steeringAngle ?? 0}
+            onChange={setSubarrays}
+          />
+          {subarrayLayout.lobes.length > 0 && (
+            <p className="grating-lobe-warning" role="alert">
+              ⚠ Subarray {subarrayLayout.lobes.length > 1 ? 'lobes' : 'lobe'} at{' '}
+              {subarrayLayout.lobes.map((lobe) => `${lobe.angle.toFixed(0)}° (${lobe.levelDb.toFixed(1)} dB)`).join(', ')}
+            </p>
+          )}
         </CollapsibleSection>
 
         {/* Section: Frequencies */}
@@ -444,23 +1775,79 @@ export const BeamSidebar: React.FC = () => {
               onChange={(e) => setMedium(e.target.value as Medium)}
               className="beam-select"
             >
-              <option value="air">Air (343 m/s)</option>
-              <option value="water">Water (1481 m/s)</option>
-              <option value="tissue">Tissue (1540 m/s)</option>
+              <optgroup label="Built-in">
+                {BUILT_IN_MEDIA.map((m) => (
+                  <option key={m.id} value={m.id}>{m.name} ({m.speedOfSound} m/s)</option>
+                ))}
+              </optgroup>
+              {customMedia.length > 0 && (
+                <optgroup label="Custom">
+                  {customMedia.map((m) => (
+                    <option key={m.id} value={m.id}>{m.name} ({m.speedOfSound} m/s)</option>
+                  ))}
+                </optgroup>
+              )}
             </select>
           </div>
+          {unknownMedium && (
+            <p className="grating-lobe-warning" role="alert">
+              ⚠ Unknown medium “{unknownMedium}”, using {activeMedium.name}
+            </p>
+          )}
+        </CollapsibleSection>
+
+        {/* Section: Media Library */}
+        <CollapsibleSection title="🧪 Media Library" defaultOpen={false}>
+          <MediumControl
+            medium={activeMedium}
+            onChange={(updates) => updateCustomMedium(activeMedium.id, updates)}
+            onSpeedCommit={() => commitCustomMedium(activeMedium.id)}
+            onDuplicate={() => setMedium(addCustomMedium())}
+            onRemove={() => removeCustomMedium(activeMedium.id)}
+          />
+        </CollapsibleSection>
+
+        {/* Section: Propagation */}
+        <CollapsibleSection title="🌊 Propagation" defaultOpen={false}>
+          <PropagationControl
+            config={propagation}
+            medium={medium}
+            frequency={activeUnit?.frequency ?? 1000}
+            onChange={setPropagation}
+          />
         </CollapsibleSection>
 
         {/* Section: Phased Array Config */}
         <CollapsibleSection title="⚙️ Array Config" defaultOpen={true}>
-          <SliderControl
-            label="Element Count"
-            value={activeUnit?.elements ?? 8}
-            min={2}
-            max={64}
-            step={1}
-            onChange={handleSensorCountChange}
-          />
+          {isGridGeometry ? (
+            <>
+              <SliderControl
+                label="Rows"
+                value={activeUnit?.rows ?? 4}
+                min={1}
+                max={16}
+                step={1}
+                onChange={(rows) => activeUnit && updateUnit(activeUnit.id, { rows })}
+              />
+              <SliderControl
+                label="Columns"
+                value={activeUnit?.columns ?? 4}
+                min={2}
+                max={16}
+                step={1}
+                onChange={(columns) => activeUnit && updateUnit(activeUnit.id, { columns })}
+              />
+            </>
+          ) : (
+            <SliderControl
+              label="Element Count"
+              value={activeUnit?.elements ?? 8}
+              min={2}
+              max={64}
+              step={1}
+              onChange={handleSensorCountChange}
+            />
+          )}
           <SliderControl
             label="Element Spacing"
             value={spacingLambdaFraction}
@@ -470,16 +1857,24 @@ export const BeamSidebar: React.FC = () => {
             onChange={handleSpacingChange}
             formatValue={formatSpacing}
           />
+          {gratingLobes.length > 0 && (
+            <p className="grating-lobe-warning" role="alert">
+              ⚠ Grating {gratingLobes.length > 1 ? 'lobes' : 'lobe'} at{' '}
+              {gratingLobes.map((lobe) => `${lobe.angle.toFixed(0)}°`).join(', ')} — keep spacing
+              below {gratingLobeFreePitch(activeUnit?.steeringAngle ?? 0).toFixed(2)}λ at this steering
+            </p>
+          )}
           <div className="control-row">
             <label>Geometry</label>
-            <ToggleGroup
-              options={[
-                { value: 'linear', label: 'Linear' },
-                { value: 'curved', label: 'Curved' },
-              ]}
+            <select
               value={activeUnit?.geometry ?? 'linear'}
-              onChange={handleGeometryChange}
-            />
+              onChange={(e) => handleGeometryChange(e.target.value as ArrayGeometry)}
+              className="beam-select"
+            >
+              {GEOMETRY_OPTIONS.map(({ value, label }) => (
+                <option key={value} value={value}>{label}</option>
+              ))}
+            </select>
           </div>
           
           {/* Curvature Radius - Only show for curved arrays */}
@@ -495,6 +1890,26 @@ export const BeamSidebar: React.FC = () => {
             />
           )}
           
+          {/* Ring Radius - 0 spaces the elements one pitch apart */}
+          {activeUnit?.geometry === 'ring' && (
+            <SliderControl
+              label="Ring Radius"
+              value={(activeUnit.ringRadius ?? 0) * 1000}
+              min={0}
+              max={300}
+              step={5}
+              onChange={(v) => updateUnit(activeUnit.id, { ringRadius: v / 1000 })}
+              formatValue={(v) => (v === 0 ? 'Auto' : `${v} mm`)}
+            />
+          )}
+          
+          <ElementPatternControl
+            pattern={activeUnit?.elementPattern ?? { type: 'isotropic' }}
+            pitch={activeUnit?.pitch ?? wavelength / 2}
+            wavelength={wavelength}
+            onChange={setElementPattern}
+          />
+          
           {/* Position Controls */}
           <div className="position-controls">
             <label className="control-label">Position</label>
@@ -521,6 +1936,122 @@ export const BeamSidebar: React.FC = () => {
           </div>
         </CollapsibleSection>
 
+        {/* Section: Signal Scene */}
+        <CollapsibleSection title="📶 Sources & Interferers" defaultOpen={false}>
+          <p className="hint-text">
+            Received by the active array for MVDR, MUSIC and the SINR metric. Drag them on the interference map.
+          </p>
+          {emitters.map((emitter) => (
+            <EmitterControl
+              key={emitter.id}
+              emitter={emitter}
+              arrayPosition={activeUnit?.position ?? { x: 0, y: 0 }}
+              arrayFrequency={activeUnit?.frequency ?? 1000}
+              onChange={(updates) => updateEmitter(emitter.id, updates)}
+              onRemove={() => removeEmitter(emitter.id)}
+            />
+          ))}
+          {emitters.length < MAX_EMITTERS && (
+            <div className="scene-buttons">
+              <button className="scene-button" onClick={() => addEmitter('source')}>+ Source</button>
+              <button className="scene-button" onClick={() => addEmitter('interferer')}>+ Interferer</button>
+            </div>
+          )}
+        </CollapsibleSection>
+
+        {/* Section: Null Steering */}
+        <CollapsibleSection title="✕ Null Steering" defaultOpen={false}>
+          <p className="hint-text">
+            Click the Beam Slice plot to add or remove a null on the active array. Nulls are solved on top of
+            the saved weights, which stay unconstrained.
+          </p>
+          <NullSteeringControl nulls={activeUnit?.nulls ?? []} onChange={setNulls} />
+        </CollapsibleSection>
+
+        {/* Section: Pattern Mask */}
+        <CollapsibleSection title="🎭 Pattern Mask" defaultOpen={false}>
+          <p className="hint-text">
+            Synthesizes weights for the active array that fit the mask. Save them from the Beam Slice view; they radiate under fixed weights.
+          </p>
+          <ToggleGroup
+            options={[
+              { value: 'off', label: 'Off' },
+              { value: 'on', label: 'Synthesize' },
+            ]}
+            value={showPatternMask ? 'on' : 'off'}
+            onChange={(value) => setShowPatternMask(value === 'on')}
+          />
+          <PatternMaskControl mask={patternMask} onChange={setPatternMask} />
+        </CollapsibleSection>
+
+        {/* Section: Quantization */}
+        <CollapsibleSection title="🔢 Quantization" defaultOpen={false}>
+          <p className="hint-text">
+            Rounds the active array's phase shifters and attenuators. The ideal pattern is shown dotted on the Beam Slice plot.
+          </p>
+          <QuantizationControl config={activeUnit?.quantization ?? DEFAULT_QUANTIZATION} onChange={setQuantization} />
+        </CollapsibleSection>
+
+        {/* Section: Wideband */}
+        <CollapsibleSection title="📶 Wideband" defaultOpen={false}>
+          <p className="hint-text">
+            Phase shifters squint the beam away from the design frequency; true time delays hold it. See the Beam Squint view.
+          </p>
+          <ToggleGroup
+            options={[
+              { value: 'phase', label: 'Phase Shifters' },
+              { value: 'ttd', label: 'True Time Delay' },
+            ]}
+            value={activeUnit?.steeringMode ?? 'phase'}
+            onChange={setSteeringMode}
+          />
+          <SliderControl
+            label="Sweep Span"
+            value={Math.round(squintSpan * 100)}
+            min={5}
+            max={100}
+            step={5}
+            unit="% of f₀"
+            onChange={(percent) => setSquintSpan(percent / 100)}
+          />
+        </CollapsibleSection>
+
+        {/* Section: Beam Codebook */}
+        <CollapsibleSection title="📚 Beam Codebook" defaultOpen={false}>
+          <CodebookControl
+            settings={codebookSettings}
+            codebook={codebook}
+            sweep={codebookSweep}
+            unitName={activeUnit?.name ?? 'array'}
+            coverageMode={coverageMode}
+            onChange={setCodebookSettings}
+            onCoverageModeChange={setCoverageMode}
+          />
+        </CollapsibleSection>
+
+        {/* Section: Multi-Cell */}
+        <CollapsibleSection title="🗼 Multi-Cell" defaultOpen={false}>
+          <p className="hint-text">
+            Treats every unit as a cell at its own frequency. Units within one channel bandwidth interfere; the field shows the strongest unit's SINR, the serving unit or its Shannon rate.
+          </p>
+          <MultiCellControl
+            mode={cellMapMode}
+            bandwidth={cellBandwidth}
+            cell={activeUnit?.cell ?? DEFAULT_CELL}
+            onModeChange={setCellMapMode}
+            onBandwidthChange={setCellBandwidth}
+            onCellChange={setCellConfig}
+          />
+        </CollapsibleSection>
+
+        {/* Section: Tolerance Analysis */}
+        <CollapsibleSection title="🎲 Tolerance Analysis" defaultOpen={false}>
+          <p className="hint-text">
+            Random amplitude, phase and failure errors on the active array. Results show in the Tolerance view.
+          </p>
+          <ToleranceControl settings={toleranceSettings} onChange={setToleranceSettings} />
+        </CollapsibleSection>
+
         {/* Section: Algorithm */}
         <CollapsibleSection title="🧮 Algorithm" defaultOpen={false}>
           <div className="control-row">
@@ -538,6 +2069,22 @@ export const BeamSidebar: React.FC = () => {
             value={algorithm}
             onChange={setAlgorithm}
           />
+          {(algorithm === 'mvdr' || algorithm === 'capon') && (
+            <>
+              {weightType !== 'adaptive' && (
+                <p className="hint-text">Select adaptive weights to apply the MVDR solution.</p>
+              )}
+              {weightType === 'adaptive' && activeUnit?.enabled && !adaptiveOverride && (
+                <p className="hint-text">
+                  MVDR weights need an unfocused array of at most {MAX_ADAPTIVE_ELEMENTS} elements; this unit keeps its fixed weights.
+                </p>
+              )}
+              <AdaptiveScenarioControl scenario={adaptiveScenario} onChange={setAdaptiveScenario} />
+            </>
+          )}
+          {algorithm === 'music' && (
+            <DoaScenarioControl scenario={doaScenario} onChange={setDoaScenario} />
+          )}
         </CollapsibleSection>
 
         {/* Section: Weights */}
@@ -554,7 +2101,16 @@ export const BeamSidebar: React.FC = () => {
             value={weightType}
             onChange={setWeightType}
           />
-          <WeightsVisualization weights={weights} />
+          {adaptiveOverride && (
+            <p className="grating-lobe-warning" role="status">
+              ⚠ {algorithm.toUpperCase()} weights replace this unit's taper, beams and saved weights
+            </p>
+          )}
+          <TaperControl
+            taper={activeUnit?.taper ?? { type: 'uniform' }}
+            onChange={setTaper}
+          />
+          <WeightsVisualization weights={effectiveActiveUnit?.amplitudes ?? weights} />
         </CollapsibleSection>
       </div>
 
@@ -599,6 +2155,9 @@ export const BeamSidebar: React.FC = () => {
             <span className="toggle-label">{interferenceCancel ? 'ON' : 'OFF'}</span>
           </button>
         </div>
+        {interferenceCancel && (
+          <CancellerControl settings={cancellerSettings} onChange={setCancellerSettings} />
+        )}
       </div>
     </div>
   );
@@ -4,22 +4,49 @@
  * Main visualization stage for the Beamforming Simulator.
  * Contains tabs for different visualization modes:
  * - Interference Map (2D Heatmap)
- * - Beam Slice (Polar Plot)
+ * - Beam Slice (Polar Plot, with the canceller's SINR learning curve and mask synthesis)
+ * - 3D Pattern (u-v Heatmap / 3D Surface)
  * - Array Geometry (Sensor Layout)
+ * - DOA Spectrum (MUSIC / ESPRIT vs DAS)
  */
 
-import React, { useState, useMemo } from 'react';
+import React, { useState, useMemo, useRef } from 'react';
 import { PolarPlot } from './viz/PolarPlot';
 import { InterferenceCanvas } from './viz/InterferenceCanvas';
-import { MeasurementsRibbon, createDefaultMeasurements } from './MeasurementsRibbon';
+import { PatternViewer3D } from './viz/PatternViewer3D';
+import { DoaSpectrumPlot } from './viz/DoaSpectrumPlot';
+import { SinrConvergenceChart } from './viz/SinrConvergenceChart';
+import { ToleranceEnvelopePlot } from './viz/ToleranceEnvelopePlot';
+import { BeamSquintHeatmap } from './viz/BeamSquintHeatmap';
+import { MeasurementsRibbon, createDefaultMeasurements, type Measurement } from './MeasurementsRibbon';
 import { useBeamStore } from '@/state/beamStore';
+import { PhasedArray, type ArrayGeometry } from '@/classes/PhasedArray';
+import { DEFAULT_VIEW_3D, type View3D } from '@/utils/surfaceRaster';
+import { downloadPlot } from '@/utils/download';
+import { analyzeBeamPattern } from '@/dsp/beamAnalysis';
+import { estimateDoa } from '@/dsp/doaEstimation';
+import { computeOutputSinr } from '@/dsp/signalScene';
+import { predictedQuantizationLobe } from '@/dsp/quantization';
+import { computeFrequencySweep, computeInstantaneousBandwidth } from '@/dsp/beamSquint';
+import { SUBARRAY_LOBE_FLOOR_DB } from '@/dsp/subarrays';
+import { useMetricHistory } from '@/hooks/useMetricHistory';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
+import {
+  quiescentBeamGains,
+  useCancellerResult,
+  useEffectiveUnits,
+  useInterferenceCanceller,
+} from '@/hooks/useEffectiveUnits';
+import { usePatternSynthesis } from '@/hooks/usePatternSynthesis';
+import { useToleranceAnalysis } from '@/hooks/useToleranceAnalysis';
+import type { SynthesisResult } from '@/dsp/patternSynthesis';
 import './BeamformingStage.css';
 
 // ============================================================================
 // TYPES
 // ============================================================================
 
-type VisualizationMode = 'interference' | 'beam-slice' | 'array-geometry';
+type VisualizationMode = 'interference' | 'beam-slice' | 'pattern-3d' | 'array-geometry' | 'doa-spectrum' | 'tolerance' | 'beam-squint';
 
 interface TabConfig {
   id: VisualizationMode;
@@ -27,10 +54,23 @@ interface TabConfig {
   icon: string;
 }
 
+// Per-element SNR before coherent array gain
+const ELEMENT_SNR_DB = 10;
+// Angular step of the pattern cut used for beam metrics (degrees)
+const PATTERN_RESOLUTION = 0.1;
+// Settling time before the beam metrics and scene analyses follow a change (ms)
+const METRICS_DEBOUNCE_MS = 150;
+// Reported sidelobe level when the cut has no sidelobes at all
+const SIDELOBE_FLOOR_DB = -99;
+
 const TABS: TabConfig[] = [
   { id: 'interference', label: 'Interference Map', icon: '📡' },
   { id: 'beam-slice', label: 'Beam Slice', icon: '📊' },
+  { id: 'pattern-3d', label: '3D Pattern', icon: '🌐' },
   { id: 'array-geometry', label: 'Array Geometry', icon: '⬡' },
+  { id: 'doa-spectrum', label: 'DOA Spectrum', icon: '🎯' },
+  { id: 'tolerance', label: 'Tolerance', icon: '🎲' },
+  { id: 'beam-squint', label: 'Beam Squint', icon: '🌈' },
 ];
 
 // ============================================================================
@@ -38,15 +78,16 @@ const TABS: TabConfig[] = [
 // ============================================================================
 
 interface ToolbarProps {
+  toolMode: string;
   onAction: (action: string) => void;
 }
 
-const Toolbar: React.FC<ToolbarProps> = ({ onAction }) => {
+const Toolbar: React.FC<ToolbarProps> = ({ toolMode, onAction }) => {
   return (
     <div className="stage-toolbar">
       <div className="toolbar-group">
         <button 
-          className="toolbar-btn" 
+          className={`toolbar-btn ${toolMode === 'rotate' ? 'active' : ''}`} 
           onClick={() => onAction('rotate')}
           title="Rotate View"
         >
@@ -54,7 +95,7 @@ const Toolbar: React.FC<ToolbarProps> = ({ onAction }) => {
           <span>Rotate</span>
         </button>
         <button 
-          className="toolbar-btn" 
+          className={`toolbar-btn ${toolMode === 'zoom' ? 'active' : ''}`} 
           onClick={() => onAction('zoom')}
           title="Zoom"
         >
@@ -62,7 +103,7 @@ const Toolbar: React.FC<ToolbarProps> = ({ onAction }) => {
           <span>Zoom</span>
         </button>
         <button 
-          className="toolbar-btn" 
+          className={`toolbar-btn ${toolMode === 'pan' ? 'active' : ''}`} 
           onClick={() => onAction('pan')}
           title="Pan"
         >
@@ -93,13 +134,67 @@ const Toolbar: React.FC<ToolbarProps> = ({ onAction }) => {
 };
 
 // ============================================================================
-// ARRAY GEOMETRY COMPONENT (Placeholder)
+// MASK REPORT COMPONENT
+// ============================================================================
+
+interface MaskReportProps {
+  result: SynthesisResult;
+  onSave: () => void;
+}
+
+const MaskReport: React.FC<MaskReportProps> = ({ result, onSave }) => (
+  <div className="mask-report">
+    <div className="mask-report-title">
+      {result.violations.length === 0 ? '✓ Mask met' : `⚠ ${result.violations.length} mask violations`}
+    </div>
+    <ul className="mask-report-list">
+      {result.violations.map((v) => (
+        <li key={`${v.bound}-${v.start}`}>
+          {v.bound === 'upper' ? '▲' : '▼'} {v.start.toFixed(1)}° … {v.end.toFixed(1)}°: +{v.excessDb.toFixed(1)} dB at {v.worstAngle.toFixed(1)}°
+        </li>
+      ))}
+    </ul>
+    <button className="mask-report-save" onClick={onSave}>
+      Save Weights to Unit
+    </button>
+  </div>
+);
+
+// ============================================================================
+// ARRAY GEOMETRY COMPONENT
 // ============================================================================
 
+const GEOMETRY_LABELS: Record<ArrayGeometry, string> = {
+  linear: 'Uniform Linear Array (ULA)',
+  curved: 'Curved (Convex) Array',
+  'planar-rect': 'Planar Rectangular Array (URA)',
+  'planar-hex': 'Planar Hexagonal Array',
+  ring: 'Uniform Circular Array (UCA)',
+};
+
 const ArrayGeometryView: React.FC = () => {
-  const sensorCount = useBeamStore((s) => s.sensorCount);
-  const geometry = useBeamStore((s) => s.geometry);
-  const sensorSpacing = useBeamStore((s) => s.sensorSpacing);
+  const units = useBeamStore((s) => s.units);
+  const activeUnitId = useBeamStore((s) => s.activeUnitId);
+  const medium = useBeamStore((s) => s.medium);
+  
+  const activeUnit = units.find((u) => u.id === activeUnitId);
+  
+  // Element layout seen from the front: planar/ring arrays in x–z, the others in x–y
+  const layout = useMemo(() => {
+    if (!activeUnit) return null;
+    const array = PhasedArray.fromConfig(activeUnit, medium);
+    const center = array.position;
+    const points = array.getElementPositions().map((e) => ({
+      u: e.x - center.x,
+      v: array.isPlanar ? -e.z : e.y - center.y,
+    }));
+    const extent = Math.max(1e-6, ...points.map((p) => Math.max(Math.abs(p.u), Math.abs(p.v))));
+    return { array, points, scale: 80 / extent };
+  }, [activeUnit, medium]);
+  
+  if (!layout) return null;
+  const { array, points, scale } = layout;
+  const markerRadius = Math.max(2, Math.min(8, 160 / Math.sqrt(points.length) / 3));
   
   return (
     <div className="array-geometry-view">
@@ -118,70 +213,57 @@ const ArrayGeometryView: React.FC = () => {
           <line x1="0" y1="-100" x2="0" y2="100" stroke="rgba(51, 65, 85, 0.5)" strokeWidth="1" />
           
           {/* Sensor elements */}
-          {geometry === 'linear' ? (
-            // Linear array
-            Array.from({ length: sensorCount }).map((_, i) => {
-              const spacing = 80 / Math.max(sensorCount - 1, 1);
-              const x = -40 + i * spacing;
-              return (
-                <g key={i}>
-                  <circle 
-                    cx={x} 
-                    cy={0} 
-                    r={8} 
-                    fill="rgba(0, 240, 255, 0.2)" 
-                    stroke="#00F0FF" 
-                    strokeWidth={2}
-                  />
-                  <circle cx={x} cy={0} r={3} fill="#00F0FF" />
+          {points.map((p, i) => {
+            const x = p.u * scale;
+            const y = p.v * scale;
+            return (
+              <g key={i}>
+                <circle 
+                  cx={x} 
+                  cy={y} 
+                  r={markerRadius} 
+                  fill="rgba(0, 240, 255, 0.2)" 
+                  stroke="#00F0FF" 
+                  strokeWidth={markerRadius / 4}
+                />
+                <circle cx={x} cy={y} r={markerRadius * 0.375} fill="#00F0FF" />
+                {points.length <= 16 && (
                   <text 
                     x={x} 
-                    y={20} 
+                    y={y + markerRadius + 10} 
                     textAnchor="middle" 
                     fill="rgba(230, 237, 243, 0.6)" 
                     fontSize={8}
                   >
                     {i + 1}
                   </text>
-                </g>
-              );
-            })
-          ) : (
-            // Circular array
-            Array.from({ length: sensorCount }).map((_, i) => {
-              const angle = (2 * Math.PI * i) / sensorCount - Math.PI / 2;
-              const r = 50;
-              const x = r * Math.cos(angle);
-              const y = r * Math.sin(angle);
-              return (
-                <g key={i}>
-                  <circle 
-                    cx={x} 
-                    cy={y} 
-                    r={8} 
-                    fill="rgba(0, 240, 255, 0.2)" 
-                    stroke="#00F0FF" 
-                    strokeWidth={2}
-                  />
-                  <circle cx={x} cy={y} r={3} fill="#00F0FF" />
-                </g>
-              );
-            })
-          )}
+                )}
+              </g>
+            );
+          })}
         </svg>
       </div>
       <div className="geometry-info">
         <div className="info-item">
           <span className="info-label">Array Type</span>
-          <span className="info-value">{geometry === 'linear' ? 'Uniform Linear Array (ULA)' : 'Circular Array'}</span>
+          <span className="info-value">{GEOMETRY_LABELS[array.geometry]}</span>
         </div>
         <div className="info-item">
           <span className="info-label">Element Count</span>
-          <span className="info-value">{sensorCount}</span>
+          <span className="info-value">
+            {array.elements}
+            {array.geometry === 'planar-rect' || array.geometry === 'planar-hex'
+              ? ` (${array.rows} × ${array.columns})`
+              : ''}
+          </span>
         </div>
         <div className="info-item">
           <span className="info-label">Element Spacing</span>
-          <span className="info-value">{(sensorSpacing * 100).toFixed(2)} cm</span>
+          <span className="info-value">{(array.pitch * 100).toFixed(2)} cm</span>
+        </div>
+        <div className="info-item">
+          <span className="info-label">View</span>
+          <span className="info-value">{array.isPlanar ? 'Face (x–z)' : 'Top (x–y)'}</span>
         </div>
       </div>
     </div>
@@ -211,28 +293,259 @@ const InterferenceMapView: React.FC = () => {
 
 export const BeamformingStage: React.FC = () => {
   const [activeTab, setActiveTab] = useState<VisualizationMode>('beam-slice');
-  const [_toolMode, setToolMode] = useState<string>('pan');
+  const [toolMode, setToolMode] = useState<string>('pan');
+  const [view3D, setView3D] = useState<View3D>(DEFAULT_VIEW_3D);
+  const contentRef = useRef<HTMLDivElement>(null);
   
   const steeringAngle = useBeamStore((s) => s.steeringAngle);
   const sensorCount = useBeamStore((s) => s.sensorCount);
   const frequency = useBeamStore((s) => s.frequency);
   const wavelength = useBeamStore((s) => s.wavelength);
+  const units = useEffectiveUnits();
+  const activeUnitId = useBeamStore((s) => s.activeUnitId);
+  const medium = useBeamStore((s) => s.medium);
+  const algorithm = useBeamStore((s) => s.algorithm);
+  const weightType = useBeamStore((s) => s.weightType);
+  const storedUnits = useBeamStore((s) => s.units);
+  const doaScenario = useBeamStore((s) => s.doaScenario);
+  const emitters = useBeamStore((s) => s.emitters);
+  const dynamicRange = useBeamStore((s) => s.dynamicRange);
+  const cancellerAlgorithm = useBeamStore((s) => s.cancellerSettings.algorithm);
+  useInterferenceCanceller();
+  const cancellerResult = useCancellerResult();
+  const synthesis = usePatternSynthesis();
+  const toleranceSpec = useBeamStore((s) => s.toleranceSettings.spec);
+  const toleranceRun = useToleranceAnalysis(activeTab === 'tolerance');
+  const toleranceResult = toleranceRun.result;
+  const squintSpan = useBeamStore((s) => s.squintSpan);
+  const updateUnit = useBeamStore((s) => s.updateUnit);
+  
+  const activeArray = useMemo(() => {
+    const activeUnit = units.find((u) => u.id === activeUnitId);
+    return activeUnit ? PhasedArray.fromConfig(activeUnit, medium) : null;
+  }, [units, activeUnitId, medium]);
+  
+  // Per-beam gains of the plain beam superposition, before the canceller adapts it
+  const beamGains = useMemo(() => {
+    const storedUnit = storedUnits.find((u) => u.id === activeUnitId);
+    return storedUnit ? quiescentBeamGains(storedUnit, medium, algorithm, weightType) : [];
+  }, [storedUnits, activeUnitId, medium, algorithm, weightType]);
+  
+  // Beam metrics extracted from the computed pattern of the active unit, once it settles
+  const metricsArray = useDebouncedValue(activeArray, METRICS_DEBOUNCE_MS);
+  const metricsSquintSpan = useDebouncedValue(squintSpan, METRICS_DEBOUNCE_MS);
+  const beamMetrics = useMemo(() => {
+    if (!metricsArray) return null;
+    const amplitudes = metricsArray.amplitudes;
+    const coherent = amplitudes.reduce((sum, a) => sum + Math.abs(a), 0);
+    const incoherent = amplitudes.reduce((sum, a) => sum + a * a, 0);
+    const arrayGain = incoherent > 0 ? 10 * Math.log10((coherent * coherent) / incoherent) : 0;
+    
+    const pattern = analyzeBeamPattern(
+      metricsArray.generateBeamPattern(PATTERN_RESOLUTION, metricsArray.steeringPhi),
+      metricsArray.steeringAngle
+    );
+    
+    return {
+      ...pattern,
+      directivity: metricsArray.computeDirectivity(pattern.peakAngle, metricsArray.steeringPhi),
+      snr: ELEMENT_SNR_DB + arrayGain,
+      focalGain: metricsArray.computeFocalGain(),
+      idealGain: 10 * Math.log10(amplitudes.length),
+      quantizationLobe: metricsArray.computeQuantizationLobeLevel(),
+      predictedQuantizationLobe: predictedQuantizationLobe(metricsArray.quantization),
+      instantaneousBandwidth: computeInstantaneousBandwidth(metricsArray, metricsSquintSpan),
+      subarrayLobes: metricsArray.hasSubarrays
+        ? metricsArray.predictSubarrayGratingLobes().filter(({ levelDb }) => levelDb > SUBARRAY_LOBE_FLOOR_DB)
+        : null,
+    };
+  }, [metricsArray, metricsSquintSpan]);
+  
+  // The active unit against the scene emitters, once both settle
+  const sceneInputs = useMemo(
+    () => ({ array: activeArray, emitters, doaScenario }),
+    [activeArray, emitters, doaScenario]
+  );
+  const scene = useDebouncedValue(sceneInputs, METRICS_DEBOUNCE_MS);
+  
+  // Output SINR of the active unit's weights against the scene emitters
+  const sinr = useMemo(
+    () => (scene.array ? computeOutputSinr(scene.array, scene.emitters) : null),
+    [scene]
+  );
+  
+  // Receive-side DOA estimation only depends on the element geometry
+  const showDoa = algorithm === 'music' || activeTab === 'doa-spectrum';
+  const doaResult = useMemo(
+    () => (showDoa && scene.array ? estimateDoa(scene.array, scene.emitters, scene.doaScenario) : null),
+    [showDoa, scene]
+  );
+  
+  // Wideband pattern sweep only while its view is open
+  const squintSweep = useMemo(
+    () => (activeTab === 'beam-squint' && activeArray ? computeFrequencySweep(activeArray, squintSpan) : null),
+    [activeTab, activeArray, squintSpan]
+  );
+  
+  const history = useMetricHistory({
+    snr: beamMetrics?.snr ?? null,
+    directivity: beamMetrics?.directivity ?? null,
+    hpbw: beamMetrics?.hpbw ?? null,
+    fnbw: beamMetrics?.fnbw ?? null,
+    psll: beamMetrics?.peakSidelobeLevel ?? null,
+    pointingError: beamMetrics?.pointingError ?? null,
+    quantizationLobe: beamMetrics?.quantizationLobe ?? null,
+    sinr,
+    musicRmse: doaResult?.musicRmse ?? null,
+    espritRmse: doaResult?.espritRmse ?? null,
+  });
   
   // Create measurements for the ribbon
   const measurements = useMemo(() => {
-    // Calculate approximate beam metrics from array parameters
-    const snr = 10 + Math.log10(sensorCount) * 10; // SNR scales with array gain
-    const directivity = 10 * Math.log10(sensorCount); // Directivity in dBi
-    const beamwidth = (51 / sensorCount) * (wavelength / 0.01); // Approx 3dB beamwidth
-    const sidelobeLevel = -13.3 - 10 * Math.log10(sensorCount / 8); // First sidelobe level
+    if (!beamMetrics) return [];
+    const { snr, directivity, hpbw, fnbw, peakSidelobeLevel, pointingError, gratingLobes, focalGain } = beamMetrics;
+    
+    const defaults = createDefaultMeasurements(snr, directivity, hpbw, peakSidelobeLevel ?? SIDELOBE_FLOOR_DB, {
+      snrHistory: history.snr,
+      directivityHistory: history.directivity,
+      beamwidthHistory: history.hpbw,
+      sidelobeHistory: history.psll,
+    });
     
-    return createDefaultMeasurements(snr, directivity, beamwidth, Math.abs(sidelobeLevel));
-  }, [sensorCount, wavelength]);
+    const extra: Measurement[] = [
+      {
+        label: 'Beamwidth (FN)',
+        value: fnbw,
+        unit: '°',
+        sparklineData: history.fnbw,
+        precision: 1,
+      },
+      {
+        label: 'Pointing Error',
+        value: pointingError,
+        unit: '°',
+        sparklineData: history.pointingError,
+        target: 0,
+        precision: 2,
+      },
+      {
+        label: 'Grating Lobes',
+        value: gratingLobes.length,
+        unit: gratingLobes.length > 0
+          ? `@ ${gratingLobes.map((angle) => `${angle.toFixed(0)}°`).join(', ')}`
+          : '',
+        precision: 0,
+        color: gratingLobes.length > 0 ? '#ff5c6c' : undefined,
+      },
+    ];
+    if (focalGain !== null) {
+      extra.push({
+        label: 'Focal Gain',
+        value: Number.isFinite(focalGain) ? focalGain : -99,
+        unit: 'dB',
+        target: beamMetrics.idealGain, // Ideal coherent gain, 10·log10(N)
+        precision: 1,
+      });
+    }
+    beamGains.forEach(({ steeringAngle: beamAngle, lossDb, splitLossDb }, i) => {
+      extra.push({
+        label: `Beam ${i + 1} Gain`,
+        value: Number.isFinite(lossDb) ? lossDb : -99,
+        unit: `dB @ ${beamAngle.toFixed(0)}°`,
+        target: splitLossDb, // Power split alone, 10·log10(pᵦ/Σp)
+        precision: 1,
+      });
+    });
+    if (beamMetrics.subarrayLobes) {
+      const lobes = beamMetrics.subarrayLobes;
+      extra.push({
+        label: 'Subarray Lobe',
+        value: lobes.length > 0 ? Math.max(...lobes.map(({ levelDb }) => levelDb)) : SUBARRAY_LOBE_FLOOR_DB,
+        unit: lobes.length > 0
+          ? `dB @ ${lobes.map(({ angle }) => `${angle.toFixed(0)}°`).join(', ')}`
+          : 'dB (canceled)',
+        precision: 1,
+        color: lobes.length > 0 ? '#ff9f43' : undefined,
+      });
+    }
+    if (beamMetrics.quantizationLobe !== null) {
+      extra.push({
+        label: 'Quant. Lobe',
+        value: Math.max(SIDELOBE_FLOOR_DB, beamMetrics.quantizationLobe),
+        unit: 'dB',
+        sparklineData: history.quantizationLobe,
+        target: beamMetrics.predictedQuantizationLobe ?? undefined, // −6.02 dB per phase bit
+        precision: 1,
+      });
+    }
+    {
+      const { lower, upper, bandwidth, fractional } = beamMetrics.instantaneousBandwidth;
+      extra.push({
+        label: '3 dB Inst. BW',
+        value: fractional * 100,
+        unit: `% (${lower !== null && upper !== null ? '' : '≥ '}${(bandwidth / 1000).toFixed(2)} kHz)`,
+        precision: 1,
+      });
+    }
+    if (sinr !== null) {
+      extra.push({
+        label: 'SINR',
+        value: sinr,
+        unit: 'dB',
+        sparklineData: history.sinr,
+        precision: 1,
+      });
+    }
+    if (toleranceResult) {
+      extra.push({
+        label: 'Yield',
+        value: toleranceResult.yield * 100,
+        unit: `% of ${toleranceResult.trials}`,
+        target: 100,
+        precision: 1,
+      });
+    }
+    if (doaResult) {
+      const formatAngles = (angles: number[]) => angles.map((angle) => `${angle.toFixed(1)}°`).join(', ');
+      extra.push({
+        label: 'MUSIC RMSE',
+        value: doaResult.musicRmse ?? 0,
+        unit: `° @ ${formatAngles(doaResult.musicEstimates)}`,
+        sparklineData: history.musicRmse,
+        target: 0,
+        precision: 2,
+      });
+      if (doaResult.espritEstimates) {
+        extra.push({
+          label: 'ESPRIT RMSE',
+          value: doaResult.espritRmse ?? 0,
+          unit: `° @ ${formatAngles(doaResult.espritEstimates)}`,
+          sparklineData: history.espritRmse,
+          target: 0,
+          precision: 2,
+        });
+      }
+    }
+    
+    return [...defaults, ...extra];
+  }, [beamMetrics, beamGains, sinr, doaResult, toleranceResult, history]);
   
   const handleToolAction = (action: string) => {
-    setToolMode(action);
-    // Tool actions will be implemented in future phases
-    console.log('Tool action:', action);
+    switch (action) {
+      case 'rotate':
+      case 'zoom':
+      case 'pan':
+        setToolMode(action);
+        break;
+      case 'reset':
+        setView3D(DEFAULT_VIEW_3D);
+        break;
+      case 'export':
+        if (contentRef.current) {
+          downloadPlot(contentRef.current, `beam-${activeTab}-${new Date().toISOString().split('T')[0]}`);
+        }
+        break;
+    }
   };
   
   const renderVisualization = () => {
@@ -240,9 +553,59 @@ export const BeamformingStage: React.FC = () => {
       case 'interference':
         return <InterferenceMapView />;
       case 'beam-slice':
-        return <PolarPlot className="main-polar-plot" />;
+        return (
+          <div className="polar-plot-container">
+            <PolarPlot className="main-polar-plot" synthesis={synthesis} />
+            {synthesis && (
+              <MaskReport
+                result={synthesis}
+                onSave={() => updateUnit(activeUnitId, { amplitudes: synthesis.amplitudes, phases: synthesis.phases })}
+              />
+            )}
+            {cancellerResult && (
+              <SinrConvergenceChart
+                className="stage-inset-chart"
+                result={cancellerResult}
+                label={cancellerAlgorithm.toUpperCase()}
+              />
+            )}
+          </div>
+        );
+      case 'pattern-3d':
+        return (
+          <PatternViewer3D
+            className="main-pattern-viewer"
+            toolMode={toolMode}
+            view={view3D}
+            onViewChange={setView3D}
+          />
+        );
       case 'array-geometry':
         return <ArrayGeometryView />;
+      case 'doa-spectrum':
+        return (
+          <DoaSpectrumPlot
+            result={doaResult}
+            dynamicRange={dynamicRange}
+          />
+        );
+      case 'tolerance':
+        return (
+          <ToleranceEnvelopePlot
+            run={toleranceRun}
+            spec={toleranceSpec}
+            dynamicRange={dynamicRange}
+          />
+        );
+      case 'beam-squint':
+        return (
+          <BeamSquintHeatmap
+            sweep={squintSweep}
+            steeringAngle={activeArray?.steeringAngle ?? steeringAngle}
+            steeringMode={activeArray?.steeringMode ?? 'phase'}
+            dynamicRange={dynamicRange}
+          />
+        );
       default:
         return null;
     }
@@ -264,11 +627,11 @@ export const BeamformingStage: React.FC = () => {
             </button>
           ))}
         </div>
-        <Toolbar onAction={handleToolAction} />
+        <Toolbar toolMode={toolMode} onAction={handleToolAction} />
       </div>
       
       {/* Visualization Area */}
-      <div className="stage-content">
+      <div className="stage-content" ref={contentRef}>
         {renderVisualization()}
       </div>
       
@@ -31,7 +31,7 @@ const MeasurementDetail: React.FC<{
 
   useEffect(() => {
     const canvas = chartRef.current;
-    if (!canvas || !measurement.sparklineData?.length) return;
+    if (!canvas || !measurement.sparklineData || measurement.sparklineData.length < 2) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -257,7 +257,7 @@ const MeasurementCard: React.FC<MeasurementCardProps> = ({
 
   useEffect(() => {
     const canvas = sparklineRef.current;
-    if (!canvas || !measurement.sparklineData?.length) return;
+    if (!canvas || !measurement.sparklineData || measurement.sparklineData.length < 2) return;
 
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
@@ -454,7 +454,7 @@ export const createDefaultMeasurements = (
     value: snr,
     unit: 'dB',
     trend: determineTrend(history.snrHistory),
-    sparklineData: history.snrHistory || generateFakeHistory(snr, 20),
+    sparklineData: history.snrHistory ?? [snr],
     precision: 1
   },
   {
@@ -462,7 +462,7 @@ export const createDefaultMeasurements = (
     value: directivity,
     unit: 'dBi',
     trend: determineTrend(history.directivityHistory),
-    sparklineData: history.directivityHistory || generateFakeHistory(directivity, 20),
+    sparklineData: history.directivityHistory ?? [directivity],
     precision: 1
   },
   {
@@ -470,7 +470,7 @@ export const createDefaultMeasurements = (
     value: beamwidth,
     unit: '°',
     trend: determineTrend(history.beamwidthHistory, true), // lower is better
-    sparklineData: history.beamwidthHistory || generateFakeHistory(beamwidth, 20, 0.1),
+    sparklineData: history.beamwidthHistory ?? [beamwidth],
     precision: 1
   },
   {
@@ -478,7 +478,7 @@ export const createDefaultMeasurements = (
     value: sidelobeLevel,
     unit: 'dB',
     trend: determineTrend(history.sidelobeHistory, true), // lower is better
-    sparklineData: history.sidelobeHistory || generateFakeHistory(sidelobeLevel, 20, 0.5),
+    sparklineData: history.sidelobeHistory ?? [sidelobeLevel],
     precision: 1
   }
 ];
@@ -502,21 +502,4 @@ const determineTrend = (
   return improving ? 'up' : 'down';
 };
 
-// Generate fake history for demo
-const generateFakeHistory = (
-  current: number, 
-  points: number, 
-  variance = 0.05
-): number[] => {
-  const history: number[] = [];
-  let val = current * (1 - variance * 2);
-  
-  for (let i = 0; i < points; i++) {
-    val += (current - val) * 0.2 + (Math.random() - 0.5) * current * variance;
-    history.push(val);
-  }
-  history[history.length - 1] = current;
-  return history;
-};
-
 export default MeasurementsRibbon;
@@ -0,0 +1,257 @@
+/**
+ * BeamSquintHeatmap.tsx
+ *
+ * Frequency × angle heatmap of an array pattern over a band around its
+ * design frequency. Phase-shifter steering shows the beam bending away from
+ * θ₀ off f₀ (squint); true time delay keeps it straight. The beam peak, the
+ * steering direction and the 3 dB instantaneous bandwidth are overlaid.
+ *
+ * OOP Compliance: The sweep is computed by dsp/beamSquint on the PhasedArray;
+ * this component only draws it.
+ */
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import type { SquintSweep } from '@/dsp/beamSquint';
+import type { SteeringMode } from '@/classes/PhasedArray';
+import { mapIntensityToPixels } from '@/utils/colormap';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  background: '#0F111A',
+  axis: '#334155',
+  label: 'rgba(230, 237, 243, 0.6)',
+  labelBright: 'rgba(230, 237, 243, 0.9)',
+  peak: '#FFFFFF',
+  steering: '#FF8800',
+  bandwidth: '#7CFF6B',
+};
+
+const MARGIN = { top: 36, right: 24, bottom: 40, left: 64 };
+const ANGLE_TICKS = [-90, -60, -30, 0, 30, 60, 90];
+const FREQUENCY_TICKS = 5;
+
+const STEERING_MODE_LABELS: Record<SteeringMode, string> = {
+  phase: 'Phase shifters',
+  ttd: 'True time delay',
+};
+
+const formatFrequency = (hz: number): string =>
+  hz >= 1e6 ? `${(hz / 1e6).toFixed(2)} MHz` : `${(hz / 1e3).toFixed(2)} kHz`;
+
+// ============================================================================
+// BEAM SQUINT HEATMAP COMPONENT
+// ============================================================================
+
+interface BeamSquintHeatmapProps {
+  /** Frequency sweep, null without an enabled active array */
+  sweep: SquintSweep | null;
+  steeringAngle: number;
+  steeringMode: SteeringMode;
+  /** Plotted range below the coherent maximum, in dB */
+  dynamicRange: number;
+  className?: string;
+}
+
+export const BeamSquintHeatmap: React.FC<BeamSquintHeatmapProps> = ({
+  sweep,
+  steeringAngle,
+  steeringMode,
+  dynamicRange,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom;
+    if (plotWidth < 50 || plotHeight < 50) return;
+
+    if (!sweep) {
+      ctx.fillStyle = COLORS.label;
+      ctx.font = '12px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText('Enable the active array to sweep its band', MARGIN.left + plotWidth / 2, MARGIN.top + plotHeight / 2);
+      return;
+    }
+
+    const { frequencies, angles } = sweep;
+    const fMin = frequencies[0];
+    const fMax = frequencies[frequencies.length - 1];
+    const toX = (angle: number) => MARGIN.left + ((angle + 90) / 180) * plotWidth;
+    // Highest frequency at the top
+    const toY = (frequency: number) => MARGIN.top + ((fMax - frequency) / (fMax - fMin || 1)) * plotHeight;
+
+    // ========================================================================
+    // HEATMAP
+    // ========================================================================
+
+    // Rows flipped so the highest frequency is the first image row
+    const intensity = new Float32Array(sweep.dB.length);
+    for (let fi = 0; fi < frequencies.length; fi++) {
+      const row = (frequencies.length - 1 - fi) * angles.length;
+      for (let ai = 0; ai < angles.length; ai++) {
+        const dB = sweep.dB[fi * angles.length + ai];
+        intensity[row + ai] = Math.max(0, Math.min(1, (dB + dynamicRange) / dynamicRange));
+      }
+    }
+    const image = document.createElement('canvas');
+    image.width = angles.length;
+    image.height = frequencies.length;
+    const imageCtx = image.getContext('2d');
+    if (imageCtx) {
+      const imageData = imageCtx.createImageData(angles.length, frequencies.length);
+      imageData.data.set(mapIntensityToPixels(intensity, angles.length, frequencies.length, 'turbo', true));
+      imageCtx.putImageData(imageData, 0, 0);
+      ctx.imageSmoothingEnabled = true;
+      ctx.drawImage(image, MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+    }
+
+    // ========================================================================
+    // AXES
+    // ========================================================================
+
+    ctx.strokeStyle = COLORS.axis;
+    ctx.lineWidth = 1;
+    ctx.strokeRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+
+    ctx.fillStyle = COLORS.label;
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (const angle of ANGLE_TICKS) {
+      ctx.fillText(`${angle}°`, toX(angle), MARGIN.top + plotHeight + 6);
+    }
+    ctx.fillText('θ', MARGIN.left + plotWidth / 2, MARGIN.top + plotHeight + 22);
+
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (let i = 0; i < FREQUENCY_TICKS; i++) {
+      const frequency = fMin + (i / (FREQUENCY_TICKS - 1)) * (fMax - fMin);
+      ctx.fillText(formatFrequency(frequency), MARGIN.left - 6, toY(frequency));
+    }
+
+    // ========================================================================
+    // STEERING DIRECTION, BEAM PEAK & 3 dB BAND
+    // ========================================================================
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+    ctx.clip();
+
+    ctx.strokeStyle = COLORS.steering;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(toX(steeringAngle), MARGIN.top);
+    ctx.lineTo(toX(steeringAngle), MARGIN.top + plotHeight);
+    ctx.stroke();
+
+    const { lower, upper } = sweep.bandwidth;
+    ctx.strokeStyle = COLORS.bandwidth;
+    for (const edge of [lower, upper]) {
+      if (edge === null) continue;
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, toY(edge));
+      ctx.lineTo(MARGIN.left + plotWidth, toY(edge));
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    ctx.strokeStyle = COLORS.peak;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    sweep.peakAngles.forEach((angle, i) => {
+      if (i === 0) ctx.moveTo(toX(angle), toY(frequencies[i]));
+      else ctx.lineTo(toX(angle), toY(frequencies[i]));
+    });
+    ctx.stroke();
+    ctx.restore();
+
+    // ========================================================================
+    // LEGEND
+    // ========================================================================
+
+    const { bandwidth, fractional } = sweep.bandwidth;
+    const limited = lower !== null && upper !== null;
+    ctx.font = '11px Inter, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.labelBright;
+    ctx.fillText(STEERING_MODE_LABELS[steeringMode], MARGIN.left, MARGIN.top / 2);
+    ctx.fillStyle = COLORS.bandwidth;
+    ctx.fillText(
+      `3 dB inst. BW ${limited ? '' : '≥ '}${formatFrequency(bandwidth)} (${(fractional * 100).toFixed(1)}%)`,
+      MARGIN.left + 130,
+      MARGIN.top / 2
+    );
+
+    const legend: [string, string][] = [
+      ['Beam peak', COLORS.peak],
+      ['θ₀', COLORS.steering],
+      ['−3 dB edges', COLORS.bandwidth],
+    ];
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textAlign = 'right';
+    legend.forEach(([label, color], i) => {
+      ctx.fillStyle = color;
+      ctx.fillText(label, MARGIN.left + plotWidth - 8, MARGIN.top + 12 + i * 14);
+    });
+  }, [sweep, steeringAngle, steeringMode, dynamicRange]);
+
+  // ============================================================================
+  // RESIZE OBSERVER
+  // ============================================================================
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = requestAnimationFrame(render);
+    });
+    resizeObserver.observe(container);
+    render();
+
+    return () => {
+      resizeObserver.disconnect();
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    };
+  }, [render]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`beam-squint-container ${className}`}
+      style={{ width: '100%', height: '100%', position: 'relative' }}
+    >
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+    </div>
+  );
+};
+
+export default BeamSquintHeatmap;
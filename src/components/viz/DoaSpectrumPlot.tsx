@@ -0,0 +1,235 @@
+/**
+ * DoaSpectrumPlot.tsx
+ *
+ * Cartesian plot of direction-of-arrival spectra for a receive array:
+ * the MUSIC pseudospectrum against the conventional DAS (Bartlett) spectrum,
+ * with markers for the true sources and the MUSIC / ESPRIT estimates.
+ *
+ * OOP Compliance: The spectra are computed by dsp/doaEstimation on the
+ * PhasedArray geometry; this component only draws them.
+ */
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import type { DoaResult } from '@/dsp/doaEstimation';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  background: '#0F111A',
+  grid: 'rgba(51, 65, 85, 0.4)',
+  axis: '#334155',
+  label: 'rgba(230, 237, 243, 0.6)',
+  music: '#00F0FF',
+  das: 'rgba(230, 237, 243, 0.45)',
+  source: '#FFB020',
+  esprit: '#B388FF',
+};
+
+const MARGIN = { top: 36, right: 24, bottom: 40, left: 52 };
+const ANGLE_TICKS = [-90, -60, -30, 0, 30, 60, 90];
+const DB_TICK_STEP = 10;
+
+// ============================================================================
+// DOA SPECTRUM PLOT COMPONENT
+// ============================================================================
+
+interface DoaSpectrumPlotProps {
+  /** Estimation result, null when the scenario cannot be estimated */
+  result: DoaResult | null;
+  /** Plotted range below the spectrum peaks, in dB */
+  dynamicRange: number;
+  className?: string;
+}
+
+export const DoaSpectrumPlot: React.FC<DoaSpectrumPlotProps> = ({
+  result,
+  dynamicRange,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const plotHeight = height - MARGIN.top - MARGIN.bottom;
+    if (plotWidth < 50 || plotHeight < 50) return;
+
+    const toX = (angle: number) => MARGIN.left + ((angle + 90) / 180) * plotWidth;
+    const toY = (dB: number) =>
+      MARGIN.top + (Math.min(0, Math.max(-dynamicRange, dB)) / -dynamicRange) * plotHeight;
+
+    // ========================================================================
+    // GRID & AXES
+    // ========================================================================
+
+    ctx.strokeStyle = COLORS.grid;
+    ctx.lineWidth = 1;
+    ctx.fillStyle = COLORS.label;
+    ctx.font = '10px Inter, sans-serif';
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (const angle of ANGLE_TICKS) {
+      ctx.beginPath();
+      ctx.moveTo(toX(angle), MARGIN.top);
+      ctx.lineTo(toX(angle), MARGIN.top + plotHeight);
+      ctx.stroke();
+      ctx.fillText(`${angle}°`, toX(angle), MARGIN.top + plotHeight + 6);
+    }
+
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (let dB = 0; dB >= -dynamicRange; dB -= DB_TICK_STEP) {
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, toY(dB));
+      ctx.lineTo(MARGIN.left + plotWidth, toY(dB));
+      ctx.stroke();
+      ctx.fillText(`${dB} dB`, MARGIN.left - 6, toY(dB));
+    }
+
+    ctx.strokeStyle = COLORS.axis;
+    ctx.strokeRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+
+    if (!result) {
+      ctx.fillStyle = COLORS.label;
+      ctx.font = '12px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.fillText(
+        'Enable 1 to N−1 emitters on an array of at most 64 elements',
+        MARGIN.left + plotWidth / 2,
+        MARGIN.top + plotHeight / 2
+      );
+      return;
+    }
+
+    // ========================================================================
+    // TRUE DIRECTIONS
+    // ========================================================================
+
+    ctx.strokeStyle = COLORS.source;
+    ctx.setLineDash([2, 4]);
+    for (const angle of result.trueAngles) {
+      ctx.beginPath();
+      ctx.moveTo(toX(angle), MARGIN.top);
+      ctx.lineTo(toX(angle), MARGIN.top + plotHeight);
+      ctx.stroke();
+    }
+    ctx.setLineDash([]);
+
+    // ========================================================================
+    // SPECTRA
+    // ========================================================================
+
+    const drawSpectrum = (values: number[], color: string, dash: number[]) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      result.angles.forEach((angle, i) => {
+        const x = toX(angle);
+        const y = toY(values[i]);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+
+    drawSpectrum(result.das, COLORS.das, [5, 4]);
+    drawSpectrum(result.music, COLORS.music, []);
+
+    // ========================================================================
+    // ESTIMATE MARKERS
+    // ========================================================================
+
+    const drawMarkers = (angles: number[], color: string, y: number) => {
+      ctx.fillStyle = color;
+      for (const angle of angles) {
+        const x = toX(angle);
+        ctx.beginPath();
+        ctx.moveTo(x, y + 6);
+        ctx.lineTo(x - 5, y - 3);
+        ctx.lineTo(x + 5, y - 3);
+        ctx.closePath();
+        ctx.fill();
+      }
+    };
+
+    drawMarkers(result.musicEstimates, COLORS.music, MARGIN.top - 14);
+    if (result.espritEstimates) drawMarkers(result.espritEstimates, COLORS.esprit, MARGIN.top - 4);
+
+    // ========================================================================
+    // LEGEND
+    // ========================================================================
+
+    const legend: [string, string][] = [
+      ['MUSIC ▼', COLORS.music],
+      ['DAS', COLORS.das],
+      ['True direction', COLORS.source],
+    ];
+    if (result.espritEstimates) legend.push(['ESPRIT ▼', COLORS.esprit]);
+
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    legend.forEach(([label, color], i) => {
+      ctx.fillStyle = color;
+      ctx.fillText(label, MARGIN.left + plotWidth - 8, MARGIN.top + 12 + i * 14);
+    });
+  }, [result, dynamicRange]);
+
+  // ============================================================================
+  // RESIZE OBSERVER
+  // ============================================================================
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = requestAnimationFrame(render);
+    });
+    resizeObserver.observe(container);
+    render();
+
+    return () => {
+      resizeObserver.disconnect();
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    };
+  }, [render]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`doa-spectrum-container ${className}`}
+      style={{ width: '100%', height: '100%', position: 'relative' }}
+    >
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+    </div>
+  );
+};
+
+export default DoaSpectrumPlot;
@@ -9,10 +9,17 @@
  * which uses the PhasedArray class for all physics calculations.
  */
 
-import React, { useCallback, useEffect, useRef, useState } from 'react';
-import { useBeamStore } from '@/state/beamStore';
-import { mapIntensityToPixels, type ColormapName } from '@/utils/colormap';
-import type { SimulationConfig, SimulationResult, WorkerMessage, WorkerResponse } from '@/workers/beam-simulator.worker';
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useBeamStore, type CellMapMode, type CoverageMode } from '@/state/beamStore';
+import { isAdaptiveBeamformer, useEffectiveUnits } from '@/hooks/useEffectiveUnits';
+import { useCodebookCoverage } from '@/hooks/useCodebookCoverage';
+import { useMultiCellMap } from '@/hooks/useMultiCellMap';
+import { PhasedArray, type Position3D } from '@/classes/PhasedArray';
+import { emitterDirection } from '@/dsp/signalScene';
+import { mapIntensityToPixels, turbo, type ColormapName } from '@/utils/colormap';
+import type { CoverageMap } from '@/dsp/beamCodebook';
+import type { CellMap } from '@/dsp/multiCell';
+import type { FrequencyGroup, SimulationConfig, SimulationResult, WorkerMessage, WorkerResponse } from '@/workers/beam-simulator.worker';
 import './InterferenceCanvas.css';
 
 // ============================================================================
@@ -22,6 +29,86 @@ import './InterferenceCanvas.css';
 const DEFAULT_GRID_SIZE = 300; // 300x300 = 90,000 pixels (real-time capable)
 const DEFAULT_FIELD_SIZE = 2; // 2 meters x 2 meters viewing area
 const DEBOUNCE_MS = 50; // Debounce worker calls for smooth interaction
+const FAR_FIELD_MARKER_RADIUS = 0.45; // Far-field emitters sit on this fraction of the field width from their array
+const COVERAGE_GRID_SIZE = 150; // Codebook sweeps cost beams × elements per pixel, so the map is coarser
+const COVERAGE_ALPHA = 200;
+const CELL_GRID_SIZE = 150; // Every cell's field is summed per pixel, so the map is coarser
+
+// Turbo as a CSS gradient (high at the top) for the cell map colorbars
+const TURBO_GRADIENT = `linear-gradient(to bottom, ${[1, 0.8, 0.6, 0.4, 0.2, 0]
+  .map((t) => `rgb(${turbo(t).join(', ')})`)
+  .join(', ')})`;
+
+// Golden-ratio hues keep neighboring beams (and cells) apart
+const categoryColor = (index: number) => turbo((index * 0.618034) % 1);
+
+const formatRate = (bitsPerSecond: number): string =>
+  bitsPerSecond >= 1e6
+    ? `${(bitsPerSecond / 1e6).toFixed(2)} Mbit/s`
+    : `${(bitsPerSecond / 1e3).toFixed(2)} kbit/s`;
+
+/** Colorbar span of a cell map: SINR in dB over the dynamic range, or throughput from zero */
+const cellMapRange = (map: CellMap, mode: CellMapMode, dynamicRange: number) =>
+  mode === 'throughput'
+    ? { low: 0, high: map.maxThroughput }
+    : { low: Math.max(map.minSinrDb, map.maxSinrDb - dynamicRange), high: map.maxSinrDb };
+
+/**
+ * RGBA pixels of a coverage map: the best beam's color dimmed by its gain,
+ * or the best-beam gain itself, over `dynamicRange` dB below the peak.
+ */
+const coverageToPixels = (map: CoverageMap, mode: CoverageMode, dynamicRange: number): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(map.width * map.height * 4);
+  const floor = map.maxGainDb - dynamicRange;
+  for (let i = 0; i < map.gainDb.length; i++) {
+    const level = Math.max(0, Math.min(1, (map.gainDb[i] - floor) / dynamicRange));
+    const [r, g, b] = mode === 'gain' ? turbo(level) : categoryColor(map.bestBeam[i]);
+    const shade = mode === 'gain' ? 1 : 0.35 + 0.65 * level;
+    pixels[i * 4] = r * shade;
+    pixels[i * 4 + 1] = g * shade;
+    pixels[i * 4 + 2] = b * shade;
+    pixels[i * 4 + 3] = COVERAGE_ALPHA;
+  }
+  return pixels;
+};
+
+/**
+ * RGBA pixels of a multi-cell map: SINR or throughput through turbo, or the
+ * serving cell's color dimmed by its SINR.
+ */
+const cellMapToPixels = (map: CellMap, mode: CellMapMode, dynamicRange: number): Uint8ClampedArray => {
+  const pixels = new Uint8ClampedArray(map.width * map.height * 4);
+  const { low, high } = cellMapRange(map, mode, dynamicRange);
+  const span = high - low || 1;
+  for (let i = 0; i < map.sinrDb.length; i++) {
+    const value = mode === 'throughput' ? map.throughput[i] : map.sinrDb[i];
+    const level = Math.max(0, Math.min(1, (value - low) / span));
+    const [r, g, b] = mode === 'serving' ? categoryColor(map.serving[i]) : turbo(level);
+    const shade = mode === 'serving' ? 0.35 + 0.65 * level : 1;
+    pixels[i * 4] = r * shade;
+    pixels[i * 4 + 1] = g * shade;
+    pixels[i * 4 + 2] = b * shade;
+    pixels[i * 4 + 3] = 255;
+  }
+  return pixels;
+};
+
+const formatFrequency = (hz: number): string =>
+  hz >= 1e6 ? `${(hz / 1e6).toFixed(2)} MHz` : hz >= 1e3 ? `${(hz / 1e3).toFixed(2)} kHz` : `${hz.toFixed(0)} Hz`;
+
+/**
+ * How the units' fields combine: coherently within a frequency, as power
+ * across frequencies. Null for a single unit.
+ */
+const superpositionLabel = (groups: FrequencyGroup[], names: Map<string, string>): string | null => {
+  const unitCount = groups.reduce((sum, g) => sum + g.unitIds.length, 0);
+  if (unitCount < 2) return null;
+  if (groups.length === 1) return `Coherent sum @ ${formatFrequency(groups[0].frequency)}`;
+  const parts = groups.map(
+    (g) => `${formatFrequency(g.frequency)} (${g.unitIds.map((id) => names.get(id) ?? id).join(' + ')})`
+  );
+  return `Power sum of ${groups.length} frequencies: ${parts.join(', ')}`;
+};
 
 // ============================================================================
 // COMPONENT
@@ -41,21 +128,114 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
   fieldSize = DEFAULT_FIELD_SIZE,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const coverageCanvasRef = useRef<HTMLCanvasElement>(null);
+  const cellCanvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const workerRef = useRef<Worker | null>(null);
   const debounceRef = useRef<number | null>(null);
   const jobIdRef = useRef<string>('');
+  const draggedEmitterRef = useRef<string | null>(null);
   
   // State
   const [isComputing, setIsComputing] = useState(false);
   const [computeTime, setComputeTime] = useState<number | null>(null);
   const [progress, setProgress] = useState(0);
+  const [frequencyGroups, setFrequencyGroups] = useState<FrequencyGroup[]>([]);
   
-  // Subscribe to beam store - use units array for OOP compliance
-  const units = useBeamStore((s) => s.units);
+  // Subscribe to beam store - units carry the weights of the selected algorithm
+  const units = useEffectiveUnits();
+  const algorithm = useBeamStore((s) => s.algorithm);
+  const weightType = useBeamStore((s) => s.weightType);
   const medium = useBeamStore((s) => s.medium);
+  const propagation = useBeamStore((s) => s.propagation);
+  const media = useBeamStore((s) => s.customMedia);
   const steeringAngle = useBeamStore((s) => s.steeringAngle);
   const wavelength = useBeamStore((s) => s.wavelength);
+  const emitters = useBeamStore((s) => s.emitters);
+  const activeUnitId = useBeamStore((s) => s.activeUnitId);
+  const updateEmitter = useBeamStore((s) => s.updateEmitter);
+  const coverageMode = useBeamStore((s) => s.coverageMode);
+  const dynamicRange = useBeamStore((s) => s.dynamicRange);
+  const cellMapMode = useBeamStore((s) => s.cellMapMode);
+  
+  // Best-beam coverage of the active unit's codebook over the same field
+  const coverage = useCodebookCoverage(coverageMode !== 'off', { gridSize: COVERAGE_GRID_SIZE, fieldSize });
+  
+  // Units as separate cells: serving cell, SINR and throughput over the same field
+  const cells = useMultiCellMap(cellMapMode !== 'off', { gridSize: CELL_GRID_SIZE, fieldSize });
+  const cellNames = useMemo(
+    () => (cells.result?.unitIds ?? []).map((id) => units.find((u) => u.id === id)?.name ?? id),
+    [cells.result, units]
+  );
+  const cellColorbar = useMemo(() => {
+    if (!cells.result || cellMapMode === 'off' || cellMapMode === 'serving') return null;
+    const { low, high } = cellMapRange(cells.result, cellMapMode, dynamicRange);
+    return cellMapMode === 'throughput'
+      ? { title: 'Throughput', high: formatRate(high), low: formatRate(low) }
+      : { title: 'SINR', high: `${high.toFixed(1)} dB`, low: `${low.toFixed(1)} dB` };
+  }, [cells.result, cellMapMode, dynamicRange]);
+  
+  // Units at one frequency interfere; different frequencies add as power
+  const superposition = useMemo(
+    () => superpositionLabel(frequencyGroups, new Map(units.map((u) => [u.id, u.name]))),
+    [frequencyGroups, units]
+  );
+  
+  // Focal points of focused units (computed by the PhasedArray class)
+  const focalSpots = useMemo(() => {
+    return units
+      .filter((u) => u.enabled)
+      .map((u) => ({ id: u.id, name: u.name, point: PhasedArray.fromConfig(u, medium).focalPoint }))
+      .filter((spot): spot is { id: string; name: string; point: Position3D } => spot.point !== null);
+  }, [units, medium]);
+  
+  // Emitter markers in field coordinates: point emitters at their position,
+  // far-field emitters on a ring around the active unit along their direction
+  const arrayPosition = useMemo(
+    () => units.find((u) => u.id === activeUnitId)?.position ?? { x: 0, y: 0 },
+    [units, activeUnitId]
+  );
+  const emitterMarkers = useMemo(() => {
+    const ring = FAR_FIELD_MARKER_RADIUS * fieldSize;
+    return emitters.map((emitter) => {
+      if (emitter.position) return { emitter, point: emitter.position };
+      const rad = (emitter.angle * Math.PI) / 180;
+      return {
+        emitter,
+        point: { x: arrayPosition.x + ring * Math.sin(rad), y: arrayPosition.y - ring * Math.cos(rad) },
+      };
+    });
+  }, [emitters, arrayPosition, fieldSize]);
+  
+  const handleEmitterDrag = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    const id = draggedEmitterRef.current;
+    const matrix = event.currentTarget.getScreenCTM();
+    if (!id || !matrix) return;
+    
+    const svgPoint = event.currentTarget.createSVGPoint();
+    svgPoint.x = event.clientX;
+    svgPoint.y = event.clientY;
+    const { x, y } = svgPoint.matrixTransform(matrix.inverse());
+    const half = fieldSize / 2;
+    const position = { x: Math.max(-half, Math.min(half, x)), y: Math.max(-half, Math.min(half, y)) };
+    
+    const emitter = emitters.find((e) => e.id === id);
+    if (!emitter) return;
+    if (emitter.position) {
+      updateEmitter(id, { position });
+    } else {
+      // Far-field emitters keep their plane-wave nature; dragging only turns them
+      const angle = Math.round(emitterDirection({ ...emitter, position }, arrayPosition));
+      updateEmitter(id, { angle: Math.max(-90, Math.min(90, angle)) });
+    }
+  }, [emitters, arrayPosition, fieldSize, updateEmitter]);
+  
+  const handleEmitterDragEnd = useCallback((event: React.PointerEvent<SVGSVGElement>) => {
+    if (event.currentTarget.hasPointerCapture(event.pointerId)) {
+      event.currentTarget.releasePointerCapture(event.pointerId);
+    }
+    draggedEmitterRef.current = null;
+  }, []);
   
   // ============================================================================
   // RENDERING - Define before worker effect
@@ -82,6 +262,34 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
     ctx.putImageData(imageData, 0, 0);
   }, [colormap]);
   
+  useEffect(() => {
+    const canvas = coverageCanvasRef.current;
+    const map = coverage.result;
+    if (!canvas || !map || coverageMode === 'off') return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    canvas.width = map.width;
+    canvas.height = map.height;
+    const imageData = ctx.createImageData(map.width, map.height);
+    imageData.data.set(coverageToPixels(map, coverageMode, dynamicRange));
+    ctx.putImageData(imageData, 0, 0);
+  }, [coverage.result, coverageMode, dynamicRange]);
+  
+  useEffect(() => {
+    const canvas = cellCanvasRef.current;
+    const map = cells.result;
+    if (!canvas || !map || cellMapMode === 'off') return;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    
+    canvas.width = map.width;
+    canvas.height = map.height;
+    const imageData = ctx.createImageData(map.width, map.height);
+    imageData.data.set(cellMapToPixels(map, cellMapMode, dynamicRange));
+    ctx.putImageData(imageData, 0, 0);
+  }, [cells.result, cellMapMode, dynamicRange]);
+  
   // ============================================================================
   // WORKER MANAGEMENT
   // ============================================================================
@@ -109,6 +317,7 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
           if (result) {
             renderResult(result);
             setComputeTime(result.computeTimeMs);
+            setFrequencyGroups(result.groups);
           }
           setIsComputing(false);
           setProgress(100);
@@ -142,6 +351,8 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
     const config: SimulationConfig = {
       units: units.filter(u => u.enabled), // Pass enabled units to worker
       medium,
+      media,
+      propagation,
       gridSize: { width: gridSize, height: gridSize },
       wavelength,
       fieldSize: { width: fieldSize, height: fieldSize },
@@ -161,7 +372,7 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
       jobId,
       config,
     } as WorkerMessage);
-  }, [units, medium, wavelength, gridSize, fieldSize]);
+  }, [units, medium, media, propagation, wavelength, gridSize, fieldSize]);
   
   // ============================================================================
   // DEBOUNCED UPDATE
@@ -198,6 +409,74 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
         className="interference-canvas"
       />
       
+      {/* Codebook coverage (same field grid, drawn over the interference pattern) */}
+      {coverageMode !== 'off' && coverage.result && (
+        <canvas ref={coverageCanvasRef} className="coverage-canvas" />
+      )}
+      
+      {/* Multi-cell analysis (opaque, replaces the interference pattern) */}
+      {cellMapMode !== 'off' && cells.result && (
+        <canvas ref={cellCanvasRef} className="coverage-canvas" />
+      )}
+      
+      {/* Focal spot markers (field coordinates, aligned with the contained canvas) */}
+      {focalSpots.length > 0 && (
+        <svg
+          className="focal-overlay"
+          viewBox={`${-fieldSize / 2} ${-fieldSize / 2} ${fieldSize} ${fieldSize}`}
+          preserveAspectRatio="xMidYMid meet"
+        >
+          {focalSpots.map(({ id, name, point }) => (
+            <g key={id} className="focal-spot">
+              <title>{`${name} focus (${point.x.toFixed(2)} m, ${point.y.toFixed(2)} m)`}</title>
+              <circle cx={point.x} cy={point.y} r={fieldSize * 0.02} />
+              <line x1={point.x - fieldSize * 0.035} y1={point.y} x2={point.x + fieldSize * 0.035} y2={point.y} />
+              <line x1={point.x} y1={point.y - fieldSize * 0.035} x2={point.x} y2={point.y + fieldSize * 0.035} />
+            </g>
+          ))}
+        </svg>
+      )}
+      
+      {/* Draggable sources and interferers (field coordinates) */}
+      <svg
+        className="emitter-overlay"
+        viewBox={`${-fieldSize / 2} ${-fieldSize / 2} ${fieldSize} ${fieldSize}`}
+        preserveAspectRatio="xMidYMid meet"
+        onPointerMove={handleEmitterDrag}
+        onPointerUp={handleEmitterDragEnd}
+        onPointerCancel={handleEmitterDragEnd}
+      >
+        {emitterMarkers.map(({ emitter, point }) => (
+          <g
+            key={emitter.id}
+            className={`emitter-marker ${emitter.kind} ${emitter.enabled ? '' : 'disabled'}`}
+            onPointerDown={(event) => {
+              draggedEmitterRef.current = emitter.id;
+              event.currentTarget.ownerSVGElement?.setPointerCapture(event.pointerId);
+            }}
+          >
+            <title>
+              {emitter.position
+                ? `${emitter.name} (${point.x.toFixed(2)} m, ${point.y.toFixed(2)} m)`
+                : `${emitter.name} far-field at ${emitter.angle}°`}
+            </title>
+            {!emitter.position && (
+              <line
+                className="emitter-ray"
+                x1={arrayPosition.x}
+                y1={arrayPosition.y}
+                x2={point.x}
+                y2={point.y}
+              />
+            )}
+            <circle cx={point.x} cy={point.y} r={fieldSize * 0.025} />
+            <text x={point.x} y={point.y - fieldSize * 0.04} fontSize={fieldSize * 0.03} textAnchor="middle">
+              {emitter.name}
+            </text>
+          </g>
+        ))}
+      </svg>
+      
       {/* Overlay info */}
       <div className="interference-overlay">
         {isComputing && (
@@ -212,6 +491,35 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
           </div>
         )}
         
+        {coverageMode !== 'off' && (
+          <div className="compute-time">
+            {coverage.status === 'running' && 'Sweeping codebook…'}
+            {coverage.status === 'error' && `Coverage unavailable: ${coverage.error}`}
+            {coverage.status === 'done' && coverage.result && (
+              coverageMode === 'best-beam'
+                ? `Best of ${coverage.result.beamCount} beams`
+                : `Best-beam gain, peak ${coverage.result.maxGainDb.toFixed(1)} dB`
+            )}
+          </div>
+        )}
+        
+        {cellMapMode !== 'off' && (
+          <div className="compute-time">
+            {cells.status === 'running' && 'Computing cell map…'}
+            {cells.status === 'error' && `Cell map unavailable: ${cells.error}`}
+            {cells.status === 'done' && cells.result && (
+              `${cells.result.unitIds.length} ${cells.result.unitIds.length === 1 ? 'cell' : 'cells'}, ` +
+              `peak ${formatRate(cells.result.maxThroughput)}`
+            )}
+          </div>
+        )}
+        
+        {superposition && <div className="compute-time">{superposition}</div>}
+        
+        {isAdaptiveBeamformer(algorithm, weightType) && (
+          <div className="compute-time">{algorithm.toUpperCase()} adaptive weights</div>
+        )}
+        
         {!isComputing && computeTime !== null && (
           <div className="compute-time">
             Rendered in {computeTime.toFixed(1)}ms
@@ -219,14 +527,26 @@ export const InterferenceCanvas: React.FC<InterferenceCanvasProps> = ({
         )}
       </div>
       
-      {/* Colorbar legend */}
-      <div className="colorbar">
-        <div className="colorbar-gradient" />
-        <div className="colorbar-labels">
-          <span>High</span>
-          <span>Low</span>
+      {/* Colorbar legend (serving cells get a color key instead) */}
+      {cellMapMode === 'serving' && cells.result ? (
+        <div className="colorbar cell-legend">
+          {cellNames.map((name, i) => (
+            <div key={i} className="cell-legend-item">
+              <span className="cell-legend-swatch" style={{ background: `rgb(${categoryColor(i).join(', ')})` }} />
+              <span>{name}</span>
+            </div>
+          ))}
         </div>
-      </div>
+      ) : (
+        <div className="colorbar">
+          {cellColorbar && <span className="colorbar-title">{cellColorbar.title}</span>}
+          <div className="colorbar-gradient" style={cellColorbar ? { background: TURBO_GRADIENT } : undefined} />
+          <div className="colorbar-labels">
+            <span>{cellColorbar?.high ?? 'High'}</span>
+            <span>{cellColorbar?.low ?? 'Low'}</span>
+          </div>
+        </div>
+      )}
       
       {/* Axis labels */}
       <div className="axis-labels">
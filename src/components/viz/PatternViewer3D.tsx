@@ -0,0 +1,299 @@
+/**
+ * PatternViewer3D.tsx
+ *
+ * Full-sphere radiation pattern viewer for the active array unit.
+ * Two projections:
+ * - u-v (sine-space) heatmap of the front hemisphere
+ * - Software-rasterized 3D surface r(θ, φ) with rotate/zoom
+ *
+ * OOP Compliance: Every pattern value is computed by the PhasedArray class.
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { useBeamStore } from '@/state/beamStore';
+import { useEffectiveUnits } from '@/hooks/useEffectiveUnits';
+import { PhasedArray } from '@/classes/PhasedArray';
+import { getColormap } from '@/utils/colormap';
+import { projectPoint, rasterizePatternSurface, type View3D } from '@/utils/surfaceRaster';
+import './PatternViewer3D.css';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const RASTER_SIZE = 360;        // Canvas resolution (CSS scales it to fit)
+const UV_RESOLUTION = 160;      // Sine-space cells per side
+const SURFACE_THETA_STEP = 2;   // Surface mesh steps in degrees
+const SURFACE_PHI_STEP = 4;
+const BACKGROUND = [15, 17, 26] as const;
+const MIN_ZOOM = 0.5;
+const MAX_ZOOM = 6;
+
+type Projection = 'uv' | 'surface';
+
+interface CursorReadout {
+  theta: number;
+  phi: number;
+  dB: number;
+}
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// ============================================================================
+// PATTERN VIEWER COMPONENT
+// ============================================================================
+
+interface PatternViewer3DProps {
+  /** Active stage tool: 'rotate' and 'zoom' drive mouse drags */
+  toolMode: string;
+  view: View3D;
+  onViewChange: (view: View3D) => void;
+  className?: string;
+}
+
+export const PatternViewer3D: React.FC<PatternViewer3DProps> = ({
+  toolMode,
+  view,
+  onViewChange,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ x: number; y: number; view: View3D } | null>(null);
+  const [projection, setProjection] = useState<Projection>('uv');
+  const [readout, setReadout] = useState<CursorReadout | null>(null);
+
+  const units = useEffectiveUnits();
+  const activeUnitId = useBeamStore((s) => s.activeUnitId);
+  const medium = useBeamStore((s) => s.medium);
+  const dynamicRange = useBeamStore((s) => s.dynamicRange);
+  const floorDb = -dynamicRange;
+
+  const phasedArray = useMemo(() => {
+    const activeUnit = units.find((u) => u.id === activeUnitId);
+    return activeUnit ? PhasedArray.fromConfig(activeUnit, medium) : null;
+  }, [units, activeUnitId, medium]);
+
+  // Zooming the u-v view narrows the sampled sine-space window
+  const uvExtent = 1 / Math.max(1, view.zoom);
+
+  const uvPattern = useMemo(() => {
+    if (projection !== 'uv' || !phasedArray) return null;
+    return phasedArray.computeSineSpacePattern(UV_RESOLUTION, uvExtent);
+  }, [projection, phasedArray, uvExtent]);
+
+  const grid = useMemo(() => {
+    if (projection !== 'surface' || !phasedArray) return null;
+    return phasedArray.computePatternGrid(SURFACE_THETA_STEP, SURFACE_PHI_STEP, 180);
+  }, [projection, phasedArray]);
+
+  const surface = useMemo(() => {
+    if (!grid) return null;
+    return rasterizePatternSurface(grid, view, RASTER_SIZE, RASTER_SIZE, { floorDb, background: BACKGROUND });
+  }, [grid, view, floorDb]);
+
+  // ============================================================================
+  // RENDERING
+  // ============================================================================
+
+  const renderUv = useCallback((ctx: CanvasRenderingContext2D, pattern: Float32Array) => {
+    const colorFn = getColormap('turbo');
+    const image = ctx.createImageData(UV_RESOLUTION, UV_RESOLUTION);
+    for (let i = 0; i < pattern.length; i++) {
+      const magnitude = pattern[i];
+      const rgb = Number.isNaN(magnitude)
+        ? BACKGROUND
+        : colorFn(magnitude > 0 ? (20 * Math.log10(magnitude) - floorDb) / -floorDb : 0);
+      image.data[i * 4] = rgb[0];
+      image.data[i * 4 + 1] = rgb[1];
+      image.data[i * 4 + 2] = rgb[2];
+      image.data[i * 4 + 3] = 255;
+    }
+
+    // Upscale the sine-space grid onto the display canvas
+    const offscreen = document.createElement('canvas');
+    offscreen.width = UV_RESOLUTION;
+    offscreen.height = UV_RESOLUTION;
+    offscreen.getContext('2d')?.putImageData(image, 0, 0);
+    ctx.imageSmoothingEnabled = true;
+    ctx.drawImage(offscreen, 0, 0, RASTER_SIZE, RASTER_SIZE);
+
+    // Visible-region circle, u/v axes and steering marker
+    const toPixel = (u: number, v: number) => ({
+      x: ((u + uvExtent) / (2 * uvExtent)) * RASTER_SIZE,
+      y: ((uvExtent - v) / (2 * uvExtent)) * RASTER_SIZE,
+    });
+    const center = toPixel(0, 0);
+    ctx.strokeStyle = 'rgba(230, 237, 243, 0.35)';
+    ctx.lineWidth = 1;
+    ctx.beginPath();
+    ctx.arc(center.x, center.y, RASTER_SIZE / (2 * uvExtent), 0, 2 * Math.PI);
+    ctx.moveTo(0, center.y);
+    ctx.lineTo(RASTER_SIZE, center.y);
+    ctx.moveTo(center.x, 0);
+    ctx.lineTo(center.x, RASTER_SIZE);
+    ctx.stroke();
+
+    if (phasedArray) {
+      const steer = PhasedArray.direction(phasedArray.steeringAngle, phasedArray.steeringPhi);
+      const marker = toPixel(steer.x, steer.z);
+      ctx.strokeStyle = '#FF8800';
+      ctx.lineWidth = 2;
+      ctx.beginPath();
+      ctx.arc(marker.x, marker.y, 6, 0, 2 * Math.PI);
+      ctx.stroke();
+    }
+
+    ctx.fillStyle = 'rgba(230, 237, 243, 0.7)';
+    ctx.font = '11px Inter, sans-serif';
+    ctx.fillText('u', RASTER_SIZE - 14, center.y - 6);
+    ctx.fillText('v', center.x + 6, 14);
+  }, [floorDb, phasedArray, uvExtent]);
+
+  const renderSurface = useCallback((ctx: CanvasRenderingContext2D, pixels: Uint8ClampedArray) => {
+    const image = ctx.createImageData(RASTER_SIZE, RASTER_SIZE);
+    image.data.set(pixels);
+    ctx.putImageData(image, 0, 0);
+
+    // Axes: x, broadside (−y) and z
+    const origin = projectPoint({ x: 0, y: 0, z: 0 }, view, RASTER_SIZE, RASTER_SIZE);
+    const axes = [
+      { label: 'x', point: { x: 1.15, y: 0, z: 0 } },
+      { label: 'broadside', point: { x: 0, y: -1.15, z: 0 } },
+      { label: 'z', point: { x: 0, y: 0, z: 1.15 } },
+    ];
+    ctx.strokeStyle = 'rgba(230, 237, 243, 0.45)';
+    ctx.fillStyle = 'rgba(230, 237, 243, 0.7)';
+    ctx.font = '11px Inter, sans-serif';
+    ctx.lineWidth = 1;
+    axes.forEach(({ label, point }) => {
+      const end = projectPoint(point, view, RASTER_SIZE, RASTER_SIZE);
+      ctx.beginPath();
+      ctx.moveTo(origin.x, origin.y);
+      ctx.lineTo(end.x, end.y);
+      ctx.stroke();
+      ctx.fillText(label, end.x + 4, end.y - 4);
+    });
+  }, [view]);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.fillStyle = `rgb(${BACKGROUND.join(',')})`;
+    ctx.fillRect(0, 0, RASTER_SIZE, RASTER_SIZE);
+
+    if (projection === 'uv' && uvPattern) renderUv(ctx, uvPattern);
+    if (projection === 'surface' && surface) renderSurface(ctx, surface.pixels);
+  }, [projection, uvPattern, surface, renderUv, renderSurface]);
+
+  // ============================================================================
+  // INTERACTION
+  // ============================================================================
+
+  // Canvas pixel under the pointer (the canvas is CSS-scaled to fit)
+  const toCanvasPixel = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const size = Math.min(rect.width, rect.height);
+    const offsetX = (rect.width - size) / 2;
+    const offsetY = (rect.height - size) / 2;
+    return {
+      x: ((event.clientX - rect.left - offsetX) / size) * RASTER_SIZE,
+      y: ((event.clientY - rect.top - offsetY) / size) * RASTER_SIZE,
+    };
+  };
+
+  const updateReadout = (x: number, y: number) => {
+    if (!phasedArray || x < 0 || y < 0 || x >= RASTER_SIZE || y >= RASTER_SIZE) {
+      setReadout(null);
+      return;
+    }
+
+    let angles: { theta: number; phi: number } | null = null;
+    if (projection === 'uv') {
+      const u = (x / RASTER_SIZE) * 2 * uvExtent - uvExtent;
+      const v = uvExtent - (y / RASTER_SIZE) * 2 * uvExtent;
+      angles = PhasedArray.sineSpaceToAngles(u, v);
+    } else if (surface && grid) {
+      const cell = surface.cells[Math.floor(y) * RASTER_SIZE + Math.floor(x)];
+      if (cell >= 0) {
+        angles = {
+          theta: grid.theta[cell % grid.theta.length] + SURFACE_THETA_STEP / 2,
+          phi: grid.phi[Math.floor(cell / grid.theta.length)] + SURFACE_PHI_STEP / 2,
+        };
+      }
+    }
+
+    setReadout(angles
+      ? { ...angles, dB: phasedArray.computeArrayFactorDb(angles.theta, floorDb, angles.phi) }
+      : null);
+  };
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (toolMode !== 'rotate' && toolMode !== 'zoom') return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { x: event.clientX, y: event.clientY, view };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (drag) {
+      const dx = event.clientX - drag.x;
+      const dy = event.clientY - drag.y;
+      if (toolMode === 'rotate' && projection === 'surface') {
+        onViewChange({
+          ...drag.view,
+          yaw: drag.view.yaw + dx * 0.01,
+          pitch: Math.max(-Math.PI / 2, Math.min(Math.PI / 2, drag.view.pitch + dy * 0.01)),
+        });
+      } else if (toolMode === 'zoom') {
+        onViewChange({ ...drag.view, zoom: clampZoom(drag.view.zoom * Math.exp(-dy * 0.01)) });
+      }
+    }
+
+    const { x, y } = toCanvasPixel(event);
+    updateReadout(x, y);
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const handleWheel = (event: React.WheelEvent<HTMLCanvasElement>) => {
+    onViewChange({ ...view, zoom: clampZoom(view.zoom * Math.exp(-event.deltaY * 0.001)) });
+  };
+
+  return (
+    <div className={`pattern-viewer-container ${className}`}>
+      <canvas
+        ref={canvasRef}
+        width={RASTER_SIZE}
+        height={RASTER_SIZE}
+        className={`pattern-viewer-canvas tool-${toolMode}`}
+        onPointerDown={handlePointerDown}
+        onPointerMove={handlePointerMove}
+        onPointerUp={handlePointerUp}
+        onPointerLeave={() => setReadout(null)}
+        onWheel={handleWheel}
+      />
+
+      <div className="pattern-viewer-controls">
+        {(['uv', 'surface'] as Projection[]).map((mode) => (
+          <button
+            key={mode}
+            className={`pattern-viewer-toggle ${projection === mode ? 'active' : ''}`}
+            onClick={() => setProjection(mode)}
+          >
+            {mode === 'uv' ? 'u-v Map' : '3D Surface'}
+          </button>
+        ))}
+      </div>
+
+      <div className="pattern-viewer-readout">
+        {readout
+          ? `θ ${readout.theta.toFixed(1)}° · φ ${readout.phi.toFixed(1)}° · ${readout.dB.toFixed(1)} dB`
+          : `0 dB … ${floorDb} dB`}
+      </div>
+    </div>
+  );
+};
+
+export default PatternViewer3D;
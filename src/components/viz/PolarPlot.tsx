@@ -10,8 +10,18 @@
 
 import React, { useCallback, useEffect, useMemo, useRef } from 'react';
 import { useBeamStore } from '@/state/beamStore';
+import {
+  canAdaptCanceller,
+  overridesStoredWeights,
+  reshapesBeamSuperposition,
+  useEffectiveUnits,
+} from '@/hooks/useEffectiveUnits';
 import { PhasedArray } from '@/classes/PhasedArray';
 import type { PhasedArrayConfig } from '@/classes/PhasedArray';
+import { emitterDirection } from '@/dsp/signalScene';
+import { maskBounds, type SynthesisResult } from '@/dsp/patternSynthesis';
+import { isIdealQuantization } from '@/dsp/quantization';
+import { SUBARRAY_LOBE_FLOOR_DB } from '@/dsp/subarrays';
 
 // ============================================================================
 // CONSTANTS
@@ -30,11 +40,34 @@ const COLORS = {
   sensorDot: '#00F0FF',
   sensorDotInner: '#0F111A',
   centerMarker: '#FF8800',
+  gratingLobe: '#FF5C6C',
+  subarrayLobe: '#FF9F43',
+  visibleRegion: 'rgba(0, 240, 255, 0.12)',
+  insetBackground: 'rgba(15, 17, 26, 0.9)',
+  reference: 'rgba(230, 237, 243, 0.45)',
+  interferer: '#FFB020',
+  source: '#7CFF6B',
+  null: '#FF6BD5',
+  maskUpper: 'rgba(255, 92, 108, 0.8)',
+  maskLower: 'rgba(124, 255, 107, 0.8)',
+  synthesized: '#B388FF',
+  violation: '#FF3B3B',
+  ideal: 'rgba(255, 214, 102, 0.85)',
 };
 
+// Per-beam contribution traces of a multi-beam unit
+const BEAM_COLORS = ['#00F0FF', '#FF8800', '#7CFF6B', '#FF6BD5'];
+
+// Gap between the outer dB ring and the canvas edge, kept for labels
+const PLOT_MARGIN = 50;
+
 const DB_LEVELS = [0, -10, -20, -30]; // dB circles from outside to inside
 const ANGLE_MARKERS = [0, 30, 60, 90, 120, 150, 180, 210, 240, 270, 300, 330];
 
+// u-space inset: samples across the plotted range and the widest |u| shown
+const U_SPACE_SAMPLES = 240;
+const U_SPACE_MAX = 3;
+
 // ============================================================================
 // POLAR PLOT COMPONENT
 // ============================================================================
@@ -43,12 +76,15 @@ interface PolarPlotProps {
   width?: number;
   height?: number;
   className?: string;
+  /** Mask synthesis to overlay with the mask it was solved against */
+  synthesis?: SynthesisResult | null;
 }
 
 export const PolarPlot: React.FC<PolarPlotProps> = ({
   width: propWidth,
   height: propHeight,
   className = '',
+  synthesis = null,
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
@@ -65,10 +101,18 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
   const dynamicRange = useBeamStore((s) => s.dynamicRange);
   const units = useBeamStore((s) => s.units);
   const activeUnitId = useBeamStore((s) => s.activeUnitId);
+  const algorithm = useBeamStore((s) => s.algorithm);
+  const weightType = useBeamStore((s) => s.weightType);
+  const emitters = useBeamStore((s) => s.emitters);
+  const interferenceCancel = useBeamStore((s) => s.interferenceCancel);
+  const cancellerAlgorithm = useBeamStore((s) => s.cancellerSettings.algorithm);
+  const toggleNull = useBeamStore((s) => s.toggleNull);
+  const patternMask = useBeamStore((s) => s.patternMask);
+  const effectiveUnits = useEffectiveUnits();
   
   // Create PhasedArray instance from active unit (OOP: all math in class)
   const phasedArray = useMemo(() => {
-    const activeUnit = units.find((u) => u.id === activeUnitId);
+    const activeUnit = effectiveUnits.find((u) => u.id === activeUnitId);
     if (!activeUnit) {
       // Fallback config if no active unit
       const fallbackConfig: PhasedArrayConfig = {
@@ -86,7 +130,51 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
       return new PhasedArray(fallbackConfig, medium);
     }
     return PhasedArray.fromConfig(activeUnit, medium);
-  }, [units, activeUnitId, sensorCount, spacingLambdaFraction, frequency, steeringAngle, medium]);
+  }, [effectiveUnits, activeUnitId, sensorCount, spacingLambdaFraction, frequency, steeringAngle, medium]);
+  
+  // Conventional (DAS) pattern of the same unit, shown for comparison when adaptive
+  // weights or the canceller actually change the active unit's weights
+  const { adaptive, cancelling } = useMemo(() => {
+    const activeUnit = units.find((u) => u.id === activeUnitId);
+    return {
+      adaptive: !!activeUnit && overridesStoredWeights(activeUnit, medium, algorithm, weightType),
+      cancelling: interferenceCancel && !!activeUnit && canAdaptCanceller(activeUnit, medium),
+    };
+  }, [units, activeUnitId, medium, algorithm, weightType, interferenceCancel]);
+  const referenceArray = useMemo(() => {
+    if (!adaptive && !cancelling) return null;
+    const activeUnit = units.find((u) => u.id === activeUnitId);
+    if (!activeUnit || activeUnit.focusDistance) return null;
+    return PhasedArray.fromConfig({ ...activeUnit, phases: undefined }, medium);
+  }, [units, activeUnitId, adaptive, cancelling, medium]);
+  
+  // Unquantized pattern of the same weights, shown when the unit's excitations are quantized
+  const idealArray = useMemo(() => {
+    const activeUnit = effectiveUnits.find((u) => u.id === activeUnitId);
+    if (!activeUnit || isIdealQuantization(activeUnit.quantization)) return null;
+    return PhasedArray.fromConfig({ ...activeUnit, quantization: undefined }, medium);
+  }, [effectiveUnits, activeUnitId, medium]);
+  
+  // Each beam's share of the quiescent multi-beam excitation, on the composite
+  // pattern's scale; hidden when adaptive weights or nulls replace the superposition
+  const beamContributions = useMemo(() => {
+    const activeUnit = units.find((u) => u.id === activeUnitId);
+    if (!activeUnit?.enabled || (activeUnit.beams?.length ?? 0) < 2) return null;
+    if (reshapesBeamSuperposition(activeUnit, medium, algorithm, weightType)) return null;
+    const array = PhasedArray.fromConfig(activeUnit, medium);
+    if (array.isFocused) return null;
+    try {
+      const patterns = array.generateBeamContributions(0.5);
+      return array.beams.map((beam, i) => ({ beam, pattern: patterns[i] }));
+    } catch {
+      return null;
+    }
+  }, [units, activeUnitId, medium, algorithm, weightType]);
+  
+  const adaptiveLabel = [
+    adaptive ? algorithm.toUpperCase() : null,
+    cancelling ? `GSC-${cancellerAlgorithm.toUpperCase()}` : null,
+  ].filter(Boolean).join(' + ');
   
   // ============================================================================
   // RENDERING
@@ -115,7 +203,7 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
     // Calculate plot dimensions
     const centerX = width / 2;
     const centerY = height / 2;
-    const margin = 50;
+    const margin = PLOT_MARGIN;
     const radius = Math.max(10, Math.min(width, height) / 2 - margin);
     
     // Guard: Skip rendering if dimensions are too small
@@ -198,8 +286,8 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
     // DRAW BEAM PATTERN (Using PhasedArray class - OOP compliant)
     // ========================================================================
     
-    // Generate beam pattern using PhasedArray class
-    const pattern = phasedArray.generateBeamPattern(0.5);
+    // Generate beam pattern using PhasedArray class (cut through the steering azimuth)
+    const pattern = phasedArray.generateBeamPattern(0.5, phasedArray.steeringPhi);
     
     // Draw filled beam shape
     ctx.save();
@@ -254,6 +342,291 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
     
     ctx.restore();
     
+    // ========================================================================
+    // DRAW SCENE EMITTERS (directions seen from the active unit)
+    // ========================================================================
+    
+    const toPoint = (angle: number, dB: number) => {
+      const r = Math.max(0, (dB + dynamicRange) / dynamicRange) * radius;
+      const rad = ((angle - 90) * Math.PI) / 180;
+      return { x: centerX + r * Math.cos(rad), y: centerY + r * Math.sin(rad) };
+    };
+    
+    const sceneEmitters = emitters
+      .filter((e) => e.enabled)
+      .map((e) => ({ ...e, direction: emitterDirection(e, phasedArray.position) }));
+    
+    sceneEmitters.forEach(({ kind, direction }) => {
+      const color = kind === 'source' ? COLORS.source : COLORS.interferer;
+      const tip = toPoint(direction, 0);
+      
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(tip.x, tip.y);
+      ctx.stroke();
+      
+      ctx.fillStyle = color;
+      ctx.beginPath();
+      ctx.arc(tip.x, tip.y, 4, 0, 2 * Math.PI);
+      ctx.fill();
+    });
+    
+    // ========================================================================
+    // DRAW PATTERN MASK & SYNTHESIZED PATTERN (mask shown only)
+    // ========================================================================
+    
+    if (synthesis) {
+      const traceBound = (bound: 'upperDb' | 'lowerDb', color: string) => {
+        ctx.save();
+        ctx.setLineDash([5, 3]);
+        ctx.strokeStyle = color;
+        ctx.lineWidth = 1.5;
+        ctx.beginPath();
+        let drawing = false;
+        synthesis.pattern.forEach(({ angle }) => {
+          const dB = maskBounds(patternMask, phasedArray.steeringAngle, angle)[bound];
+          if (dB === null) {
+            drawing = false;
+            return;
+          }
+          const { x, y } = toPoint(angle, dB);
+          if (drawing) ctx.lineTo(x, y);
+          else ctx.moveTo(x, y);
+          drawing = true;
+        });
+        ctx.stroke();
+        ctx.restore();
+      };
+      traceBound('upperDb', COLORS.maskUpper);
+      traceBound('lowerDb', COLORS.maskLower);
+      
+      ctx.strokeStyle = COLORS.synthesized;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      synthesis.pattern.forEach(({ angle, dB }, i) => {
+        const { x, y } = toPoint(angle, dB);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.stroke();
+      
+      // Violated stretches of the synthesized pattern
+      ctx.strokeStyle = COLORS.violation;
+      ctx.lineWidth = 3;
+      synthesis.violations.forEach(({ start, end }) => {
+        ctx.beginPath();
+        synthesis.pattern
+          .filter(({ angle }) => angle >= start && angle <= end)
+          .forEach(({ angle, dB }, i) => {
+            const { x, y } = toPoint(angle, dB);
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+          });
+        ctx.stroke();
+      });
+    }
+    
+    // ========================================================================
+    // DRAW DAS REFERENCE & INTERFERER NULLS (adaptive weights only)
+    // ========================================================================
+    
+    // Top-left legend lines stack from here
+    let legendY = 12;
+    
+    if (referenceArray) {
+      ctx.save();
+      ctx.setLineDash([4, 4]);
+      ctx.strokeStyle = COLORS.reference;
+      ctx.lineWidth = 1;
+      ctx.beginPath();
+      referenceArray.generateBeamPattern(0.5, referenceArray.steeringPhi).forEach(({ angle, dB }, i) => {
+        const { x, y } = toPoint(angle, dB);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+      ctx.stroke();
+      ctx.restore();
+      
+      // Interferer directions with the null depth reached versus DAS
+      const floorDb = -99;
+      ctx.font = '11px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = COLORS.labelBright;
+      ctx.fillText(`${adaptiveLabel} vs DAS (dashed)`, 12, legendY);
+      legendY += 18;
+      
+      sceneEmitters
+        .filter((e) => e.kind === 'interferer')
+        .forEach(({ name, direction }) => {
+          const adaptiveDb = phasedArray.computeArrayFactorDb(direction, floorDb, phasedArray.steeringPhi);
+          const dasDb = referenceArray.computeArrayFactorDb(direction, floorDb, referenceArray.steeringPhi);
+          
+          ctx.fillStyle = COLORS.interferer;
+          ctx.fillText(
+            `⚡ ${name} ${direction.toFixed(0)}°: ${adaptiveDb.toFixed(1)} dB (DAS ${dasDb.toFixed(1)} dB)`,
+            12,
+            legendY
+          );
+          legendY += 16;
+        });
+    }
+    
+    // ========================================================================
+    // DRAW IDEAL PATTERN (quantized excitations only)
+    // ========================================================================
+    
+    if (idealArray) {
+      ctx.save();
+      ctx.setLineDash([1, 3]);
+      ctx.strokeStyle = COLORS.ideal;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      idealArray.generateBeamPattern(0.5, idealArray.steeringPhi).forEach(({ angle, dB }, i) => {
+        const { x, y } = toPoint(angle, dB);
+        if (i === 0) ctx.moveTo(x, y);
+        else ctx.lineTo(x, y);
+      });
+      ctx.closePath();
+      ctx.stroke();
+      ctx.restore();
+      
+      ctx.font = '11px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillStyle = COLORS.ideal;
+      ctx.fillText('Quantized vs ideal (dotted)', 12, legendY);
+      legendY += 18;
+    }
+    
+    // ========================================================================
+    // DRAW PER-BEAM CONTRIBUTIONS (multi-beam units only)
+    // ========================================================================
+    
+    if (beamContributions) {
+      ctx.font = '11px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      beamContributions.forEach(({ beam, pattern }, b) => {
+        const color = BEAM_COLORS[b % BEAM_COLORS.length];
+        ctx.save();
+        ctx.setLineDash([3, 3]);
+        ctx.strokeStyle = color;
+        ctx.globalAlpha = 0.8;
+        ctx.lineWidth = 1;
+        ctx.beginPath();
+        pattern.forEach(({ angle, dB }, i) => {
+          const { x, y } = toPoint(angle, dB);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        });
+        ctx.closePath();
+        ctx.stroke();
+        ctx.restore();
+        
+        ctx.fillStyle = color;
+        ctx.fillText(`Beam ${b + 1} @ ${beam.steeringAngle.toFixed(0)}° (dashed)`, 12, legendY);
+        legendY += 16;
+      });
+    }
+    
+    // ========================================================================
+    // DRAW GRATING LOBES (predicted from pitch, frequency and steering)
+    // ========================================================================
+    
+    const gratingLobes = phasedArray.predictGratingLobes();
+    gratingLobes.forEach(({ angle }) => {
+      const rad = ((angle - 90) * Math.PI) / 180;
+      ctx.save();
+      ctx.setLineDash([6, 4]);
+      ctx.strokeStyle = COLORS.gratingLobe;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(centerX + radius * Math.cos(rad), centerY + radius * Math.sin(rad));
+      ctx.stroke();
+      ctx.restore();
+      
+      const labelRadius = radius + 30;
+      ctx.fillStyle = COLORS.gratingLobe;
+      ctx.font = '11px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(
+        `GL ${angle.toFixed(0)}°`,
+        centerX + labelRadius * Math.cos(rad),
+        centerY + labelRadius * Math.sin(rad)
+      );
+    });
+    
+    // ========================================================================
+    // DRAW SUBARRAY LOBES (hybrid arrays, where the pattern does not cancel them)
+    // ========================================================================
+    
+    const subarrayLobes = phasedArray
+      .predictSubarrayGratingLobes()
+      .filter(({ levelDb }) => levelDb > SUBARRAY_LOBE_FLOOR_DB);
+    subarrayLobes.forEach(({ angle, levelDb }) => {
+      const rad = ((angle - 90) * Math.PI) / 180;
+      const { x, y } = toPoint(angle, levelDb);
+      ctx.save();
+      ctx.setLineDash([2, 4]);
+      ctx.strokeStyle = COLORS.subarrayLobe;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(centerX + radius * Math.cos(rad), centerY + radius * Math.sin(rad));
+      ctx.stroke();
+      ctx.restore();
+      
+      ctx.fillStyle = COLORS.subarrayLobe;
+      ctx.beginPath();
+      ctx.arc(x, y, 3, 0, 2 * Math.PI);
+      ctx.fill();
+      
+      const labelRadius = radius + 18;
+      ctx.font = '10px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(
+        `SA ${angle.toFixed(0)}°`,
+        centerX + labelRadius * Math.cos(rad),
+        centerY + labelRadius * Math.sin(rad)
+      );
+    });
+    
+    // ========================================================================
+    // DRAW STEERED NULLS (click the plot to add or remove)
+    // ========================================================================
+    
+    phasedArray.nulls.forEach(({ angle }) => {
+      const rad = ((angle - 90) * Math.PI) / 180;
+      const dB = phasedArray.computeArrayFactorDb(angle, -99, phasedArray.steeringPhi);
+      ctx.save();
+      ctx.setLineDash([2, 3]);
+      ctx.strokeStyle = COLORS.null;
+      ctx.lineWidth = 1.5;
+      ctx.beginPath();
+      ctx.moveTo(centerX, centerY);
+      ctx.lineTo(centerX + radius * Math.cos(rad), centerY + radius * Math.sin(rad));
+      ctx.stroke();
+      ctx.restore();
+      
+      const labelRadius = radius + 16;
+      ctx.fillStyle = COLORS.null;
+      ctx.font = '11px Inter, sans-serif';
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+      ctx.fillText(
+        `✕ ${angle.toFixed(0)}°: ${dB.toFixed(0)} dB`,
+        centerX + labelRadius * Math.cos(rad),
+        centerY + labelRadius * Math.sin(rad)
+      );
+    });
+    
     // ========================================================================
     // DRAW SENSOR ARRAY
     // ========================================================================
@@ -322,7 +695,99 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
     ctx.textBaseline = 'middle';
     ctx.fillText(`${steeringAngle}°`, indicatorX, indicatorY);
     
-  }, [phasedArray, steeringAngle, sensorCount, showGrid, showLabels, dynamicRange, propWidth, propHeight]);
+    // ========================================================================
+    // DRAW FOCAL GAIN (near-field focused arrays)
+    // ========================================================================
+    
+    const focalGain = phasedArray.computeFocalGain();
+    if (focalGain !== null && phasedArray.focusDistance !== null) {
+      ctx.fillStyle = COLORS.centerMarker;
+      ctx.font = '12px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'bottom';
+      ctx.fillText(
+        `Focus ${(phasedArray.focusDistance * 100).toFixed(0)} cm · gain ${focalGain.toFixed(1)} dB`,
+        12,
+        height - 12
+      );
+    }
+    
+    // ========================================================================
+    // DRAW VISIBLE REGION (u-space inset, periodic lattices only)
+    // ========================================================================
+    
+    if (phasedArray.isPeriodicLattice) {
+      const insetWidth = Math.min(220, width * 0.4);
+      const insetHeight = 64;
+      const insetX = width - insetWidth - 12;
+      const insetY = height - insetHeight - 12;
+      const uMax = Math.min(U_SPACE_MAX, 1 + 1 / phasedArray.pitchLambdaRatio);
+      const toX = (u: number) => insetX + ((u + uMax) / (2 * uMax)) * insetWidth;
+      const toY = (dB: number) =>
+        insetY + insetHeight - Math.max(0, (dB + dynamicRange) / dynamicRange) * (insetHeight - 14);
+      
+      ctx.fillStyle = COLORS.insetBackground;
+      ctx.fillRect(insetX, insetY, insetWidth, insetHeight);
+      ctx.strokeStyle = COLORS.grid;
+      ctx.lineWidth = 1;
+      ctx.strokeRect(insetX, insetY, insetWidth, insetHeight);
+      
+      // Visible space |u| ≤ 1
+      ctx.fillStyle = COLORS.visibleRegion;
+      ctx.fillRect(toX(-1), insetY, toX(1) - toX(-1), insetHeight);
+      
+      // Array factor continued past the visible region
+      ctx.beginPath();
+      for (let i = 0; i <= U_SPACE_SAMPLES; i++) {
+        const u = -uMax + (2 * uMax * i) / U_SPACE_SAMPLES;
+        const af = phasedArray.computeArrayFactorU(u);
+        const dB = af > 0 ? 20 * Math.log10(af) : -dynamicRange;
+        if (i === 0) ctx.moveTo(toX(u), toY(dB));
+        else ctx.lineTo(toX(u), toY(dB));
+      }
+      ctx.strokeStyle = COLORS.beamStroke;
+      ctx.lineWidth = 1;
+      ctx.stroke();
+      
+      gratingLobes.forEach(({ u }) => {
+        ctx.fillStyle = COLORS.gratingLobe;
+        ctx.beginPath();
+        ctx.arc(toX(u), toY(0), 3, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+      subarrayLobes.forEach(({ u, levelDb }) => {
+        ctx.fillStyle = COLORS.subarrayLobe;
+        ctx.beginPath();
+        ctx.arc(toX(u), toY(levelDb), 3, 0, 2 * Math.PI);
+        ctx.fill();
+      });
+      
+      ctx.fillStyle = COLORS.label;
+      ctx.font = '10px Inter, sans-serif';
+      ctx.textAlign = 'left';
+      ctx.textBaseline = 'top';
+      ctx.fillText('u = sin θ', insetX + 4, insetY + 2);
+      ctx.textAlign = 'center';
+      ctx.fillText('visible', toX(0), insetY + 2);
+    }
+    
+  }, [phasedArray, referenceArray, idealArray, beamContributions, adaptiveLabel, synthesis, patternMask, emitters, steeringAngle, sensorCount, showGrid, showLabels, dynamicRange, propWidth, propHeight]);
+  
+  // ============================================================================
+  // NULL PLACEMENT
+  // ============================================================================
+  
+  // Clicking inside the plot toggles a null at the clicked angle (same layout as render)
+  const handleClick = useCallback((event: React.MouseEvent<HTMLCanvasElement>) => {
+    const rect = event.currentTarget.getBoundingClientRect();
+    const dx = event.clientX - rect.left - rect.width / 2;
+    const dy = event.clientY - rect.top - rect.height / 2;
+    const radius = Math.max(10, Math.min(rect.width, rect.height) / 2 - PLOT_MARGIN);
+    if (Math.hypot(dx, dy) > radius) return;
+    
+    const angle = (Math.atan2(dy, dx) * 180) / Math.PI + 90;
+    toggleNull(angle > 180 ? angle - 360 : angle);
+  }, [toggleNull]);
   
   // ============================================================================
   // RESIZE OBSERVER
@@ -374,10 +839,13 @@ export const PolarPlot: React.FC<PolarPlotProps> = ({
     >
       <canvas 
         ref={canvasRef} 
+        onClick={handleClick}
+        title="Click to add or remove a pattern null"
         style={{ 
           display: 'block',
           width: '100%',
           height: '100%',
+          cursor: 'crosshair',
         }} 
       />
     </div>
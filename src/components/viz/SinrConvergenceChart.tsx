@@ -0,0 +1,134 @@
+/**
+ * SinrConvergenceChart.tsx
+ *
+ * Learning curve of the adaptive sidelobe canceller: output SINR along the
+ * LMS/RLS iterations, against the MVDR optimum on the true covariance.
+ *
+ * OOP Compliance: The adaptation runs in dsp/sidelobeCanceller; this
+ * component only draws its history.
+ */
+
+import React, { useEffect, useRef } from 'react';
+import type { CancellerResult } from '@/dsp/sidelobeCanceller';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const WIDTH = 280;
+const HEIGHT = 150;
+const MARGIN = { top: 22, right: 12, bottom: 22, left: 38 };
+
+const COLORS = {
+  background: 'rgba(15, 17, 26, 0.9)',
+  border: 'rgba(0, 240, 255, 0.3)',
+  grid: 'rgba(51, 65, 85, 0.5)',
+  label: 'rgba(230, 237, 243, 0.6)',
+  title: 'rgba(230, 237, 243, 0.9)',
+  curve: '#00F0FF',
+  optimum: '#7CFF6B',
+};
+
+// ============================================================================
+// SINR CONVERGENCE CHART COMPONENT
+// ============================================================================
+
+interface SinrConvergenceChartProps {
+  result: CancellerResult;
+  /** Adaptation algorithm shown in the title, e.g. 'RLS' */
+  label: string;
+  className?: string;
+}
+
+export const SinrConvergenceChart: React.FC<SinrConvergenceChartProps> = ({ result, label, className = '' }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = WIDTH * dpr;
+    canvas.height = HEIGHT * dpr;
+    ctx.scale(dpr, dpr);
+
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, WIDTH, HEIGHT);
+    ctx.strokeStyle = COLORS.border;
+    ctx.strokeRect(0.5, 0.5, WIDTH - 1, HEIGHT - 1);
+
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.title;
+    ctx.textAlign = 'left';
+    ctx.fillText(`GSC-${label} output SINR`, MARGIN.left, 11);
+
+    const { sinrHistory, sinrIterations, optimumSinr } = result;
+    if (sinrHistory.length < 2) {
+      ctx.fillStyle = COLORS.label;
+      ctx.textAlign = 'center';
+      ctx.fillText('Add a source to track SINR', WIDTH / 2, HEIGHT / 2);
+      return;
+    }
+
+    const values = optimumSinr !== null ? [...sinrHistory, optimumSinr] : sinrHistory;
+    const min = Math.floor(Math.min(...values) / 5) * 5;
+    const max = Math.max(min + 5, Math.ceil(Math.max(...values) / 5) * 5);
+    const plotWidth = WIDTH - MARGIN.left - MARGIN.right;
+    const plotHeight = HEIGHT - MARGIN.top - MARGIN.bottom;
+    const iterations = sinrIterations[sinrIterations.length - 1];
+    const toX = (iteration: number) => MARGIN.left + (iteration / iterations) * plotWidth;
+    const toY = (dB: number) => MARGIN.top + ((max - dB) / (max - min)) * plotHeight;
+
+    // Grid and axis labels
+    ctx.strokeStyle = COLORS.grid;
+    ctx.fillStyle = COLORS.label;
+    ctx.textAlign = 'right';
+    for (const dB of [min, (min + max) / 2, max]) {
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, toY(dB));
+      ctx.lineTo(MARGIN.left + plotWidth, toY(dB));
+      ctx.stroke();
+      ctx.fillText(`${dB.toFixed(0)} dB`, MARGIN.left - 4, toY(dB));
+    }
+    ctx.textAlign = 'center';
+    ctx.fillText('0', toX(0), HEIGHT - 10);
+    ctx.fillText(`${iterations} iterations`, toX(iterations) - 30, HEIGHT - 10);
+
+    // MVDR optimum
+    if (optimumSinr !== null) {
+      ctx.save();
+      ctx.setLineDash([4, 3]);
+      ctx.strokeStyle = COLORS.optimum;
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, toY(optimumSinr));
+      ctx.lineTo(MARGIN.left + plotWidth, toY(optimumSinr));
+      ctx.stroke();
+      ctx.restore();
+      ctx.fillStyle = COLORS.optimum;
+      ctx.textAlign = 'right';
+      ctx.fillText('optimum', MARGIN.left + plotWidth, toY(optimumSinr) - 7);
+    }
+
+    // Learning curve
+    ctx.strokeStyle = COLORS.curve;
+    ctx.lineWidth = 1.5;
+    ctx.beginPath();
+    sinrHistory.forEach((dB, i) => {
+      if (i === 0) ctx.moveTo(toX(sinrIterations[i]), toY(dB));
+      else ctx.lineTo(toX(sinrIterations[i]), toY(dB));
+    });
+    ctx.stroke();
+  }, [result, label]);
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className={`sinr-convergence-chart ${className}`}
+      style={{ width: WIDTH, height: HEIGHT }}
+    />
+  );
+};
+
+export default SinrConvergenceChart;
@@ -0,0 +1,324 @@
+/**
+ * ToleranceEnvelopePlot.tsx
+ *
+ * Results of a Monte-Carlo tolerance analysis: the 10–90 % pattern envelope
+ * with the median, power-mean and error-free patterns, and histograms of the
+ * peak sidelobe level and pointing error against the spec, with the yield.
+ *
+ * OOP Compliance: The trials are run by dsp/toleranceAnalysis in workers;
+ * this component only draws the aggregated result.
+ */
+
+import React, { useCallback, useEffect, useRef } from 'react';
+import type { ToleranceSpec, ToleranceStatistic } from '@/dsp/toleranceAnalysis';
+import type { ToleranceRun } from '@/hooks/useToleranceAnalysis';
+
+// ============================================================================
+// CONSTANTS
+// ============================================================================
+
+const COLORS = {
+  background: '#0F111A',
+  grid: 'rgba(51, 65, 85, 0.4)',
+  axis: '#334155',
+  label: 'rgba(230, 237, 243, 0.6)',
+  labelBright: 'rgba(230, 237, 243, 0.9)',
+  envelope: 'rgba(0, 240, 255, 0.18)',
+  median: '#00F0FF',
+  mean: '#B388FF',
+  nominal: 'rgba(230, 237, 243, 0.55)',
+  spec: '#FF5C6C',
+  histogram: 'rgba(0, 240, 255, 0.55)',
+  histogramFail: 'rgba(255, 92, 108, 0.55)',
+  pass: '#7CFF6B',
+};
+
+const MARGIN = { top: 36, right: 24, bottom: 24, left: 52 };
+const ANGLE_TICKS = [-90, -60, -30, 0, 30, 60, 90];
+const DB_TICK_STEP = 10;
+
+// Share of the plot height given to the pattern envelopes (histograms below)
+const ENVELOPE_SHARE = 0.62;
+const HISTOGRAM_GAP = 40;
+const HISTOGRAM_BINS = 24;
+
+// ============================================================================
+// TOLERANCE ENVELOPE PLOT COMPONENT
+// ============================================================================
+
+interface ToleranceEnvelopePlotProps {
+  run: ToleranceRun;
+  spec: ToleranceSpec;
+  /** Plotted range below 0 dB, in dB */
+  dynamicRange: number;
+  className?: string;
+}
+
+export const ToleranceEnvelopePlot: React.FC<ToleranceEnvelopePlotProps> = ({
+  run,
+  spec,
+  dynamicRange,
+  className = '',
+}) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const animationFrameRef = useRef<number | null>(null);
+
+  const render = useCallback(() => {
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    if (!canvas || !container) return;
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    canvas.style.width = `${width}px`;
+    canvas.style.height = `${height}px`;
+    ctx.scale(dpr, dpr);
+
+    ctx.fillStyle = COLORS.background;
+    ctx.fillRect(0, 0, width, height);
+
+    const plotWidth = width - MARGIN.left - MARGIN.right;
+    const totalHeight = height - MARGIN.top - MARGIN.bottom;
+    const plotHeight = totalHeight * ENVELOPE_SHARE - HISTOGRAM_GAP / 2;
+    if (plotWidth < 100 || plotHeight < 50) return;
+
+    const toX = (angle: number) => MARGIN.left + ((angle + 90) / 180) * plotWidth;
+    const toY = (dB: number) =>
+      MARGIN.top + (Math.min(0, Math.max(-dynamicRange, dB)) / -dynamicRange) * plotHeight;
+
+    // ========================================================================
+    // GRID & AXES
+    // ========================================================================
+
+    ctx.strokeStyle = COLORS.grid;
+    ctx.lineWidth = 1;
+    ctx.fillStyle = COLORS.label;
+    ctx.font = '10px Inter, sans-serif';
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'top';
+    for (const angle of ANGLE_TICKS) {
+      ctx.beginPath();
+      ctx.moveTo(toX(angle), MARGIN.top);
+      ctx.lineTo(toX(angle), MARGIN.top + plotHeight);
+      ctx.stroke();
+      ctx.fillText(`${angle}°`, toX(angle), MARGIN.top + plotHeight + 6);
+    }
+
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    for (let dB = 0; dB >= -dynamicRange; dB -= DB_TICK_STEP) {
+      ctx.beginPath();
+      ctx.moveTo(MARGIN.left, toY(dB));
+      ctx.lineTo(MARGIN.left + plotWidth, toY(dB));
+      ctx.stroke();
+      ctx.fillText(`${dB} dB`, MARGIN.left - 6, toY(dB));
+    }
+
+    ctx.strokeStyle = COLORS.axis;
+    ctx.strokeRect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+
+    // Run status above the plot
+    ctx.font = '11px Inter, sans-serif';
+    ctx.textAlign = 'left';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = run.status === 'error' ? COLORS.spec : COLORS.labelBright;
+    const status =
+      run.status === 'running'
+        ? `Running trials… ${(run.progress * 100).toFixed(0)}%`
+        : run.status === 'error'
+          ? `Analysis failed: ${run.error}`
+          : run.result
+            ? `${run.result.trials} trials`
+            : 'Enable the active array to run the analysis';
+    ctx.fillText(status, MARGIN.left, MARGIN.top / 2);
+
+    const result = run.result;
+    if (!result) return;
+
+    // ========================================================================
+    // PATTERN ENVELOPES
+    // ========================================================================
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(MARGIN.left, MARGIN.top, plotWidth, plotHeight);
+    ctx.clip();
+
+    // 10–90 % band
+    ctx.fillStyle = COLORS.envelope;
+    ctx.beginPath();
+    result.angles.forEach((angle, i) => {
+      if (i === 0) ctx.moveTo(toX(angle), toY(result.upperDb[i]));
+      else ctx.lineTo(toX(angle), toY(result.upperDb[i]));
+    });
+    for (let i = result.angles.length - 1; i >= 0; i--) {
+      ctx.lineTo(toX(result.angles[i]), toY(result.lowerDb[i]));
+    }
+    ctx.closePath();
+    ctx.fill();
+
+    const drawCurve = (values: number[], color: string, dash: number[]) => {
+      ctx.strokeStyle = color;
+      ctx.lineWidth = 1.5;
+      ctx.setLineDash(dash);
+      ctx.beginPath();
+      result.angles.forEach((angle, i) => {
+        if (i === 0) ctx.moveTo(toX(angle), toY(values[i]));
+        else ctx.lineTo(toX(angle), toY(values[i]));
+      });
+      ctx.stroke();
+      ctx.setLineDash([]);
+    };
+
+    drawCurve(result.nominalDb, COLORS.nominal, [5, 4]);
+    drawCurve(result.meanDb, COLORS.mean, []);
+    drawCurve(result.medianDb, COLORS.median, []);
+
+    // Sidelobe spec (relative to the main lobe, drawn against the nominal peak)
+    ctx.strokeStyle = COLORS.spec;
+    ctx.setLineDash([6, 4]);
+    ctx.beginPath();
+    ctx.moveTo(MARGIN.left, toY(spec.sidelobeLevelDb));
+    ctx.lineTo(MARGIN.left + plotWidth, toY(spec.sidelobeLevelDb));
+    ctx.stroke();
+    ctx.setLineDash([]);
+    ctx.restore();
+
+    const legend: [string, string][] = [
+      ['Median', COLORS.median],
+      ['Mean (power)', COLORS.mean],
+      ['10–90 % band', COLORS.median],
+      ['Error-free', COLORS.nominal],
+      ['SLL spec', COLORS.spec],
+    ];
+    ctx.font = '10px Inter, sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    legend.forEach(([label, color], i) => {
+      ctx.fillStyle = color;
+      ctx.fillText(label, MARGIN.left + plotWidth - 8, MARGIN.top + 12 + i * 14);
+    });
+
+    // ========================================================================
+    // METRIC HISTOGRAMS
+    // ========================================================================
+
+    const histogramTop = MARGIN.top + plotHeight + HISTOGRAM_GAP;
+    const histogramHeight = MARGIN.top + totalHeight - histogramTop;
+    const histogramWidth = (plotWidth - HISTOGRAM_GAP) / 2;
+
+    const drawHistogram = (
+      left: number,
+      statistic: ToleranceStatistic,
+      limit: number,
+      title: string,
+      unit: string
+    ) => {
+      if (histogramHeight < 30 || statistic.values.length === 0) return;
+      const values = statistic.values;
+      const min = Math.min(values[0], limit);
+      const max = Math.max(values[values.length - 1], limit);
+      const span = Math.max(max - min, 1e-3);
+      const counts = new Array(HISTOGRAM_BINS).fill(0);
+      values.forEach((v) => {
+        counts[Math.min(HISTOGRAM_BINS - 1, Math.floor(((v - min) / span) * HISTOGRAM_BINS))]++;
+      });
+      const peak = Math.max(...counts);
+      const binWidth = histogramWidth / HISTOGRAM_BINS;
+      const toHistogramX = (v: number) => left + ((v - min) / span) * histogramWidth;
+
+      counts.forEach((count, i) => {
+        const binCenter = min + ((i + 0.5) / HISTOGRAM_BINS) * span;
+        const barHeight = (count / peak) * histogramHeight;
+        ctx.fillStyle = binCenter > limit ? COLORS.histogramFail : COLORS.histogram;
+        ctx.fillRect(left + i * binWidth + 1, histogramTop + histogramHeight - barHeight, binWidth - 2, barHeight);
+      });
+
+      ctx.strokeStyle = COLORS.axis;
+      ctx.strokeRect(left, histogramTop, histogramWidth, histogramHeight);
+
+      ctx.strokeStyle = COLORS.spec;
+      ctx.setLineDash([4, 3]);
+      ctx.beginPath();
+      ctx.moveTo(toHistogramX(limit), histogramTop);
+      ctx.lineTo(toHistogramX(limit), histogramTop + histogramHeight);
+      ctx.stroke();
+      ctx.setLineDash([]);
+
+      ctx.font = '10px Inter, sans-serif';
+      ctx.fillStyle = COLORS.label;
+      ctx.textBaseline = 'bottom';
+      ctx.textAlign = 'left';
+      ctx.fillText(
+        `${title}: mean ${statistic.mean.toFixed(2)}${unit} · p90 ${statistic.p90.toFixed(2)}${unit}`,
+        left,
+        histogramTop - 4
+      );
+      ctx.textBaseline = 'top';
+      ctx.fillText(`${min.toFixed(1)}${unit}`, left, histogramTop + histogramHeight + 4);
+      ctx.textAlign = 'right';
+      ctx.fillText(`${max.toFixed(1)}${unit}`, left + histogramWidth, histogramTop + histogramHeight + 4);
+    };
+
+    drawHistogram(MARGIN.left, result.sidelobeLevel, spec.sidelobeLevelDb, 'Peak SLL', ' dB');
+    drawHistogram(
+      MARGIN.left + histogramWidth + HISTOGRAM_GAP,
+      result.pointingError,
+      spec.pointingErrorDeg,
+      '|Pointing error|',
+      '°'
+    );
+
+    // Yield against the spec
+    ctx.font = '12px Inter, sans-serif';
+    ctx.textAlign = 'right';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = COLORS.pass;
+    ctx.fillText(
+      `Yield ${(result.yield * 100).toFixed(1)}% (SLL ≤ ${spec.sidelobeLevelDb} dB, |Δθ| ≤ ${spec.pointingErrorDeg}°)`,
+      MARGIN.left + plotWidth,
+      MARGIN.top / 2
+    );
+  }, [run, spec, dynamicRange]);
+
+  // ============================================================================
+  // RESIZE OBSERVER
+  // ============================================================================
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+
+    const resizeObserver = new ResizeObserver(() => {
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+      animationFrameRef.current = requestAnimationFrame(render);
+    });
+    resizeObserver.observe(container);
+    render();
+
+    return () => {
+      resizeObserver.disconnect();
+      if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
+    };
+  }, [render]);
+
+  return (
+    <div
+      ref={containerRef}
+      className={`tolerance-plot-container ${className}`}
+      style={{ width: '100%', height: '100%', position: 'relative' }}
+    >
+      <canvas ref={canvasRef} style={{ display: 'block', width: '100%', height: '100%' }} />
+    </div>
+  );
+};
+
+export default ToleranceEnvelopePlot;
@@ -6,7 +6,8 @@
  */
 
 import type { PhasedArrayConfig, ArrayGeometry } from '@/classes/PhasedArray';
-import type { Medium } from '@/state/beamStore';
+import type { MediumDefinition, MediumId, PropagationConfig } from '@/state/beamStore';
+import { generateTaper, type TaperConfig } from '@/dsp/tapers';
 
 // ============================================================================
 // SCENARIO TYPE
@@ -17,7 +18,9 @@ export interface ScenarioConfig {
   name: string;
   description: string;
   icon: string;
-  medium: Medium;
+  medium: MediumId; // Built-in, library or scenario medium
+  media?: MediumDefinition[]; // Custom media the scenario brings into the media library
+  propagation?: PropagationConfig; // Unset = lossless
   units: PhasedArrayConfig[];
 }
 
@@ -28,6 +31,30 @@ export interface ScenarioConfig {
 const generateId = (prefix: string): string => 
   `${prefix}-${Date.now()}-${Math.random().toString(36).slice(2, 7)}`;
 
+// ============================================================================
+// HELPER: Scenario tapers (amplitudes are generated from the saved taper)
+// ============================================================================
+
+const UNIFORM_TAPER: TaperConfig = { type: 'uniform' };
+const TAYLOR_TAPER: TaperConfig = { type: 'taylor', nbar: 4, sidelobeLevel: -30 };
+const HANN_TAPER: TaperConfig = { type: 'hann' };
+
+// ============================================================================
+// HELPER: Tissue propagation (absorption at the represented MHz band)
+// ============================================================================
+
+const TISSUE_PROPAGATION: PropagationConfig = { model: 'spherical', attenuation: true, frequencyScale: 1000 };
+
+// Liver parenchyma, the usual HIFU target (not among the built-in media)
+const LIVER_MEDIUM: MediumDefinition = {
+  id: 'scenario-liver',
+  name: 'Liver',
+  density: 1060,
+  speedOfSound: 1570,
+  attenuation: 0.5,
+  attenuationExponent: 1.1,
+};
+
 // ============================================================================
 // SCENARIO 1: 5G BEAMFORMING
 // ============================================================================
@@ -37,6 +64,7 @@ const generateId = (prefix: string): string =>
  * - High frequency (28 GHz scaled down for visualization)
  * - Linear array with 16-32 elements
  * - Targeted steering at 45°
+ * - Taylor taper (n̄ = 4, -30 dB) for low sidelobes
  * - Used in 5G mmWave base stations
  */
 export const create5GBeamformingScenario = (): ScenarioConfig => ({
@@ -56,7 +84,8 @@ export const create5GBeamformingScenario = (): ScenarioConfig => ({
       curvatureRadius: 0,
       frequency: 32000,  // 32 kHz (scaled representation of 28 GHz)
       steeringAngle: 45,
-      amplitudes: new Array(16).fill(1),
+      amplitudes: generateTaper(TAYLOR_TAPER, 16),
+      taper: TAYLOR_TAPER,
       enabled: true,
     },
   ],
@@ -71,6 +100,8 @@ export const create5GBeamformingScenario = (): ScenarioConfig => ({
  * - Medium frequency (5 MHz scaled for visualization)
  * - Curved/Convex array (like medical ultrasound probes)
  * - Focus distance set for near-field imaging
+ * - Hann apodization to suppress sidelobe clutter
+ * - Spherical spreading and tissue absorption at 2.5 MHz limit the depth
  * - Used in medical diagnostics
  */
 export const createUltrasoundImagingScenario = (): ScenarioConfig => ({
@@ -79,6 +110,7 @@ export const createUltrasoundImagingScenario = (): ScenarioConfig => ({
   description: 'Curved convex probe array for medical ultrasound imaging',
   icon: '🏥',
   medium: 'tissue',
+  propagation: TISSUE_PROPAGATION,
   units: [
     {
       id: generateId('us'),
@@ -90,7 +122,9 @@ export const createUltrasoundImagingScenario = (): ScenarioConfig => ({
       curvatureRadius: 0.06,  // 60mm radius (typical convex probe)
       frequency: 2500,  // 2.5 kHz (scaled representation of 2.5 MHz)
       steeringAngle: 0,
-      amplitudes: new Array(64).fill(1),
+      focusDistance: 0.3,  // Focal zone 30 cm in front of the probe
+      amplitudes: generateTaper(HANN_TAPER, 64),
+      taper: HANN_TAPER,
       enabled: true,
     },
   ],
@@ -105,6 +139,8 @@ export const createUltrasoundImagingScenario = (): ScenarioConfig => ({
  * - Two separate arrays positioned at different angles
  * - Both focused on the same central point (tumor location)
  * - Maximizes energy at the focal point while sparing surface tissue
+ * - Liver medium (brought along as a scenario medium) with spherical
+ *   spreading and absorption as in the imaging scenario
  * - Used in non-invasive cancer treatment
  */
 export const createTumorAblationScenario = (): ScenarioConfig => ({
@@ -112,32 +148,38 @@ export const createTumorAblationScenario = (): ScenarioConfig => ({
   name: 'Tumor Ablation',
   description: 'Two-array HIFU setup with converging beams for focused tissue ablation',
   icon: '🎯',
-  medium: 'tissue',
+  medium: LIVER_MEDIUM.id,
+  media: [LIVER_MEDIUM],
+  propagation: TISSUE_PROPAGATION,
   units: [
     {
       id: generateId('hifu-a'),
       name: 'Array A (Left)',
-      position: { x: -0.4, y: -0.3 },
+      position: { x: -0.4, y: 0.3 },
       elements: 32,
-      pitch: 0.000385,  // ~λ/2 at 2MHz in tissue
+      pitch: 0.000393,  // ~λ/2 at 2MHz in liver
       geometry: 'curved' as ArrayGeometry,
       curvatureRadius: 0.08,  // 80mm radius
       frequency: 2000,  // 2 kHz (scaled representation of 2 MHz)
-      steeringAngle: 45,  // Steered toward center
-      amplitudes: new Array(32).fill(1),
+      steeringAngle: 53.13,  // Steered toward center: atan(0.4 / 0.3)
+      focusDistance: 0.5,    // Focused on the tumor at the origin
+      amplitudes: generateTaper(UNIFORM_TAPER, 32),
+      taper: UNIFORM_TAPER,
       enabled: true,
     },
     {
       id: generateId('hifu-b'),
       name: 'Array B (Right)',
-      position: { x: 0.4, y: -0.3 },
+      position: { x: 0.4, y: 0.3 },
       elements: 32,
-      pitch: 0.000385,  // ~λ/2 at 2MHz in tissue
+      pitch: 0.000393,  // ~λ/2 at 2MHz in liver
       geometry: 'curved' as ArrayGeometry,
       curvatureRadius: 0.08,  // 80mm radius
       frequency: 2000,  // 2 kHz (scaled representation of 2 MHz)
-      steeringAngle: -45,  // Steered toward center
-      amplitudes: new Array(32).fill(1),
+      steeringAngle: -53.13,  // Steered toward center: -atan(0.4 / 0.3)
+      focusDistance: 0.5,     // Focused on the tumor at the origin
+      amplitudes: generateTaper(UNIFORM_TAPER, 32),
+      taper: UNIFORM_TAPER,
       enabled: true,
     },
   ],
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeTestArray } from '@/test/fixtures'
+import { computeMvdrExcitation, type AdaptiveScenario } from './adaptiveBeamforming'
+import type { EmitterKind, SignalEmitter } from './signalScene'
+
+const makeArray = (overrides: Partial<PhasedArrayConfig> = {}) => makeTestArray({ elements: 12, ...overrides })
+
+const emitter = (kind: EmitterKind, angle: number, powerDb: number): SignalEmitter => ({
+  id: `${kind}-${angle}`,
+  name: kind,
+  kind,
+  angle,
+  powerDb,
+  coherent: false,
+  enabled: true,
+})
+
+const interferenceAngles = [-35, 50]
+const emitters = [emitter('source', 10, 0), ...interferenceAngles.map((angle) => emitter('interferer', angle, 30))]
+const scenario: AdaptiveScenario = { diagonalLoadingDb: -10 }
+
+const withExcitation = (array: PhasedArray, excitation: { amplitudes: number[]; phases: number[] }) =>
+  PhasedArray.fromConfig({ ...array.toConfig(), ...excitation })
+
+describe('computeMvdrExcitation', () => {
+  it('reduces to delay-and-sum without interferers', () => {
+    const array = makeArray({ steeringAngle: 20 })
+    const excitation = computeMvdrExcitation(array, [emitter('source', 20, 0)], scenario)
+
+    excitation.amplitudes.forEach((a) => expect(a).toBeCloseTo(1, 6))
+    excitation.phases.forEach((p) => expect(Math.abs(p - excitation.phases[0])).toBeLessThan(1e-6))
+  })
+
+  it('keeps the look direction and nulls the interferers far below DAS', () => {
+    const das = makeArray({ steeringAngle: 10 })
+    const mvdr = withExcitation(das, computeMvdrExcitation(das, emitters, scenario))
+
+    const peak = Math.max(...mvdr.generateBeamPattern(0.5).map((p) => p.magnitude))
+    expect(mvdr.computeArrayFactor(10)).toBeCloseTo(peak, 1)
+
+    for (const angle of interferenceAngles) {
+      expect(mvdr.computeArrayFactorDb(angle, -120)).toBeLessThan(-40)
+      expect(mvdr.computeArrayFactorDb(angle, -120)).toBeLessThan(das.computeArrayFactorDb(angle, -120) - 20)
+    }
+  })
+
+  it('trades null depth for robustness under heavy diagonal loading', () => {
+    const array = makeArray()
+    const light = withExcitation(array, computeMvdrExcitation(array, emitters, scenario))
+    const heavy = withExcitation(array, computeMvdrExcitation(array, emitters, { diagonalLoadingDb: 40 }))
+
+    expect(heavy.computeArrayFactorDb(-35, -120)).toBeGreaterThan(light.computeArrayFactorDb(-35, -120))
+  })
+
+  it('nulls a point interferer in the direction it is seen from the array', () => {
+    const array = makeArray({ position: { x: 0.2, y: 0 } })
+    const point = { ...emitter('interferer', 0, 30), position: { x: 1.2, y: -1 } }
+    const mvdr = withExcitation(array, computeMvdrExcitation(array, [point], scenario))
+
+    // Δ = (1, −1) from the array: 45° off broadside
+    expect(mvdr.computeArrayFactorDb(45, -120)).toBeLessThan(-40)
+  })
+})
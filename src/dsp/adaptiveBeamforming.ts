@@ -0,0 +1,86 @@
+/**
+ * MVDR / Capon adaptive beamforming from a simulated spatial covariance.
+ *
+ * The covariance is that of the scene emitters (sources and interferers) in
+ * unit-power white noise. MVDR minimizes output power subject to unit gain in
+ * the look direction, which drives deep nulls onto everything else:
+ *
+ *   w = (R + δI)⁻¹·a₀ / (a₀ᴴ·(R + δI)⁻¹·a₀)
+ *
+ * The weights are converted back to the amplitude and phase-trim form used by
+ * PhasedArrayConfig so every renderer can consume them unchanged.
+ */
+
+import type { PhasedArray } from '@/classes/PhasedArray'
+import { conj, innerProduct, solveLinearSystem, type ComplexMatrix, type ComplexVector } from './complexMatrix'
+import { sceneCovariance, type SignalEmitter } from './signalScene'
+
+export interface AdaptiveScenario {
+  /** Diagonal loading relative to the noise power, in dB */
+  diagonalLoadingDb: number
+}
+
+export const DEFAULT_ADAPTIVE_SCENARIO: AdaptiveScenario = {
+  diagonalLoadingDb: 0,
+}
+
+/** Larger arrays keep their fixed weights: the MVDR solve costs O(N³) */
+export const MAX_ADAPTIVE_ELEMENTS = 64
+
+export interface ArrayExcitation {
+  amplitudes: number[]  // Peak-normalized element amplitudes
+  phases: number[]      // Phase trims (radians) on top of the steering phases
+}
+
+const dbToPower = (dB: number): number => 10 ** (dB / 10)
+
+const wrapPhase = (phase: number): number => Math.atan2(Math.sin(phase), Math.cos(phase))
+
+/**
+ * MVDR (Capon) weights for look direction `steering`, with diagonal loading
+ * `loading` added to the covariance for robustness.
+ */
+export function computeMvdrWeights(
+  covariance: ComplexMatrix,
+  steering: ComplexVector,
+  loading = 0
+): ComplexVector {
+  const loaded = covariance.map((row, i) =>
+    row.map((c, j) => (i === j ? { re: c.re + loading, im: c.im } : c))
+  )
+  const x = solveLinearSystem(loaded, steering)
+  // aᴴR⁻¹a is real and positive for a Hermitian positive-definite R
+  const gain = innerProduct(steering, x).re
+  return x.map((c) => ({ re: c.re / gain, im: c.im / gain }))
+}
+
+/**
+ * Convert beamformer weights w (output y = wᴴx) into element excitations
+ * cₙ = conj(wₙ), split into peak-normalized amplitudes and phase trims
+ * relative to `steeringPhases`.
+ */
+export function weightsToExcitation(weights: ComplexVector, steeringPhases: number[]): ArrayExcitation {
+  const excitation = weights.map(conj)
+  const magnitudes = excitation.map((c) => Math.hypot(c.re, c.im))
+  const peak = Math.max(...magnitudes)
+  return {
+    amplitudes: magnitudes.map((m) => (peak > 0 ? m / peak : 0)),
+    phases: excitation.map((c, i) => wrapPhase(Math.atan2(c.im, c.re) - steeringPhases[i])),
+  }
+}
+
+/**
+ * MVDR excitation for `array` receiving the scene `emitters`. The array must
+ * carry pure steering phases (no trims), since the trims are derived
+ * relative to them.
+ */
+export function computeMvdrExcitation(
+  array: PhasedArray,
+  emitters: SignalEmitter[],
+  scenario: AdaptiveScenario
+): ArrayExcitation {
+  const covariance = sceneCovariance(array, emitters)
+  const steering = array.computeSteeringVector(array.steeringAngle, array.steeringPhi)
+  const weights = computeMvdrWeights(covariance, steering, dbToPower(scenario.diagonalLoadingDb))
+  return weightsToExcitation(weights, array.computePhaseOffsets())
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest'
+import { PhasedArray } from '@/classes/PhasedArray'
+import { makeTestArray } from '@/test/fixtures'
+import { analyzeBeamPattern, computeDirectivity, gratingLobeFreePitch, predictGratingLobes } from './beamAnalysis'
+import { generateTaper } from './tapers'
+
+const analyze = (array: PhasedArray) =>
+  analyzeBeamPattern(array.generateBeamPattern(0.1, array.steeringPhi), array.steeringAngle)
+
+const deg = (rad: number) => (rad * 180) / Math.PI
+const halfWave = makeTestArray().wavelength / 2
+
+describe('analyzeBeamPattern', () => {
+  it('matches the uniform ULA closed forms at broadside', () => {
+    const metrics = analyze(makeTestArray({ elements: 8, pitch: halfWave }))
+
+    // First nulls at sin θ = ±λ/(N·d), HPBW ≈ 0.886·λ/(N·d) radians
+    expect(Math.abs(metrics.fnbw - 2 * deg(Math.asin(2 / 8)))).toBeLessThan(0.3)
+    expect(Math.abs(metrics.hpbw - deg((0.886 * 2) / 8))).toBeLessThan(0.5)
+    expect(metrics.peakSidelobeLevel).toBeGreaterThan(-13.5)
+    expect(metrics.peakSidelobeLevel).toBeLessThan(-12)
+    expect(Math.abs(metrics.pointingError)).toBeLessThan(0.05)
+    expect(metrics.gratingLobes).toEqual([])
+  })
+
+  it('tracks the steered main lobe and reports the taper sidelobe level', () => {
+    const taper = { type: 'chebyshev' as const, sidelobeLevel: -30 }
+    const metrics = analyze(
+      makeTestArray({ elements: 16, pitch: halfWave, steeringAngle: 25, taper, amplitudes: generateTaper(taper, 16) })
+    )
+
+    expect(Math.abs(metrics.peakAngle - 25)).toBeLessThan(0.1)
+    expect(metrics.peakSidelobeLevel).toBeCloseTo(-30, 0)
+  })
+
+  it('flags grating lobes when the pitch reaches a wavelength', () => {
+    const metrics = analyze(makeTestArray({ elements: 8, pitch: 2 * halfWave, steeringAngle: 30 }))
+
+    // sin θg = sin 30° − λ/d = −0.5
+    expect(Math.abs(metrics.peakAngle - 30)).toBeLessThan(0.1)
+    expect(metrics.gratingLobes).toHaveLength(1)
+    expect(Math.abs(metrics.gratingLobes[0] + 30)).toBeLessThan(0.5)
+  })
+})
+
+describe('computeDirectivity', () => {
+  it('gives 10·log10(N) for a half-wavelength ULA', () => {
+    const array = makeTestArray({ elements: 8, pitch: halfWave })
+    expect(computeDirectivity(array.computePatternGrid(1, 2, 180))).toBeCloseTo(10 * Math.log10(8), 1)
+  })
+
+  it('is 0 dBi for an isotropic pattern', () => {
+    const grid = {
+      theta: Array.from({ length: 91 }, (_, i) => i * 2),
+      phi: Array.from({ length: 91 }, (_, j) => -180 + j * 4),
+      magnitude: new Float32Array(91 * 91).fill(1),
+    }
+    expect(computeDirectivity(grid)).toBeCloseTo(0, 2)
+  })
+})
+
+describe('predictGratingLobes', () => {
+  it('has no visible lobes below the grating-lobe-free pitch', () => {
+    for (const steeringAngle of [0, 20, 45, 60]) {
+      const u0 = Math.sin((steeringAngle * Math.PI) / 180)
+      expect(predictGratingLobes(gratingLobeFreePitch(steeringAngle) - 0.01, u0)).toEqual([])
+      expect(predictGratingLobes(gratingLobeFreePitch(steeringAngle) + 0.01, u0).length).toBeGreaterThan(0)
+    }
+  })
+
+  it('places lobes at u₀ + m·λ/d', () => {
+    const lobes = predictGratingLobes(2, 0.5)
+    expect(lobes.map((lobe) => lobe.order)).toEqual([-3, -2, -1, 1])
+    lobes.forEach((lobe) => expect(lobe.u).toBeCloseTo(0.5 + lobe.order / 2, 10))
+    expect(lobes[2].angle).toBeCloseTo(0, 10)
+  })
+
+  it('agrees with the lobes found in the computed pattern', () => {
+    const array = makeTestArray({ elements: 12, pitch: 1.5 * halfWave, steeringAngle: 40 })
+    const predicted = array.predictGratingLobes().map((lobe) => lobe.angle)
+    const measured = analyze(array).gratingLobes
+
+    expect(predicted).toHaveLength(1)
+    expect(measured).toHaveLength(1)
+    expect(Math.abs(measured[0] - predicted[0])).toBeLessThan(0.5)
+  })
+})
@@ -0,0 +1,219 @@
+/**
+ * Beam pattern analysis: main-lobe and sidelobe metrics extracted from a
+ * computed array pattern rather than from textbook approximations.
+ *
+ * Cut metrics work on the 1D pattern returned by PhasedArray.generateBeamPattern
+ * and only consider the visible front half-space |θ| ≤ 90°, so the mirror lobe
+ * of a line array behind its own axis is never mistaken for a grating lobe.
+ */
+
+import type { PatternGrid } from '@/classes/PhasedArray'
+
+export interface PatternSample {
+  angle: number       // degrees
+  magnitude: number   // normalized array factor (linear)
+}
+
+export interface BeamMetrics {
+  /** Main-lobe direction in degrees (interpolated between samples) */
+  peakAngle: number
+  /** peakAngle − steering angle in degrees */
+  pointingError: number
+  /** Half-power (−3 dB) beamwidth in degrees */
+  hpbw: number
+  /** First-null beamwidth in degrees */
+  fnbw: number
+  /** Highest sidelobe relative to the main lobe in dB, null when there is none */
+  peakSidelobeLevel: number | null
+  /** Angles of secondary lobes within the grating-lobe threshold of the main lobe */
+  gratingLobes: number[]
+}
+
+export interface BeamAnalysisOptions {
+  /** Half-width of the analysed sector in degrees */
+  visibleRange?: number
+  /** Secondary lobes at or above this level (dB re main lobe) count as grating lobes */
+  gratingLobeThresholdDb?: number
+}
+
+const DEFAULT_OPTIONS: Required<BeamAnalysisOptions> = {
+  visibleRange: 90,
+  gratingLobeThresholdDb: -3,
+}
+
+// Lobes within this margin of the strongest are treated as equally strong
+// when picking the main lobe closest to the steering direction
+const MAIN_LOBE_TIE_DB = 0.5
+
+const toDb = (ratio: number): number => (ratio > 0 ? 20 * Math.log10(ratio) : -Infinity)
+
+// Linear interpolation of the angle where the pattern crosses `level` between two samples
+const crossing = (a: PatternSample, b: PatternSample, level: number): number => {
+  const span = b.magnitude - a.magnitude
+  if (span === 0) return a.angle
+  return a.angle + ((level - a.magnitude) / span) * (b.angle - a.angle)
+}
+
+/**
+ * Extract main-lobe, sidelobe and grating-lobe metrics from a pattern cut.
+ *
+ * @param pattern - Samples ordered by angle (e.g. PhasedArray.generateBeamPattern)
+ * @param steeringAngle - Intended beam direction in degrees
+ */
+export function analyzeBeamPattern(
+  pattern: PatternSample[],
+  steeringAngle: number,
+  options: BeamAnalysisOptions = {}
+): BeamMetrics {
+  const { visibleRange, gratingLobeThresholdDb } = { ...DEFAULT_OPTIONS, ...options }
+  const samples = pattern.filter((s) => Math.abs(s.angle) <= visibleRange)
+  const n = samples.length
+  if (n < 3) {
+    return { peakAngle: steeringAngle, pointingError: 0, hpbw: 0, fnbw: 0, peakSidelobeLevel: null, gratingLobes: [] }
+  }
+
+  // Local maxima (sector edges count when the pattern rises toward them)
+  const lobes: number[] = []
+  for (let i = 0; i < n; i++) {
+    const left = i > 0 ? samples[i - 1].magnitude : -Infinity
+    const right = i < n - 1 ? samples[i + 1].magnitude : -Infinity
+    if (samples[i].magnitude > left && samples[i].magnitude >= right) lobes.push(i)
+  }
+
+  // Main lobe: the strongest lobe, preferring the one nearest the steering angle on ties
+  const strongest = Math.max(...lobes.map((i) => samples[i].magnitude))
+  const peakIdx = lobes
+    .filter((i) => toDb(samples[i].magnitude / strongest) >= -MAIN_LOBE_TIE_DB)
+    .reduce((best, i) =>
+      Math.abs(samples[i].angle - steeringAngle) < Math.abs(samples[best].angle - steeringAngle) ? i : best
+    )
+  const peak = samples[peakIdx].magnitude
+
+  // Parabolic refinement of the peak position
+  let peakAngle = samples[peakIdx].angle
+  if (peakIdx > 0 && peakIdx < n - 1) {
+    const m0 = samples[peakIdx - 1].magnitude
+    const m1 = peak
+    const m2 = samples[peakIdx + 1].magnitude
+    const denominator = m0 - 2 * m1 + m2
+    if (denominator < 0) {
+      const step = samples[peakIdx + 1].angle - samples[peakIdx].angle
+      peakAngle += (0.5 * (m0 - m2) / denominator) * step
+    }
+  }
+
+  // Half-power points
+  const halfPower = peak / Math.SQRT2
+  let left = peakIdx
+  while (left > 0 && samples[left].magnitude >= halfPower) left--
+  let right = peakIdx
+  while (right < n - 1 && samples[right].magnitude >= halfPower) right++
+  const hpbwLeft = samples[left].magnitude < halfPower
+    ? crossing(samples[left], samples[left + 1], halfPower)
+    : samples[left].angle
+  const hpbwRight = samples[right].magnitude < halfPower
+    ? crossing(samples[right - 1], samples[right], halfPower)
+    : samples[right].angle
+
+  // First nulls: the pattern stops falling on either side of the main lobe
+  let leftNull = peakIdx
+  while (leftNull > 0 && samples[leftNull - 1].magnitude < samples[leftNull].magnitude) leftNull--
+  let rightNull = peakIdx
+  while (rightNull < n - 1 && samples[rightNull + 1].magnitude < samples[rightNull].magnitude) rightNull++
+
+  // Secondary lobes outside the main lobe
+  const gratingLobes: number[] = []
+  let peakSidelobeLevel: number | null = null
+  for (const i of lobes) {
+    if (i >= leftNull && i <= rightNull) continue
+    const level = toDb(samples[i].magnitude / peak)
+    if (level >= gratingLobeThresholdDb) {
+      gratingLobes.push(samples[i].angle)
+    } else if (peakSidelobeLevel === null || level > peakSidelobeLevel) {
+      peakSidelobeLevel = level
+    }
+  }
+
+  return {
+    peakAngle,
+    pointingError: peakAngle - steeringAngle,
+    hpbw: hpbwRight - hpbwLeft,
+    fnbw: samples[rightNull].angle - samples[leftNull].angle,
+    peakSidelobeLevel,
+    gratingLobes,
+  }
+}
+
+/**
+ * Directivity in dBi by numerical integration of |F|² over the sphere:
+ * D = 4π·max|F|² / ∮|F(θ, φ)|² sin θ dθ dφ (trapezoidal rule).
+ *
+ * @param grid - Full-sphere pattern (θ from 0 to 180°, φ spanning 360°)
+ */
+export function computeDirectivity(grid: PatternGrid): number {
+  const { theta, phi, magnitude } = grid
+  const thetaCount = theta.length
+  const phiCount = phi.length
+  if (thetaCount < 2 || phiCount < 2) return 0
+
+  const toRad = Math.PI / 180
+  const weight = (values: number[], i: number) => {
+    const lower = i > 0 ? values[i] - values[i - 1] : 0
+    const upper = i < values.length - 1 ? values[i + 1] - values[i] : 0
+    return ((lower + upper) / 2) * toRad
+  }
+
+  let integral = 0
+  let peak = 0
+  for (let j = 0; j < phiCount; j++) {
+    const phiWeight = weight(phi, j)
+    for (let i = 0; i < thetaCount; i++) {
+      const power = magnitude[j * thetaCount + i] ** 2
+      if (power > peak) peak = power
+      integral += power * Math.sin(theta[i] * toRad) * weight(theta, i) * phiWeight
+    }
+  }
+
+  if (integral <= 0 || peak <= 0) return 0
+  return 10 * Math.log10((4 * Math.PI * peak) / integral)
+}
+
+// ============================================================================
+// GRATING LOBE PREDICTION
+// ============================================================================
+
+export interface GratingLobe {
+  order: number   // Lattice order m (non-zero)
+  u: number       // Direction cosine along the array axis
+  angle: number   // Degrees from broadside
+}
+
+/**
+ * Predict the grating lobes of a periodic line lattice that fall in visible
+ * space. The array factor repeats every λ/d in u = sin θ, so lobes sit at
+ * u_m = u₀ + m·λ/d and are radiated whenever |u_m| ≤ 1.
+ *
+ * @param pitchLambda - Element pitch in wavelengths (d/λ)
+ * @param steeringU - Direction cosine of the main beam along the array axis
+ */
+export function predictGratingLobes(pitchLambda: number, steeringU: number): GratingLobe[] {
+  if (pitchLambda <= 0) return []
+  const period = 1 / pitchLambda
+  const maxOrder = Math.ceil(2 * pitchLambda)
+  const lobes: GratingLobe[] = []
+  for (let order = -maxOrder; order <= maxOrder; order++) {
+    if (order === 0) continue
+    const u = steeringU + order * period
+    if (Math.abs(u) > 1) continue
+    lobes.push({ order, u, angle: (Math.asin(u) * 180) / Math.PI })
+  }
+  return lobes
+}
+
+/**
+ * Largest pitch (in wavelengths) that keeps every grating lobe out of
+ * visible space when steering to `steeringAngle`: d/λ < 1 / (1 + |sin θ₀|).
+ */
+export function gratingLobeFreePitch(steeringAngle: number): number {
+  return 1 / (1 + Math.abs(Math.sin((steeringAngle * Math.PI) / 180)))
+}
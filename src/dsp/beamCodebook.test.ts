@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest'
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeTestArray, makeUnitConfig } from '@/test/fixtures'
+import {
+  codebookDirections,
+  codebookToCsv,
+  computeCoverageMap,
+  generateCodebook,
+  sweepCodebook,
+  type CodebookSettings,
+} from './beamCodebook'
+
+const halfWave = makeTestArray().wavelength / 2
+
+const makeConfig = (overrides: Partial<PhasedArrayConfig> = {}): PhasedArrayConfig =>
+  makeUnitConfig({ pitch: halfWave, ...overrides })
+
+const DFT: CodebookSettings = { type: 'dft', oversampling: 4 }
+const OVERSAMPLED: CodebookSettings = { type: 'oversampled', oversampling: 4 }
+
+describe('generateCodebook', () => {
+  it('places N orthonormal DFT beams across the visible region at half-wave pitch', () => {
+    const codebook = generateCodebook(makeConfig(), 'air', DFT)
+
+    expect(codebook.oversampling).toBe(1)
+    codebook.beams.map((b) => b.u).forEach((u, i) => expect(u).toBeCloseTo(-1 + i / 4, 9))
+    codebook.beams.forEach((a) => {
+      codebook.beams.forEach((b) => {
+        const re = a.weights.reduce((sum, w, n) => sum + w.re * b.weights[n].re + w.im * b.weights[n].im, 0)
+        const im = a.weights.reduce((sum, w, n) => sum + w.im * b.weights[n].re - w.re * b.weights[n].im, 0)
+        expect(Math.hypot(re, im)).toBeCloseTo(a.index === b.index ? 1 : 0, 9)
+      })
+    })
+  })
+
+  it('drops beams outside the visible region for dense arrays', () => {
+    const directions = codebookDirections(8, 0.25, 1)
+    // u_k = k·λ/(N·d) = k/2 spans [−2, 2); only |u| ≤ 1 is visible
+    expect(directions).toEqual([-1, -0.5, 0, 0.5, 1])
+  })
+
+  it('exports one CSV row per beam and element', () => {
+    const codebook = generateCodebook(makeConfig({ elements: 4 }), 'air', DFT)
+    const rows = codebookToCsv(codebook).trim().split('\n')
+
+    expect(rows[0]).toBe('beam,u,steering_angle_deg,element,re,im,amplitude,phase_rad')
+    expect(rows).toHaveLength(1 + 4 * 4)
+    expect(rows[1].split(',')).toHaveLength(8)
+  })
+})
+
+describe('sweepCodebook', () => {
+  it('raises the worst-case gain between beams by oversampling', () => {
+    const config = makeConfig()
+    const dft = sweepCodebook(config, 'air', generateCodebook(config, 'air', DFT))
+    const oversampled = sweepCodebook(config, 'air', generateCodebook(config, 'air', OVERSAMPLED))
+
+    expect(Math.max(...dft.gainDb)).toBeCloseTo(10 * Math.log10(8), 6)
+    // DFT beams cross over about 3.9 dB down
+    expect(dft.worstGainDb - 10 * Math.log10(8)).toBeLessThan(-3)
+    expect(oversampled.worstGainDb - 10 * Math.log10(8)).toBeGreaterThan(-0.5)
+  })
+})
+
+describe('computeCoverageMap', () => {
+  it('assigns field points the beam pointing at them', () => {
+    const config = makeConfig({ elements: 4 })
+    const codebook = generateCodebook(config, 'air', DFT)
+    const map = computeCoverageMap(config, 'air', codebook, { gridSize: 100, fieldSize: 2 })
+    const at = (x: number, y: number) => Math.round((y + 1) / 0.02) * map.width + Math.round((x + 1) / 0.02)
+    const beamAt = (angle: number) => codebook.beams.findIndex((b) => Math.abs(b.steeringAngle - angle) < 1e-6)
+
+    // Broadside and 30° (the array faces −y)
+    expect(map.bestBeam[at(0, -0.8)]).toBe(beamAt(0))
+    expect(map.bestBeam[at(0.4, -0.7)]).toBe(beamAt(30))
+    expect(map.gainDb[at(0, -0.8)]).toBeGreaterThan(10 * Math.log10(4) - 0.5)
+    expect(map.maxGainDb).toBeLessThanOrEqual(10 * Math.log10(4) + 1e-9)
+  })
+})
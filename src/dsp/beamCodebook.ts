@@ -0,0 +1,267 @@
+/**
+ * Beam codebooks and best-beam coverage.
+ *
+ * A DFT codebook for an N-element axis with pitch d holds the N beams whose
+ * progressive phases are the DFT frequencies, i.e. direction cosines
+ *
+ *   u_k = k·λ/(N·d),   wrapped into [−λ/(2d), λ/(2d))
+ *
+ * An O-times oversampled codebook refines the grid to N·O beams. Beams whose
+ * u falls outside the visible region |u| ≤ 1 are dropped. Each beam carries
+ * the array's own amplitude weights (uniform weights give the textbook DFT
+ * codebook) and its hardware quantization, normalized to unit norm so that a
+ * beam's gain |Σ wₙ·vₙ|² tops out at the array gain N.
+ *
+ * Sweeping the codebook assigns every direction (or field point) the beam
+ * with the largest gain: the best-beam coverage a beam-management loop
+ * reaches after an exhaustive sweep.
+ */
+
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import type { Complex } from './complexMatrix'
+
+export type CodebookType = 'dft' | 'oversampled'
+
+export interface CodebookSettings {
+  type: CodebookType
+  /** Beams per DFT beam ('oversampled' only) */
+  oversampling: number
+}
+
+export const DEFAULT_CODEBOOK_SETTINGS: CodebookSettings = {
+  type: 'dft',
+  oversampling: 4,
+}
+
+export const CODEBOOK_TYPE_LABELS: Record<CodebookType, string> = {
+  dft: 'DFT',
+  oversampled: 'Oversampled DFT',
+}
+
+export const MAX_OVERSAMPLING = 8
+
+export interface CodebookBeam {
+  index: number
+  /** Direction cosine along the array axis */
+  u: number
+  /** Beam direction θ in degrees (steering φ cut) */
+  steeringAngle: number
+  /** Unit-norm element weights wₙ = cₙ/‖c‖ */
+  weights: Complex[]
+}
+
+export interface Codebook {
+  type: CodebookType
+  oversampling: number
+  elements: number
+  frequency: number
+  steeringPhi: number
+  beams: CodebookBeam[]
+}
+
+export interface CodebookSweep {
+  /** Directions θ in degrees */
+  angles: number[]
+  /** Index of the best beam per direction */
+  bestBeam: number[]
+  /** Gain of the best beam per direction, in dB (10·log10 N at most) */
+  gainDb: number[]
+  /** Lowest best-beam gain between the outermost beams, in dB */
+  worstGainDb: number
+}
+
+export interface CoverageGrid {
+  /** Samples per side */
+  gridSize: number
+  /** Side of the square field in meters, centered on the origin */
+  fieldSize: number
+}
+
+export interface CoverageMap {
+  width: number
+  height: number
+  beamCount: number
+  /** Best beam per pixel, row-major with row 0 at y = −fieldSize/2 */
+  bestBeam: Uint16Array
+  /** Best-beam gain per pixel in dB */
+  gainDb: Float32Array
+  maxGainDb: number
+}
+
+// Floor of the dB gains
+const FLOOR_DB = -80
+const SWEEP_STEP = 0.5
+
+const toDb = (power: number): number => (power > 0 ? Math.max(FLOOR_DB, 10 * Math.log10(power)) : FLOOR_DB)
+
+// Elements along the array (x) axis that the DFT grid is sized for
+const axisElements = (array: PhasedArray): number =>
+  array.geometry === 'planar-rect' || array.geometry === 'planar-hex' ? array.columns : array.elements
+
+/** Direction cosines of the codebook beams, ascending, visible region only */
+export function codebookDirections(elements: number, pitchLambdaRatio: number, oversampling: number): number[] {
+  const count = Math.max(1, Math.round(elements * oversampling))
+  const period = 1 / pitchLambdaRatio // λ/d
+  const directions: number[] = []
+  for (let k = 0; k < count; k++) {
+    // Wrap k·λ/(N·O·d) into [−λ/(2d), λ/(2d))
+    const u = (((k / count) * period + period / 2) % period) - period / 2
+    if (Math.abs(u) <= 1 + 1e-12) directions.push(Math.max(-1, Math.min(1, u)))
+  }
+  return directions.sort((a, b) => a - b)
+}
+
+/**
+ * Codebook for the array described by `config`. The config's steering,
+ * trims, extra beams, nulls and digital subarray stage are replaced by each
+ * beam's pure steering.
+ */
+export function generateCodebook(config: PhasedArrayConfig, medium: string, settings: CodebookSettings): Codebook {
+  const array = PhasedArray.fromConfig(config, medium)
+  const oversampling = settings.type === 'oversampled' ? Math.max(1, Math.round(settings.oversampling)) : 1
+  const directions = codebookDirections(axisElements(array), array.pitchLambdaRatio, oversampling)
+
+  const beams = directions.map((u, index) => {
+    const steeringAngle = (Math.asin(u) * 180) / Math.PI
+    const beam = PhasedArray.fromConfig(
+      {
+        ...config,
+        steeringAngle,
+        focusDistance: undefined,
+        phases: undefined,
+        beams: undefined,
+        nulls: undefined,
+        subarrays: undefined,
+      },
+      medium
+    )
+    const excitation = beam.getElementPositions().map(({ amplitude, phaseOffset }) => ({
+      re: amplitude * Math.cos(phaseOffset),
+      im: amplitude * Math.sin(phaseOffset),
+    }))
+    const norm = Math.sqrt(excitation.reduce((sum, c) => sum + c.re * c.re + c.im * c.im, 0)) || 1
+    return { index, u, steeringAngle, weights: excitation.map((c) => ({ re: c.re / norm, im: c.im / norm })) }
+  })
+
+  return {
+    type: settings.type,
+    oversampling,
+    elements: array.elements,
+    frequency: array.frequency,
+    steeringPhi: array.steeringPhi,
+    beams,
+  }
+}
+
+// Beam with the largest |Σ wₙ·pₙ|² for the element responses p
+function bestBeamOf(beams: CodebookBeam[], responseRe: Float64Array, responseIm: Float64Array) {
+  let best = 0
+  let bestPower = -1
+  for (let b = 0; b < beams.length; b++) {
+    const weights = beams[b].weights
+    let re = 0
+    let im = 0
+    for (let n = 0; n < weights.length; n++) {
+      re += weights[n].re * responseRe[n] - weights[n].im * responseIm[n]
+      im += weights[n].re * responseIm[n] + weights[n].im * responseRe[n]
+    }
+    const power = re * re + im * im
+    if (power > bestPower) {
+      bestPower = power
+      best = b
+    }
+  }
+  return { beam: best, power: Math.max(0, bestPower) }
+}
+
+/** Far-field sweep of the codebook over the steering φ cut */
+export function sweepCodebook(config: PhasedArrayConfig, medium: string, codebook: Codebook): CodebookSweep {
+  const array = PhasedArray.fromConfig(config, medium)
+  const angles = Array.from({ length: 180 / SWEEP_STEP + 1 }, (_, i) => -90 + i * SWEEP_STEP)
+  const responseRe = new Float64Array(array.elements)
+  const responseIm = new Float64Array(array.elements)
+  const bestBeam: number[] = []
+  const gainDb: number[] = []
+
+  angles.forEach((angle) => {
+    array.computeSteeringVector(angle, codebook.steeringPhi).forEach((v, n) => {
+      responseRe[n] = v.re
+      responseIm[n] = v.im
+    })
+    const { beam, power } = bestBeamOf(codebook.beams, responseRe, responseIm)
+    bestBeam.push(beam)
+    gainDb.push(toDb(power))
+  })
+
+  const first = codebook.beams[0]?.steeringAngle ?? 0
+  const last = codebook.beams[codebook.beams.length - 1]?.steeringAngle ?? 0
+  const covered = gainDb.filter((_, i) => angles[i] >= first && angles[i] <= last)
+  return { angles, bestBeam, gainDb, worstGainDb: covered.length > 0 ? Math.min(...covered) : FLOOR_DB }
+}
+
+/**
+ * Best beam and its gain at every point of a square field in the x–y plane,
+ * on the same grid and phase convention as the interference field
+ * (element phasor e^(j(k·dₙ + φₙ)), no spreading loss).
+ */
+export function computeCoverageMap(
+  config: PhasedArrayConfig,
+  medium: string,
+  codebook: Codebook,
+  grid: CoverageGrid
+): CoverageMap {
+  const array = PhasedArray.fromConfig(config, medium)
+  const elements = array.getElementPositions()
+  const k = array.waveNumber
+  const size = Math.max(1, Math.round(grid.gridSize))
+  const step = grid.fieldSize / size
+  const offset = grid.fieldSize / 2
+
+  const bestBeam = new Uint16Array(size * size)
+  const gainDb = new Float32Array(size * size)
+  const responseRe = new Float64Array(elements.length)
+  const responseIm = new Float64Array(elements.length)
+  let maxGainDb = FLOOR_DB
+
+  for (let py = 0; py < size; py++) {
+    const y = py * step - offset
+    for (let px = 0; px < size; px++) {
+      const x = px * step - offset
+      elements.forEach((element, n) => {
+        const dx = x - element.x
+        const dy = y - element.y
+        const distance = Math.sqrt(dx * dx + dy * dy + element.z * element.z)
+        const gain = array.computeElementGain(element.orientation, dx, dy, distance)
+        responseRe[n] = gain * Math.cos(k * distance)
+        responseIm[n] = gain * Math.sin(k * distance)
+      })
+      const { beam, power } = bestBeamOf(codebook.beams, responseRe, responseIm)
+      const idx = py * size + px
+      bestBeam[idx] = beam
+      gainDb[idx] = toDb(power)
+      if (gainDb[idx] > maxGainDb) maxGainDb = gainDb[idx]
+    }
+  }
+
+  return { width: size, height: size, beamCount: codebook.beams.length, bestBeam, gainDb, maxGainDb }
+}
+
+/** Codebook as pretty-printed JSON, with weights as {re, im} pairs */
+export function codebookToJson(codebook: Codebook): string {
+  return JSON.stringify(codebook, null, 2)
+}
+
+/** Codebook as CSV, one row per beam and element */
+export function codebookToCsv(codebook: Codebook): string {
+  const rows = ['beam,u,steering_angle_deg,element,re,im,amplitude,phase_rad']
+  codebook.beams.forEach(({ index, u, steeringAngle, weights }) => {
+    weights.forEach((w, n) => {
+      rows.push(
+        [index, u, steeringAngle, n, w.re, w.im, Math.hypot(w.re, w.im), Math.atan2(w.im, w.re)]
+          .map((v) => (Number.isInteger(v) ? String(v) : v.toPrecision(8)))
+          .join(',')
+      )
+    })
+  })
+  return rows.join('\n') + '\n'
+}
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest'
+import { makeTestArray, makeUnitConfig } from '@/test/fixtures'
+import { computeFrequencySweep, computeInstantaneousBandwidth, sweepFrequencies } from './beamSquint'
+
+
+const halfWave = makeTestArray().wavelength / 2
+const deg = (rad: number) => (rad * 180) / Math.PI
+const rad = (degrees: number) => (degrees * Math.PI) / 180
+
+describe('computeFrequencySweep', () => {
+  it('squints phase-shifter beams as sin θ = (f₀/f)·sin θ₀ and holds true-time-delay beams', () => {
+    const config = { elements: 32, pitch: halfWave, steeringAngle: 30 }
+    const phase = computeFrequencySweep(makeTestArray(config), 0.3)
+    const ttd = computeFrequencySweep(makeTestArray({ ...config, steeringMode: 'ttd' }), 0.3)
+
+    phase.frequencies.forEach((f, i) => {
+      expect(Math.abs(phase.peakAngles[i] - deg(Math.asin((makeUnitConfig().frequency / f) * Math.sin(rad(30)))))).toBeLessThan(0.6)
+      expect(ttd.peakAngles[i]).toBeCloseTo(30, 6)
+    })
+    expect(phase.dB.length).toBe(phase.frequencies.length * phase.angles.length)
+  })
+
+  it('centers the sweep on the design frequency', () => {
+    const frequencies = sweepFrequencies(10000, 0.2, 11)
+    expect(frequencies[5]).toBe(10000)
+    expect(frequencies[0]).toBeCloseTo(9000, 9)
+    expect(frequencies[10]).toBeCloseTo(11000, 9)
+  })
+})
+
+describe('computeInstantaneousBandwidth', () => {
+  it('matches the beam-squint limit 2·0.886/(N·sin θ₀) for phase shifters', () => {
+    const bandwidth = computeInstantaneousBandwidth(makeTestArray({ elements: 16, pitch: halfWave, steeringAngle: 30 }), 0.6)
+    const expected = (2 * 0.886) / (16 * Math.sin(rad(30)))
+
+    expect(bandwidth.lower).not.toBeNull()
+    expect(bandwidth.upper).not.toBeNull()
+    expect(Math.abs(bandwidth.fractional - expected) / expected).toBeLessThan(0.15)
+  })
+
+  it('is not limited by squint at broadside or with true time delay', () => {
+    const broadside = computeInstantaneousBandwidth(makeTestArray({ elements: 16, pitch: halfWave }), 0.4)
+    const ttd = computeInstantaneousBandwidth(
+      makeTestArray({ elements: 16, pitch: halfWave, steeringAngle: 30, steeringMode: 'ttd' }),
+      0.4
+    )
+
+    for (const bandwidth of [broadside, ttd]) {
+      expect(bandwidth.lower).toBeNull()
+      expect(bandwidth.upper).toBeNull()
+      expect(bandwidth.fractional).toBeCloseTo(0.4, 9)
+    }
+  })
+})
@@ -0,0 +1,153 @@
+/**
+ * Wideband beam squint analysis.
+ *
+ * Phase-shifter steering is exact only at the design frequency f₀: at f the
+ * steering phases still match k₀, so a linear array's beam moves to
+ *
+ *   sin θ(f) = (f₀/f)·sin θ₀
+ *
+ * and the gain toward θ₀ falls off with the frequency offset. True time
+ * delays scale with frequency and hold the beam on θ₀. The sweep samples the
+ * pattern over a band around f₀ (frequency × angle), tracks the beam peak and
+ * reports the 3 dB instantaneous bandwidth: the band around f₀ over which the
+ * gain toward θ₀ stays within 3 dB of its value at f₀.
+ */
+
+import type { PhasedArray } from '@/classes/PhasedArray'
+
+export interface InstantaneousBandwidth {
+  /** Lower and upper −3 dB frequencies in Hz, null when the gain holds to the sweep edge */
+  lower: number | null
+  upper: number | null
+  /** Width in Hz between the edges (the sweep edges where an edge was not reached) */
+  bandwidth: number
+  /** bandwidth / f₀ */
+  fractional: number
+}
+
+export interface SquintSweep {
+  /** Swept frequencies in Hz, ascending, centered on f₀ */
+  frequencies: number[]
+  /** Angles θ in degrees (front half-plane, steering φ cut) */
+  angles: number[]
+  /** Pattern in dB re the coherent sum, dB[iFrequency * angles.length + iAngle] */
+  dB: Float32Array
+  /** Beam peak angle per frequency */
+  peakAngles: number[]
+  /** Gain toward θ₀ per frequency, in dB */
+  steeringGainDb: number[]
+  bandwidth: InstantaneousBandwidth
+}
+
+/** Default swept band as a fraction of f₀ (total width) */
+export const DEFAULT_SQUINT_SPAN = 0.4
+
+export const SQUINT_FREQUENCY_STEPS = 81
+const SQUINT_ANGLE_STEP = 0.5
+
+// Floor of the dB patterns
+const FLOOR_DB = -80
+
+const toDb = (magnitude: number): number => (magnitude > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(magnitude)) : FLOOR_DB)
+
+/** `steps` frequencies spanning f₀·(1 ± span/2), with f₀ in the middle */
+export function sweepFrequencies(centerFrequency: number, span: number, steps = SQUINT_FREQUENCY_STEPS): number[] {
+  const half = Math.max(1, Math.floor(steps / 2))
+  return Array.from({ length: 2 * half + 1 }, (_, i) => centerFrequency * (1 + (span / 2) * ((i - half) / half)))
+}
+
+/**
+ * −3 dB band around the center sample of `gainDb` (gain toward θ₀ per
+ * frequency), with the edges interpolated between samples.
+ */
+function bandwidthFromGain(frequencies: number[], gainDb: number[], centerFrequency: number): InstantaneousBandwidth {
+  const center = Math.floor(frequencies.length / 2)
+  const threshold = gainDb[center] - 3
+
+  const edge = (direction: 1 | -1): number | null => {
+    for (let i = center + direction; i >= 0 && i < frequencies.length; i += direction) {
+      if (gainDb[i] < threshold) {
+        const previous = i - direction
+        const t = (gainDb[previous] - threshold) / (gainDb[previous] - gainDb[i])
+        return frequencies[previous] + t * (frequencies[i] - frequencies[previous])
+      }
+    }
+    return null
+  }
+
+  const lower = edge(-1)
+  const upper = edge(1)
+  const bandwidth = (upper ?? frequencies[frequencies.length - 1]) - (lower ?? frequencies[0])
+  return { lower, upper, bandwidth, fractional: bandwidth / centerFrequency }
+}
+
+/** 3 dB instantaneous bandwidth of `array` toward its steering direction */
+export function computeInstantaneousBandwidth(
+  array: PhasedArray,
+  span = DEFAULT_SQUINT_SPAN,
+  steps = SQUINT_FREQUENCY_STEPS
+): InstantaneousBandwidth {
+  const frequencies = sweepFrequencies(array.frequency, span, steps)
+  const gainDb = frequencies.map((f) =>
+    toDb(array.computeArrayFactorAtFrequency(array.steeringAngle, f, array.steeringPhi))
+  )
+  return bandwidthFromGain(frequencies, gainDb, array.frequency)
+}
+
+/**
+ * Pattern of `array` over a band of total fractional width `span` around its
+ * design frequency, with the beam peak per frequency and the 3 dB
+ * instantaneous bandwidth.
+ */
+export function computeFrequencySweep(
+  array: PhasedArray,
+  span = DEFAULT_SQUINT_SPAN,
+  steps = SQUINT_FREQUENCY_STEPS
+): SquintSweep {
+  const frequencies = sweepFrequencies(array.frequency, span, steps)
+  const angles = Array.from({ length: 180 / SQUINT_ANGLE_STEP + 1 }, (_, i) => -90 + i * SQUINT_ANGLE_STEP)
+  const dB = new Float32Array(frequencies.length * angles.length)
+  const peakAngles: number[] = []
+  const steeringGainDb: number[] = []
+  const phi = array.steeringPhi
+
+  frequencies.forEach((frequency, fi) => {
+    const excitation = array.computeExcitation(frequency)
+    const amplitudeSum = excitation.reduce((sum, c) => sum + Math.hypot(c.re, c.im), 0)
+
+    // |Σ cₙ·vₙ(θ; f)| / Σ|Aₙ|
+    const response = (angle: number): number => {
+      if (amplitudeSum === 0) return 0
+      const v = array.computeSteeringVector(angle, phi, frequency)
+      let re = 0
+      let im = 0
+      for (let n = 0; n < v.length; n++) {
+        re += excitation[n].re * v[n].re - excitation[n].im * v[n].im
+        im += excitation[n].re * v[n].im + excitation[n].im * v[n].re
+      }
+      return Math.hypot(re, im) / amplitudeSum
+    }
+
+    let peak = -Infinity
+    let peakAngle = array.steeringAngle
+    angles.forEach((angle, ai) => {
+      const magnitude = response(angle)
+      dB[fi * angles.length + ai] = toDb(magnitude)
+      if (magnitude > peak) {
+        peak = magnitude
+        peakAngle = angle
+      }
+    })
+    peakAngles.push(peakAngle)
+    steeringGainDb.push(toDb(response(array.steeringAngle)))
+  })
+
+  return {
+    frequencies,
+    angles,
+    dB,
+    peakAngles,
+    steeringGainDb,
+    bandwidth: bandwidthFromGain(frequencies, steeringGainDb, array.frequency),
+  }
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest'
+import {
+  abs,
+  addOuterProduct,
+  complex,
+  complexEigenvalues,
+  hermitianEigen,
+  identityMatrix,
+  innerProduct,
+  invertMatrix,
+  mul,
+  solveLinearSystem,
+  type ComplexMatrix,
+} from './complexMatrix'
+
+const multiply = (matrix: ComplexMatrix, x: ReturnType<typeof complex>[]) =>
+  matrix.map((row) =>
+    row.reduce((sum, c, j) => {
+      const p = mul(c, x[j])
+      return { re: sum.re + p.re, im: sum.im + p.im }
+    }, complex(0))
+  )
+
+describe('complexMatrix', () => {
+  it('solves a Hermitian positive-definite system', () => {
+    const v = [complex(1, 0.5), complex(-0.3, 2), complex(0.7, -1)]
+    const matrix = addOuterProduct(identityMatrix(3, 0.5), v, 2)
+    const b = [complex(1), complex(0, 1), complex(-2, 0.25)]
+
+    const x = solveLinearSystem(matrix, b)
+    multiply(matrix, x).forEach((c, i) => {
+      expect(c.re).toBeCloseTo(b[i].re, 10)
+      expect(c.im).toBeCloseTo(b[i].im, 10)
+    })
+  })
+
+  it('builds a Hermitian rank-one update', () => {
+    const v = [complex(1, 2), complex(3, -1)]
+    const matrix = addOuterProduct(identityMatrix(2, 0), v, 1)
+    expect(matrix[0][1].re).toBeCloseTo(matrix[1][0].re, 12)
+    expect(matrix[0][1].im).toBeCloseTo(-matrix[1][0].im, 12)
+    expect(matrix[0][0].re).toBeCloseTo(innerProduct([v[0]], [v[0]]).re, 12)
+  })
+
+  it('inverts a general complex matrix', () => {
+    const matrix = [
+      [complex(0, 1), complex(2, -1), complex(0.5)],
+      [complex(1, 1), complex(0), complex(-1, 0.3)],
+      [complex(3), complex(0.2, 0.2), complex(1, -2)],
+    ]
+    const inverse = invertMatrix(matrix)
+    inverse.forEach((_, j) => {
+      const column = multiply(matrix, inverse.map((row) => row[j]))
+      column.forEach((c, i) => {
+        expect(c.re).toBeCloseTo(i === j ? 1 : 0, 10)
+        expect(c.im).toBeCloseTo(0, 10)
+      })
+    })
+  })
+
+  it('rejects singular matrices', () => {
+    expect(() => solveLinearSystem(identityMatrix(2, 0), [complex(1), complex(1)])).toThrow(/Singular/)
+    expect(() => invertMatrix(identityMatrix(2, 0))).toThrow(/Singular/)
+  })
+})
+
+describe('complexMatrix eigendecomposition', () => {
+  it('diagonalizes a Hermitian matrix with orthonormal eigenvectors', () => {
+    const v1 = [complex(1, 0.5), complex(-0.3, 2), complex(0.7, -1), complex(0.2, 0.1)]
+    const v2 = [complex(0, 1), complex(1, 0), complex(-1, 1), complex(0.5, -0.5)]
+    const matrix = addOuterProduct(addOuterProduct(identityMatrix(4, 0.1), v1, 3), v2, 1)
+    const { values, vectors } = hermitianEigen(matrix)
+
+    expect(values).toHaveLength(4)
+    values.forEach((value, k) => {
+      if (k > 0) expect(value).toBeLessThanOrEqual(values[k - 1] + 1e-12)
+      multiply(matrix, vectors[k]).forEach((c, i) => {
+        expect(c.re).toBeCloseTo(value * vectors[k][i].re, 8)
+        expect(c.im).toBeCloseTo(value * vectors[k][i].im, 8)
+      })
+      vectors.forEach((other, j) => {
+        expect(abs(innerProduct(other, vectors[k]))).toBeCloseTo(j === k ? 1 : 0, 8)
+      })
+    })
+    // Rank-two update of 0.1·I: two noise eigenvalues at 0.1
+    expect(values[2]).toBeCloseTo(0.1, 10)
+    expect(values[3]).toBeCloseTo(0.1, 10)
+  })
+
+  it('finds the eigenvalues of a general complex matrix', () => {
+    // Upper-triangular: eigenvalues are the diagonal
+    const matrix = [
+      [complex(2, 1), complex(1, -1), complex(0.5)],
+      [complex(0), complex(-1, 0.5), complex(3, 2)],
+      [complex(0), complex(0), complex(0.25, -2)],
+    ]
+    const eigenvalues = complexEigenvalues(matrix).sort((a, b) => a.re - b.re)
+    const expected = [complex(-1, 0.5), complex(0.25, -2), complex(2, 1)]
+    eigenvalues.forEach((lambda, i) => {
+      expect(lambda.re).toBeCloseTo(expected[i].re, 8)
+      expect(lambda.im).toBeCloseTo(expected[i].im, 8)
+    })
+  })
+})
@@ -0,0 +1,315 @@
+/**
+ * Minimal complex linear algebra for array signal processing.
+ *
+ * Vectors and matrices are plain arrays of { re, im } so they serialize to
+ * workers and stay readable in tests; sizes are element counts (≤ 256), where
+ * dense O(N³) routines are fast enough.
+ */
+
+export interface Complex {
+  re: number
+  im: number
+}
+
+export type ComplexVector = Complex[]
+export type ComplexMatrix = Complex[][]
+
+export const complex = (re: number, im = 0): Complex => ({ re, im })
+
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im })
+
+export const mul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+})
+
+export const abs = (a: Complex): number => Math.hypot(a.re, a.im)
+
+/** Inner product aᴴb */
+export function innerProduct(a: ComplexVector, b: ComplexVector): Complex {
+  let re = 0
+  let im = 0
+  for (let i = 0; i < a.length; i++) {
+    re += a[i].re * b[i].re + a[i].im * b[i].im
+    im += a[i].re * b[i].im - a[i].im * b[i].re
+  }
+  return { re, im }
+}
+
+/** n×n identity scaled by `scale` */
+export function identityMatrix(n: number, scale = 1): ComplexMatrix {
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => complex(i === j ? scale : 0))
+  )
+}
+
+/** In-place rank-one update R += scale·v·vᴴ */
+export function addOuterProduct(matrix: ComplexMatrix, v: ComplexVector, scale: number): ComplexMatrix {
+  for (let i = 0; i < v.length; i++) {
+    for (let j = 0; j < v.length; j++) {
+      // v_i · conj(v_j)
+      matrix[i][j].re += scale * (v[i].re * v[j].re + v[i].im * v[j].im)
+      matrix[i][j].im += scale * (v[i].im * v[j].re - v[i].re * v[j].im)
+    }
+  }
+  return matrix
+}
+
+/** Mean of the diagonal, i.e. trace(R)/N (the average element power) */
+export function averageDiagonal(matrix: ComplexMatrix): number {
+  if (matrix.length === 0) return 0
+  return matrix.reduce((sum, row, i) => sum + row[i].re, 0) / matrix.length
+}
+
+/**
+ * Solve A·x = b by Gaussian elimination with partial pivoting.
+ * Throws when A is numerically singular.
+ */
+export function solveLinearSystem(matrix: ComplexMatrix, b: ComplexVector): ComplexVector {
+  const n = b.length
+  // Augmented working copy [A | b]
+  const m = matrix.map((row, i) => [...row.map((c) => ({ ...c })), { ...b[i] }])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (abs(m[row][col]) > abs(m[pivot][col])) pivot = row
+    }
+    const pivotMagnitude2 = m[pivot][col].re ** 2 + m[pivot][col].im ** 2
+    if (pivotMagnitude2 < 1e-300) throw new Error('Singular matrix in solveLinearSystem')
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+
+    // 1 / pivot
+    const inv = { re: m[col][col].re / pivotMagnitude2, im: -m[col][col].im / pivotMagnitude2 }
+    for (let row = col + 1; row < n; row++) {
+      const factor = mul(m[row][col], inv)
+      if (factor.re === 0 && factor.im === 0) continue
+      for (let k = col; k <= n; k++) {
+        const p = mul(factor, m[col][k])
+        m[row][k].re -= p.re
+        m[row][k].im -= p.im
+      }
+    }
+  }
+
+  // Back substitution
+  const x: ComplexVector = new Array(n)
+  for (let row = n - 1; row >= 0; row--) {
+    let re = m[row][n].re
+    let im = m[row][n].im
+    for (let k = row + 1; k < n; k++) {
+      const p = mul(m[row][k], x[k])
+      re -= p.re
+      im -= p.im
+    }
+    const d = m[row][row]
+    const d2 = d.re * d.re + d.im * d.im
+    x[row] = { re: (re * d.re + im * d.im) / d2, im: (im * d.re - re * d.im) / d2 }
+  }
+  return x
+}
+
+/**
+ * Inverse of A by Gauss-Jordan elimination with partial pivoting, for
+ * solving many right-hand sides against the same matrix.
+ * Throws when A is numerically singular.
+ */
+export function invertMatrix(matrix: ComplexMatrix): ComplexMatrix {
+  const n = matrix.length
+  // Augmented working copy [A | I]
+  const m = matrix.map((row, i) => [
+    ...row.map((c) => ({ ...c })),
+    ...Array.from({ length: n }, (_, j) => complex(i === j ? 1 : 0)),
+  ])
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col
+    for (let row = col + 1; row < n; row++) {
+      if (abs(m[row][col]) > abs(m[pivot][col])) pivot = row
+    }
+    const pivotMagnitude2 = m[pivot][col].re ** 2 + m[pivot][col].im ** 2
+    if (pivotMagnitude2 < 1e-300) throw new Error('Singular matrix in invertMatrix')
+    ;[m[col], m[pivot]] = [m[pivot], m[col]]
+
+    // Scale the pivot row to a unit pivot, then clear the column everywhere else
+    const inv = { re: m[col][col].re / pivotMagnitude2, im: -m[col][col].im / pivotMagnitude2 }
+    m[col] = m[col].map((c) => mul(c, inv))
+    for (let row = 0; row < n; row++) {
+      const factor = { ...m[row][col] }
+      if (row === col || (factor.re === 0 && factor.im === 0)) continue
+      for (let k = col; k < 2 * n; k++) {
+        const p = mul(factor, m[col][k])
+        m[row][k].re -= p.re
+        m[row][k].im -= p.im
+      }
+    }
+  }
+  return m.map((row) => row.slice(n))
+}
+
+// ============================================================================
+// EIGENDECOMPOSITION
+// ============================================================================
+
+/**
+ * Cyclic Jacobi eigendecomposition of a real symmetric matrix (in place on a copy).
+ * Returns eigenvalues and column eigenvectors (vectors[k] is the k-th eigenvector).
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length
+  const a = matrix.map((row) => row.slice())
+  const v: number[][] = Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => (i === j ? 1 : 0)))
+
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0
+    let diagonal = 0
+    for (let i = 0; i < n; i++) {
+      diagonal += a[i][i] * a[i][i]
+      for (let j = i + 1; j < n; j++) offDiagonal += a[i][j] * a[i][j]
+    }
+    if (offDiagonal <= 1e-24 * (diagonal + offDiagonal)) break
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        const apq = a[p][q]
+        if (Math.abs(apq) < 1e-300) continue
+        const theta = (a[q][q] - a[p][p]) / (2 * apq)
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1))
+        const c = 1 / Math.sqrt(t * t + 1)
+        const s = t * c
+
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p]
+          const akq = a[k][q]
+          a[k][p] = c * akp - s * akq
+          a[k][q] = s * akp + c * akq
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k]
+          const aqk = a[q][k]
+          a[p][k] = c * apk - s * aqk
+          a[q][k] = s * apk + c * aqk
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p]
+          const vkq = v[k][q]
+          v[k][p] = c * vkp - s * vkq
+          v[k][q] = s * vkp + c * vkq
+        }
+      }
+    }
+  }
+
+  return {
+    values: a.map((row, i) => row[i]),
+    vectors: Array.from({ length: n }, (_, k) => v.map((row) => row[k])),
+  }
+}
+
+/**
+ * Eigendecomposition of a Hermitian matrix, eigenvalues in descending order
+ * with orthonormal eigenvectors.
+ *
+ * Solved through the real symmetric embedding [[Re, −Im], [Im, Re]], whose
+ * spectrum is that of the Hermitian matrix with every eigenvalue doubled; one
+ * complex eigenvector is kept per pair by Gram-Schmidt.
+ */
+export function hermitianEigen(matrix: ComplexMatrix): { values: number[]; vectors: ComplexVector[] } {
+  const n = matrix.length
+  const embedded = Array.from({ length: 2 * n }, (_, i) =>
+    Array.from({ length: 2 * n }, (_, j) => {
+      const c = matrix[i % n][j % n]
+      if (i < n && j < n) return c.re
+      if (i >= n && j >= n) return c.re
+      return i >= n ? c.im : -c.im
+    })
+  )
+  const real = symmetricEigen(embedded)
+  const order = real.values.map((_, i) => i).sort((a, b) => real.values[b] - real.values[a])
+
+  const values: number[] = []
+  const vectors: ComplexVector[] = []
+  for (const index of order) {
+    if (vectors.length === n) break
+    const e = real.vectors[index]
+    const z: ComplexVector = Array.from({ length: n }, (_, i) => complex(e[i], e[i + n]))
+
+    for (const accepted of vectors) {
+      const projection = innerProduct(accepted, z)
+      for (let i = 0; i < n; i++) {
+        const p = mul(accepted[i], projection)
+        z[i].re -= p.re
+        z[i].im -= p.im
+      }
+    }
+    const norm = Math.sqrt(innerProduct(z, z).re)
+    if (norm < 1e-3) continue
+    vectors.push(z.map((c) => ({ re: c.re / norm, im: c.im / norm })))
+    values.push(real.values[index])
+  }
+  return { values, vectors }
+}
+
+/**
+ * Eigenvalues of a small general complex matrix: characteristic polynomial by
+ * Faddeev-LeVerrier, roots by Durand-Kerner. Intended for M ≤ ~8.
+ */
+export function complexEigenvalues(matrix: ComplexMatrix): ComplexVector {
+  const n = matrix.length
+  if (n === 0) return []
+  if (n === 1) return [{ ...matrix[0][0] }]
+
+  const matMul = (a: ComplexMatrix, b: ComplexMatrix): ComplexMatrix =>
+    a.map((row) =>
+      b[0].map((_, j) =>
+        row.reduce((sum, c, k) => {
+          const p = mul(c, b[k][j])
+          return { re: sum.re + p.re, im: sum.im + p.im }
+        }, complex(0))
+      )
+    )
+
+  // Monic characteristic polynomial λⁿ + c₁λⁿ⁻¹ + … + cₙ
+  const coefficients: ComplexVector = [complex(1)]
+  let m: ComplexMatrix = identityMatrix(n, 0)
+  for (let k = 1; k <= n; k++) {
+    const previous = coefficients[k - 1]
+    // M_k = A·M_{k−1} + c_{k−1}·I
+    m = matMul(matrix, m).map((row, i) =>
+      row.map((c, j) => (i === j ? { re: c.re + previous.re, im: c.im + previous.im } : c))
+    )
+    const am = matMul(matrix, m)
+    const trace = am.reduce((sum, row, i) => ({ re: sum.re + row[i].re, im: sum.im + row[i].im }), complex(0))
+    coefficients.push({ re: -trace.re / k, im: -trace.im / k })
+  }
+
+  const evaluate = (z: Complex): Complex =>
+    coefficients.reduce((acc, c) => {
+      const p = mul(acc, z)
+      return { re: p.re + c.re, im: p.im + c.im }
+    }, complex(0))
+
+  // Durand-Kerner iteration from the customary starting points (0.4 + 0.9j)^i
+  const roots: ComplexVector = [complex(1)]
+  for (let i = 1; i < n; i++) roots.push(mul(roots[i - 1], complex(0.4, 0.9)))
+  for (let iteration = 0; iteration < 500; iteration++) {
+    let change = 0
+    for (let i = 0; i < n; i++) {
+      let denominator = complex(1)
+      for (let j = 0; j < n; j++) {
+        if (j !== i) denominator = mul(denominator, { re: roots[i].re - roots[j].re, im: roots[i].im - roots[j].im })
+      }
+      const numerator = evaluate(roots[i])
+      const d2 = denominator.re ** 2 + denominator.im ** 2
+      if (d2 === 0) continue
+      const step = {
+        re: (numerator.re * denominator.re + numerator.im * denominator.im) / d2,
+        im: (numerator.im * denominator.re - numerator.re * denominator.im) / d2,
+      }
+      roots[i] = { re: roots[i].re - step.re, im: roots[i].im - step.im }
+      change = Math.max(change, abs(step))
+    }
+    if (change < 1e-14) break
+  }
+  return roots
+}
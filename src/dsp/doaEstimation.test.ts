@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest'
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeTestArray } from '@/test/fixtures'
+import { estimateDoa, estimationRmse, findSpectrumPeaks, type DoaScenario } from './doaEstimation'
+import type { SignalEmitter } from './signalScene'
+
+const makeArray = (overrides: Partial<PhasedArrayConfig> = {}) => makeTestArray({ elements: 12, ...overrides })
+
+const sources = (angles: number[], powerDb: number): SignalEmitter[] =>
+  angles.map((angle, i) => ({
+    id: `source-${i}`,
+    name: `Source ${i + 1}`,
+    kind: 'source',
+    angle,
+    powerDb,
+    coherent: false,
+    enabled: true,
+  }))
+
+const sourceAngles = [-20, 12]
+const emitters = sources(sourceAngles, 10)
+const scenario: DoaScenario = { snapshots: 200, seed: 3 }
+
+describe('estimateDoa', () => {
+  it('resolves two sources with MUSIC and ESPRIT on a ULA', () => {
+    const result = estimateDoa(makeArray(), emitters, scenario)!
+
+    expect(result.musicEstimates).toHaveLength(2)
+    expect(result.espritEstimates).toHaveLength(2)
+    expect(result.musicRmse).toBeLessThan(0.5)
+    expect(result.espritRmse).toBeLessThan(0.5)
+    result.musicEstimates.forEach((angle, i) => expect(Math.abs(angle - sourceAngles[i])).toBeLessThan(1))
+  })
+
+  it('resolves closely spaced sources that merge in the DAS spectrum', () => {
+    const result = estimateDoa(makeArray({ elements: 8 }), sources([0, 6], 20), { ...scenario, snapshots: 500 })!
+
+    // 6° is inside the ~13° DAS beamwidth of an 8-element λ/2 array
+    const dasPeaks = findSpectrumPeaks(result.angles, result.das, 10).filter((angle) => angle > -10 && angle < 16)
+    expect(dasPeaks).toHaveLength(1)
+    expect(result.musicEstimates).toHaveLength(2)
+    expect(result.musicRmse).toBeLessThan(1)
+  })
+
+  it('is reproducible for a seed and skips ESPRIT on non-linear geometries', () => {
+    const curved = makeArray({ geometry: 'curved', curvatureRadius: 0.1 })
+    const a = estimateDoa(curved, emitters, scenario)!
+    const b = estimateDoa(curved, emitters, scenario)!
+    expect(a.music).toEqual(b.music)
+    expect(a.espritEstimates).toBeNull()
+    expect(a.musicRmse).toBeLessThan(1)
+  })
+
+  it('returns null for unestimable scenarios', () => {
+    expect(estimateDoa(makeArray({ elements: 2 }), emitters, scenario)).toBeNull()
+    expect(estimateDoa(makeArray(), [], scenario)).toBeNull()
+    expect(estimateDoa(makeArray(), emitters.map((e) => ({ ...e, enabled: false })), scenario)).toBeNull()
+  })
+})
+
+describe('estimationRmse', () => {
+  it('pairs estimates with the nearest true angles', () => {
+    expect(estimationRmse([12.5, -19], [-20, 12])).toBeCloseTo(Math.sqrt((1 + 0.25) / 2), 10)
+    expect(estimationRmse([], [0])).toBeNull()
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * Direction-of-arrival estimation for receive arrays.
+ *
+ * Synthetic snapshots of the scene emitters in white noise are generated on
+ * the real element geometry, then compared through three estimators:
+ * - DAS (Bartlett) spectrum  P(θ) = aᴴRa / aᴴa
+ * - MUSIC pseudospectrum     P(θ) = aᴴa / ‖Eₙᴴa‖²  (Eₙ = noise subspace)
+ * - ESPRIT (ULAs only)       rotational invariance between the two
+ *                            overlapping N−1 element subarrays
+ * Every enabled emitter, source or interferer, is a direction to find; their
+ * number is taken as known.
+ */
+
+import type { PhasedArray } from '@/classes/PhasedArray'
+import {
+  complexEigenvalues,
+  hermitianEigen,
+  innerProduct,
+  solveLinearSystem,
+  type ComplexMatrix,
+  type ComplexVector,
+} from './complexMatrix'
+import { emitterDirection, generateSnapshots, type SignalEmitter } from './signalScene'
+
+export interface DoaScenario {
+  /** Number of snapshots in the sample covariance */
+  snapshots: number
+  /** RNG seed of the synthetic data */
+  seed: number
+}
+
+export const DEFAULT_DOA_SCENARIO: DoaScenario = {
+  snapshots: 200,
+  seed: 1,
+}
+
+/** Larger arrays are skipped: the eigendecomposition is dense O(N³) */
+export const MAX_DOA_ELEMENTS = 64
+
+const SCAN_STEP = 0.25
+
+export interface DoaResult {
+  angles: number[]                  // Scan grid in degrees
+  trueAngles: number[]              // Emitter directions seen from the array
+  das: number[]                     // DAS spectrum, dB re its peak
+  music: number[]                   // MUSIC pseudospectrum, dB re its peak
+  musicEstimates: number[]
+  espritEstimates: number[] | null  // null when the geometry is not a ULA
+  musicRmse: number | null
+  espritRmse: number | null
+}
+
+const toDb = (values: number[]): number[] => {
+  const peak = Math.max(...values)
+  return values.map((v) => (v > 0 && peak > 0 ? 10 * Math.log10(v / peak) : -Infinity))
+}
+
+/** Sample covariance R = X·Xᴴ / K */
+export function sampleCovariance(snapshots: ComplexMatrix): ComplexMatrix {
+  const n = snapshots.length
+  const k = snapshots[0]?.length ?? 0
+  return Array.from({ length: n }, (_, i) =>
+    Array.from({ length: n }, (_, j) => {
+      // Σ_t x_i(t)·conj(x_j(t)) = conj(x_jᴴ·x_i)
+      const c = innerProduct(snapshots[j], snapshots[i])
+      return { re: c.re / k, im: c.im / k }
+    })
+  )
+}
+
+/** Peaks of a spectrum in dB: the `count` strongest local maxima, parabolically refined */
+export function findSpectrumPeaks(angles: number[], spectrumDb: number[], count: number): number[] {
+  const peaks: { index: number; level: number }[] = []
+  for (let i = 1; i < angles.length - 1; i++) {
+    if (spectrumDb[i] > spectrumDb[i - 1] && spectrumDb[i] >= spectrumDb[i + 1]) {
+      peaks.push({ index: i, level: spectrumDb[i] })
+    }
+  }
+  return peaks
+    .sort((a, b) => b.level - a.level)
+    .slice(0, count)
+    .map(({ index }) => {
+      const [y0, y1, y2] = [spectrumDb[index - 1], spectrumDb[index], spectrumDb[index + 1]]
+      const denominator = y0 - 2 * y1 + y2
+      const offset = denominator < 0 ? (0.5 * (y0 - y2)) / denominator : 0
+      return angles[index] + offset * (angles[index + 1] - angles[index])
+    })
+    .sort((a, b) => a - b)
+}
+
+/**
+ * ESPRIT estimates for a uniform linear array from its signal subspace:
+ * Eₛ₂ = Eₛ₁·Φ with eig(Φ) = e^(−j·k·d·sin θ).
+ */
+export function espritEstimates(signalSubspace: ComplexVector[], waveNumber: number, pitch: number): number[] {
+  const m = signalSubspace.length
+  const n = signalSubspace[0]?.length ?? 0
+  if (m === 0 || n < m + 1) return []
+
+  // Normal equations (Eₛ₁ᴴEₛ₁)·Φ = Eₛ₁ᴴEₛ₂ over the two shifted subarrays
+  const sub1 = signalSubspace.map((v) => v.slice(0, n - 1))
+  const sub2 = signalSubspace.map((v) => v.slice(1))
+  const gram: ComplexMatrix = sub1.map((a) => sub1.map((b) => innerProduct(a, b)))
+  const cross: ComplexMatrix = sub1.map((a) => sub2.map((b) => innerProduct(a, b)))
+  const columns = Array.from({ length: m }, (_, j) => solveLinearSystem(gram, cross.map((row) => row[j])))
+  const phi: ComplexMatrix = Array.from({ length: m }, (_, i) => columns.map((column) => column[i]))
+
+  const kd = waveNumber * pitch
+  return complexEigenvalues(phi)
+    .map((lambda) => {
+      const u = -Math.atan2(lambda.im, lambda.re) / kd
+      return (Math.asin(Math.max(-1, Math.min(1, u))) * 180) / Math.PI
+    })
+    .sort((a, b) => a - b)
+}
+
+/**
+ * Root-mean-square error of the estimates against the true angles, pairing
+ * each true angle with the nearest unused estimate. Null without estimates.
+ */
+export function estimationRmse(estimates: number[], truth: number[]): number | null {
+  if (estimates.length === 0 || truth.length === 0) return null
+  const unused = [...estimates]
+  let sum = 0
+  let count = 0
+  for (const angle of [...truth].sort((a, b) => a - b)) {
+    if (unused.length === 0) break
+    let best = 0
+    unused.forEach((e, i) => {
+      if (Math.abs(e - angle) < Math.abs(unused[best] - angle)) best = i
+    })
+    sum += (unused[best] - angle) ** 2
+    count++
+    unused.splice(best, 1)
+  }
+  return Math.sqrt(sum / count)
+}
+
+/**
+ * Run the full DOA comparison on `array` receiving the scene `emitters`.
+ * Returns null when the problem is not estimable (no enabled emitters, as
+ * many emitters as elements, or an array larger than MAX_DOA_ELEMENTS).
+ */
+export function estimateDoa(array: PhasedArray, emitters: SignalEmitter[], scenario: DoaScenario): DoaResult | null {
+  const n = array.elements
+  const enabled = emitters.filter((e) => e.enabled)
+  const sourceCount = enabled.length
+  if (sourceCount === 0 || sourceCount >= n || n > MAX_DOA_ELEMENTS) return null
+
+  const trueAngles = enabled.map((e) => emitterDirection(e, array.position))
+  const covariance = sampleCovariance(generateSnapshots(array, enabled, scenario.snapshots, scenario.seed))
+  const { vectors } = hermitianEigen(covariance)
+  const signalSubspace = vectors.slice(0, sourceCount)
+  const noiseSubspace = vectors.slice(sourceCount)
+
+  const angles: number[] = []
+  for (let angle = -90; angle <= 90 + 1e-9; angle += SCAN_STEP) angles.push(Math.round(angle * 100) / 100)
+
+  const das: number[] = []
+  const music: number[] = []
+  for (const angle of angles) {
+    const a = array.computeSteeringVector(angle, array.steeringPhi)
+    const norm = innerProduct(a, a).re
+    const ra = covariance.map((row) => innerProduct(row.map((c) => ({ re: c.re, im: -c.im })), a))
+    das.push(norm > 0 ? innerProduct(a, ra).re / norm : 0)
+
+    const projection = noiseSubspace.reduce((sum, e) => {
+      const c = innerProduct(e, a)
+      return sum + c.re * c.re + c.im * c.im
+    }, 0)
+    music.push(projection > 0 ? norm / projection : 0)
+  }
+
+  const dasDb = toDb(das)
+  const musicDb = toDb(music)
+  const musicEstimates = findSpectrumPeaks(angles, musicDb, sourceCount)
+  const espritAngles = array.geometry === 'linear'
+    ? espritEstimates(signalSubspace, array.waveNumber, array.pitch)
+    : null
+
+  return {
+    angles,
+    trueAngles,
+    das: dasDb,
+    music: musicDb,
+    musicEstimates,
+    espritEstimates: espritAngles,
+    musicRmse: estimationRmse(musicEstimates, trueAngles),
+    espritRmse: espritAngles ? estimationRmse(espritAngles, trueAngles) : null,
+  }
+}
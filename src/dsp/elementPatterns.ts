@@ -0,0 +1,73 @@
+/**
+ * Element directivity patterns for phased array elements.
+ *
+ * Patterns are evaluated from the direction cosines between the observation
+ * direction and the element normal, so callers can use them both in the far
+ * field (array patterns) and per pixel in the near field without trig calls.
+ */
+
+export type ElementPatternType = 'isotropic' | 'cosine' | 'piston' | 'dipole'
+
+export interface ElementPatternConfig {
+  type: ElementPatternType
+  /** cosⁿ pattern exponent */
+  exponent?: number
+  /** Baffled piston (strip) width in meters; defaults to the element pitch */
+  width?: number
+}
+
+export const DEFAULT_ELEMENT_PATTERN: ElementPatternConfig = { type: 'isotropic' }
+
+export const ELEMENT_PATTERN_DEFAULTS = {
+  exponent: 1.5,
+} as const
+
+export const ELEMENT_PATTERN_LABELS: Record<ElementPatternType, string> = {
+  isotropic: 'Isotropic',
+  cosine: 'cosⁿ',
+  piston: 'Baffled Piston',
+  dipole: 'Dipole',
+}
+
+/**
+ * Field (amplitude) gain of a single element, normalized to 1 along its normal.
+ *
+ * @param config - Element pattern (undefined = isotropic)
+ * @param cosAngle - cos of the angle between observation direction and element normal
+ * @param sinAngle - Direction cosine along the element face (sin of that angle in the x–y plane)
+ * @param waveNumber - k = 2π/λ (used by the piston pattern)
+ * @param defaultWidth - Piston width when the config does not specify one (meters)
+ */
+export function elementPatternGain(
+  config: ElementPatternConfig | undefined,
+  cosAngle: number,
+  sinAngle: number,
+  waveNumber: number,
+  defaultWidth: number
+): number {
+  switch (config?.type) {
+    case 'cosine': {
+      // No radiation behind the element
+      if (cosAngle <= 0) return 0
+      return Math.pow(cosAngle, config.exponent ?? ELEMENT_PATTERN_DEFAULTS.exponent)
+    }
+    case 'piston': {
+      // Rigid baffle: strip radiator of width w, sinc(k·w/2·sin α) in the front half-space
+      if (cosAngle <= 0) return 0
+      const x = (waveNumber * (config.width ?? defaultWidth) * sinAngle) / 2
+      return Math.abs(x) < 1e-9 ? 1 : Math.abs(Math.sin(x) / x)
+    }
+    case 'dipole': {
+      // Half-wave dipole lying along the array face: cos(π/2·sin α) / cos α, front and back
+      const c = Math.abs(cosAngle)
+      if (c < 1e-9) return 0
+      return Math.min(1, Math.abs(Math.cos((Math.PI / 2) * sinAngle)) / c)
+    }
+    default:
+      return 1
+  }
+}
+
+export function isIsotropic(config: ElementPatternConfig | undefined): boolean {
+  return !config || config.type === 'isotropic'
+}
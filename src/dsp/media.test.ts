@@ -0,0 +1,59 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { PhasedArray } from '@/classes/PhasedArray'
+import { makeUnitConfig } from '@/test/fixtures'
+import {
+  attenuationDbPerCm,
+  findMedium,
+  getMedium,
+  hasMedium,
+  registerCustomMedia,
+  sanitizeMedium,
+  type MediumDefinition,
+} from './media'
+
+const gel: MediumDefinition = {
+  id: 'medium-gel',
+  name: 'Gel',
+  density: 1020,
+  speedOfSound: 1600,
+  attenuation: 0.2,
+  attenuationExponent: 1.5,
+}
+
+afterEach(() => registerCustomMedia([]))
+
+describe('media registry', () => {
+  it('resolves built-in and registered media and falls back to air', () => {
+    registerCustomMedia([gel, { ...gel, id: 'water', speedOfSound: 1 }])
+
+    expect(getMedium('muscle').speedOfSound).toBe(1580)
+    expect(getMedium('medium-gel')).toEqual(gel)
+    // Built-ins cannot be overridden
+    expect(getMedium('water').speedOfSound).toBe(1481)
+    expect(hasMedium('unknown')).toBe(false)
+    expect(findMedium('unknown')).toBeUndefined()
+  })
+
+  it('warns once per unknown id when falling back to air', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    expect(getMedium('stale-id').id).toBe('air')
+    expect(getMedium('stale-id').id).toBe('air')
+    expect(warn).toHaveBeenCalledTimes(1)
+    warn.mockRestore()
+  })
+
+  it('drives the wavelength of arrays in a custom medium', () => {
+    registerCustomMedia([gel])
+    const array = PhasedArray.fromConfig(makeUnitConfig({ frequency: 16000 }), 'medium-gel')
+
+    expect(array.wavelength).toBeCloseTo(0.1, 12)
+  })
+
+  it('follows the power law and clamps user-defined properties', () => {
+    expect(attenuationDbPerCm(gel, 4e6)).toBeCloseTo(0.2 * 4 ** 1.5, 12)
+    expect(attenuationDbPerCm(getMedium('water'), 2e6)).toBeCloseTo(0.0022 * 4, 12)
+
+    const clamped = sanitizeMedium({ ...gel, speedOfSound: 5, attenuation: -1, attenuationExponent: Number.NaN })
+    expect([clamped.speedOfSound, clamped.attenuation, clamped.attenuationExponent]).toEqual([100, 0, 0])
+  })
+})
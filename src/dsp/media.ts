@@ -0,0 +1,113 @@
+/**
+ * Propagation media.
+ *
+ * A medium fixes the speed of sound c (and with it every wavelength), the
+ * density ρ (acoustic impedance Z = ρ·c) and the power-law absorption
+ *
+ *   α(f) = α₀ · f^y   dB/cm,  f in MHz
+ *
+ * Soft tissues absorb roughly linearly in frequency (y ≈ 1); water and air
+ * absorb close to f² (y ≈ 2).
+ *
+ * Media are referenced by id. The registry holds the built-ins plus the
+ * user-defined media, which the beam store registers on every change (and
+ * which worker jobs carry along and register on their side). getMedium
+ * resolves unknown ids to air with a warning; the beam store checks ids with
+ * hasMedium first and reports the ones it cannot resolve.
+ */
+
+export type MediumId = string
+
+export interface MediumDefinition {
+  id: MediumId
+  name: string
+  /** Density ρ in kg/m³ */
+  density: number
+  /** Speed of sound c in m/s */
+  speedOfSound: number
+  /** Absorption coefficient α₀ in dB/(cm·MHz^y) */
+  attenuation: number
+  /** Power-law exponent y of the absorption */
+  attenuationExponent: number
+}
+
+export const BUILT_IN_MEDIA: MediumDefinition[] = [
+  { id: 'air', name: 'Air', density: 1.2, speedOfSound: 343, attenuation: 8.1, attenuationExponent: 2 },
+  { id: 'water', name: 'Water', density: 1000, speedOfSound: 1481, attenuation: 0.0022, attenuationExponent: 2 },
+  { id: 'seawater', name: 'Seawater', density: 1025, speedOfSound: 1520, attenuation: 0.0025, attenuationExponent: 2 },
+  { id: 'tissue', name: 'Soft Tissue', density: 1060, speedOfSound: 1540, attenuation: 0.54, attenuationExponent: 1 },
+  { id: 'fat', name: 'Fat', density: 950, speedOfSound: 1450, attenuation: 0.6, attenuationExponent: 1 },
+  { id: 'muscle', name: 'Muscle', density: 1050, speedOfSound: 1580, attenuation: 1.09, attenuationExponent: 1 },
+  { id: 'bone', name: 'Bone', density: 1900, speedOfSound: 3500, attenuation: 20, attenuationExponent: 1 },
+  { id: 'steel', name: 'Steel', density: 7850, speedOfSound: 5900, attenuation: 0.01, attenuationExponent: 1 },
+]
+
+export const DEFAULT_MEDIUM_ID: MediumId = 'air'
+
+// Bounds of the user-defined properties
+export const MEDIUM_LIMITS = {
+  density: { min: 1, max: 20000 },
+  speedOfSound: { min: 100, max: 10000 },
+  attenuation: { min: 0, max: 50 },
+  attenuationExponent: { min: 0, max: 3 },
+} as const
+
+const builtIns = new Map(BUILT_IN_MEDIA.map((m) => [m.id, m]))
+let customMedia = new Map<MediumId, MediumDefinition>()
+
+/** Whether `id` names a built-in medium */
+export function isBuiltInMedium(id: MediumId): boolean {
+  return builtIns.has(id)
+}
+
+/** Replace the registered user-defined media; ids of built-ins are ignored */
+export function registerCustomMedia(media: MediumDefinition[]): void {
+  customMedia = new Map(media.filter((m) => !builtIns.has(m.id)).map((m) => [m.id, { ...m }]))
+}
+
+/** Medium registered under `id`, if any */
+export function findMedium(id: MediumId): MediumDefinition | undefined {
+  return builtIns.get(id) ?? customMedia.get(id)
+}
+
+// Unknown ids already warned about, so that render loops warn once
+const warnedIds = new Set<MediumId>()
+
+/** Medium registered under `id`, or air (with a warning) for unknown ids */
+export function getMedium(id: MediumId): MediumDefinition {
+  const medium = findMedium(id)
+  if (medium) return medium
+  if (!warnedIds.has(id)) {
+    warnedIds.add(id)
+    console.warn(`Unknown medium "${id}", using ${DEFAULT_MEDIUM_ID}`)
+  }
+  return builtIns.get(DEFAULT_MEDIUM_ID)!
+}
+
+/** Whether `id` names a built-in or registered medium */
+export function hasMedium(id: MediumId): boolean {
+  return findMedium(id) !== undefined
+}
+
+/** User-defined medium with its properties clamped to MEDIUM_LIMITS */
+export function sanitizeMedium(medium: MediumDefinition): MediumDefinition {
+  const clamp = (value: number, { min, max }: { min: number; max: number }) =>
+    Math.max(min, Math.min(max, Number.isFinite(value) ? value : min))
+  return {
+    ...medium,
+    density: clamp(medium.density, MEDIUM_LIMITS.density),
+    speedOfSound: clamp(medium.speedOfSound, MEDIUM_LIMITS.speedOfSound),
+    attenuation: clamp(medium.attenuation, MEDIUM_LIMITS.attenuation),
+    attenuationExponent: clamp(medium.attenuationExponent, MEDIUM_LIMITS.attenuationExponent),
+  }
+}
+
+/** Absorption of the medium at `frequency` (Hz) in dB/cm */
+export function attenuationDbPerCm(medium: MediumDefinition, frequency: number): number {
+  return medium.attenuation * (frequency / 1e6) ** medium.attenuationExponent
+}
+
+/** Characteristic acoustic impedance Z = ρ·c in MRayl */
+export function acousticImpedance(medium: MediumDefinition): number {
+  return (medium.density * medium.speedOfSound) / 1e6
+}
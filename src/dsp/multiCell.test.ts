@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeUnitConfig } from '@/test/fixtures'
+import { computeCellMap, isCoChannel } from './multiCell'
+
+const makeUnit = (overrides: Partial<PhasedArrayConfig> = {}): PhasedArrayConfig =>
+  makeUnitConfig({ elements: 4, ...overrides })
+
+const GRID = { gridSize: 20, fieldSize: 2 }
+// Pixel (px, py) sits at (px·0.1 − 1, py·0.1 − 1)
+const at = (x: number, y: number) => Math.round((y + 1) / 0.1) * 20 + Math.round((x + 1) / 0.1)
+
+describe('computeCellMap', () => {
+  it('reduces to the SNR and its Shannon rate for a single cell', () => {
+    const unit = makeUnit({ cell: { txPowerDbm: 10, noiseFloorDbm: 0 } })
+    const map = computeCellMap([unit], 'air', 1000, GRID)
+    const snr = 10 * PhasedArray.fromConfig(unit, 'air').computeIntensityAt(0.3, -0.6)
+
+    expect(map.unitIds).toEqual(['test'])
+    expect(map.serving.every((s) => s === 0)).toBe(true)
+    expect(map.sinrDb[at(0.3, -0.6)]).toBeCloseTo(10 * Math.log10(snr), 4)
+    expect(map.throughput[at(0.3, -0.6)]).toBeCloseTo(1000 * Math.log2(1 + snr), 0)
+  })
+
+  it('serves each point from the strongest cell and counts only co-channel interference', () => {
+    const left = makeUnit({ id: 'left', position: { x: -0.6, y: 0 } })
+    const right = makeUnit({ id: 'right', position: { x: 0.6, y: 0 } })
+    const coChannel = computeCellMap([left, right], 'air', 1000, GRID)
+    const offChannel = computeCellMap([left, { ...right, frequency: right.frequency + 2000 }], 'air', 1000, GRID)
+
+    expect(coChannel.serving[at(-0.6, -0.5)]).toBe(0)
+    expect(coChannel.serving[at(0.6, -0.5)]).toBe(1)
+    expect(offChannel.sinrDb[at(-0.6, -0.5)]).toBeGreaterThan(coChannel.sinrDb[at(-0.6, -0.5)])
+  })
+})
+
+describe('isCoChannel', () => {
+  it('overlaps channels closer than one bandwidth', () => {
+    expect(isCoChannel(10000, 10500, 1000)).toBe(true)
+    expect(isCoChannel(10000, 11000, 1000)).toBe(false)
+  })
+})
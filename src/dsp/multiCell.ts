@@ -0,0 +1,160 @@
+/**
+ * Multi-cell SINR analysis.
+ *
+ * Every enabled unit is treated as a separate cell: it transmits at its own
+ * frequency with its own power Pᵢ, and its receivers see their own noise
+ * floor Nᵢ. At a field point the power received from unit i is Pᵢ·|Eᵢ|²,
+ * where Eᵢ is the unit's coherent field at its own wavenumber. The point is
+ * served by the strongest unit s; every other unit whose channel overlaps
+ * the serving channel (|fᵢ − f_s| < B) interferes, and the interferers add
+ * as powers (independent transmitters):
+ *
+ *   SINR = P_s·|E_s|² / (N_s + Σ_{i≠s, co-channel} Pᵢ·|Eᵢ|²)
+ *   C    = B·log₂(1 + SINR)    (Shannon throughput)
+ *
+ * Powers are in dBm with the array field as the channel gain; with a
+ * propagation model the field includes spreading (referenced to 1 m) and
+ * absorption, so Pᵢ is the power at 1 m.
+ */
+
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { DEFAULT_PROPAGATION, type PropagationConfig } from './propagation'
+
+export interface CellConfig {
+  /** Transmit power in dBm */
+  txPowerDbm: number
+  /** Noise floor of the cell's receivers in dBm */
+  noiseFloorDbm: number
+}
+
+export const DEFAULT_CELL: CellConfig = {
+  txPowerDbm: 20,
+  noiseFloorDbm: -10,
+}
+
+/** Default channel bandwidth B in Hz */
+export const DEFAULT_CELL_BANDWIDTH = 1000
+
+export interface CellGrid {
+  /** Samples per side */
+  gridSize: number
+  /** Side of the square field in meters, centered on the origin */
+  fieldSize: number
+}
+
+export interface CellMap {
+  width: number
+  height: number
+  /** Ids of the cells (enabled units); `serving` indexes into this list */
+  unitIds: string[]
+  /** Serving cell per pixel, row-major with row 0 at y = −fieldSize/2 */
+  serving: Uint8Array
+  /** SINR of the serving cell per pixel in dB */
+  sinrDb: Float32Array
+  /** Shannon throughput per pixel in bit/s */
+  throughput: Float32Array
+  minSinrDb: number
+  maxSinrDb: number
+  maxThroughput: number
+}
+
+// Floor and ceiling of the dB SINRs
+const FLOOR_DB = -60
+const CEILING_DB = 100
+
+const dbmToMilliwatts = (dbm: number): number => 10 ** (dbm / 10)
+
+/** Whether the channels of two cells overlap, for channel bandwidth B */
+export function isCoChannel(frequencyA: number, frequencyB: number, bandwidth: number): boolean {
+  return Math.abs(frequencyA - frequencyB) < bandwidth
+}
+
+/**
+ * Serving cell, SINR and Shannon throughput at every point of a square
+ * field in the x–y plane, on the same grid as the interference field.
+ */
+export function computeCellMap(
+  units: PhasedArrayConfig[],
+  medium: string,
+  bandwidth: number,
+  grid: CellGrid,
+  propagation: PropagationConfig = DEFAULT_PROPAGATION
+): CellMap {
+  const cells = units
+    .filter((u) => u.enabled)
+    .map((u) => {
+      const cell = u.cell ?? DEFAULT_CELL
+      return {
+        id: u.id,
+        array: PhasedArray.fromConfig(u, medium, propagation),
+        power: dbmToMilliwatts(cell.txPowerDbm),
+        noise: dbmToMilliwatts(cell.noiseFloorDbm),
+      }
+    })
+  // Interferers of each serving cell
+  const interferers = cells.map((serving, s) =>
+    cells
+      .map((_, i) => i)
+      .filter((i) => i !== s && isCoChannel(cells[i].array.frequency, serving.array.frequency, bandwidth))
+  )
+
+  const size = Math.max(1, Math.round(grid.gridSize))
+  const step = grid.fieldSize / size
+  const offset = grid.fieldSize / 2
+  const serving = new Uint8Array(size * size)
+  const sinrDb = new Float32Array(size * size)
+  const throughput = new Float32Array(size * size)
+  const received = new Float64Array(cells.length)
+  let minSinrDb = CEILING_DB
+  let maxSinrDb = FLOOR_DB
+  let maxThroughput = 0
+
+  if (cells.length === 0) {
+    sinrDb.fill(FLOOR_DB)
+    return {
+      width: size,
+      height: size,
+      unitIds: [],
+      serving,
+      sinrDb,
+      throughput,
+      minSinrDb: FLOOR_DB,
+      maxSinrDb: FLOOR_DB,
+      maxThroughput,
+    }
+  }
+
+  for (let py = 0; py < size; py++) {
+    const y = py * step - offset
+    for (let px = 0; px < size; px++) {
+      const x = px * step - offset
+      let best = 0
+      cells.forEach((cell, i) => {
+        received[i] = cell.power * cell.array.computeIntensityAt(x, y)
+        if (received[i] > received[best]) best = i
+      })
+
+      const idx = py * size + px
+      const interference = interferers[best].reduce((sum, i) => sum + received[i], 0)
+      const sinr = received[best] / (cells[best].noise + interference)
+      serving[idx] = best
+      sinrDb[idx] = sinr > 0 ? Math.max(FLOOR_DB, Math.min(CEILING_DB, 10 * Math.log10(sinr))) : FLOOR_DB
+      throughput[idx] = bandwidth * Math.log2(1 + sinr)
+      if (sinrDb[idx] < minSinrDb) minSinrDb = sinrDb[idx]
+      if (sinrDb[idx] > maxSinrDb) maxSinrDb = sinrDb[idx]
+      if (throughput[idx] > maxThroughput) maxThroughput = throughput[idx]
+    }
+  }
+
+  return {
+    width: size,
+    height: size,
+    unitIds: cells.map((c) => c.id),
+    serving,
+    sinrDb,
+    throughput,
+    minSinrDb,
+    maxSinrDb,
+    maxThroughput,
+  }
+}
@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest'
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeTestArray } from '@/test/fixtures'
+import {
+  DEFAULT_PATTERN_MASK,
+  findMaskViolations,
+  maskBounds,
+  synthesizeFromMask,
+  type PatternMask,
+} from './patternSynthesis'
+
+const makeArray = (overrides: Partial<PhasedArrayConfig> = {}) => makeTestArray({ elements: 16, ...overrides })
+
+const mask = (overrides: Partial<PatternMask> = {}): PatternMask => ({ ...DEFAULT_PATTERN_MASK, ...overrides })
+
+const patternOf = (array: PhasedArray) =>
+  Array.from({ length: 361 }, (_, i) => -90 + i * 0.5).map((angle) => ({
+    angle,
+    dB: array.computeArrayFactorDb(angle, -120),
+  }))
+
+describe('maskBounds', () => {
+  it('opens the main lobe, floors the beam and lets notches cap the ceiling', () => {
+    const m = mask({ mainLobeWidth: 20, beamwidth: 6, notches: [{ center: 40, width: 10, depthDb: -50 }] })
+    expect(maskBounds(m, 10, 12)).toEqual({ upperDb: 0, lowerDb: -3 })
+    expect(maskBounds(m, 10, 18)).toEqual({ upperDb: 0, lowerDb: null })
+    expect(maskBounds(m, 10, -5)).toEqual({ upperDb: -25, lowerDb: null })
+    expect(maskBounds(m, 10, 43)).toEqual({ upperDb: -50, lowerDb: null })
+  })
+})
+
+describe('findMaskViolations', () => {
+  it('reports the uniform sidelobes above a -25 dB ceiling', () => {
+    const array = makeArray()
+    const violations = findMaskViolations(patternOf(array), mask({ mainLobeWidth: 16, beamwidth: 4 }), 0)
+
+    expect(violations.length).toBeGreaterThan(0)
+    violations.forEach((v) => expect(v.bound).toBe('upper'))
+    // The first sidelobe of a uniform array sits near -13.3 dB
+    expect(Math.max(...violations.map((v) => v.excessDb))).toBeCloseTo(25 - 13.3, 0)
+  })
+})
+
+describe('synthesizeFromMask', () => {
+  it('meets a low-sidelobe mask with a notch', () => {
+    const array = makeArray({ steeringAngle: 10 })
+    const m = mask({ sidelobeLevelDb: -30, notches: [{ center: -40, width: 10, depthDb: -50 }] })
+    const result = synthesizeFromMask(array, m)
+
+    expect(result.violations).toEqual([])
+    const synthesized = new PhasedArray({ ...array.toConfig(), amplitudes: result.amplitudes, phases: result.phases }, 'air')
+    expect(synthesized.computeArrayFactorDb(-40, -120) - synthesized.computeArrayFactorDb(10)).toBeLessThan(-49)
+    expect(Math.max(...result.amplitudes)).toBeCloseTo(1, 10)
+  })
+
+  it('reports the violations of an unreachable mask', () => {
+    const result = synthesizeFromMask(makeArray(), mask({ mainLobeWidth: 4, beamwidth: 2, sidelobeLevelDb: -40 }))
+    expect(result.violations.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,289 @@
+/**
+ * Pattern synthesis against an upper/lower dB mask.
+ *
+ * The mask is defined around the steering direction θ₀ in the steering φ
+ * cut and is relative to the pattern peak: a main-lobe region capped at 0 dB,
+ * a floor held over the beam, a sidelobe ceiling elsewhere and deeper notches
+ * where requested.
+ *
+ * The weights are found by alternating projections: the pattern F = A·c of
+ * the excitations c on a grid of angles is clipped into the mask (keeping its
+ * phase), and c is refitted to the clipped pattern D by regularized weighted
+ * least squares,
+ *
+ *   c = (AᴴWA + δI)⁻¹·AᴴW·D
+ *
+ * where W weights each angle by the inverse squared ceiling, so that a −50 dB
+ * notch is fitted as tightly as the main lobe. W is fixed, so the operator is
+ * inverted once and the iteration only costs matrix-vector products. Any remaining excess over the
+ * bounds is reported as mask violations.
+ */
+
+import type { PhasedArray } from '@/classes/PhasedArray'
+import { invertMatrix, type ComplexVector } from './complexMatrix'
+import { weightsToExcitation, type ArrayExcitation } from './adaptiveBeamforming'
+
+export interface MaskNotch {
+  /** Notch center θ in degrees */
+  center: number
+  /** Full notch width in degrees */
+  width: number
+  /** Ceiling inside the notch, in dB below the peak */
+  depthDb: number
+}
+
+export interface PatternMask {
+  /** Full width around θ₀ allowed up to 0 dB (main lobe plus transition), in degrees */
+  mainLobeWidth: number
+  /** Full width around θ₀ held above the main-lobe floor, in degrees */
+  beamwidth: number
+  /** Lower bound over the beam, in dB */
+  mainLobeFloorDb: number
+  /** Upper bound outside the main-lobe region, in dB */
+  sidelobeLevelDb: number
+  notches: MaskNotch[]
+}
+
+export const DEFAULT_PATTERN_MASK: PatternMask = {
+  mainLobeWidth: 30,
+  beamwidth: 8,
+  mainLobeFloorDb: -3,
+  sidelobeLevelDb: -25,
+  notches: [],
+}
+
+export interface MaskBounds {
+  upperDb: number
+  /** Null where the pattern has no lower bound */
+  lowerDb: number | null
+}
+
+export interface MaskViolation {
+  bound: 'upper' | 'lower'
+  /** Angular extent of the violation in degrees */
+  start: number
+  end: number
+  /** Angle and size of the worst excess over the bound */
+  worstAngle: number
+  excessDb: number
+}
+
+export interface SynthesisResult extends ArrayExcitation {
+  /** Synthesized pattern over the front half-plane, in dB below its peak */
+  pattern: { angle: number; dB: number }[]
+  violations: MaskViolation[]
+}
+
+export const DEFAULT_SYNTHESIS_ITERATIONS = 100
+
+/** Larger arrays are skipped: the least-squares operator costs O(N³) */
+export const MAX_SYNTHESIS_ELEMENTS = 128
+
+// Angle grid of the synthesis and of the violation report (front half-plane)
+const GRID_STEP = 0.5
+const GRID_ANGLES = Array.from({ length: 180 / GRID_STEP + 1 }, (_, i) => -90 + i * GRID_STEP)
+
+// Excess over a bound tolerated before it counts as a violation
+const VIOLATION_TOLERANCE_DB = 0.5
+
+// The projection aims this far below the ceiling so the fit lands within tolerance sooner
+const PROJECTION_MARGIN_DB = 1
+
+// Over-relaxation of the projection step (1 = plain projection)
+const RELAXATION = 1.8
+
+// Least-squares regularization relative to the average diagonal of AᴴA
+const REGULARIZATION = 1e-6
+
+// Floor of the dB pattern (a perfect null)
+const FLOOR_DB = -120
+
+const dbToAmplitude = (dB: number): number => 10 ** (dB / 20)
+
+/**
+ * Upper and lower bound of `mask` at `angle` for a beam steered to
+ * `steeringAngle`. Notches cap the ceiling wherever they overlap.
+ */
+export function maskBounds(mask: PatternMask, steeringAngle: number, angle: number): MaskBounds {
+  const offset = Math.abs(angle - steeringAngle)
+  let upperDb = offset <= mask.mainLobeWidth / 2 ? 0 : mask.sidelobeLevelDb
+  for (const notch of mask.notches) {
+    if (Math.abs(angle - notch.center) <= notch.width / 2) upperDb = Math.min(upperDb, notch.depthDb)
+  }
+  const lowerDb = offset <= mask.beamwidth / 2 ? Math.min(mask.mainLobeFloorDb, upperDb) : null
+  return { upperDb, lowerDb }
+}
+
+/**
+ * Contiguous runs of the pattern that exceed the mask by more than the
+ * tolerance, with their worst excess.
+ */
+export function findMaskViolations(
+  pattern: { angle: number; dB: number }[],
+  mask: PatternMask,
+  steeringAngle: number
+): MaskViolation[] {
+  const violations: MaskViolation[] = []
+  let current: MaskViolation | null = null
+
+  for (const { angle, dB } of pattern) {
+    const { upperDb, lowerDb } = maskBounds(mask, steeringAngle, angle)
+    const upperExcess = dB - upperDb
+    const lowerExcess = lowerDb === null ? 0 : lowerDb - dB
+    const bound = upperExcess > VIOLATION_TOLERANCE_DB ? 'upper' : lowerExcess > VIOLATION_TOLERANCE_DB ? 'lower' : null
+    const excessDb = bound === 'upper' ? upperExcess : lowerExcess
+
+    if (current && current.bound !== bound) {
+      violations.push(current)
+      current = null
+    }
+    if (!bound) continue
+    if (!current) {
+      current = { bound, start: angle, end: angle, worstAngle: angle, excessDb }
+    } else {
+      current.end = angle
+      if (excessDb > current.excessDb) {
+        current.worstAngle = angle
+        current.excessDb = excessDb
+      }
+    }
+  }
+  if (current) violations.push(current)
+  return violations
+}
+
+/**
+ * Synthesize excitations for `array` that fit `mask`, starting from its
+ * current amplitudes. The array must carry pure steering phases (no trims),
+ * since the result's trims are derived relative to them.
+ */
+export function synthesizeFromMask(
+  array: PhasedArray,
+  mask: PatternMask,
+  iterations = DEFAULT_SYNTHESIS_ITERATIONS
+): SynthesisResult {
+  const steeringPhases = array.computePhaseOffsets()
+  const rows = GRID_ANGLES.map((angle) => array.computeSteeringVector(angle, array.steeringPhi))
+  const n = array.elements
+  const m = rows.length
+
+  // A[m][n] = vₙ(θ_m), flattened row-major for the inner loops
+  const aRe = new Float64Array(m * n)
+  const aIm = new Float64Array(m * n)
+  rows.forEach((v, i) => v.forEach((c, k) => {
+    aRe[i * n + k] = c.re
+    aIm[i * n + k] = c.im
+  }))
+
+  // Bounds as linear amplitude ratios, the ceiling aimed slightly inside the mask
+  const upper = new Float64Array(m)
+  const lower = new Float64Array(m)
+  GRID_ANGLES.forEach((angle, i) => {
+    const { upperDb, lowerDb } = maskBounds(mask, array.steeringAngle, angle)
+    upper[i] = dbToAmplitude(upperDb - (upperDb < 0 ? PROJECTION_MARGIN_DB : 0))
+    lower[i] = lowerDb === null ? 0 : Math.min(upper[i], dbToAmplitude(lowerDb))
+  })
+
+  // Fit weights: relative errors count the same under a deep notch as on the beam
+  const weight = upper.map((u) => 1 / (u * u))
+
+  // Weighted least-squares operator (AᴴWA + δI)⁻¹
+  const gram = Array.from({ length: n }, (_, j) =>
+    Array.from({ length: n }, (_, k) => {
+      let re = 0
+      let im = 0
+      for (let i = 0; i < m; i++) {
+        const a = i * n
+        re += weight[i] * (aRe[a + j] * aRe[a + k] + aIm[a + j] * aIm[a + k])
+        im += weight[i] * (aRe[a + j] * aIm[a + k] - aIm[a + j] * aRe[a + k])
+      }
+      return { re, im }
+    })
+  )
+  const loading = (REGULARIZATION * gram.reduce((sum, row, i) => sum + row[i].re, 0)) / n
+  const inverse = invertMatrix(
+    gram.map((row, i) => row.map((c, j) => (i === j ? { re: c.re + loading, im: c.im } : c)))
+  )
+
+  const cRe = new Float64Array(n)
+  const cIm = new Float64Array(n)
+  array.getElementPositions().forEach(({ amplitude, phaseOffset }, k) => {
+    cRe[k] = amplitude * Math.cos(phaseOffset)
+    cIm[k] = amplitude * Math.sin(phaseOffset)
+  })
+  const fRe = new Float64Array(m)
+  const fIm = new Float64Array(m)
+  const bRe = new Float64Array(n)
+  const bIm = new Float64Array(n)
+
+  // F = A·c, returns the peak magnitude
+  const evaluatePattern = (): number => {
+    let peak = 0
+    for (let i = 0; i < m; i++) {
+      let re = 0
+      let im = 0
+      for (let k = 0; k < n; k++) {
+        const a = i * n + k
+        re += aRe[a] * cRe[k] - aIm[a] * cIm[k]
+        im += aRe[a] * cIm[k] + aIm[a] * cRe[k]
+      }
+      fRe[i] = re
+      fIm[i] = im
+      peak = Math.max(peak, Math.hypot(re, im))
+    }
+    return peak
+  }
+
+  for (let iteration = 0; iteration < iterations; iteration++) {
+    const peak = evaluatePattern()
+    if (peak === 0) break
+
+    // Project the pattern into the mask, keeping its phase
+    for (let i = 0; i < m; i++) {
+      const magnitude = Math.hypot(fRe[i], fIm[i])
+      const clipped = peak * Math.min(upper[i], Math.max(lower[i], magnitude / peak))
+      const target = Math.max(0, magnitude + RELAXATION * (clipped - magnitude))
+      const scale = magnitude > 0 ? target / magnitude : 0
+      fRe[i] = magnitude > 0 ? fRe[i] * scale : target
+      fIm[i] *= scale
+    }
+
+    // Refit: c = (AᴴWA + δI)⁻¹·AᴴW·D
+    bRe.fill(0)
+    bIm.fill(0)
+    for (let i = 0; i < m; i++) {
+      const dRe = weight[i] * fRe[i]
+      const dIm = weight[i] * fIm[i]
+      for (let k = 0; k < n; k++) {
+        const a = i * n + k
+        bRe[k] += aRe[a] * dRe + aIm[a] * dIm
+        bIm[k] += aRe[a] * dIm - aIm[a] * dRe
+      }
+    }
+    for (let j = 0; j < n; j++) {
+      let re = 0
+      let im = 0
+      for (let k = 0; k < n; k++) {
+        const g = inverse[j][k]
+        re += g.re * bRe[k] - g.im * bIm[k]
+        im += g.re * bIm[k] + g.im * bRe[k]
+      }
+      cRe[j] = re
+      cIm[j] = im
+    }
+  }
+
+  const peak = evaluatePattern()
+  const pattern = GRID_ANGLES.map((angle, i) => {
+    const magnitude = Math.hypot(fRe[i], fIm[i])
+    return { angle, dB: peak > 0 && magnitude > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(magnitude / peak)) : FLOOR_DB }
+  })
+
+  // Beamformer weights are w = conj(c)
+  const weights: ComplexVector = Array.from({ length: n }, (_, k) => ({ re: cRe[k], im: -cIm[k] }))
+  return {
+    ...weightsToExcitation(weights, steeringPhases),
+    pattern,
+    violations: findMaskViolations(pattern, mask, array.steeringAngle),
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Geometric spreading and medium absorption.
+ *
+ * The field of one element at range r is scaled by
+ *
+ *   g(r) = s(r) · 10^(−α(f)·r / 20)
+ *
+ * where s(r) is the spreading loss of the propagation model (1 for none,
+ * 1/√r for 2D cylindrical waves from line sources, 1/r for 3D spherical
+ * waves from point sources), r is in cm and α(f) is the medium's power-law
+ * absorption in dB/cm at the frequency f (see media.ts). Scenarios that
+ * simulate a MHz probe at kHz (to keep the wavelength visible) set a
+ * frequency scale so that absorption follows the represented band.
+ *
+ * Spreading is referenced to 1 m, so in the multi-cell analysis a unit's
+ * transmit power is its power at 1 m. Ranges below MIN_SPREADING_DISTANCE
+ * are clamped to keep the near field of each element finite.
+ */
+
+import { attenuationDbPerCm, getMedium, type MediumId } from './media'
+
+export type PropagationModel = 'none' | 'cylindrical' | 'spherical'
+
+export interface PropagationConfig {
+  /** Geometric spreading of each element's wave */
+  model: PropagationModel
+  /** Apply the medium's frequency-dependent absorption */
+  attenuation: boolean
+  /** Represented frequency over simulated frequency, for absorption (unset = 1) */
+  frequencyScale?: number
+}
+
+export const DEFAULT_PROPAGATION: PropagationConfig = {
+  model: 'none',
+  attenuation: false,
+}
+
+export const PROPAGATION_MODEL_LABELS: Record<PropagationModel, string> = {
+  none: 'None',
+  cylindrical: '2D (1/√r)',
+  spherical: '3D (1/r)',
+}
+
+/** Smallest range (m) used for spreading */
+export const MIN_SPREADING_DISTANCE = 1e-3
+
+/** Whether the config leaves the field unscaled */
+export function isLossless(config: PropagationConfig): boolean {
+  return config.model === 'none' && !config.attenuation
+}
+
+/**
+ * Absorption α(f) of the medium at the simulated `frequency` (Hz), in dB/m;
+ * 0 with attenuation off
+ */
+export function attenuationDbPerMeter(config: PropagationConfig, medium: MediumId, frequency: number): number {
+  if (!config.attenuation) return 0
+  return attenuationDbPerCm(getMedium(medium), frequency * (config.frequencyScale ?? 1)) * 100
+}
+
+/**
+ * Amplitude factor g(r) of one element's field at range `distance` (m),
+ * given the absorption in dB/m at the wave's frequency.
+ */
+export function propagationGain(config: PropagationConfig, distance: number, attenuationDbPerM: number): number {
+  const r = Math.max(MIN_SPREADING_DISTANCE, distance)
+  const spreading = config.model === 'spherical' ? 1 / r : config.model === 'cylindrical' ? 1 / Math.sqrt(r) : 1
+  return attenuationDbPerM > 0 ? spreading * 10 ** ((-attenuationDbPerM * distance) / 20) : spreading
+}
@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_QUANTIZATION,
+  isIdealQuantization,
+  predictedQuantizationLobe,
+  quantizeAmplitudes,
+  quantizePhases,
+  type QuantizationConfig,
+} from './quantization'
+
+const config = (overrides: Partial<QuantizationConfig>): QuantizationConfig => ({ ...DEFAULT_QUANTIZATION, ...overrides })
+
+describe('quantizePhases', () => {
+  it('rounds to the nearest n-bit state', () => {
+    const step = Math.PI / 4
+    expect(quantizePhases([0.1, 0.5, -1.2, 3], config({ phaseBits: 3 }))).toEqual([0, step, -2 * step, 4 * step])
+  })
+
+  it('rounds randomly but reproducibly and without bias', () => {
+    const phases = Array.from({ length: 4000 }, () => 0.3)
+    const random = config({ phaseBits: 2, randomRounding: true, seed: 7 })
+    const rounded = quantizePhases(phases, random)
+
+    expect(rounded).toEqual(quantizePhases(phases, random))
+    expect(new Set(rounded)).toEqual(new Set([0, Math.PI / 2]))
+    const mean = rounded.reduce((sum, p) => sum + p, 0) / rounded.length
+    expect(mean).toBeCloseTo(0.3, 1)
+  })
+
+  it('leaves phases continuous with zero bits', () => {
+    const phases = [0.123, -2.5]
+    expect(quantizePhases(phases, config({ phaseBits: 0 }))).toBe(phases)
+    expect(isIdealQuantization(config({}))).toBe(true)
+  })
+})
+
+describe('quantizeAmplitudes', () => {
+  it('uses linear levels relative to the peak', () => {
+    const quantized = quantizeAmplitudes([1, 0.5, 0.3, 0], config({ amplitudeMode: 'bits', amplitudeBits: 2 }))
+    expect(quantized.map((a) => a * 3)).toEqual([3, 2, 1, 0].map((level) => expect.closeTo(level, 12)))
+  })
+
+  it('steps attenuation in dB up to the attenuator range', () => {
+    const stepped = config({ amplitudeMode: 'db-step', amplitudeStepDb: 1, amplitudeBits: 3 })
+    const [full, mid, deep] = quantizeAmplitudes([2, 2 * 10 ** (-2.4 / 20), 2 * 10 ** (-20 / 20)], stepped)
+
+    expect(full).toBeCloseTo(2, 12)
+    expect(20 * Math.log10(mid / 2)).toBeCloseTo(-2, 12)
+    // 3 bits of 1 dB steps reach at most 7 dB
+    expect(20 * Math.log10(deep / 2)).toBeCloseTo(-7, 12)
+  })
+})
+
+describe('predictedQuantizationLobe', () => {
+  it('follows −6 dB per phase bit for deterministic rounding only', () => {
+    expect(predictedQuantizationLobe(config({ phaseBits: 4 }))).toBeCloseTo(-24.08, 2)
+    expect(predictedQuantizationLobe(config({ phaseBits: 4, randomRounding: true }))).toBeNull()
+  })
+})
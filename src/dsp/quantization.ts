@@ -0,0 +1,94 @@
+/**
+ * Hardware quantization of element excitations.
+ *
+ * n-bit phase shifters realize only multiples of 2π/2ⁿ, and attenuators
+ * either take n-bit linear levels or fixed dB steps. Deterministic rounding
+ * of a progressive phase leaves a periodic error that radiates quantization
+ * lobes (about −6.02·n dB for n-bit phase shifters); random rounding, which
+ * rounds up with probability equal to the fractional part, decorrelates the
+ * errors and spreads them into a lower, diffuse sidelobe floor.
+ */
+
+import { createRng, type Rng } from '@/utils/random'
+
+export type AmplitudeQuantization = 'ideal' | 'bits' | 'db-step'
+
+export interface QuantizationConfig {
+  /** Phase-shifter bits (0 = ideal, continuous phase) */
+  phaseBits: number
+  amplitudeMode: AmplitudeQuantization
+  /** Linear attenuator bits ('bits'), or attenuator steps as 2ⁿ − 1 ('db-step') */
+  amplitudeBits: number
+  /** Attenuation step in dB ('db-step') */
+  amplitudeStepDb: number
+  /** Round up with probability equal to the fractional part instead of to the nearest */
+  randomRounding: boolean
+  /** RNG seed of the random rounding */
+  seed: number
+}
+
+export const DEFAULT_QUANTIZATION: QuantizationConfig = {
+  phaseBits: 0,
+  amplitudeMode: 'ideal',
+  amplitudeBits: 4,
+  amplitudeStepDb: 0.5,
+  randomRounding: false,
+  seed: 1,
+}
+
+export const AMPLITUDE_QUANTIZATION_LABELS: Record<AmplitudeQuantization, string> = {
+  ideal: 'Ideal',
+  bits: 'n-bit',
+  'db-step': 'dB Step',
+}
+
+/** Whether the config leaves phases and amplitudes continuous */
+export function isIdealQuantization(config: QuantizationConfig | undefined): boolean {
+  return !config || (config.phaseBits <= 0 && config.amplitudeMode === 'ideal')
+}
+
+/**
+ * Expected peak quantization lobe of n-bit deterministic phase rounding,
+ * relative to the main beam (dB). Null when nothing predicts periodic lobes.
+ */
+export function predictedQuantizationLobe(config: QuantizationConfig | undefined): number | null {
+  if (!config || config.phaseBits <= 0 || config.randomRounding) return null
+  return -20 * Math.log10(2) * config.phaseBits
+}
+
+// Round x (in units of one step) to an integer level
+const roundLevel = (x: number, rng: Rng | null): number => {
+  if (!rng) return Math.round(x)
+  const floor = Math.floor(x)
+  return floor + (rng() < x - floor ? 1 : 0)
+}
+
+/** Phases (radians) rounded to the n-bit phase-shifter states */
+export function quantizePhases(phases: number[], config: QuantizationConfig | undefined): number[] {
+  if (!config || config.phaseBits <= 0) return phases
+  const step = (2 * Math.PI) / 2 ** Math.round(config.phaseBits)
+  const rng = config.randomRounding ? createRng(config.seed) : null
+  return phases.map((phase) => roundLevel(phase / step, rng) * step)
+}
+
+/**
+ * Amplitudes rounded to the attenuator states, relative to the largest
+ * amplitude (the attenuator's 0 dB state). Zero stays zero (element off).
+ */
+export function quantizeAmplitudes(amplitudes: number[], config: QuantizationConfig | undefined): number[] {
+  if (!config || config.amplitudeMode === 'ideal') return amplitudes
+  const peak = Math.max(...amplitudes.map(Math.abs))
+  if (peak === 0) return amplitudes
+  const levels = 2 ** Math.max(1, Math.round(config.amplitudeBits)) - 1
+  // Independent stream from the phase rounding
+  const rng = config.randomRounding ? createRng(config.seed + 0x9e3779b9) : null
+
+  return amplitudes.map((a) => {
+    const magnitude = Math.abs(a) / peak
+    if (magnitude === 0) return 0
+    if (config.amplitudeMode === 'bits') return (Math.sign(a) * peak * roundLevel(magnitude * levels, rng)) / levels
+    // Attenuation in whole steps, limited to the attenuator range
+    const steps = Math.min(levels, roundLevel(-20 * Math.log10(magnitude) / config.amplitudeStepDb, rng))
+    return Math.sign(a) * peak * 10 ** (-(steps * config.amplitudeStepDb) / 20)
+  })
+}
@@ -0,0 +1,182 @@
+/**
+ * Generalized sidelobe canceller (GSC) adapted sample by sample.
+ *
+ * The quiescent beamformer w_q (the array's current weights) keeps the look
+ * direction; a blocking matrix B, orthogonal to the look steering vector a₀,
+ * feeds an adaptive filter w_a that subtracts whatever of the output it can
+ * predict from the blocked channels — the interference:
+ *
+ *   y = (w_q − B·w_a)ᴴ·x
+ *
+ * w_a is trained on synthetic snapshots of the scene emitters with
+ * normalized LMS or RLS. Because Bᴴa₀ = 0, a source in the look direction
+ * never leaks into the adaptive branch and is not cancelled.
+ */
+
+import type { PhasedArray } from '@/classes/PhasedArray'
+import {
+  conj,
+  innerProduct,
+  mul,
+  solveLinearSystem,
+  type Complex,
+  type ComplexVector,
+} from './complexMatrix'
+import {
+  arrayExcitation,
+  excitationSinr,
+  generateSnapshots,
+  sceneCovariance,
+  type SignalEmitter,
+} from './signalScene'
+
+export type CancellerAlgorithm = 'lms' | 'rls'
+
+export interface CancellerSettings {
+  algorithm: CancellerAlgorithm
+  /** Training snapshots, one adaptation step each */
+  iterations: number
+  /** Normalized LMS step size μ (stable for 0 < μ < 2) */
+  stepSize: number
+  /** RLS forgetting factor λ (0 < λ ≤ 1) */
+  forgettingFactor: number
+  /** RNG seed of the training snapshots */
+  seed: number
+}
+
+export const DEFAULT_CANCELLER_SETTINGS: CancellerSettings = {
+  algorithm: 'rls',
+  iterations: 200,
+  stepSize: 0.1,
+  forgettingFactor: 0.999,
+  seed: 1,
+}
+
+/** Larger arrays are skipped: RLS costs O(N²) per snapshot */
+export const MAX_CANCELLER_ELEMENTS = 64
+
+/** Points of the SINR learning curve; each costs a full SINR evaluation */
+export const SINR_HISTORY_POINTS = 50
+
+export interface CancellerResult {
+  /** Adapted beamformer weights w (output y = wᴴx) */
+  weights: ComplexVector
+  /** Output SINR in dB before adaptation (index 0) and along the adaptation; empty without sources */
+  sinrHistory: number[]
+  /** Iterations completed at each `sinrHistory` entry */
+  sinrIterations: number[]
+  /** SINR of the MVDR solution on the true interference-plus-noise covariance */
+  optimumSinr: number | null
+}
+
+// Regularization of the NLMS normalization and RLS initialization (noise power 1)
+const REGULARIZATION = 1e-3
+
+const add = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im })
+const subtract = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im })
+
+/**
+ * Orthonormal blocking matrix (N − 1 columns) spanning the complement of the
+ * look steering vector, built by Gram-Schmidt on the canonical basis.
+ */
+export function blockingMatrix(steering: ComplexVector): ComplexVector[] {
+  const n = steering.length
+  const norm = Math.sqrt(innerProduct(steering, steering).re)
+  if (norm === 0) return []
+  const basis: ComplexVector[] = [steering.map((c) => ({ re: c.re / norm, im: c.im / norm }))]
+
+  for (let i = 0; i < n && basis.length < n; i++) {
+    let v: ComplexVector = Array.from({ length: n }, (_, j) => ({ re: j === i ? 1 : 0, im: 0 }))
+    for (const b of basis) {
+      const projection = innerProduct(b, v)
+      v = v.map((c, j) => subtract(c, mul(b[j], projection)))
+    }
+    const length = Math.sqrt(innerProduct(v, v).re)
+    if (length < 1e-6) continue
+    basis.push(v.map((c) => ({ re: c.re / length, im: c.im / length })))
+  }
+  return basis.slice(1)
+}
+
+/**
+ * Adapt a GSC on `array` against the scene `emitters`, starting from the
+ * array's current weights as the quiescent beamformer.
+ */
+export function runSidelobeCanceller(
+  array: PhasedArray,
+  emitters: SignalEmitter[],
+  settings: CancellerSettings
+): CancellerResult {
+  const n = array.elements
+  const look = array.computeSteeringVector(array.steeringAngle, array.steeringPhi)
+  const quiescent = arrayExcitation(array).map(conj)
+  const blocking = blockingMatrix(look)
+  const m = blocking.length
+  const iterations = Math.max(1, Math.round(settings.iterations))
+  const snapshots = generateSnapshots(array, emitters, iterations, settings.seed)
+
+  // w = w_q − B·w_a
+  const combine = (adaptive: ComplexVector): ComplexVector =>
+    quiescent.map((q, i) => blocking.reduce((w, b, k) => subtract(w, mul(b[i], adaptive[k])), q))
+  // SINR every `historyStep` iterations and after the last one
+  const historyStep = Math.max(1, Math.ceil(iterations / SINR_HISTORY_POINTS))
+  const sinrHistory: number[] = []
+  const sinrIterations: number[] = []
+  const trackSinr = (weights: ComplexVector, iteration: number) => {
+    const sinr = excitationSinr(array, weights.map(conj), emitters)
+    if (sinr === null) return
+    sinrHistory.push(sinr)
+    sinrIterations.push(iteration)
+  }
+
+  let adaptive: ComplexVector = Array.from({ length: m }, () => ({ re: 0, im: 0 }))
+  // RLS inverse correlation matrix P = δ⁻¹·I
+  let p: ComplexVector[] = Array.from({ length: m }, (_, i) =>
+    Array.from({ length: m }, (_, j) => ({ re: i === j ? 1 / REGULARIZATION : 0, im: 0 }))
+  )
+  trackSinr(quiescent, 0)
+
+  for (let t = 0; t < iterations; t++) {
+    const x: ComplexVector = Array.from({ length: n }, (_, i) => snapshots[i][t])
+    const d = innerProduct(quiescent, x)
+    const z = blocking.map((b) => innerProduct(b, x))
+    const error = subtract(d, innerProduct(adaptive, z))
+
+    if (settings.algorithm === 'lms') {
+      // w_a ← w_a + μ·z·e* / (zᴴz + ε)
+      const gain = settings.stepSize / (innerProduct(z, z).re + REGULARIZATION)
+      adaptive = adaptive.map((w, k) => {
+        const update = mul(z[k], conj(error))
+        return { re: w.re + gain * update.re, im: w.im + gain * update.im }
+      })
+    } else {
+      // k = P·z / (λ + zᴴ·P·z);  w_a ← w_a + k·e*;  P ← (P − k·zᴴ·P) / λ
+      const lambda = settings.forgettingFactor
+      const pz = p.map((row) => row.reduce((sum, c, j) => add(sum, mul(c, z[j])), { re: 0, im: 0 }))
+      const denominator = lambda + innerProduct(z, pz).re
+      const k = pz.map((c) => ({ re: c.re / denominator, im: c.im / denominator }))
+      adaptive = adaptive.map((w, i) => add(w, mul(k[i], conj(error))))
+      // zᴴ·P = (P·z)ᴴ since P is Hermitian
+      p = p.map((row, i) =>
+        row.map((c, j) => {
+          const product = mul(k[i], conj(pz[j]))
+          return { re: (c.re - product.re) / lambda, im: (c.im - product.im) / lambda }
+        })
+      )
+    }
+    const done = t + 1
+    if (done % historyStep === 0 || done === iterations) trackSinr(combine(adaptive), done)
+  }
+
+  // Optimum: MVDR on the true interference-plus-noise covariance
+  let optimumSinr: number | null = null
+  try {
+    const interference = sceneCovariance(array, emitters.filter((e) => e.kind === 'interferer'))
+    const optimum = solveLinearSystem(interference, look)
+    optimumSinr = excitationSinr(array, optimum.map(conj), emitters)
+  } catch {
+    optimumSinr = null
+  }
+
+  return { weights: combine(adaptive), sinrHistory, sinrIterations, optimumSinr }
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vitest'
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeTestArray, makeUnitConfig } from '@/test/fixtures'
+import { averageDiagonal } from './complexMatrix'
+import {
+  computeOutputSinr,
+  emitterDirection,
+  emitterSignatures,
+  sceneCovariance,
+  type EmitterKind,
+  type SignalEmitter,
+} from './signalScene'
+
+const makeArray = (overrides: Partial<PhasedArrayConfig> = {}) => makeTestArray({ elements: 8, ...overrides })
+
+const emitter = (kind: EmitterKind, angle: number, overrides: Partial<SignalEmitter> = {}): SignalEmitter => ({
+  id: `${kind}-${angle}`,
+  name: kind,
+  kind,
+  angle,
+  powerDb: 0,
+  coherent: false,
+  enabled: true,
+  ...overrides,
+})
+
+describe('emitterDirection', () => {
+  it('uses the fixed angle of far-field emitters', () => {
+    expect(emitterDirection(emitter('source', 25), { x: 3, y: 4 })).toBe(25)
+  })
+
+  it('measures point emitters from the array position, broadside along −y', () => {
+    const point = emitter('source', 0, { position: { x: 1, y: -1 } })
+    expect(emitterDirection(point, { x: 0, y: 0 })).toBeCloseTo(45, 10)
+    expect(emitterDirection(point, { x: 1, y: 0 })).toBeCloseTo(0, 10)
+    expect(emitterDirection(point, { x: 2, y: -1 })).toBeCloseTo(-90, 10)
+  })
+})
+
+describe('sceneCovariance', () => {
+  it('adds incoherent emitters in power on top of unit noise', () => {
+    const array = makeArray()
+    const emitters = [emitter('source', 0, { powerDb: 10 }), emitter('interferer', 30, { powerDb: 20 })]
+    expect(averageDiagonal(sceneCovariance(array, emitters))).toBeCloseTo(1 + 10 + 100, 6)
+  })
+
+  it('merges coherent emitters into a single waveform and skips disabled ones', () => {
+    const array = makeArray()
+    const emitters = [
+      emitter('source', -20, { coherent: true }),
+      emitter('interferer', 40, { coherent: true }),
+      emitter('interferer', 10),
+      emitter('interferer', 60, { enabled: false }),
+    ]
+    expect(emitterSignatures(array, emitters)).toHaveLength(2)
+  })
+
+  it('evaluates each emitter at its own frequency', () => {
+    const array = makeArray()
+    const [inBand] = emitterSignatures(array, [emitter('source', 30)])
+    const [offBand] = emitterSignatures(array, [emitter('source', 30, { frequency: 2 * makeUnitConfig().frequency })])
+    expect(offBand[1].re).not.toBeCloseTo(inBand[1].re, 3)
+  })
+})
+
+describe('computeOutputSinr', () => {
+  it('equals SNR plus array gain for a source on the beam without interference', () => {
+    const array = makeArray({ steeringAngle: 20 })
+    const sinr = computeOutputSinr(array, [emitter('source', 20, { powerDb: 0 })])!
+    expect(sinr).toBeCloseTo(10 * Math.log10(8), 6)
+  })
+
+  it('drops when an interferer sits in a sidelobe and is null without sources', () => {
+    const array = makeArray()
+    const clean = computeOutputSinr(array, [emitter('source', 0)])!
+    const jammed = computeOutputSinr(array, [emitter('source', 0), emitter('interferer', 40, { powerDb: 40 })])!
+    expect(jammed).toBeLessThan(clean - 10)
+    expect(computeOutputSinr(array, [emitter('interferer', 40)])).toBeNull()
+  })
+})
@@ -0,0 +1,170 @@
+/**
+ * Signal sources and interferers of the beam scene.
+ *
+ * An emitter is either a far-field plane wave arriving from a fixed angle, or
+ * a point emitter at a scene position whose direction is seen from each
+ * receiving array. Powers are received per-element powers relative to
+ * unit-power noise. Coherent emitters share one waveform (e.g. multipath
+ * replicas) and add in amplitude; incoherent emitters add in power.
+ */
+
+import type { PhasedArray, Position2D } from '@/classes/PhasedArray'
+import { complexGaussian, createRng } from '@/utils/random'
+import { addOuterProduct, identityMatrix, type ComplexMatrix, type ComplexVector } from './complexMatrix'
+
+export type EmitterKind = 'source' | 'interferer'
+
+export interface SignalEmitter {
+  id: string
+  name: string
+  kind: EmitterKind
+  /** Far-field direction θ in degrees (in the plane of the steering azimuth) */
+  angle: number
+  /** Scene position in meters; when set, the emitter is a point emitter and `angle` is ignored */
+  position?: Position2D
+  /** Received power per element relative to the noise, in dB (SNR or INR) */
+  powerDb: number
+  /** Carrier frequency in Hz; unset for a co-channel emitter at the receiving array's frequency */
+  frequency?: number
+  /** Coherent emitters share a single waveform */
+  coherent: boolean
+  enabled: boolean
+}
+
+/** Direction θ (degrees from broadside) of an emitter as seen from `arrayPosition` */
+export function emitterDirection(emitter: SignalEmitter, arrayPosition: Position2D): number {
+  if (!emitter.position) return emitter.angle
+  // Broadside points along −y, so θ = atan2(Δx, −Δy)
+  const dx = emitter.position.x - arrayPosition.x
+  const dy = emitter.position.y - arrayPosition.y
+  if (dx === 0 && dy === 0) return 0
+  return (Math.atan2(dx, -dy) * 180) / Math.PI
+}
+
+/** Spatial signature of an emitter on `array`, evaluated at the emitter's carrier frequency */
+export function emitterSteeringVector(array: PhasedArray, emitter: SignalEmitter): ComplexVector {
+  return array.computeSteeringVector(
+    emitterDirection(emitter, array.position),
+    array.steeringPhi,
+    emitter.frequency ?? array.frequency
+  )
+}
+
+/**
+ * Independent waveforms of the enabled emitters as power-scaled signatures:
+ * each incoherent emitter is its own waveform, all coherent emitters sum
+ * into one. The covariance of the scene is Σ sₖ·sₖᴴ over these.
+ */
+export function emitterSignatures(array: PhasedArray, emitters: SignalEmitter[]): ComplexVector[] {
+  const signatures: ComplexVector[] = []
+  let coherent: ComplexVector | null = null
+
+  for (const emitter of emitters) {
+    if (!emitter.enabled) continue
+    const amplitude = 10 ** (emitter.powerDb / 20)
+    const signature = emitterSteeringVector(array, emitter).map((c) => ({
+      re: amplitude * c.re,
+      im: amplitude * c.im,
+    }))
+    if (!emitter.coherent) {
+      signatures.push(signature)
+    } else if (coherent === null) {
+      coherent = signature
+      signatures.push(coherent)
+    } else {
+      coherent.forEach((c, i) => {
+        c.re += signature[i].re
+        c.im += signature[i].im
+      })
+    }
+  }
+  return signatures
+}
+
+/**
+ * Snapshot matrix X (N × K): an independent unit-power complex Gaussian
+ * waveform per emitter signature plus unit-power white noise on every element.
+ */
+export function generateSnapshots(
+  array: PhasedArray,
+  emitters: SignalEmitter[],
+  snapshots: number,
+  seed: number
+): ComplexMatrix {
+  const rng = createRng(seed)
+  const n = array.elements
+  const k = Math.max(1, Math.round(snapshots))
+  const manifold = emitterSignatures(array, emitters)
+
+  const data: ComplexMatrix = Array.from({ length: n }, () => new Array(k))
+  for (let t = 0; t < k; t++) {
+    const signals = manifold.map(() => complexGaussian(rng))
+    for (let i = 0; i < n; i++) {
+      const sample = complexGaussian(rng)
+      manifold.forEach((v, m) => {
+        sample.re += signals[m].re * v[i].re - signals[m].im * v[i].im
+        sample.im += signals[m].re * v[i].im + signals[m].im * v[i].re
+      })
+      data[i][t] = sample
+    }
+  }
+  return data
+}
+
+/** Received covariance R = I + Σ sₖ·sₖᴴ (noise power normalized to 1) */
+export function sceneCovariance(array: PhasedArray, emitters: SignalEmitter[]): ComplexMatrix {
+  const covariance = identityMatrix(array.elements)
+  for (const signature of emitterSignatures(array, emitters)) addOuterProduct(covariance, signature, 1)
+  return covariance
+}
+
+// Output power Σ|cᵀs|² of the excitation c over a set of signatures
+const outputPower = (excitation: ComplexVector, signatures: ComplexVector[]): number =>
+  signatures.reduce((sum, s) => {
+    let re = 0
+    let im = 0
+    s.forEach((v, i) => {
+      re += excitation[i].re * v.re - excitation[i].im * v.im
+      im += excitation[i].re * v.im + excitation[i].im * v.re
+    })
+    return sum + re * re + im * im
+  }, 0)
+
+/** Element excitations cₙ = Aₙ·e^(jφₙ) of the array's current weights and phases */
+export function arrayExcitation(array: PhasedArray): ComplexVector {
+  return array.getElementPositions().map(({ amplitude, phaseOffset }) => ({
+    re: amplitude * Math.cos(phaseOffset),
+    im: amplitude * Math.sin(phaseOffset),
+  }))
+}
+
+/**
+ * Output SINR in dB of element excitations `excitation` on `array`: the
+ * enabled sources are the signal, the enabled interferers plus element noise
+ * the interference. Null without any enabled source.
+ */
+export function excitationSinr(
+  array: PhasedArray,
+  excitation: ComplexVector,
+  emitters: SignalEmitter[]
+): number | null {
+  const enabled = emitters.filter((e) => e.enabled)
+  const sources = enabled.filter((e) => e.kind === 'source')
+  if (sources.length === 0) return null
+
+  const noise = excitation.reduce((sum, c) => sum + c.re * c.re + c.im * c.im, 0)
+  const signal = outputPower(excitation, emitterSignatures(array, sources))
+  const interference = outputPower(
+    excitation,
+    emitterSignatures(array, enabled.filter((e) => e.kind === 'interferer'))
+  )
+
+  const denominator = noise + interference
+  if (signal <= 0 || denominator <= 0) return null
+  return 10 * Math.log10(signal / denominator)
+}
+
+/** Output SINR in dB of the array's current excitation (see excitationSinr) */
+export function computeOutputSinr(array: PhasedArray, emitters: SignalEmitter[]): number | null {
+  return excitationSinr(array, arrayExcitation(array), emitters)
+}
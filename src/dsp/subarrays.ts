@@ -0,0 +1,74 @@
+/**
+ * Hybrid analog/digital subarray partitions.
+ *
+ * A hybrid array groups its elements into subarrays. Analog phase shifters
+ * steer every element toward the analog direction θₐ, each subarray feeds
+ * one digital channel, and the digital stage weights and phases the channel
+ * outputs to form the final beam toward θ_d. The pattern is the subarray
+ * pattern (steered to θₐ) times the array factor of the subarray phase
+ * centers (steered to θ_d), so:
+ *
+ * - contiguous subarrays of width D radiate grating lobes at u_d + m·λ/D
+ *   whenever the digital beam leaves the analog one (at u_d = uₐ they fall
+ *   into the subarray pattern nulls);
+ * - interleaved subarrays are thinned copies of the aperture with pitch
+ *   Q·d, whose own grating lobes at uₐ + m·λ/(Q·d) cancel only while the
+ *   digital steering matches the analog steering.
+ *
+ * Planar grids are partitioned by column, so the subarrays tile the array
+ * (x) axis; other geometries are partitioned by element index.
+ */
+
+import type { TaperConfig } from './tapers'
+
+export type SubarrayPartition = 'contiguous' | 'interleaved' | 'custom'
+
+export interface SubarrayConfig {
+  partition: SubarrayPartition
+  /** Number of subarrays (digital channels) */
+  count: number
+  /** Custom partition: subarray index per element along the array axis */
+  assignment?: number[]
+  /** Digital beam direction θ in degrees (unset = the analog steering angle) */
+  digitalSteeringAngle?: number
+  /** Amplitude taper across the subarray outputs (unset = uniform) */
+  digitalTaper?: TaperConfig
+}
+
+export const DEFAULT_SUBARRAYS: SubarrayConfig = {
+  partition: 'contiguous',
+  count: 4,
+}
+
+export const SUBARRAY_PARTITION_LABELS: Record<SubarrayPartition, string> = {
+  contiguous: 'Contiguous',
+  interleaved: 'Interleaved',
+  custom: 'Custom',
+}
+
+export const MAX_SUBARRAYS = 16
+
+/** Subarray lobes below this level (dB re the coherent maximum) count as canceled */
+export const SUBARRAY_LOBE_FLOOR_DB = -40
+
+/** Subarray count clamped to [1, axisElements] */
+export function subarrayCount(config: SubarrayConfig, axisElements: number): number {
+  return Math.max(1, Math.min(axisElements, Math.round(config.count)))
+}
+
+/**
+ * Subarray index of every element along the array axis. A custom
+ * assignment that does not match the axis length falls back to contiguous
+ * subarrays; its indices are clamped to the subarray count.
+ */
+export function partitionAxis(config: SubarrayConfig, axisElements: number): number[] {
+  const count = subarrayCount(config, axisElements)
+  const { partition, assignment } = config
+
+  if (partition === 'custom' && assignment?.length === axisElements) {
+    return assignment.map((s) => Math.max(0, Math.min(count - 1, Math.round(s))))
+  }
+  return Array.from({ length: axisElements }, (_, i) =>
+    partition === 'interleaved' ? i % count : Math.floor((i * count) / axisElements)
+  )
+}
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { generateTaper, type TaperConfig } from './tapers'
+
+// Peak sidelobe (dB) of a linear array pattern with the given weights
+const peakSidelobeDb = (weights: number[]) => {
+  const samples = 4096
+  const pattern: number[] = []
+  for (let i = 0; i <= samples; i += 1) {
+    const psi = (Math.PI * i) / samples
+    let re = 0
+    let im = 0
+    weights.forEach((w, n) => {
+      re += w * Math.cos(psi * n)
+      im += w * Math.sin(psi * n)
+    })
+    pattern.push(Math.sqrt(re * re + im * im))
+  }
+  let firstNull = 1
+  while (firstNull < pattern.length - 1 && pattern[firstNull + 1] < pattern[firstNull]) firstNull += 1
+  const sidelobe = Math.max(...pattern.slice(firstNull))
+  return 20 * Math.log10(sidelobe / pattern[0])
+}
+
+const TAPERS: TaperConfig[] = [
+  { type: 'uniform' },
+  { type: 'hann' },
+  { type: 'hamming' },
+  { type: 'taylor', nbar: 4, sidelobeLevel: -30 },
+  { type: 'chebyshev', sidelobeLevel: -30 },
+  { type: 'kaiser', beta: 6 },
+]
+
+describe('aperture tapers', () => {
+  it.each(TAPERS)('$type taper is symmetric with unit peak for odd and even counts', (taper) => {
+    for (const count of [7, 16]) {
+      const weights = generateTaper(taper, count)
+      expect(weights).toHaveLength(count)
+      expect(Math.max(...weights)).toBeCloseTo(1, 6)
+      weights.forEach((w, n) => {
+        expect(w).toBeGreaterThan(0)
+        expect(w).toBeCloseTo(weights[count - 1 - n], 6)
+      })
+    }
+  })
+
+  it('falls back to uniform weights when no taper is set', () => {
+    expect(generateTaper(undefined, 4)).toEqual([1, 1, 1, 1])
+  })
+
+  it('reaches the Dolph-Chebyshev design sidelobe level', () => {
+    expect(peakSidelobeDb(generateTaper({ type: 'chebyshev', sidelobeLevel: -30 }, 16))).toBeCloseTo(-30, 0)
+    expect(peakSidelobeDb(generateTaper({ type: 'chebyshev', sidelobeLevel: -40 }, 15))).toBeCloseTo(-40, 0)
+  })
+
+  it('keeps Taylor sidelobes near the design level', () => {
+    const sll = peakSidelobeDb(generateTaper({ type: 'taylor', nbar: 5, sidelobeLevel: -35 }, 32))
+    expect(sll).toBeLessThan(-33)
+    expect(sll).toBeGreaterThan(-37)
+  })
+
+  it('trades sidelobes for beamwidth as Kaiser beta grows', () => {
+    const uniform = peakSidelobeDb(generateTaper({ type: 'kaiser', beta: 0 }, 16))
+    const tapered = peakSidelobeDb(generateTaper({ type: 'kaiser', beta: 8 }, 16))
+    expect(uniform).toBeCloseTo(-13.2, 0)
+    expect(tapered).toBeLessThan(uniform - 20)
+  })
+})
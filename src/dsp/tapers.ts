@@ -0,0 +1,184 @@
+/**
+ * Aperture taper (amplitude window) generators for phased array elements.
+ *
+ * Every generator returns `count` weights normalized to a peak of 1 so the
+ * result can be dropped straight into `PhasedArrayConfig.amplitudes`.
+ */
+
+export type TaperType = 'uniform' | 'hann' | 'hamming' | 'taylor' | 'chebyshev' | 'kaiser'
+
+export interface TaperConfig {
+  type: TaperType
+  /** Taylor: number of nearly-constant sidelobes (n̄) */
+  nbar?: number
+  /** Taylor / Dolph-Chebyshev: design sidelobe level in dB (negative, e.g. -30) */
+  sidelobeLevel?: number
+  /** Kaiser: shape parameter β */
+  beta?: number
+}
+
+export const DEFAULT_TAPER: TaperConfig = { type: 'uniform' }
+
+export const TAPER_DEFAULTS = {
+  nbar: 4,
+  sidelobeLevel: -30,
+  beta: 4,
+} as const
+
+export const TAPER_LABELS: Record<TaperType, string> = {
+  uniform: 'Uniform',
+  hann: 'Hann',
+  hamming: 'Hamming',
+  taylor: 'Taylor',
+  chebyshev: 'Dolph-Chebyshev',
+  kaiser: 'Kaiser',
+}
+
+const normalizePeak = (weights: number[]): number[] => {
+  const peak = Math.max(...weights.map(Math.abs))
+  return peak > 0 ? weights.map((w) => w / peak) : weights.map(() => 1)
+}
+
+// Modified Bessel function of the first kind, order 0 (power series)
+const besselI0 = (x: number): number => {
+  let sum = 1
+  let term = 1
+  const halfX = x / 2
+  for (let k = 1; k < 50; k++) {
+    term *= (halfX / k) * (halfX / k)
+    sum += term
+    if (term < sum * 1e-16) break
+  }
+  return sum
+}
+
+// Chebyshev polynomial of the first kind T_n(x), valid for all real x
+const chebyshevT = (n: number, x: number): number => {
+  if (x > 1) return Math.cosh(n * Math.acosh(x))
+  if (x < -1) return (n % 2 === 0 ? 1 : -1) * Math.cosh(n * Math.acosh(-x))
+  return Math.cos(n * Math.acos(x))
+}
+
+/**
+ * Hann taper. Sampled so the end elements stay active (no zero-weight elements).
+ */
+export function hannTaper(count: number): number[] {
+  return normalizePeak(
+    Array.from({ length: count }, (_, n) => 0.5 - 0.5 * Math.cos((2 * Math.PI * (n + 1)) / (count + 1)))
+  )
+}
+
+/**
+ * Hamming taper (first sidelobe ≈ -43 dB).
+ */
+export function hammingTaper(count: number): number[] {
+  if (count === 1) return [1]
+  return normalizePeak(
+    Array.from({ length: count }, (_, n) => 0.54 - 0.46 * Math.cos((2 * Math.PI * n) / (count - 1)))
+  )
+}
+
+/**
+ * Kaiser taper: I0(β·√(1 - (2n/(N-1) - 1)²)) / I0(β)
+ */
+export function kaiserTaper(count: number, beta: number): number[] {
+  if (count === 1) return [1]
+  const denom = besselI0(beta)
+  return normalizePeak(
+    Array.from({ length: count }, (_, n) => {
+      const ratio = (2 * n) / (count - 1) - 1
+      return besselI0(beta * Math.sqrt(Math.max(0, 1 - ratio * ratio))) / denom
+    })
+  )
+}
+
+/**
+ * Taylor taper with n̄ nearly-equal sidelobes at the design level.
+ */
+export function taylorTaper(count: number, nbar: number, sidelobeLevel: number): number[] {
+  const R = Math.pow(10, Math.abs(sidelobeLevel) / 20)
+  const A = Math.acosh(R) / Math.PI
+  const nb = Math.max(2, Math.round(nbar))
+  const sigma2 = (nb * nb) / (A * A + (nb - 0.5) * (nb - 0.5))
+
+  // Fourier coefficients F_m for m = 1..n̄-1
+  const coefficients: number[] = []
+  for (let m = 1; m < nb; m++) {
+    let numerator = m % 2 === 1 ? 1 : -1
+    let denominator = 2
+    for (let n = 1; n < nb; n++) {
+      numerator *= 1 - (m * m) / (sigma2 * (A * A + (n - 0.5) * (n - 0.5)))
+      if (n !== m) denominator *= 1 - (m * m) / (n * n)
+    }
+    coefficients.push(numerator / denominator)
+  }
+
+  const weights = Array.from({ length: count }, (_, n) => {
+    const position = (n - count / 2 + 0.5) / count
+    let w = 1
+    coefficients.forEach((F, idx) => {
+      w += 2 * F * Math.cos(2 * Math.PI * (idx + 1) * position)
+    })
+    return w
+  })
+  return normalizePeak(weights)
+}
+
+/**
+ * Dolph-Chebyshev taper: all sidelobes equal to the design level.
+ * Weights are the inverse DFT of the Chebyshev polynomial sampled on the unit circle.
+ */
+export function chebyshevTaper(count: number, sidelobeLevel: number): number[] {
+  if (count < 3) return new Array(count).fill(1)
+  const order = count - 1
+  const R = Math.pow(10, Math.abs(sidelobeLevel) / 20)
+  const x0 = Math.cosh(Math.acosh(R) / order)
+
+  const samples = Array.from({ length: count }, (_, k) =>
+    chebyshevT(order, x0 * Math.cos((Math.PI * k) / count))
+  )
+
+  // Even-length arrays need a half-sample shift so the spectrum stays real
+  const shift = count % 2 === 0 ? Math.PI / count : 0
+  const dft = Array.from({ length: count }, (_, n) => {
+    let re = 0
+    for (let k = 0; k < count; k++) {
+      re += samples[k] * Math.cos(shift * k - (2 * Math.PI * k * n) / count)
+    }
+    return re
+  })
+
+  const half = count % 2 === 1 ? (count + 1) / 2 : count / 2 + 1
+  const right = count % 2 === 1 ? dft.slice(0, half) : dft.slice(1, half)
+  const left = dft.slice(1, half).reverse()
+  return normalizePeak([...left, ...right])
+}
+
+/**
+ * Generate element amplitudes for a named taper.
+ *
+ * @param config - Taper type and parameters (missing parameters use TAPER_DEFAULTS)
+ * @param count - Number of elements
+ * @returns Amplitudes in [0, 1] with a peak of 1
+ */
+export function generateTaper(config: TaperConfig | undefined, count: number): number[] {
+  const n = Math.max(1, Math.round(count))
+  const nbar = config?.nbar ?? TAPER_DEFAULTS.nbar
+  const sidelobeLevel = config?.sidelobeLevel ?? TAPER_DEFAULTS.sidelobeLevel
+  const beta = config?.beta ?? TAPER_DEFAULTS.beta
+
+  switch (config?.type) {
+    case 'hann':
+      return hannTaper(n)
+    case 'hamming':
+      return hammingTaper(n)
+    case 'taylor':
+      return taylorTaper(n, nbar, sidelobeLevel)
+    case 'chebyshev':
+      return chebyshevTaper(n, sidelobeLevel)
+    case 'kaiser':
+      return kaiserTaper(n, beta)
+    default:
+      return new Array(n).fill(1)
+  }
+}
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest'
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeUnitConfig } from '@/test/fixtures'
+import {
+  DEFAULT_TOLERANCE_SETTINGS,
+  TOLERANCE_ANGLES,
+  runToleranceTrials,
+  summarizeTolerance,
+  type ToleranceSettings,
+} from './toleranceAnalysis'
+
+const makeConfig = (overrides: Partial<PhasedArrayConfig> = {}): PhasedArrayConfig =>
+  makeUnitConfig({ elements: 16, ...overrides })
+
+const settings = (overrides: Partial<ToleranceSettings>): ToleranceSettings => ({
+  ...DEFAULT_TOLERANCE_SETTINGS,
+  ...overrides,
+})
+
+const run = (config: PhasedArrayConfig, s: ToleranceSettings) =>
+  summarizeTolerance(config, 'air', runToleranceTrials(config, 'air', s, 0, s.trials), s.spec)
+
+describe('runToleranceTrials', () => {
+  it('reproduces a seeded run however the trials are batched', () => {
+    const config = makeConfig({ steeringAngle: 20 })
+    const s = settings({ seed: 42 })
+    const whole = runToleranceTrials(config, 'air', s, 0, 6)
+    const batched = [...runToleranceTrials(config, 'air', s, 0, 4), ...runToleranceTrials(config, 'air', s, 4, 2)]
+
+    expect(batched).toEqual(whole)
+    expect(runToleranceTrials(config, 'air', settings({ seed: 43 }), 0, 6)).not.toEqual(whole)
+  })
+
+  it('counts failed elements at the failure rate', () => {
+    const s = settings({ failureRate: 0.25, amplitudeErrorDb: 0, phaseErrorDeg: 0 })
+    const trials = runToleranceTrials(makeConfig(), 'air', s, 0, 100)
+    const meanFailed = trials.reduce((sum, t) => sum + t.failedElements, 0) / trials.length
+
+    expect(meanFailed).toBeGreaterThan(3)
+    expect(meanFailed).toBeLessThan(5)
+  })
+})
+
+describe('summarizeTolerance', () => {
+  it('collapses the envelopes onto the error-free pattern without errors', () => {
+    const spec = { sidelobeLevelDb: -12, pointingErrorDeg: 1 }
+    const s = settings({ trials: 5, amplitudeErrorDb: 0, phaseErrorDeg: 0, failureRate: 0, spec })
+    const result = run(makeConfig({ steeringAngle: 10 }), s)
+
+    expect(result.angles).toBe(TOLERANCE_ANGLES)
+    result.nominalDb.forEach((dB, i) => {
+      expect(result.lowerDb[i]).toBeCloseTo(dB, 6)
+      expect(result.upperDb[i]).toBeCloseTo(dB, 6)
+    })
+    // Uniform weights: −13.3 dB sidelobes meet a −12 dB spec
+    expect(result.sidelobeLevel.mean).toBeCloseTo(-13.3, 0)
+    expect(result.sidelobeLevel.std).toBeCloseTo(0, 6)
+    expect(result.yield).toBe(1)
+    expect(run(makeConfig({ steeringAngle: 10 }), { ...s, spec: { ...spec, sidelobeLevelDb: -20 } }).yield).toBe(0)
+  })
+
+  it('raises sidelobes and lowers the yield as the errors grow', () => {
+    const config = makeConfig({ taper: { type: 'chebyshev', sidelobeLevel: -30 } })
+    const spec = { sidelobeLevelDb: -25, pointingErrorDeg: 1 }
+    const small = run(config, settings({ trials: 60, phaseErrorDeg: 1, amplitudeErrorDb: 0.1, failureRate: 0, spec }))
+    const large = run(config, settings({ trials: 60, phaseErrorDeg: 20, amplitudeErrorDb: 2, failureRate: 0.1, spec }))
+
+    expect(large.sidelobeLevel.mean).toBeGreaterThan(small.sidelobeLevel.mean + 5)
+    expect(large.yield).toBeLessThan(small.yield)
+    expect(small.yield).toBeGreaterThan(0.9)
+    // Failures and errors take gain out of the main lobe
+    const beam = TOLERANCE_ANGLES.indexOf(0)
+    expect(large.medianDb[beam]).toBeLessThan(small.medianDb[beam])
+    expect(large.upperDb[beam]).toBeGreaterThanOrEqual(large.medianDb[beam])
+    expect(large.medianDb[beam]).toBeGreaterThanOrEqual(large.lowerDb[beam])
+  })
+})
@@ -0,0 +1,253 @@
+/**
+ * Monte-Carlo tolerance analysis of an array's excitations.
+ *
+ * Each trial perturbs the realized excitations cₙ = Aₙe^{jφₙ} of the array
+ * (after any quantization) with independent errors
+ *
+ *   c̃ₙ = δₙ · Aₙ·10^{εₙ/20} · e^{j(φₙ + ηₙ)},   εₙ ~ N(0, σ_A²) dB,  ηₙ ~ N(0, σ_φ²)
+ *
+ * where δₙ = 0 for a failed element (probability p) and 1 otherwise. Trial k
+ * draws from its own seeded generator, so a run reproduces exactly however
+ * its trials are split across workers.
+ *
+ * Patterns are normalized to the nominal array's coherent sum, so element
+ * failures show up as a loss of main-lobe level in the envelopes.
+ */
+
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { createRng, gaussian, type Rng } from '@/utils/random'
+import { analyzeBeamPattern } from './beamAnalysis'
+
+export interface ToleranceSpec {
+  /** Highest acceptable peak sidelobe level, in dB below the main lobe */
+  sidelobeLevelDb: number
+  /** Largest acceptable |pointing error| in degrees */
+  pointingErrorDeg: number
+}
+
+export interface ToleranceSettings {
+  trials: number
+  /** Standard deviation of the amplitude error in dB */
+  amplitudeErrorDb: number
+  /** Standard deviation of the phase error in degrees */
+  phaseErrorDeg: number
+  /** Probability that an element has failed (radiates nothing) */
+  failureRate: number
+  /** RNG seed of the run */
+  seed: number
+  spec: ToleranceSpec
+}
+
+export const DEFAULT_TOLERANCE_SETTINGS: ToleranceSettings = {
+  trials: 200,
+  amplitudeErrorDb: 0.5,
+  phaseErrorDeg: 5,
+  failureRate: 0.02,
+  seed: 1,
+  spec: { sidelobeLevelDb: -20, pointingErrorDeg: 1 },
+}
+
+export const MAX_TOLERANCE_TRIALS = 2000
+
+export interface ToleranceTrial {
+  /** Pattern over the angle grid, in dB re the nominal coherent sum */
+  dB: number[]
+  /** Peak sidelobe level re the trial's main lobe (floor when there is none) */
+  sidelobeLevel: number
+  pointingError: number
+  failedElements: number
+}
+
+export interface ToleranceStatistic {
+  mean: number
+  std: number
+  p10: number
+  p50: number
+  p90: number
+  /** Trial values in ascending order */
+  values: number[]
+}
+
+export interface ToleranceResult {
+  trials: number
+  /** Angle grid of the envelopes (front half-plane, steering φ cut) */
+  angles: number[]
+  /** Error-free pattern */
+  nominalDb: number[]
+  /** Power-averaged pattern */
+  meanDb: number[]
+  /** 10th, 50th and 90th percentile of the pattern at each angle */
+  lowerDb: number[]
+  medianDb: number[]
+  upperDb: number[]
+  sidelobeLevel: ToleranceStatistic
+  /** Statistics of |pointing error| */
+  pointingError: ToleranceStatistic
+  /** Fraction of trials that meet the spec */
+  yield: number
+}
+
+// Angle grid of the trial patterns
+const GRID_STEP = 0.5
+export const TOLERANCE_ANGLES = Array.from({ length: 180 / GRID_STEP + 1 }, (_, i) => -90 + i * GRID_STEP)
+
+// Floor of the dB patterns and of the sidelobe level of a lobe-free cut
+const FLOOR_DB = -80
+
+const toDb = (magnitude: number): number => (magnitude > 0 ? Math.max(FLOOR_DB, 20 * Math.log10(magnitude)) : FLOOR_DB)
+
+/** Seed of trial `trial` within a run, independent of how trials are batched */
+export function toleranceTrialSeed(seed: number, trial: number): number {
+  return Math.imul(seed ^ Math.imul(trial + 1, 0x9e3779b1), 0x85ebca6b) >>> 0
+}
+
+/**
+ * The array's realized excitations as a config without quantization or
+ * subarrays: quantized amplitudes (times any digital taper), and trims that
+ * reproduce the realized phases on top of the pure steering (or focusing)
+ * phases.
+ */
+function realizedConfig(config: PhasedArrayConfig, medium: string): PhasedArrayConfig {
+  const array = PhasedArray.fromConfig(config, medium)
+  const steering = PhasedArray.fromConfig(
+    { ...config, phases: undefined, quantization: undefined, subarrays: undefined },
+    medium
+  )
+  const steeringPhases = steering.computePhaseOffsets()
+  const positions = array.getElementPositions()
+  return {
+    ...config,
+    amplitudes: positions.map((p) => p.amplitude),
+    phases: positions.map((p, i) => p.phaseOffset - steeringPhases[i]),
+    quantization: undefined,
+    subarrays: undefined,
+  }
+}
+
+// Array factor over the angle grid, scaled by `scale`
+const magnitudesOf = (array: PhasedArray, scale: number): number[] =>
+  TOLERANCE_ANGLES.map((angle) => scale * array.computeArrayFactor(angle, array.steeringPhi))
+
+const coherentSum = (amplitudes: number[]): number => amplitudes.reduce((sum, a) => sum + Math.abs(a), 0)
+
+function perturb(config: PhasedArrayConfig, settings: ToleranceSettings, rng: Rng) {
+  const amplitudes = config.amplitudes ?? []
+  const phaseSigma = (settings.phaseErrorDeg * Math.PI) / 180
+  let failedElements = 0
+  const perturbed = amplitudes.map((amplitude, i) => {
+    // Draw every error so the streams stay aligned whether or not the element fails
+    const amplitudeError = settings.amplitudeErrorDb * gaussian(rng)
+    const phaseError = phaseSigma * gaussian(rng)
+    const failed = rng() < settings.failureRate
+    if (failed) failedElements++
+    return {
+      amplitude: failed ? 0 : amplitude * 10 ** (amplitudeError / 20),
+      phase: (config.phases?.[i] ?? 0) + phaseError,
+    }
+  })
+  return {
+    config: { ...config, amplitudes: perturbed.map((p) => p.amplitude), phases: perturbed.map((p) => p.phase) },
+    failedElements,
+  }
+}
+
+/**
+ * Run trials `firstTrial … firstTrial + count − 1` of a tolerance analysis
+ * on the array described by `config`.
+ */
+export function runToleranceTrials(
+  config: PhasedArrayConfig,
+  medium: string,
+  settings: ToleranceSettings,
+  firstTrial: number,
+  count: number
+): ToleranceTrial[] {
+  const nominal = realizedConfig(config, medium)
+  const nominalSum = coherentSum(nominal.amplitudes ?? [])
+  if (nominalSum === 0) throw new Error('Array has no active elements')
+
+  return Array.from({ length: count }, (_, i) => {
+    const rng = createRng(toleranceTrialSeed(settings.seed, firstTrial + i))
+    const { config: trialConfig, failedElements } = perturb(nominal, settings, rng)
+    const array = PhasedArray.fromConfig(trialConfig, medium)
+    // The array factor is normalized to the trial's own coherent sum
+    const magnitudes = magnitudesOf(array, coherentSum(trialConfig.amplitudes) / nominalSum)
+    const metrics = analyzeBeamPattern(
+      TOLERANCE_ANGLES.map((angle, k) => ({ angle, magnitude: magnitudes[k] })),
+      array.steeringAngle
+    )
+    return {
+      dB: magnitudes.map(toDb),
+      sidelobeLevel: metrics.peakSidelobeLevel ?? FLOOR_DB,
+      pointingError: metrics.pointingError,
+      failedElements,
+    }
+  })
+}
+
+// Value at fraction q of ascending `sorted` (linear interpolation)
+const percentile = (sorted: number[], q: number): number => {
+  if (sorted.length === 0) return NaN
+  const position = q * (sorted.length - 1)
+  const lower = Math.floor(position)
+  const upper = Math.min(sorted.length - 1, lower + 1)
+  return sorted[lower] + (position - lower) * (sorted[upper] - sorted[lower])
+}
+
+function statistic(values: number[]): ToleranceStatistic {
+  const sorted = [...values].sort((a, b) => a - b)
+  const mean = sorted.reduce((sum, v) => sum + v, 0) / Math.max(1, sorted.length)
+  const variance = sorted.reduce((sum, v) => sum + (v - mean) ** 2, 0) / Math.max(1, sorted.length)
+  return {
+    mean,
+    std: Math.sqrt(variance),
+    p10: percentile(sorted, 0.1),
+    p50: percentile(sorted, 0.5),
+    p90: percentile(sorted, 0.9),
+    values: sorted,
+  }
+}
+
+/**
+ * Aggregate trials into pattern envelopes, metric distributions and the
+ * yield against `spec`.
+ */
+export function summarizeTolerance(
+  config: PhasedArrayConfig,
+  medium: string,
+  trials: ToleranceTrial[],
+  spec: ToleranceSpec
+): ToleranceResult {
+  const nominal = PhasedArray.fromConfig(realizedConfig(config, medium), medium)
+  const nominalDb = magnitudesOf(nominal, 1).map(toDb)
+
+  const meanDb: number[] = []
+  const lowerDb: number[] = []
+  const medianDb: number[] = []
+  const upperDb: number[] = []
+  TOLERANCE_ANGLES.forEach((_, k) => {
+    const column = trials.map((t) => t.dB[k]).sort((a, b) => a - b)
+    const meanPower = column.reduce((sum, dB) => sum + 10 ** (dB / 10), 0) / Math.max(1, column.length)
+    meanDb.push(meanPower > 0 ? Math.max(FLOOR_DB, 10 * Math.log10(meanPower)) : FLOOR_DB)
+    lowerDb.push(percentile(column, 0.1))
+    medianDb.push(percentile(column, 0.5))
+    upperDb.push(percentile(column, 0.9))
+  })
+
+  const passing = trials.filter(
+    (t) => t.sidelobeLevel <= spec.sidelobeLevelDb && Math.abs(t.pointingError) <= spec.pointingErrorDeg
+  ).length
+
+  return {
+    trials: trials.length,
+    angles: TOLERANCE_ANGLES,
+    nominalDb,
+    meanDb,
+    lowerDb,
+    medianDb,
+    upperDb,
+    sidelobeLevel: statistic(trials.map((t) => t.sidelobeLevel)),
+    pointingError: statistic(trials.map((t) => Math.abs(t.pointingError))),
+    yield: trials.length > 0 ? passing / trials.length : 0,
+  }
+}
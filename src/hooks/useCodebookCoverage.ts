@@ -0,0 +1,51 @@
+import { useMemo } from 'react'
+import { generateCodebook, type Codebook, type CoverageGrid } from '@/dsp/beamCodebook'
+import { useBeamStore } from '@/state/beamStore'
+import { coverageWorkerPool } from '@/workers/pool'
+import type { CoverageJobPayload, CoverageJobResult } from '@/workers/coverage.worker'
+import { useWorkerJob, type WorkerJobRun, type WorkerJobStatus } from './useWorkerJob'
+
+export type CoverageStatus = WorkerJobStatus
+
+export type CoverageRun = WorkerJobRun<CoverageJobResult>
+
+/** Codebook of the active unit for the current codebook settings, null without an enabled unit */
+export function useCodebook(): Codebook | null {
+  const units = useBeamStore((s) => s.units)
+  const activeUnitId = useBeamStore((s) => s.activeUnitId)
+  const medium = useBeamStore((s) => s.medium)
+  const settings = useBeamStore((s) => s.codebookSettings)
+
+  return useMemo(() => {
+    const unit = units.find((u) => u.id === activeUnitId)
+    return unit?.enabled ? generateCodebook(unit, medium, settings) : null
+  }, [units, activeUnitId, medium, settings])
+}
+
+/**
+ * Best-beam coverage of the active unit's codebook over the field grid,
+ * computed in a worker. Reruns whenever the unit, the codebook or the grid
+ * changes while `enabled`; a superseded job is canceled and its result
+ * dropped. Idle while disabled.
+ */
+export function useCodebookCoverage(enabled: boolean, grid: CoverageGrid): CoverageRun {
+  const codebook = useCodebook()
+  const units = useBeamStore((s) => s.units)
+  const activeUnitId = useBeamStore((s) => s.activeUnitId)
+  const medium = useBeamStore((s) => s.medium)
+  const media = useBeamStore((s) => s.customMedia)
+  const { gridSize, fieldSize } = grid
+
+  const payload = useMemo((): CoverageJobPayload | null => {
+    const unit = units.find((u) => u.id === activeUnitId)
+    if (!enabled || !unit || !codebook) return null
+    return { config: unit, medium, media, codebook, grid: { gridSize, fieldSize } }
+  }, [enabled, units, activeUnitId, medium, media, codebook, gridSize, fieldSize])
+
+  return useWorkerJob<CoverageJobPayload, CoverageJobResult>(
+    coverageWorkerPool,
+    'coverage',
+    payload,
+    'Coverage map failed'
+  )
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+
+/**
+ * `value` once it has stayed unchanged for `delay` ms, so expensive
+ * derivations skip the intermediate values of a drag.
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delay)
+    return () => window.clearTimeout(timer)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,60 @@
+import { act, renderHook } from '@testing-library/react'
+import { beforeEach, describe, expect, it } from 'vitest'
+import { PhasedArray, type NullConstraint, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { DEFAULT_ADAPTIVE_SCENARIO } from '@/dsp/adaptiveBeamforming'
+import { useBeamStore } from '@/state/beamStore'
+import { makeUnitConfig } from '@/test/fixtures'
+import { applyUnitWeights, quiescentBeamGains, useWeightedUnits } from './useEffectiveUnits'
+
+const makeUnit = (id: string, nulls?: NullConstraint[]): PhasedArrayConfig => makeUnitConfig({ id, nulls })
+
+const initialState = useBeamStore.getState()
+
+describe('applyUnitWeights', () => {
+  it('imposes the pattern nulls on the radiated weights', () => {
+    const weighted = applyUnitWeights(makeUnit('a', [{ angle: 30 }]), 'air', 'das', 'fixed', [], DEFAULT_ADAPTIVE_SCENARIO)
+    const array = PhasedArray.fromConfig(weighted, 'air')
+    expect(20 * Math.log10(array.computeArrayFactor(30, array.steeringPhi))).toBeLessThan(-60)
+  })
+})
+
+describe('useWeightedUnits', () => {
+  beforeEach(() => useBeamStore.setState(initialState, true))
+
+  it('recomputes only the changed units', () => {
+    const a = makeUnit('a')
+    const b = makeUnit('b', [{ angle: -20 }])
+    useBeamStore.setState({ units: [a, b] })
+    const { result } = renderHook(() => useWeightedUnits())
+    const first = result.current
+
+    act(() => useBeamStore.setState({ units: [{ ...a, steeringAngle: 10 }, b] }))
+    expect(result.current[0]).not.toBe(first[0])
+    expect(result.current[1]).toBe(first[1])
+  })
+
+  it('recomputes every unit when the weight settings change', () => {
+    useBeamStore.setState({ units: [makeUnit('a', [{ angle: 30 }])] })
+    const { result } = renderHook(() => useWeightedUnits())
+    const first = result.current
+
+    act(() => useBeamStore.setState({ emitters: [] }))
+    expect(result.current[0]).not.toBe(first[0])
+  })
+})
+
+describe('quiescentBeamGains', () => {
+  it('reports the beam gains with the default settings', () => {
+    const defaults = useBeamStore.getState()
+    const unit = { ...makeUnit('a'), beams: [{ steeringAngle: -20, power: 1, phase: 0 }, { steeringAngle: 30, power: 1, phase: 0 }] }
+    const gains = quiescentBeamGains(unit, defaults.medium, defaults.algorithm, defaults.weightType)
+
+    expect(gains.map((g) => g.steeringAngle)).toEqual([-20, 30])
+    gains.forEach((g) => expect(g.splitLossDb).toBeCloseTo(-3.01, 2))
+  })
+
+  it('reports none once nulls reshape the superposition', () => {
+    const unit = { ...makeUnit('a', [{ angle: 0 }]), beams: [{ steeringAngle: -20, power: 1, phase: 0 }, { steeringAngle: 30, power: 1, phase: 0 }] }
+    expect(quiescentBeamGains(unit, 'air', 'das', 'fixed')).toEqual([])
+  })
+})
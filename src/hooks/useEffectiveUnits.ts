@@ -0,0 +1,331 @@
+import { useEffect, useMemo } from 'react'
+import { create } from 'zustand'
+import { PhasedArray, type BeamGain, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import {
+  computeMvdrExcitation,
+  MAX_ADAPTIVE_ELEMENTS,
+  weightsToExcitation,
+  type AdaptiveScenario,
+} from '@/dsp/adaptiveBeamforming'
+import { MAX_CANCELLER_ELEMENTS, type CancellerResult, type CancellerSettings } from '@/dsp/sidelobeCanceller'
+import type { MediumDefinition } from '@/dsp/media'
+import type { SignalEmitter } from '@/dsp/signalScene'
+import {
+  useBeamStore,
+  type BeamAlgorithm,
+  type Medium,
+  type WeightType,
+} from '@/state/beamStore'
+import { cancellerWorkerPool } from '@/workers/pool'
+import type { CancellerJobResult } from '@/workers/canceller.worker'
+import { useWorkerJobBatch } from './useWorkerJob'
+
+/** Whether the algorithm selection replaces the fixed weights with MVDR/Capon weights */
+export function isAdaptiveBeamformer(algorithm: BeamAlgorithm, weightType: WeightType): boolean {
+  return weightType === 'adaptive' && (algorithm === 'mvdr' || algorithm === 'capon')
+}
+
+/**
+ * Whether the selected beamformer replaces the unit's stored weights (its
+ * taper, beams and saved excitation) with MVDR/Capon weights. Focused units,
+ * and units with more than MAX_ADAPTIVE_ELEMENTS elements, keep theirs.
+ */
+export function overridesStoredWeights(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  algorithm: BeamAlgorithm,
+  weightType: WeightType
+): boolean {
+  if (!unit.enabled || !isAdaptiveBeamformer(algorithm, weightType)) return false
+  const array = PhasedArray.fromConfig({ ...unit, phases: undefined }, medium)
+  return !array.isFocused && array.elements <= MAX_ADAPTIVE_ELEMENTS
+}
+
+/**
+ * Whether adaptive weights or pattern nulls replace the plain superposition
+ * of the unit's beams, so that per-beam traces and gains no longer add up to
+ * its pattern. The canceller is left out: the beams are shown as the
+ * quiescent superposition it adapts from.
+ */
+export function reshapesBeamSuperposition(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  algorithm: BeamAlgorithm,
+  weightType: WeightType
+): boolean {
+  return overridesStoredWeights(unit, medium, algorithm, weightType) || (unit.nulls?.length ?? 0) > 0
+}
+
+/**
+ * Gain toward each beam of a multi-beam unit with its quiescent weights
+ * (before the canceller); empty for single-beam units and when the
+ * superposition is reshaped.
+ */
+export function quiescentBeamGains(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  algorithm: BeamAlgorithm,
+  weightType: WeightType
+): BeamGain[] {
+  if (reshapesBeamSuperposition(unit, medium, algorithm, weightType)) return []
+  const array = PhasedArray.fromConfig(applyMultibeam(unit, medium), medium)
+  return array.isMultibeam && !array.isFocused ? array.computeBeamGains() : []
+}
+
+/**
+ * Unit config with the selected beamformer's weights applied. Fixed weights
+ * (and algorithms without transmit weights) return the unit unchanged, as do
+ * focused units, whose phases are set by the focal law, and oversized units.
+ */
+export function applyBeamAlgorithm(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  algorithm: BeamAlgorithm,
+  weightType: WeightType,
+  emitters: SignalEmitter[],
+  scenario: AdaptiveScenario
+): PhasedArrayConfig {
+  if (!overridesStoredWeights(unit, medium, algorithm, weightType)) return unit
+
+  const array = PhasedArray.fromConfig({ ...unit, phases: undefined }, medium)
+  try {
+    return { ...unit, ...computeMvdrExcitation(array, emitters, scenario) }
+  } catch (error) {
+    console.warn('MVDR weights unavailable, using fixed weights:', error)
+    return unit
+  }
+}
+
+/**
+ * Unit config with its beams superposed onto the weights. Single-beam units,
+ * and focused units, are returned unchanged.
+ */
+export function applyMultibeam(unit: PhasedArrayConfig, medium: Medium): PhasedArrayConfig {
+  if (!unit.enabled || (unit.beams?.length ?? 0) < 2) return unit
+  const array = PhasedArray.fromConfig(unit, medium)
+  if (array.isFocused) return unit
+
+  try {
+    return { ...unit, ...array.computeMultibeamExcitation() }
+  } catch (error) {
+    console.warn('Multi-beam weights unavailable, using a single beam:', error)
+    return unit
+  }
+}
+
+/**
+ * Unit config with its pattern nulls imposed on the current weights.
+ * Units without nulls, and focused units, are returned unchanged.
+ *
+ * Nulls are solved here rather than written into the stored amplitudes and
+ * phases: the LCMV solution depends on the steering, taper, beams and
+ * algorithm, and keeping the unconstrained weights lets a null be moved or
+ * removed without losing them. Everything that evaluates a unit's weights
+ * (renderers, beam metrics, tolerance, canceller, multi-cell maps) therefore
+ * reads the effective units; only the codebook replaces them by design.
+ */
+export function applyNullSteering(unit: PhasedArrayConfig, medium: Medium): PhasedArrayConfig {
+  if (!unit.enabled || !unit.nulls?.length) return unit
+  const array = PhasedArray.fromConfig(unit, medium)
+  if (array.isFocused) return unit
+
+  try {
+    return { ...unit, ...array.computeNullSteeringExcitation() }
+  } catch (error) {
+    console.warn('Null steering unavailable, using unconstrained weights:', error)
+    return unit
+  }
+}
+
+/**
+ * Whether the sidelobe canceller adapts on a unit: enabled and unfocused,
+ * with at most MAX_CANCELLER_ELEMENTS elements.
+ */
+export function canAdaptCanceller(unit: PhasedArrayConfig, medium: Medium): boolean {
+  if (!unit.enabled) return false
+  const array = PhasedArray.fromConfig(unit, medium)
+  return !array.isFocused && array.elements <= MAX_CANCELLER_ELEMENTS
+}
+
+/** Unit config with the adapted canceller weights applied on top of its current weights */
+export function applyCancellerWeights(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  result: CancellerResult
+): PhasedArrayConfig {
+  const steeringPhases = PhasedArray.fromConfig({ ...unit, phases: undefined }, medium).computePhaseOffsets()
+  return { ...unit, ...weightsToExcitation(result.weights, steeringPhases) }
+}
+
+// ============================================================================
+// PIPELINE
+// ============================================================================
+
+/*
+ * Each hook memoizes the weights over the store slices they depend on and
+ * only recomputes the units whose config changed. The canceller adapts in the
+ * worker pool (see useInterferenceCanceller); its results are matched to the
+ * stored configs and weight inputs they were adapted for, and until the
+ * result for the current ones arrives a unit radiates its quiescent weights.
+ */
+
+/** Store slices the weights of a unit depend on, besides its config */
+interface WeightInputs {
+  medium: Medium
+  // Edits to a custom medium change it under the same id
+  customMedia: MediumDefinition[]
+  algorithm: BeamAlgorithm
+  weightType: WeightType
+  emitters: SignalEmitter[]
+  scenario: AdaptiveScenario
+}
+
+const sameWeightInputs = (a: WeightInputs, b: WeightInputs): boolean =>
+  (Object.keys(a) as Array<keyof WeightInputs>).every((key) => a[key] === b[key])
+
+/** Unit config with its beams superposed, the selected algorithm's weights and its pattern nulls */
+export function applyUnitWeights(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  algorithm: BeamAlgorithm,
+  weightType: WeightType,
+  emitters: SignalEmitter[],
+  scenario: AdaptiveScenario
+): PhasedArrayConfig {
+  return applyNullSteering(
+    applyBeamAlgorithm(applyMultibeam(unit, medium), medium, algorithm, weightType, emitters, scenario),
+    medium
+  )
+}
+
+/** applyUnitWeights for fixed inputs, computed once per stored unit config */
+function createUnitWeigher(inputs: WeightInputs): (unit: PhasedArrayConfig) => PhasedArrayConfig {
+  const { medium, algorithm, weightType, emitters, scenario } = inputs
+  const weighted = new WeakMap<PhasedArrayConfig, PhasedArrayConfig>()
+  return (unit) => {
+    let result = weighted.get(unit)
+    if (!result) {
+      result = applyUnitWeights(unit, medium, algorithm, weightType, emitters, scenario)
+      weighted.set(unit, result)
+    }
+    return result
+  }
+}
+
+/** Stored units, their weighted configs (in the same order) and the inputs they were weighted with */
+function useWeighting(): { units: PhasedArrayConfig[]; weighted: PhasedArrayConfig[]; inputs: WeightInputs } {
+  const units = useBeamStore((s) => s.units)
+  const medium = useBeamStore((s) => s.medium)
+  const customMedia = useBeamStore((s) => s.customMedia)
+  const algorithm = useBeamStore((s) => s.algorithm)
+  const weightType = useBeamStore((s) => s.weightType)
+  const emitters = useBeamStore((s) => s.emitters)
+  const scenario = useBeamStore((s) => s.adaptiveScenario)
+
+  const inputs = useMemo(
+    () => ({ medium, customMedia, algorithm, weightType, emitters, scenario }),
+    [medium, customMedia, algorithm, weightType, emitters, scenario]
+  )
+  const weigh = useMemo(() => createUnitWeigher(inputs), [inputs])
+  const weighted = useMemo(() => units.map(weigh), [units, weigh])
+  return { units, weighted, inputs }
+}
+
+/** Units with their weights applied (see applyUnitWeights), before the canceller */
+export function useWeightedUnits(): PhasedArrayConfig[] {
+  return useWeighting().weighted
+}
+
+interface CancellerEntry {
+  // Inputs the result was adapted for
+  unit: PhasedArrayConfig  // Stored config
+  inputs: WeightInputs
+  settings: CancellerSettings
+  result: CancellerResult
+}
+
+// Latest canceller adaptation of each unit, by unit id
+const useCancellerEntries = create<{ entries: Record<string, CancellerEntry> }>(() => ({ entries: {} }))
+
+const isCurrent = (
+  entry: CancellerEntry | undefined,
+  unit: PhasedArrayConfig,
+  inputs: WeightInputs,
+  settings: CancellerSettings
+): entry is CancellerEntry =>
+  entry !== undefined && entry.unit === unit && sameWeightInputs(entry.inputs, inputs) && entry.settings === settings
+
+/**
+ * Units as they actually radiate: the stored configs with their beams
+ * superposed, the weights of the selected algorithm and their pattern nulls, then adapted by the
+ * interference canceller when it is on. Renderers use these instead of
+ * `units` directly.
+ */
+export function useEffectiveUnits(): PhasedArrayConfig[] {
+  const { units, weighted, inputs } = useWeighting()
+  const interferenceCancel = useBeamStore((s) => s.interferenceCancel)
+  const settings = useBeamStore((s) => s.cancellerSettings)
+  const entries = useCancellerEntries((s) => s.entries)
+
+  return useMemo(() => {
+    if (!interferenceCancel) return weighted
+    return weighted.map((unit, i) => {
+      const entry = entries[unit.id]
+      return isCurrent(entry, units[i], inputs, settings)
+        ? applyCancellerWeights(unit, inputs.medium, entry.result)
+        : unit
+    })
+  }, [units, weighted, inputs, entries, interferenceCancel, settings])
+}
+
+/**
+ * Adapt the interference canceller of every unit in the worker pool whenever
+ * its weights, the emitters or the canceller settings change while it is on.
+ * Mounted once by the stage; superseded jobs are canceled and their results
+ * dropped.
+ */
+export function useInterferenceCanceller(): void {
+  const { units, weighted, inputs } = useWeighting()
+  const interferenceCancel = useBeamStore((s) => s.interferenceCancel)
+  const settings = useBeamStore((s) => s.cancellerSettings)
+  const startBatch = useWorkerJobBatch(cancellerWorkerPool, 'canceller')
+
+  useEffect(() => {
+    if (!interferenceCancel) return
+    const { medium, customMedia: media, emitters } = inputs
+    const { entries } = useCancellerEntries.getState()
+    const pending = weighted
+      .map((config, i) => ({ config, unit: units[i] }))
+      .filter(({ config, unit }) =>
+        canAdaptCanceller(config, medium) && !isCurrent(entries[unit.id], unit, inputs, settings)
+      )
+    if (pending.length === 0) return
+
+    const batch = startBatch()
+    pending.forEach(({ config, unit }) => {
+      batch
+        .enqueue<CancellerJobResult>({ config, medium, media, emitters, settings })
+        .then((result) => {
+          const entry: CancellerEntry = { unit, inputs, settings, result }
+          useCancellerEntries.setState((state) => ({ entries: { ...state.entries, [unit.id]: entry } }))
+        })
+        .catch((error: unknown) => {
+          console.warn('Interference canceller unavailable, using quiescent weights:', error)
+        })
+    })
+
+    return batch.cancel
+  }, [interferenceCancel, startBatch, units, weighted, inputs, settings])
+}
+
+/**
+ * Canceller adaptation of the active unit (for the convergence chart), null
+ * when it is off. The last finished adaptation stays on screen while a newer
+ * one runs.
+ */
+export function useCancellerResult(): CancellerResult | null {
+  const activeUnitId = useBeamStore((s) => s.activeUnitId)
+  const interferenceCancel = useBeamStore((s) => s.interferenceCancel)
+  const entry = useCancellerEntries((s) => s.entries[activeUnitId])
+  return interferenceCancel && entry ? entry.result : null
+}
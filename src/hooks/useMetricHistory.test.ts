@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { appendMetricHistory, changedMetrics } from './useMetricHistory'
+
+describe('appendMetricHistory', () => {
+  it('appends each metric and keeps the newest points', () => {
+    let history = appendMetricHistory({}, { hpbw: 12 }, 3)
+    for (const value of [11, 10, 9]) history = appendMetricHistory(history, { hpbw: value }, 3)
+    expect(history.hpbw).toEqual([11, 10, 9])
+  })
+
+  it('skips undefined values without dropping the existing trace', () => {
+    const history = appendMetricHistory({ psll: [-13] }, { psll: null, snr: Infinity }, 10)
+    expect(history.psll).toEqual([-13])
+    expect(history.snr).toBeUndefined()
+  })
+})
+
+describe('changedMetrics', () => {
+  it('keeps only the metrics whose value changed', () => {
+    expect(changedMetrics({ snr: 20, hpbw: 12, sinr: null }, { snr: 20, hpbw: 11, sinr: null })).toEqual({ hpbw: 11 })
+    expect(changedMetrics({ psll: NaN }, { psll: NaN, fnbw: 30 })).toEqual({ fnbw: 30 })
+  })
+})
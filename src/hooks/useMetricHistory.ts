@@ -0,0 +1,51 @@
+import { useState } from 'react'
+
+export type MetricHistory = Record<string, number[]>
+
+/**
+ * Append one snapshot of metric values to a history, keeping at most
+ * `capacity` points per metric. Non-finite values are skipped so a metric
+ * that is temporarily undefined (e.g. no sidelobes) keeps its last trace.
+ */
+export function appendMetricHistory(
+  history: MetricHistory,
+  values: Record<string, number | null>,
+  capacity: number
+): MetricHistory {
+  const next: MetricHistory = { ...history }
+  for (const [key, value] of Object.entries(values)) {
+    if (value === null || !Number.isFinite(value)) continue
+    next[key] = [...(history[key] ?? []), value].slice(-capacity)
+  }
+  return next
+}
+
+/** The metrics of `values` whose value differs from `previous` */
+export function changedMetrics(
+  previous: Record<string, number | null>,
+  values: Record<string, number | null>
+): Record<string, number | null> {
+  return Object.fromEntries(Object.entries(values).filter(([key, value]) => !Object.is(value, previous[key])))
+}
+
+/**
+ * Per-change history of beam metrics for the measurement sparklines.
+ * A point is recorded for a metric only when its value changes, not per
+ * render or when another metric changes.
+ */
+export function useMetricHistory(
+  values: Record<string, number | null>,
+  capacity = 30
+): MetricHistory {
+  const [lastValues, setLastValues] = useState(values)
+  const [history, setHistory] = useState<MetricHistory>(() => appendMetricHistory({}, values, capacity))
+
+  // Adjust state during render when a metric changes (no extra effect pass)
+  const changed = changedMetrics(lastValues, values)
+  if (Object.keys(changed).length > 0) {
+    setLastValues(values)
+    setHistory(appendMetricHistory(history, changed, capacity))
+  }
+
+  return history
+}
@@ -0,0 +1,39 @@
+import { useMemo } from 'react'
+import type { CellGrid } from '@/dsp/multiCell'
+import { useBeamStore } from '@/state/beamStore'
+import { multiCellWorkerPool } from '@/workers/pool'
+import type { MultiCellJobPayload, MultiCellJobResult } from '@/workers/multicell.worker'
+import { useEffectiveUnits } from './useEffectiveUnits'
+import { useWorkerJob, type WorkerJobRun, type WorkerJobStatus } from './useWorkerJob'
+
+export type MultiCellStatus = WorkerJobStatus
+
+export type MultiCellRun = WorkerJobRun<MultiCellJobResult>
+
+/**
+ * Serving cell, SINR and throughput maps of the units as they radiate,
+ * computed in a worker. Reruns whenever the units, the channel bandwidth, the
+ * propagation model or the grid changes while `enabled`; a superseded job is canceled and its
+ * result dropped. Idle while disabled.
+ */
+export function useMultiCellMap(enabled: boolean, grid: CellGrid): MultiCellRun {
+  const units = useEffectiveUnits()
+  const medium = useBeamStore((s) => s.medium)
+  const media = useBeamStore((s) => s.customMedia)
+  const bandwidth = useBeamStore((s) => s.cellBandwidth)
+  const propagation = useBeamStore((s) => s.propagation)
+  const { gridSize, fieldSize } = grid
+
+  const payload = useMemo(
+    (): MultiCellJobPayload | null =>
+      enabled ? { units, medium, media, bandwidth, grid: { gridSize, fieldSize }, propagation } : null,
+    [enabled, units, medium, media, bandwidth, propagation, gridSize, fieldSize]
+  )
+
+  return useWorkerJob<MultiCellJobPayload, MultiCellJobResult>(
+    multiCellWorkerPool,
+    'multicell',
+    payload,
+    'Multi-cell map failed'
+  )
+}
@@ -0,0 +1,45 @@
+import { useMemo } from 'react'
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import {
+  MAX_SYNTHESIS_ELEMENTS,
+  synthesizeFromMask,
+  type PatternMask,
+  type SynthesisResult,
+} from '@/dsp/patternSynthesis'
+import { useBeamStore, type Medium } from '@/state/beamStore'
+
+/**
+ * Mask synthesis on a unit's stored amplitudes with pure steering phases.
+ * Null for disabled, focused or oversized units.
+ */
+function synthesizeUnitPattern(
+  unit: PhasedArrayConfig,
+  medium: Medium,
+  mask: PatternMask
+): SynthesisResult | null {
+  if (!unit.enabled) return null
+  const array = PhasedArray.fromConfig({ ...unit, phases: undefined }, medium)
+  if (array.isFocused || array.elements > MAX_SYNTHESIS_ELEMENTS) return null
+
+  try {
+    return synthesizeFromMask(array, mask)
+  } catch (error) {
+    console.warn('Pattern synthesis unavailable:', error)
+    return null
+  }
+}
+
+/** Mask synthesis for the active unit, null while the mask is hidden */
+export function usePatternSynthesis(): SynthesisResult | null {
+  const units = useBeamStore((s) => s.units)
+  const activeUnitId = useBeamStore((s) => s.activeUnitId)
+  const medium = useBeamStore((s) => s.medium)
+  const patternMask = useBeamStore((s) => s.patternMask)
+  const showPatternMask = useBeamStore((s) => s.showPatternMask)
+
+  return useMemo(() => {
+    const unit = units.find((u) => u.id === activeUnitId)
+    if (!showPatternMask || !unit) return null
+    return synthesizeUnitPattern(unit, medium, patternMask)
+  }, [units, activeUnitId, medium, patternMask, showPatternMask])
+}
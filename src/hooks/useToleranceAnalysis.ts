@@ -0,0 +1,75 @@
+import { useEffect, useMemo, useState } from 'react'
+import { summarizeTolerance, type ToleranceResult } from '@/dsp/toleranceAnalysis'
+import { useBeamStore } from '@/state/beamStore'
+import { workerPoolConfig } from '@/config/runtime'
+import { toleranceWorkerPool } from '@/workers/pool'
+import type { ToleranceJobResult } from '@/workers/tolerance.worker'
+import { useEffectiveUnits } from './useEffectiveUnits'
+import { useWorkerJobBatch, type WorkerJobStatus } from './useWorkerJob'
+
+export type ToleranceStatus = WorkerJobStatus
+
+export interface ToleranceRun {
+  status: ToleranceStatus
+  /** Fraction of trials finished */
+  progress: number
+  result: ToleranceResult | null
+  error: string | null
+}
+
+const IDLE_RUN: ToleranceRun = { status: 'idle', progress: 0, result: null, error: null }
+
+/**
+ * Monte-Carlo tolerance analysis of the active unit's effective weights,
+ * split into one batch of trials per pool worker. Reruns whenever the unit
+ * or the tolerance settings change while `enabled`; stale batches are
+ * canceled and their results dropped. Idle while disabled.
+ */
+export function useToleranceAnalysis(enabled: boolean): ToleranceRun {
+  const units = useEffectiveUnits()
+  const activeUnitId = useBeamStore((s) => s.activeUnitId)
+  const medium = useBeamStore((s) => s.medium)
+  const media = useBeamStore((s) => s.customMedia)
+  const settings = useBeamStore((s) => s.toleranceSettings)
+  const [run, setRun] = useState<ToleranceRun>(IDLE_RUN)
+  const startBatch = useWorkerJobBatch(toleranceWorkerPool, 'tolerance')
+
+  const unit = useMemo(() => units.find((u) => u.id === activeUnitId), [units, activeUnitId])
+
+  useEffect(() => {
+    if (!enabled || !unit?.enabled) return
+    const batch = startBatch()
+
+    const batches = Math.max(1, Math.min(workerPoolConfig.poolSize, settings.trials))
+    const batchSize = Math.ceil(settings.trials / batches)
+    let finished = 0
+
+    setRun((previous) => ({ ...previous, status: 'running', progress: 0, error: null }))
+
+    const jobs = Array.from({ length: batches }, (_, i) => {
+      const firstTrial = i * batchSize
+      const count = Math.min(batchSize, settings.trials - firstTrial)
+      return batch
+        .enqueue<ToleranceJobResult>({ config: unit, medium, media, settings, firstTrial, count })
+        .then((trials) => {
+          finished += count
+          setRun((previous) => ({ ...previous, progress: finished / settings.trials }))
+          return trials
+        })
+    })
+
+    Promise.all(jobs)
+      .then((batchResults) => {
+        const result = summarizeTolerance(unit, medium, batchResults.flat(), settings.spec)
+        setRun({ status: 'done', progress: 1, result, error: null })
+      })
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : 'Tolerance analysis failed'
+        setRun((previous) => ({ ...previous, status: 'error', error: message }))
+      })
+
+    return batch.cancel
+  }, [enabled, startBatch, unit, medium, media, settings])
+
+  return enabled ? run : IDLE_RUN
+}
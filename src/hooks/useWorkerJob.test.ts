@@ -0,0 +1,51 @@
+import { act, renderHook, waitFor } from '@testing-library/react'
+import { describe, expect, it, vi } from 'vitest'
+import type { WorkerManager } from '@/workers/pool'
+import { useWorkerJob, useWorkerJobBatch } from './useWorkerJob'
+
+// Pool whose jobs resolve (or reject) when the test settles them
+const createPool = () => {
+  const jobs = new Map<string, { resolve: (value: unknown) => void; reject: (reason: unknown) => void }>()
+  const pool = {
+    enqueue: vi.fn(({ id }: { id: string }) => new Promise((resolve, reject) => jobs.set(id, { resolve, reject }))),
+    cancel: vi.fn((id: string) => jobs.get(id)?.reject(new Error('Canceled'))),
+  }
+  return { pool: pool as unknown as WorkerManager<number>, jobs, cancel: pool.cancel }
+}
+
+describe('useWorkerJobBatch', () => {
+  it('cancels the jobs of a batch and drops their results', async () => {
+    const { pool, jobs, cancel } = createPool()
+    const { result } = renderHook(() => useWorkerJobBatch(pool, 'test'))
+    const onSettled = vi.fn()
+
+    const batch = result.current()
+    batch.enqueue(1).then(onSettled, onSettled)
+    batch.enqueue(2).then(onSettled, onSettled)
+    batch.cancel()
+    jobs.get('test-1-1')?.resolve(4)
+    await Promise.resolve()
+
+    expect(cancel.mock.calls.map(([id]) => id)).toEqual(['test-1-0', 'test-1-1'])
+    expect(onSettled).not.toHaveBeenCalled()
+  })
+})
+
+describe('useWorkerJob', () => {
+  it('runs a job per payload and keeps the result of the latest one', async () => {
+    const { pool, jobs } = createPool()
+    const { result, rerender } = renderHook(
+      ({ payload }: { payload: number | null }) => useWorkerJob<number, number>(pool, 'test', payload, 'Failed'),
+      { initialProps: { payload: 1 as number | null } }
+    )
+    expect(result.current.status).toBe('running')
+
+    rerender({ payload: 2 })
+    act(() => jobs.get('test-1-0')?.resolve(10))
+    act(() => jobs.get('test-2-0')?.resolve(20))
+    await waitFor(() => expect(result.current).toEqual({ status: 'done', result: 20, error: null }))
+
+    rerender({ payload: null })
+    expect(result.current.status).toBe('idle')
+  })
+})
@@ -0,0 +1,90 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import type { WorkerManager } from '@/workers/pool'
+
+export type WorkerJobStatus = 'idle' | 'running' | 'done' | 'error'
+
+export interface WorkerJobRun<R> {
+  status: WorkerJobStatus
+  result: R | null
+  error: string | null
+}
+
+const IDLE_RUN: WorkerJobRun<never> = { status: 'idle', result: null, error: null }
+
+/** Jobs enqueued by one effect run, canceled together by its cleanup */
+export interface WorkerJobBatch<P> {
+  /** Enqueue a job; once the batch is canceled, its promise never settles */
+  enqueue: <R>(payload: P) => Promise<R>
+  cancel: () => void
+}
+
+/**
+ * Stable factory of job batches on `pool`, with job ids prefixed by `name`.
+ * Effects start a batch, enqueue their jobs on it and return its `cancel`:
+ * superseded jobs are then canceled in the pool and their results (and
+ * cancellation rejections) dropped.
+ */
+export function useWorkerJobBatch<P>(pool: WorkerManager<P>, name: string): () => WorkerJobBatch<P> {
+  const runIdRef = useRef(0)
+
+  return useCallback(() => {
+    const runId = ++runIdRef.current
+    const jobIds: string[] = []
+    let stale = false
+
+    return {
+      enqueue: <R>(payload: P) => {
+        const id = `${name}-${runId}-${jobIds.length}`
+        jobIds.push(id)
+        return new Promise<R>((resolve, reject) => {
+          pool.enqueue({ id, payload }).then(
+            (result) => {
+              if (!stale) resolve(result as R)
+            },
+            (error: unknown) => {
+              if (!stale) reject(error)
+            }
+          )
+        })
+      },
+      cancel: () => {
+        // Mark stale before canceling so the rejections are ignored
+        stale = true
+        jobIds.forEach((id) => pool.cancel(id))
+      },
+    }
+  }, [pool, name])
+}
+
+/**
+ * Result of one job on `pool` for `payload`, rerun whenever the payload
+ * changes (callers memoize it) and idle while it is null. The last result
+ * stays available while a newer job runs.
+ */
+export function useWorkerJob<P, R>(
+  pool: WorkerManager<P>,
+  name: string,
+  payload: P | null,
+  failureMessage: string
+): WorkerJobRun<R> {
+  const startBatch = useWorkerJobBatch(pool, name)
+  const [run, setRun] = useState<WorkerJobRun<R>>(IDLE_RUN)
+
+  useEffect(() => {
+    if (!payload) return
+    const batch = startBatch()
+
+    setRun((previous) => ({ ...previous, status: 'running', error: null }))
+    batch
+      .enqueue<R>(payload)
+      .then((result) => setRun({ status: 'done', result, error: null }))
+      .catch((error: unknown) => {
+        const message = error instanceof Error ? error.message : failureMessage
+        setRun((previous) => ({ ...previous, status: 'error', error: message }))
+      })
+
+    return batch.cancel
+  }, [startBatch, payload, failureMessage])
+
+  return payload ? run : IDLE_RUN
+}
@@ -0,0 +1,268 @@
+/**
+ * Beam Store Unit Tests
+ *
+ * Tests for the beamforming store actions covering:
+ * 1. Scene emitters
+ * 2. Null steering
+ * 3. Multi-beam forming
+ * 4. Hybrid subarrays
+ * 5. Propagation
+ * 6. Custom media and rehydration
+ */
+
+import { beforeEach, describe, expect, it } from 'vitest'
+import { MEDIUM_LIMITS, getMedium, hasMedium, registerCustomMedia, type MediumDefinition } from '../../dsp/media'
+import { DEFAULT_PROPAGATION } from '../../dsp/propagation'
+import { DEFAULT_SUBARRAYS, partitionAxis } from '../../dsp/subarrays'
+import { MAX_BEAMS, useBeamStore } from '../beamStore'
+
+const initialState = useBeamStore.getState()
+
+const activeUnit = () => useBeamStore.getState().getActiveUnit()!
+
+describe('Beam Store', () => {
+  beforeEach(() => {
+    // Reset store to initial state before each test
+    useBeamStore.setState(initialState, true)
+  })
+
+  describe('Scene Emitters', () => {
+    it('adds numbered emitters without overriding their id or kind', () => {
+      const { addEmitter } = useBeamStore.getState()
+      const id = addEmitter('interferer', { angle: 20, id: 'taken', kind: 'source' })
+      const emitter = useBeamStore.getState().emitters.find((e) => e.id === id)!
+
+      expect(id).not.toBe('taken')
+      expect(emitter).toMatchObject({ kind: 'interferer', angle: 20, name: 'Interferer 3' })
+    })
+
+    it('updates and removes emitters by id', () => {
+      const [source] = useBeamStore.getState().emitters
+      useBeamStore.getState().updateEmitter(source.id, { powerDb: 6, id: 'other' })
+      expect(useBeamStore.getState().emitters[0]).toMatchObject({ id: source.id, powerDb: 6 })
+
+      useBeamStore.getState().removeEmitter(source.id)
+      expect(useBeamStore.getState().emitters.map((e) => e.id)).not.toContain(source.id)
+    })
+  })
+
+  describe('Null Steering', () => {
+    it('toggles a null on and off near the clicked angle', () => {
+      const { toggleNull } = useBeamStore.getState()
+      toggleNull(30.4)
+      toggleNull(-20)
+      expect(activeUnit().nulls).toEqual([{ angle: 30 }, { angle: -20 }])
+
+      // Within the tolerance the existing null is removed instead
+      toggleNull(32)
+      expect(activeUnit().nulls).toEqual([{ angle: -20 }])
+      toggleNull(-21)
+      expect(activeUnit().nulls).toBeUndefined()
+    })
+
+    it('keeps the stored weights unconstrained', () => {
+      const { amplitudes, phases } = activeUnit()
+      useBeamStore.getState().setNulls([{ angle: 40, depthDb: -30 }])
+      expect(activeUnit().nulls).toEqual([{ angle: 40, depthDb: -30 }])
+      expect(activeUnit().amplitudes).toEqual(amplitudes)
+      expect(activeUnit().phases).toEqual(phases)
+    })
+  })
+
+  describe('Multi-Beam Forming', () => {
+    beforeEach(() => {
+      const { activeUnitId, updateUnit } = useBeamStore.getState()
+      updateUnit(activeUnitId, { steeringAngle: 20 })
+    })
+
+    it('splits the unit into beams 30° apart, up to MAX_BEAMS', () => {
+      const { addBeam } = useBeamStore.getState()
+      addBeam()
+      expect(activeUnit().beams).toEqual([
+        { steeringAngle: 20, power: 1, phase: 0 },
+        { steeringAngle: 50, power: 1, phase: 0 },
+      ])
+
+      // Past 80° the new beam steps back instead
+      addBeam()
+      addBeam()
+      expect(activeUnit().beams!.map((b) => b.steeringAngle)).toEqual([20, 50, 80, 50])
+      for (let i = 0; i < MAX_BEAMS; i++) addBeam()
+      expect(activeUnit().beams).toHaveLength(MAX_BEAMS)
+    })
+
+    it('steers the unit with the first beam', () => {
+      const { addBeam, updateBeam } = useBeamStore.getState()
+      addBeam()
+      updateBeam(0, { steeringAngle: -10, power: 2 })
+      expect(activeUnit().steeringAngle).toBe(-10)
+      expect(activeUnit().beams![0]).toEqual({ steeringAngle: -10, power: 2, phase: 0 })
+    })
+
+    it('falls back to a single beam steered by the remaining one', () => {
+      const { addBeam, removeBeam } = useBeamStore.getState()
+      addBeam()
+      removeBeam(0)
+      expect(activeUnit().beams).toBeUndefined()
+      expect(activeUnit().steeringAngle).toBe(50)
+    })
+  })
+
+  describe('Hybrid Subarrays', () => {
+    it('merges updates into the default subarrays', () => {
+      const { setSubarrays } = useBeamStore.getState()
+      setSubarrays({ count: 2 })
+      expect(activeUnit().subarrays).toEqual({ ...DEFAULT_SUBARRAYS, count: 2 })
+
+      setSubarrays({ partition: 'interleaved' })
+      expect(activeUnit().subarrays).toEqual({ partition: 'interleaved', count: 2 })
+    })
+
+    it('starts a custom partition from the one it replaces', () => {
+      const { setSubarrays } = useBeamStore.getState()
+      setSubarrays({ partition: 'interleaved', count: 2 })
+      setSubarrays({ partition: 'custom' })
+      const { subarrays, elements } = activeUnit()
+      expect(subarrays?.assignment).toEqual(
+        partitionAxis({ partition: 'interleaved', count: 2 }, elements)
+      )
+    })
+
+    it('goes back to a fully analog unit on null', () => {
+      const { setSubarrays } = useBeamStore.getState()
+      setSubarrays({ count: 2 })
+      setSubarrays(null)
+      expect(activeUnit().subarrays).toBeUndefined()
+    })
+  })
+
+  describe('Propagation', () => {
+    it('merges partial updates', () => {
+      const { setPropagation } = useBeamStore.getState()
+      setPropagation({ model: 'spherical' })
+      setPropagation({ attenuation: true })
+      expect(useBeamStore.getState().propagation).toEqual({ model: 'spherical', attenuation: true })
+    })
+
+    it('loads the scenario propagation, or the default without one', () => {
+      const { loadScenarioConfig, setPropagation } = useBeamStore.getState()
+      const units = [activeUnit()]
+      const propagation = { model: 'cylindrical' as const, attenuation: true, frequencyScale: 100 }
+      loadScenarioConfig(units, 'water', propagation)
+      expect(useBeamStore.getState().propagation).toEqual(propagation)
+
+      setPropagation({ model: 'spherical' })
+      expect(propagation.model).toBe('cylindrical')
+
+      loadScenarioConfig(units, 'water')
+      expect(useBeamStore.getState().propagation).toEqual(DEFAULT_PROPAGATION)
+    })
+  })
+
+  describe('Custom Media', () => {
+    const liver: MediumDefinition = {
+      id: 'test-liver',
+      name: 'Liver',
+      density: 1060,
+      speedOfSound: 1570,
+      attenuation: 0.5,
+      attenuationExponent: 1.1,
+    }
+
+    beforeEach(() => {
+      registerCustomMedia([])
+      localStorage.clear()
+    })
+
+    it('adds a clamped copy of the active medium and registers it', () => {
+      const { addCustomMedium } = useBeamStore.getState()
+      const id = addCustomMedium({ speedOfSound: 1e6 })
+      const [medium] = useBeamStore.getState().customMedia
+
+      expect(medium).toMatchObject({ id, name: 'Air (custom)', speedOfSound: MEDIUM_LIMITS.speedOfSound.max })
+      expect(hasMedium(id)).toBe(true)
+    })
+
+    it('rescales the units once a sound speed edit of the active medium is committed', () => {
+      const { addCustomMedium, setMedium, updateCustomMedium, commitCustomMedium } = useBeamStore.getState()
+      const id = addCustomMedium()
+      setMedium(id)
+      const { units } = useBeamStore.getState()
+
+      updateCustomMedium(id, { speedOfSound: 686 })
+      expect(useBeamStore.getState().units).toBe(units)
+      expect(getMedium(id).speedOfSound).toBe(686)
+
+      commitCustomMedium(id)
+      expect(useBeamStore.getState().speedOfSound).toBe(686)
+      expect(activeUnit().pitch).toBeCloseTo(units[0].pitch * 2)
+
+      // Nothing left to rescale
+      const rescaled = useBeamStore.getState().units
+      commitCustomMedium(id)
+      expect(useBeamStore.getState().units).toBe(rescaled)
+    })
+
+    it('falls back to the default medium when the active one is removed', () => {
+      const { addCustomMedium, setMedium, removeCustomMedium } = useBeamStore.getState()
+      const id = addCustomMedium({ speedOfSound: 1500 })
+      setMedium(id)
+      removeCustomMedium(id)
+
+      expect(useBeamStore.getState()).toMatchObject({ medium: 'air', speedOfSound: 343, customMedia: [] })
+      expect(hasMedium(id)).toBe(false)
+    })
+
+    it('reports unknown media instead of selecting them', () => {
+      useBeamStore.getState().setMedium('missing')
+      expect(useBeamStore.getState()).toMatchObject({ medium: 'air', unknownMedium: 'missing' })
+
+      useBeamStore.getState().setMedium('water')
+      expect(useBeamStore.getState()).toMatchObject({ medium: 'water', unknownMedium: null })
+    })
+
+    it('adds the media of a scenario and reports the unknown ones', () => {
+      const { loadScenarioConfig } = useBeamStore.getState()
+      const units = [activeUnit()]
+      loadScenarioConfig(units, liver.id, undefined, [liver])
+
+      expect(useBeamStore.getState()).toMatchObject({ medium: liver.id, speedOfSound: 1570, customMedia: [liver] })
+      expect(hasMedium(liver.id)).toBe(true)
+
+      loadScenarioConfig(units, 'missing')
+      expect(useBeamStore.getState()).toMatchObject({ medium: 'air', unknownMedium: 'missing', speedOfSound: 343 })
+    })
+
+    it('registers the saved media before resolving the saved medium', async () => {
+      localStorage.setItem('beam-storage', JSON.stringify({
+        state: { medium: liver.id, customMedia: [liver] },
+        version: 1,
+      }))
+      await useBeamStore.persist.rehydrate()
+
+      expect(useBeamStore.getState()).toMatchObject({ medium: liver.id, unknownMedium: null, speedOfSound: 1570 })
+      expect(hasMedium(liver.id)).toBe(true)
+    })
+
+    it('reports a saved medium that no longer resolves', async () => {
+      localStorage.setItem('beam-storage', JSON.stringify({ state: { medium: liver.id }, version: 1 }))
+      await useBeamStore.persist.rehydrate()
+
+      expect(useBeamStore.getState()).toMatchObject({ medium: 'air', unknownMedium: liver.id, speedOfSound: 343 })
+    })
+
+    it('migrates version 0 state, keeping its preferences and turning the canceller off', async () => {
+      localStorage.setItem('beam-storage', JSON.stringify({
+        state: { medium: 'water', algorithm: 'mvdr', weightType: 'adaptive', interferenceCancel: true },
+        version: 0,
+      }))
+      await useBeamStore.persist.rehydrate()
+
+      const state = useBeamStore.getState()
+      expect(state).toMatchObject({ medium: 'water', algorithm: 'mvdr', weightType: 'adaptive', customMedia: [] })
+      expect(state.interferenceCancel).toBe(false)
+      expect(state.propagation).toEqual(DEFAULT_PROPAGATION)
+      expect(state.emitters).toHaveLength(initialState.emitters.length)
+    })
+  })
+})
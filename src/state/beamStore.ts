@@ -1,9 +1,54 @@
 import { create } from 'zustand'
 import { persist } from 'zustand/middleware'
-import type { PhasedArrayConfig, ArrayGeometry } from '@/classes/PhasedArray'
+import {
+  PhasedArray,
+  type PhasedArrayConfig,
+  type ArrayGeometry,
+  type BeamSpec,
+  type NullConstraint,
+  type SteeringMode,
+} from '@/classes/PhasedArray'
+import { DEFAULT_TAPER, generateTaper, type TaperConfig } from '@/dsp/tapers'
+import { DEFAULT_ELEMENT_PATTERN, type ElementPatternConfig } from '@/dsp/elementPatterns'
+import { DEFAULT_ADAPTIVE_SCENARIO, type AdaptiveScenario } from '@/dsp/adaptiveBeamforming'
+import { DEFAULT_DOA_SCENARIO, type DoaScenario } from '@/dsp/doaEstimation'
+import type { EmitterKind, SignalEmitter } from '@/dsp/signalScene'
+import { DEFAULT_CANCELLER_SETTINGS, type CancellerSettings } from '@/dsp/sidelobeCanceller'
+import { DEFAULT_PATTERN_MASK, type PatternMask } from '@/dsp/patternSynthesis'
+import { DEFAULT_QUANTIZATION, type QuantizationConfig } from '@/dsp/quantization'
+import { DEFAULT_TOLERANCE_SETTINGS, type ToleranceSettings } from '@/dsp/toleranceAnalysis'
+import { DEFAULT_SQUINT_SPAN } from '@/dsp/beamSquint'
+import { DEFAULT_CODEBOOK_SETTINGS, type CodebookSettings } from '@/dsp/beamCodebook'
+import { DEFAULT_SUBARRAYS, partitionAxis, type SubarrayConfig } from '@/dsp/subarrays'
+import { DEFAULT_CELL, DEFAULT_CELL_BANDWIDTH, type CellConfig } from '@/dsp/multiCell'
+import { DEFAULT_PROPAGATION, type PropagationConfig } from '@/dsp/propagation'
+import {
+  DEFAULT_MEDIUM_ID,
+  getMedium,
+  hasMedium,
+  isBuiltInMedium,
+  registerCustomMedia,
+  sanitizeMedium,
+  type MediumDefinition,
+  type MediumId,
+} from '@/dsp/media'
 
 // Re-export PhasedArrayConfig for convenience
-export type { PhasedArrayConfig, ArrayGeometry } from '@/classes/PhasedArray'
+export type { PhasedArrayConfig, ArrayGeometry, BeamSpec, NullConstraint, SteeringMode } from '@/classes/PhasedArray'
+export type { TaperConfig, TaperType } from '@/dsp/tapers'
+export type { ElementPatternConfig, ElementPatternType } from '@/dsp/elementPatterns'
+export type { AdaptiveScenario } from '@/dsp/adaptiveBeamforming'
+export type { DoaScenario } from '@/dsp/doaEstimation'
+export type { EmitterKind, SignalEmitter } from '@/dsp/signalScene'
+export type { CancellerAlgorithm, CancellerSettings } from '@/dsp/sidelobeCanceller'
+export type { MaskNotch, PatternMask } from '@/dsp/patternSynthesis'
+export type { AmplitudeQuantization, QuantizationConfig } from '@/dsp/quantization'
+export type { ToleranceSettings, ToleranceSpec } from '@/dsp/toleranceAnalysis'
+export type { CodebookSettings, CodebookType } from '@/dsp/beamCodebook'
+export type { SubarrayConfig, SubarrayPartition } from '@/dsp/subarrays'
+export type { CellConfig } from '@/dsp/multiCell'
+export type { PropagationConfig, PropagationModel } from '@/dsp/propagation'
+export type { MediumDefinition, MediumId } from '@/dsp/media'
 
 // ============================================================================
 // PHYSICAL CONSTANTS & TYPES
@@ -11,14 +56,9 @@ export type { PhasedArrayConfig, ArrayGeometry } from '@/classes/PhasedArray'
 
 export type BeamAlgorithm = 'capon' | 'music' | 'das' | 'mvdr'
 export type WeightType = 'adaptive' | 'fixed'
-export type Medium = 'air' | 'water' | 'tissue'
-
-// Medium-specific speed of sound (m/s)
-export const SPEED_OF_SOUND: Record<Medium, number> = {
-  air: 343,
-  water: 1481,
-  tissue: 1540,
-}
+export type Medium = MediumId
+export type CoverageMode = 'off' | 'best-beam' | 'gain'
+export type CellMapMode = 'off' | 'sinr' | 'serving' | 'throughput'
 
 // ============================================================================
 // BEAMFORMING STATE INTERFACE
@@ -31,17 +71,33 @@ export interface BeamformingState {
   units: PhasedArrayConfig[]     // Array of phased array configurations
   activeUnitId: string           // Currently selected unit ID
 
+  // ─────────────────────────────────────────────────────────────────────────
+  // Signal Scene (receive mode)
+  // ─────────────────────────────────────────────────────────────────────────
+  emitters: SignalEmitter[]      // Signal sources and interferers seen by the arrays
+
   // ─────────────────────────────────────────────────────────────────────────
   // Global Physical Constants
   // ─────────────────────────────────────────────────────────────────────────
-  medium: Medium                 // Air, Water, or Tissue
+  medium: Medium                 // Id of a built-in or custom medium
   speedOfSound: number           // m/s (depends on medium)
+  customMedia: MediumDefinition[] // User-defined media of the media library
+  unknownMedium: MediumId | null // Requested medium id that is not registered (the default stands in)
+  propagation: PropagationConfig // Spreading and absorption of the field maps
 
   // ─────────────────────────────────────────────────────────────────────────
   // Algorithm Selection
   // ─────────────────────────────────────────────────────────────────────────
   algorithm: BeamAlgorithm       // Capon, MUSIC, DAS, MVDR
   weightType: WeightType         // Adaptive or Fixed weights
+  adaptiveScenario: AdaptiveScenario // MVDR/Capon robustness settings
+  doaScenario: DoaScenario       // Synthetic receive data for MUSIC/ESPRIT
+  patternMask: PatternMask       // Upper/lower dB mask for pattern synthesis
+  showPatternMask: boolean       // Draw the mask and synthesize against it
+  toleranceSettings: ToleranceSettings // Monte-Carlo element error analysis
+  squintSpan: number             // Swept band of the beam squint view, as a fraction of f₀
+  codebookSettings: CodebookSettings // Beam codebook of the active unit
+  cellBandwidth: number          // Channel bandwidth of the multi-cell analysis in Hz
 
   // ─────────────────────────────────────────────────────────────────────────
   // Real-Time Controls
@@ -50,6 +106,7 @@ export interface BeamformingState {
   scanSpeed: number              // Scan rate in Hz (1-60)
   scanRange: [number, number]    // Scan angle range [min, max] in degrees
   interferenceCancel: boolean    // Enable interference cancellation
+  cancellerSettings: CancellerSettings // Adaptive sidelobe canceller (LMS/RLS)
 
   // ─────────────────────────────────────────────────────────────────────────
   // Display Settings
@@ -58,6 +115,8 @@ export interface BeamformingState {
   showLabels: boolean            // Show angle labels
   colormap: 'viridis' | 'plasma' | 'inferno' | 'magma' | 'thermal' | 'turbo' | 'jet'
   dynamicRange: number           // dB range for display (20-80)
+  coverageMode: CoverageMode     // Codebook coverage overlay on the interference field
+  cellMapMode: CellMapMode       // Multi-cell SINR analysis in place of the interference field
 
   // ─────────────────────────────────────────────────────────────────────────
   // Legacy Compatibility (Computed from active unit)
@@ -69,7 +128,7 @@ export interface BeamformingState {
   spacingLambdaFraction: number  // d/λ ratio (computed)
   geometry: ArrayGeometry        // mirrors activeUnit.geometry
   steeringAngle: number          // mirrors activeUnit.steeringAngle
-  focusDistance: number          // Focal point in meters
+  focusDistance: number          // mirrors activeUnit.focusDistance (Infinity = far-field)
   phaseOffsets: number[]         // Per-element phase offsets (computed)
   weights: number[]              // Current weight vector
 }
@@ -88,15 +147,32 @@ export interface BeamformingActions {
   updateUnit: (id: string, updates: Partial<PhasedArrayConfig>) => void
   getActiveUnit: () => PhasedArrayConfig | undefined
   
+  // ─────────────────────────────────────────────────────────────────────────
+  // Signal Scene
+  // ─────────────────────────────────────────────────────────────────────────
+  addEmitter: (kind: EmitterKind, config?: Partial<SignalEmitter>) => string  // Returns new emitter ID
+  removeEmitter: (id: string) => void
+  updateEmitter: (id: string, updates: Partial<SignalEmitter>) => void
+  
   // ─────────────────────────────────────────────────────────────────────────
   // Scenario Loading
   // ─────────────────────────────────────────────────────────────────────────
-  loadScenarioConfig: (units: PhasedArrayConfig[], medium: Medium) => void
+  loadScenarioConfig: (
+    units: PhasedArrayConfig[],
+    medium: Medium,
+    propagation?: PropagationConfig,
+    media?: MediumDefinition[]  // Custom media of the scenario, added to the media library
+  ) => void
   
   // ─────────────────────────────────────────────────────────────────────────
   // Global Settings
   // ─────────────────────────────────────────────────────────────────────────
   setMedium: (medium: Medium) => void
+  setPropagation: (updates: Partial<PropagationConfig>) => void
+  addCustomMedium: (base?: Partial<MediumDefinition>) => string  // Returns new medium ID
+  updateCustomMedium: (id: MediumId, updates: Partial<MediumDefinition>) => void
+  commitCustomMedium: (id: MediumId) => void  // Rescales the units once a sound speed edit is done
+  removeCustomMedium: (id: MediumId) => void  // Falls back to the default medium if active
   
   // ─────────────────────────────────────────────────────────────────────────
   // Active Unit Shortcuts (Legacy Compatibility)
@@ -108,10 +184,29 @@ export interface BeamformingActions {
   setSteeringAngle: (angle: number) => void
   setFocusDistance: (distance: number) => void
   setCurvatureRadius: (radius: number) => void
+  setTaper: (taper: TaperConfig) => void
+  setElementPattern: (pattern: ElementPatternConfig) => void
+  toggleNull: (angle: number) => void  // Adds a null, or removes the one near `angle`
+  setNulls: (nulls: NullConstraint[]) => void
+  setQuantization: (updates: Partial<QuantizationConfig>) => void
+  setSteeringMode: (mode: SteeringMode) => void
+  addBeam: () => void                  // Splits the active unit into one more beam
+  updateBeam: (index: number, updates: Partial<BeamSpec>) => void
+  removeBeam: (index: number) => void  // Back to a single beam below two
+  setSubarrays: (updates: Partial<SubarrayConfig> | null) => void // null = fully analog
+  setCellConfig: (updates: Partial<CellConfig>) => void
   
   // Algorithm
   setAlgorithm: (algorithm: BeamAlgorithm) => void
   setWeightType: (weightType: WeightType) => void
+  setAdaptiveScenario: (updates: Partial<AdaptiveScenario>) => void
+  setDoaScenario: (updates: Partial<DoaScenario>) => void
+  setPatternMask: (updates: Partial<PatternMask>) => void
+  setShowPatternMask: (show: boolean) => void
+  setToleranceSettings: (updates: Partial<ToleranceSettings>) => void
+  setSquintSpan: (span: number) => void
+  setCodebookSettings: (updates: Partial<CodebookSettings>) => void
+  setCellBandwidth: (bandwidth: number) => void
   
   // Controls
   setIsPlaying: (playing: boolean) => void
@@ -119,6 +214,7 @@ export interface BeamformingActions {
   setScanSpeed: (speed: number) => void
   setScanRange: (range: [number, number]) => void
   setInterferenceCancel: (enabled: boolean) => void
+  setCancellerSettings: (updates: Partial<CancellerSettings>) => void
   triggerScan: () => void
   resetSimulation: () => void
   
@@ -127,6 +223,8 @@ export interface BeamformingActions {
   setShowLabels: (show: boolean) => void
   setColormap: (colormap: BeamformingState['colormap']) => void
   setDynamicRange: (range: number) => void
+  setCoverageMode: (mode: CoverageMode) => void
+  setCellMapMode: (mode: CellMapMode) => void
   
   // Computed helpers
   computePhaseOffsets: () => number[]
@@ -138,7 +236,7 @@ export interface BeamformingActions {
 // ============================================================================
 
 const DEFAULT_FREQUENCY = 1000 // 1 kHz
-const DEFAULT_MEDIUM: Medium = 'air'
+const DEFAULT_MEDIUM: Medium = DEFAULT_MEDIUM_ID
 const DEFAULT_SENSOR_COUNT = 8
 const DEFAULT_SPACING_FRACTION = 0.5 // λ/2
 
@@ -150,29 +248,65 @@ const computeSpacing = (wavelength: number, fraction: number): number => {
   return wavelength * fraction
 }
 
-const computePhaseOffsetsForSteering = (
-  sensorCount: number,
-  spacing: number,
-  wavelength: number,
-  steeringAngle: number
+// Steering phases come from the PhasedArray class so curved geometries and
+// focusing are phased from the real element coordinates
+const computeUnitPhaseOffsets = (unit: PhasedArrayConfig, medium: Medium): number[] => {
+  return PhasedArray.fromConfig(unit, medium).computePhaseOffsets()
+}
+
+// Phase offsets of the active unit within a (possibly updated) units list
+const computeActivePhaseOffsets = (
+  units: PhasedArrayConfig[],
+  activeUnitId: string,
+  medium: Medium
 ): number[] => {
-  const phases: number[] = []
-  const k = (2 * Math.PI) / wavelength // Wave number
-  const thetaRad = (steeringAngle * Math.PI) / 180
-  
-  for (let n = 0; n < sensorCount; n++) {
-    // Phase shift for element n to steer beam to theta
-    // φ_n = -k * d * n * sin(θ)
-    const phase = -k * spacing * n * Math.sin(thetaRad)
-    phases.push(phase)
-  }
-  
-  return phases
+  const activeUnit = units.find((u) => u.id === activeUnitId)
+  return activeUnit ? computeUnitPhaseOffsets(activeUnit, medium) : []
 }
 
+// Clicks within this many degrees of an existing null remove it
+const NULL_TOGGLE_TOLERANCE = 3
+
+// Simultaneous beams per unit; new beams open this far from the last one
+export const MAX_BEAMS = 4
+const NEW_BEAM_OFFSET = 30
+
+// The first beam follows the unit's steering angle
+const withPrimaryBeam = (beams: BeamSpec[] | undefined, steeringAngle: number): BeamSpec[] | undefined =>
+  beams?.map((b, i) => (i === 0 ? { ...b, steeringAngle } : b))
+
 // Generate unique ID for units
 const generateUnitId = (): string => `unit-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
 
+// Generate unique ID for custom media
+const generateMediumId = (): string => `medium-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+
+// Generate unique ID for scene emitters
+const generateEmitterId = (): string => `emitter-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`
+
+const EMITTER_LABELS: Record<EmitterKind, string> = {
+  source: 'Source',
+  interferer: 'Interferer',
+}
+
+// Create a co-channel far-field emitter with the default power of its kind
+const createEmitter = (kind: EmitterKind, angle: number, name: string): SignalEmitter => ({
+  id: generateEmitterId(),
+  name,
+  kind,
+  angle,
+  powerDb: kind === 'source' ? 10 : 30,
+  coherent: false,
+  enabled: true,
+})
+
+// A look-direction source and two strong interferers in the sidelobes
+const createDefaultEmitters = (): SignalEmitter[] => [
+  createEmitter('source', 0, 'Source 1'),
+  createEmitter('interferer', -35, 'Interferer 1'),
+  createEmitter('interferer', 50, 'Interferer 2'),
+]
+
 // Create default unit configuration
 const createDefaultUnitConfig = (
   id: string,
@@ -193,10 +327,37 @@ const createDefaultUnitConfig = (
     frequency: DEFAULT_FREQUENCY,
     steeringAngle: 0,
     amplitudes: new Array(DEFAULT_SENSOR_COUNT).fill(1),
+    taper: { ...DEFAULT_TAPER },
+    elementPattern: { ...DEFAULT_ELEMENT_PATTERN },
     enabled: true,
   }
 }
 
+// Derive the element count from planar grids and regenerate amplitudes from the
+// unit's taper when the layout or taper changes, unless the caller supplies
+// explicit amplitudes
+const withTaperAmplitudes = (
+  unit: PhasedArrayConfig,
+  updates: Partial<PhasedArrayConfig>
+): PhasedArrayConfig => {
+  const merged = { ...unit, ...updates, id: unit.id }
+  const next = { ...merged, elements: PhasedArray.elementCount(merged) }
+  const layoutChanged = next.elements !== unit.elements ||
+    updates.geometry !== undefined || updates.rows !== undefined || updates.columns !== undefined
+  const needsTaper = updates.amplitudes === undefined &&
+    (layoutChanged || updates.elements !== undefined || updates.taper !== undefined)
+  return needsTaper ? { ...next, amplitudes: PhasedArray.generateAmplitudes(next) } : next
+}
+
+// Keep the first beam on the unit's steering angle when only the angle is updated
+const withSteeredBeams = (
+  unit: PhasedArrayConfig,
+  updates: Partial<PhasedArrayConfig>
+): Partial<PhasedArrayConfig> =>
+  updates.steeringAngle !== undefined && !('beams' in updates) && unit.beams
+    ? { ...updates, beams: withPrimaryBeam(unit.beams, updates.steeringAngle) }
+    : updates
+
 // ============================================================================
 // STORE CREATION
 // ============================================================================
@@ -204,7 +365,7 @@ const createDefaultUnitConfig = (
 export const useBeamStore = create<BeamformingState & BeamformingActions>()(
   persist(
     (set, get) => {
-      const speedOfSound = SPEED_OF_SOUND[DEFAULT_MEDIUM]
+      const speedOfSound = getMedium(DEFAULT_MEDIUM).speedOfSound
       const initialUnitId = generateUnitId()
       const initialUnit = createDefaultUnitConfig(initialUnitId, speedOfSound)
       const initialWavelength = computeWavelength(DEFAULT_FREQUENCY, speedOfSound)
@@ -219,9 +380,15 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         units: [initialUnit],
         activeUnitId: initialUnitId,
         
+        // Signal scene
+        emitters: createDefaultEmitters(),
+        
         // Global settings
         medium: DEFAULT_MEDIUM,
         speedOfSound,
+        customMedia: [],
+        unknownMedium: null,
+        propagation: { ...DEFAULT_PROPAGATION },
         
         // Legacy compatibility (mirrors active unit)
         frequency: DEFAULT_FREQUENCY,
@@ -236,20 +403,31 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         weights: new Array(DEFAULT_SENSOR_COUNT).fill(1),
         
         // Algorithm
-        algorithm: 'capon',
-        weightType: 'adaptive',
+        algorithm: 'das',
+        weightType: 'fixed', // Adaptive weights replace the taper and beams, so they are opt-in
+        adaptiveScenario: { ...DEFAULT_ADAPTIVE_SCENARIO },
+        doaScenario: { ...DEFAULT_DOA_SCENARIO },
+        patternMask: { ...DEFAULT_PATTERN_MASK },
+        showPatternMask: false,
+        toleranceSettings: { ...DEFAULT_TOLERANCE_SETTINGS },
+        squintSpan: DEFAULT_SQUINT_SPAN,
+        codebookSettings: { ...DEFAULT_CODEBOOK_SETTINGS },
+        cellBandwidth: DEFAULT_CELL_BANDWIDTH,
         
         // Controls
         isPlaying: false,
         scanSpeed: 10,
         scanRange: [-90, 90],
-        interferenceCancel: true,
+        interferenceCancel: false, // The canceller adapts the designed weights, so it is opt-in
+        cancellerSettings: { ...DEFAULT_CANCELLER_SETTINGS },
         
         // Display
         showGrid: true,
         showLabels: true,
         colormap: 'viridis',
         dynamicRange: 40,
+        coverageMode: 'off',
+        cellMapMode: 'off',
         
         // ─────────────────────────────────────────────────────────────────────
         // Unit Management Actions
@@ -292,12 +470,8 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
               spacingLambdaFraction: activeUnit.pitch / wavelength,
               geometry: activeUnit.geometry,
               steeringAngle: activeUnit.steeringAngle,
-              phaseOffsets: computePhaseOffsetsForSteering(
-                activeUnit.elements,
-                activeUnit.pitch,
-                wavelength,
-                activeUnit.steeringAngle
-              ),
+              focusDistance: activeUnit.focusDistance || Infinity,
+              phaseOffsets: computeUnitPhaseOffsets(activeUnit, state.medium),
               weights: activeUnit.amplitudes || new Array(activeUnit.elements).fill(1),
             })
           }
@@ -319,12 +493,8 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
             spacingLambdaFraction: unit.pitch / wavelength,
             geometry: unit.geometry,
             steeringAngle: unit.steeringAngle,
-            phaseOffsets: computePhaseOffsetsForSteering(
-              unit.elements,
-              unit.pitch,
-              wavelength,
-              unit.steeringAngle
-            ),
+            focusDistance: unit.focusDistance || Infinity,
+            phaseOffsets: computeUnitPhaseOffsets(unit, state.medium),
             weights: unit.amplitudes || new Array(unit.elements).fill(1),
           })
         },
@@ -332,7 +502,7 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         updateUnit: (id: string, updates: Partial<PhasedArrayConfig>) => {
           const state = get()
           const newUnits = state.units.map((u) =>
-            u.id === id ? { ...u, ...updates, id: u.id } : u
+            u.id === id ? withTaperAmplitudes(u, withSteeredBeams(u, updates)) : u
           )
           
           set({ units: newUnits })
@@ -350,12 +520,8 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
                 spacingLambdaFraction: updatedUnit.pitch / wavelength,
                 geometry: updatedUnit.geometry,
                 steeringAngle: updatedUnit.steeringAngle,
-                phaseOffsets: computePhaseOffsetsForSteering(
-                  updatedUnit.elements,
-                  updatedUnit.pitch,
-                  wavelength,
-                  updatedUnit.steeringAngle
-                ),
+                focusDistance: updatedUnit.focusDistance || Infinity,
+                phaseOffsets: computeUnitPhaseOffsets(updatedUnit, state.medium),
                 weights: updatedUnit.amplitudes || new Array(updatedUnit.elements).fill(1),
               })
             }
@@ -367,14 +533,51 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
           return state.units.find((u) => u.id === state.activeUnitId)
         },
         
+        // ─────────────────────────────────────────────────────────────────────
+        // Signal Scene Actions
+        // ─────────────────────────────────────────────────────────────────────
+        
+        addEmitter: (kind, config) => {
+          const state = get()
+          const count = state.emitters.filter((e) => e.kind === kind).length + 1
+          const defaults = createEmitter(kind, 0, `${EMITTER_LABELS[kind]} ${count}`)
+          const emitter: SignalEmitter = {
+            ...defaults,
+            ...config,
+            id: defaults.id, // Ensure ID and kind are not overwritten
+            kind,
+          }
+          
+          set({ emitters: [...state.emitters, emitter] })
+          return emitter.id
+        },
+        
+        removeEmitter: (id) =>
+          set((state) => ({ emitters: state.emitters.filter((e) => e.id !== id) })),
+        
+        updateEmitter: (id, updates) =>
+          set((state) => ({
+            emitters: state.emitters.map((e) => (e.id === id ? { ...e, ...updates, id } : e)),
+          })),
+        
         // ─────────────────────────────────────────────────────────────────────
         // Scenario Loading
         // ─────────────────────────────────────────────────────────────────────
         
-        loadScenarioConfig: (units: PhasedArrayConfig[], medium: Medium) => {
+        loadScenarioConfig: (units, requestedMedium, propagation, media = []) => {
           if (units.length === 0) return
           
-          const speedOfSound = SPEED_OF_SOUND[medium]
+          // Scenario media replace library media of the same id
+          const scenarioMedia = media.filter((m) => !isBuiltInMedium(m.id)).map(sanitizeMedium)
+          const customMedia = [
+            ...get().customMedia.filter((m) => !scenarioMedia.some((s) => s.id === m.id)),
+            ...scenarioMedia,
+          ]
+          registerCustomMedia(customMedia)
+          const known = hasMedium(requestedMedium)
+          const medium = known ? requestedMedium : DEFAULT_MEDIUM
+          
+          const speedOfSound = getMedium(medium).speedOfSound
           const firstUnit = units[0]
           const wavelength = computeWavelength(firstUnit.frequency, speedOfSound)
           
@@ -382,7 +585,10 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
             units,
             activeUnitId: firstUnit.id,
             medium,
+            customMedia,
+            unknownMedium: known ? null : requestedMedium,
             speedOfSound,
+            propagation: { ...(propagation ?? DEFAULT_PROPAGATION) },
             // Sync legacy state with first unit
             frequency: firstUnit.frequency,
             wavelength,
@@ -391,12 +597,8 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
             spacingLambdaFraction: firstUnit.pitch / wavelength,
             geometry: firstUnit.geometry,
             steeringAngle: firstUnit.steeringAngle,
-            phaseOffsets: computePhaseOffsetsForSteering(
-              firstUnit.elements,
-              firstUnit.pitch,
-              wavelength,
-              firstUnit.steeringAngle
-            ),
+            focusDistance: firstUnit.focusDistance || Infinity,
+            phaseOffsets: computeUnitPhaseOffsets(firstUnit, medium),
             weights: firstUnit.amplitudes || new Array(firstUnit.elements).fill(1),
           })
         },
@@ -406,13 +608,14 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         // ─────────────────────────────────────────────────────────────────────
         
         setMedium: (medium) => {
+          if (!hasMedium(medium)) {
+            set({ unknownMedium: medium })
+            return
+          }
           const state = get()
-          const speedOfSound = SPEED_OF_SOUND[medium]
+          const speedOfSound = getMedium(medium).speedOfSound
           const wavelength = computeWavelength(state.frequency, speedOfSound)
           const spacing = computeSpacing(wavelength, state.spacingLambdaFraction)
-          const phaseOffsets = computePhaseOffsetsForSteering(
-            state.sensorCount, spacing, wavelength, state.steeringAngle
-          )
           
           // Update all units' pitch to maintain λ/2 spacing
           const newUnits = state.units.map((unit) => {
@@ -420,9 +623,11 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
             const unitPitch = computeSpacing(unitWavelength, state.spacingLambdaFraction)
             return { ...unit, pitch: unitPitch }
           })
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, medium)
           
           set({ 
             medium, 
+            unknownMedium: null,
             speedOfSound, 
             wavelength, 
             sensorSpacing: spacing, 
@@ -431,6 +636,46 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
           })
         },
         
+        setPropagation: (updates) =>
+          set((state) => ({ propagation: { ...state.propagation, ...updates } })),
+        
+        // Custom media are registered before any unit is recomputed with them
+        addCustomMedium: (base) => {
+          const state = get()
+          const template = getMedium(state.medium)
+          const medium = sanitizeMedium({
+            ...template,
+            name: `${template.name} (custom)`,
+            ...base,
+            id: generateMediumId(),
+          })
+          const customMedia = [...state.customMedia, medium]
+          registerCustomMedia(customMedia)
+          set({ customMedia })
+          return medium.id
+        },
+        
+        updateCustomMedium: (id, updates) => {
+          const state = get()
+          const customMedia = state.customMedia.map((m) => (m.id === id ? sanitizeMedium({ ...m, ...updates, id }) : m))
+          registerCustomMedia(customMedia)
+          set({ customMedia })
+        },
+        
+        // Rescaling every unit's pitch is left out of the edits themselves
+        commitCustomMedium: (id) => {
+          const state = get()
+          if (state.medium === id && getMedium(id).speedOfSound !== state.speedOfSound) state.setMedium(id)
+        },
+        
+        removeCustomMedium: (id) => {
+          const state = get()
+          const customMedia = state.customMedia.filter((m) => m.id !== id)
+          registerCustomMedia(customMedia)
+          set({ customMedia })
+          if (state.medium === id) get().setMedium(DEFAULT_MEDIUM)
+        },
+        
         // ─────────────────────────────────────────────────────────────────────
         // Legacy Compatibility Actions (Update active unit + legacy state)
         // ─────────────────────────────────────────────────────────────────────
@@ -439,9 +684,6 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
           const state = get()
           const wavelength = computeWavelength(freq, state.speedOfSound)
           const spacing = computeSpacing(wavelength, state.spacingLambdaFraction)
-          const phaseOffsets = computePhaseOffsetsForSteering(
-            state.sensorCount, spacing, wavelength, state.steeringAngle
-          )
           
           // Update active unit
           const newUnits = state.units.map((u) =>
@@ -449,6 +691,7 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
               ? { ...u, frequency: freq, pitch: spacing }
               : u
           )
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
           
           set({ 
             frequency: freq, 
@@ -461,27 +704,25 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         
         setSensorCount: (count) => {
           const state = get()
-          const phaseOffsets = computePhaseOffsetsForSteering(
-            count, state.sensorSpacing, state.wavelength, state.steeringAngle
-          )
-          const weights = new Array(count).fill(1)
+          const activeUnit = state.units.find((u) => u.id === state.activeUnitId)
+          const weights = activeUnit
+            ? PhasedArray.generateAmplitudes({ ...activeUnit, elements: count })
+            : generateTaper(undefined, count)
           
           // Update active unit
           const newUnits = state.units.map((u) =>
             u.id === state.activeUnitId 
-              ? { ...u, elements: count, amplitudes: weights }
+              ? { ...u, elements: weights.length, amplitudes: weights }
               : u
           )
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
           
-          set({ sensorCount: count, phaseOffsets, weights, units: newUnits })
+          set({ sensorCount: weights.length, phaseOffsets, weights, units: newUnits })
         },
         
         setSpacingLambdaFraction: (fraction) => {
           const state = get()
           const spacing = computeSpacing(state.wavelength, fraction)
-          const phaseOffsets = computePhaseOffsetsForSteering(
-            state.sensorCount, spacing, state.wavelength, state.steeringAngle
-          )
           
           // Update active unit
           const newUnits = state.units.map((u) =>
@@ -489,6 +730,7 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
               ? { ...u, pitch: spacing }
               : u
           )
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
           
           set({ 
             spacingLambdaFraction: fraction, 
@@ -504,30 +746,49 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
           // Update active unit
           const newUnits = state.units.map((u) =>
             u.id === state.activeUnitId 
-              ? { ...u, geometry }
+              ? withTaperAmplitudes(u, { geometry })
               : u
           )
+          const activeUnit = newUnits.find((u) => u.id === state.activeUnitId)
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
           
-          set({ geometry, units: newUnits })
+          set({
+            geometry,
+            phaseOffsets,
+            units: newUnits,
+            sensorCount: activeUnit?.elements ?? state.sensorCount,
+            weights: activeUnit?.amplitudes ?? state.weights,
+          })
         },
         
         setSteeringAngle: (angle) => {
           const state = get()
-          const phaseOffsets = computePhaseOffsetsForSteering(
-            state.sensorCount, state.sensorSpacing, state.wavelength, angle
-          )
-          
           // Update active unit
           const newUnits = state.units.map((u) =>
             u.id === state.activeUnitId 
-              ? { ...u, steeringAngle: angle }
+              ? { ...u, steeringAngle: angle, beams: withPrimaryBeam(u.beams, angle) }
               : u
           )
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
           
           set({ steeringAngle: angle, phaseOffsets, units: newUnits })
         },
         
-        setFocusDistance: (distance) => set({ focusDistance: distance }),
+        setFocusDistance: (distance) => {
+          const state = get()
+          // Non-finite distances switch the active unit back to far-field steering
+          const focusDistance = Number.isFinite(distance) && distance > 0 ? distance : undefined
+          
+          // Update active unit
+          const newUnits = state.units.map((u) =>
+            u.id === state.activeUnitId 
+              ? { ...u, focusDistance }
+              : u
+          )
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
+          
+          set({ focusDistance: focusDistance ?? Infinity, phaseOffsets, units: newUnits })
+        },
         
         setCurvatureRadius: (radius) => {
           const state = get()
@@ -538,8 +799,98 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
               ? { ...u, curvatureRadius: radius }
               : u
           )
+          const phaseOffsets = computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium)
           
-          set({ units: newUnits })
+          set({ phaseOffsets, units: newUnits })
+        },
+        
+        setTaper: (taper) => {
+          const state = get()
+          state.updateUnit(state.activeUnitId, { taper })
+        },
+        
+        setElementPattern: (elementPattern) => {
+          const state = get()
+          state.updateUnit(state.activeUnitId, { elementPattern })
+        },
+        
+        toggleNull: (angle) => {
+          const state = get()
+          const nulls = state.getActiveUnit()?.nulls ?? []
+          const remaining = nulls.filter((n) => Math.abs(n.angle - angle) > NULL_TOGGLE_TOLERANCE)
+          state.setNulls(
+            remaining.length < nulls.length ? remaining : [...nulls, { angle: Math.round(angle) }]
+          )
+        },
+        
+        setNulls: (nulls) => {
+          const state = get()
+          state.updateUnit(state.activeUnitId, { nulls: nulls.length > 0 ? nulls : undefined })
+        },
+        
+        setQuantization: (updates) => {
+          const state = get()
+          const quantization = state.getActiveUnit()?.quantization ?? DEFAULT_QUANTIZATION
+          state.updateUnit(state.activeUnitId, { quantization: { ...quantization, ...updates } })
+        },
+        
+        setSteeringMode: (steeringMode) => {
+          const state = get()
+          state.updateUnit(state.activeUnitId, { steeringMode })
+        },
+        
+        addBeam: () => {
+          const state = get()
+          const unit = state.getActiveUnit()
+          if (!unit) return
+          const beams = unit.beams ?? [{ steeringAngle: unit.steeringAngle, power: 1, phase: 0 }]
+          if (beams.length >= MAX_BEAMS) return
+          const angle = beams[beams.length - 1].steeringAngle + NEW_BEAM_OFFSET
+          state.updateUnit(state.activeUnitId, {
+            beams: [...beams, { steeringAngle: angle > 80 ? angle - 2 * NEW_BEAM_OFFSET : angle, power: 1, phase: 0 }],
+          })
+        },
+        
+        updateBeam: (index, updates) => {
+          const state = get()
+          const unit = state.getActiveUnit()
+          if (!unit?.beams?.[index]) return
+          const beams = unit.beams.map((b, i) => (i === index ? { ...b, ...updates } : b))
+          state.updateUnit(state.activeUnitId, { beams, steeringAngle: beams[0].steeringAngle })
+        },
+        
+        removeBeam: (index) => {
+          const state = get()
+          const unit = state.getActiveUnit()
+          if (!unit?.beams) return
+          const beams = unit.beams.filter((_, i) => i !== index)
+          state.updateUnit(state.activeUnitId, {
+            beams: beams.length > 1 ? beams : undefined,
+            steeringAngle: beams[0]?.steeringAngle ?? unit.steeringAngle,
+          })
+        },
+        
+        setSubarrays: (updates) => {
+          const state = get()
+          const unit = state.getActiveUnit()
+          if (!unit) return
+          if (!updates) {
+            state.updateUnit(state.activeUnitId, { subarrays: undefined })
+            return
+          }
+          const subarrays = { ...(unit.subarrays ?? DEFAULT_SUBARRAYS), ...updates }
+          // A custom partition starts from the partition it replaces
+          if (subarrays.partition === 'custom' && !subarrays.assignment) {
+            const previous = unit.subarrays ?? DEFAULT_SUBARRAYS
+            subarrays.assignment = partitionAxis(previous, PhasedArray.fromConfig(unit).axisElements)
+          }
+          state.updateUnit(state.activeUnitId, { subarrays })
+        },
+        
+        setCellConfig: (updates) => {
+          const state = get()
+          const cell = state.getActiveUnit()?.cell ?? DEFAULT_CELL
+          state.updateUnit(state.activeUnitId, { cell: { ...cell, ...updates } })
         },
         
         // ─────────────────────────────────────────────────────────────────────
@@ -548,12 +899,27 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         
         setAlgorithm: (algorithm) => set({ algorithm }),
         setWeightType: (weightType) => set({ weightType }),
+        setAdaptiveScenario: (updates) =>
+          set((state) => ({ adaptiveScenario: { ...state.adaptiveScenario, ...updates } })),
+        setDoaScenario: (updates) =>
+          set((state) => ({ doaScenario: { ...state.doaScenario, ...updates } })),
+        setPatternMask: (updates) =>
+          set((state) => ({ patternMask: { ...state.patternMask, ...updates } })),
+        setShowPatternMask: (showPatternMask) => set({ showPatternMask }),
+        setToleranceSettings: (updates) =>
+          set((state) => ({ toleranceSettings: { ...state.toleranceSettings, ...updates } })),
+        setSquintSpan: (span) => set({ squintSpan: Math.max(0.02, Math.min(1, span)) }),
+        setCodebookSettings: (updates) =>
+          set((state) => ({ codebookSettings: { ...state.codebookSettings, ...updates } })),
+        setCellBandwidth: (bandwidth) => set({ cellBandwidth: Math.max(1, bandwidth) }),
         
         setIsPlaying: (playing) => set({ isPlaying: playing }),
         togglePlayPause: () => set((state) => ({ isPlaying: !state.isPlaying })),
         setScanSpeed: (speed) => set({ scanSpeed: Math.max(1, Math.min(60, speed)) }),
         setScanRange: (range) => set({ scanRange: range }),
         setInterferenceCancel: (enabled) => set({ interferenceCancel: enabled }),
+        setCancellerSettings: (updates) =>
+          set((state) => ({ cancellerSettings: { ...state.cancellerSettings, ...updates } })),
         
         triggerScan: () => {
           set({ isPlaying: true })
@@ -567,27 +933,27 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
           // Reset active unit
           const newUnits = state.units.map((u) =>
             u.id === state.activeUnitId 
-              ? {
-                  ...u,
+              ? withTaperAmplitudes(u, {
                   frequency: DEFAULT_FREQUENCY,
                   elements: DEFAULT_SENSOR_COUNT,
                   pitch: spacing,
                   steeringAngle: 0,
-                  amplitudes: new Array(DEFAULT_SENSOR_COUNT).fill(1),
-                }
+                  steeringPhi: 0,
+                })
               : u
           )
+          const activeUnit = newUnits.find((u) => u.id === state.activeUnitId)
           
           set({
             frequency: DEFAULT_FREQUENCY,
             wavelength,
-            sensorCount: DEFAULT_SENSOR_COUNT,
+            sensorCount: activeUnit?.elements ?? DEFAULT_SENSOR_COUNT,
             sensorSpacing: spacing,
             spacingLambdaFraction: DEFAULT_SPACING_FRACTION,
             steeringAngle: 0,
             isPlaying: false,
-            phaseOffsets: new Array(DEFAULT_SENSOR_COUNT).fill(0),
-            weights: new Array(DEFAULT_SENSOR_COUNT).fill(1),
+            phaseOffsets: computeActivePhaseOffsets(newUnits, state.activeUnitId, state.medium),
+            weights: activeUnit?.amplitudes ?? new Array(DEFAULT_SENSOR_COUNT).fill(1),
             units: newUnits,
           })
         },
@@ -600,6 +966,8 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         setShowLabels: (show) => set({ showLabels: show }),
         setColormap: (colormap) => set({ colormap }),
         setDynamicRange: (range) => set({ dynamicRange: Math.max(20, Math.min(80, range)) }),
+        setCoverageMode: (coverageMode) => set({ coverageMode }),
+        setCellMapMode: (cellMapMode) => set({ cellMapMode }),
         
         // ─────────────────────────────────────────────────────────────────────
         // Computed Helpers
@@ -607,9 +975,7 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
         
         computePhaseOffsets: () => {
           const state = get()
-          return computePhaseOffsetsForSteering(
-            state.sensorCount, state.sensorSpacing, state.wavelength, state.steeringAngle
-          )
+          return computeActivePhaseOffsets(state.units, state.activeUnitId, state.medium)
         },
         
         computeWavelength: () => {
@@ -620,22 +986,59 @@ export const useBeamStore = create<BeamformingState & BeamformingActions>()(
     },
     {
       name: 'beam-storage',
+      version: 1,
+      // Version 0 predates the signal scene, the media library and propagation,
+      // and saved the canceller toggle (on by default) back when it had no effect
+      migrate: (persisted, version) => {
+        const state = persisted as Partial<BeamformingState>
+        if (version > 0) return state as BeamformingState & BeamformingActions
+        return {
+          ...state,
+          emitters: state.emitters ?? createDefaultEmitters(),
+          customMedia: state.customMedia ?? [],
+          propagation: { ...DEFAULT_PROPAGATION, ...state.propagation },
+          interferenceCancel: false,
+        } as BeamformingState & BeamformingActions
+      },
       partialize: (state) => ({
         // Persist units array for multi-array support
         units: state.units,
         activeUnitId: state.activeUnitId,
+        emitters: state.emitters,
         // Persist global preferences
         medium: state.medium,
+        customMedia: state.customMedia,
+        propagation: state.propagation,
         algorithm: state.algorithm,
         weightType: state.weightType,
+        adaptiveScenario: state.adaptiveScenario,
+        doaScenario: state.doaScenario,
+        patternMask: state.patternMask,
+        toleranceSettings: state.toleranceSettings,
+        squintSpan: state.squintSpan,
+        codebookSettings: state.codebookSettings,
+        cellBandwidth: state.cellBandwidth,
         scanSpeed: state.scanSpeed,
         scanRange: state.scanRange,
         interferenceCancel: state.interferenceCancel,
+        cancellerSettings: state.cancellerSettings,
         showGrid: state.showGrid,
         showLabels: state.showLabels,
         colormap: state.colormap,
         dynamicRange: state.dynamicRange,
       }),
+      // Units saved in a custom medium need it registered before they are used;
+      // a saved id that no longer resolves is reported rather than used as air
+      onRehydrateStorage: () => (state) => {
+        if (!state) return
+        registerCustomMedia(state.customMedia ?? [])
+        const known = hasMedium(state.medium)
+        useBeamStore.setState({
+          medium: known ? state.medium : DEFAULT_MEDIUM,
+          unknownMedium: known ? null : state.medium,
+          speedOfSound: getMedium(known ? state.medium : DEFAULT_MEDIUM).speedOfSound,
+        })
+      },
     }
   )
 )
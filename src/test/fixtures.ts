@@ -0,0 +1,12 @@
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+
+/** Default unit config with the given overrides; its amplitudes follow the taper unless overridden */
+export const makeUnitConfig = (overrides: Partial<PhasedArrayConfig> = {}): PhasedArrayConfig => ({
+  ...PhasedArray.createDefaultConfig('test'),
+  amplitudes: undefined,
+  ...overrides,
+})
+
+/** Array of makeUnitConfig(overrides) in air */
+export const makeTestArray = (overrides: Partial<PhasedArrayConfig> = {}): PhasedArray =>
+  new PhasedArray(makeUnitConfig(overrides), 'air')
@@ -0,0 +1,40 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { downloadPlot } from './download'
+
+const savedNames = () => {
+  const names: string[] = []
+  vi.spyOn(HTMLAnchorElement.prototype, 'click').mockImplementation(function (this: HTMLAnchorElement) {
+    names.push(this.download)
+  })
+  return names
+}
+
+describe('downloadPlot', () => {
+  afterEach(() => vi.restoreAllMocks())
+
+  it('saves the largest canvas as PNG', () => {
+    const names = savedNames()
+    const container = document.createElement('div')
+    const small = document.createElement('canvas')
+    const large = document.createElement('canvas')
+    large.width = 800
+    container.append(small, large)
+    const toBlob = vi
+      .spyOn(HTMLCanvasElement.prototype, 'toBlob')
+      .mockImplementation((callback) => callback(new Blob(['png'], { type: 'image/png' })))
+
+    expect(downloadPlot(container, 'plot')).toBe(true)
+    expect(toBlob.mock.contexts).toEqual([large])
+    expect(names).toEqual(['plot.png'])
+  })
+
+  it('falls back to the SVG drawing without a canvas', () => {
+    const names = savedNames()
+    const container = document.createElement('div')
+    container.innerHTML = '<svg viewBox="0 0 10 10"><circle r="4" /></svg>'
+
+    expect(downloadPlot(container, 'layout')).toBe(true)
+    expect(names).toEqual(['layout.svg'])
+    expect(downloadPlot(document.createElement('div'), 'empty')).toBe(false)
+  })
+})
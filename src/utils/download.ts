@@ -0,0 +1,44 @@
+/**
+ * Browser downloads: content is saved through a temporary object URL and link.
+ */
+
+/** Save a blob as a file */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  URL.revokeObjectURL(url)
+}
+
+/** Save text as a file */
+export function downloadText(content: string, filename: string, type: string): void {
+  downloadBlob(new Blob([content], { type }), filename)
+}
+
+/**
+ * Save the plot drawn in `container` as `${basename}.png` (its largest
+ * canvas) or, without a canvas, as `${basename}.svg` (its first SVG drawing).
+ * Returns false when the container holds neither.
+ */
+export function downloadPlot(container: HTMLElement, basename: string): boolean {
+  const canvases = Array.from(container.querySelectorAll('canvas'))
+  if (canvases.length > 0) {
+    const canvas = canvases.reduce((largest, c) =>
+      c.width * c.height > largest.width * largest.height ? c : largest
+    )
+    canvas.toBlob((blob) => {
+      if (blob) downloadBlob(blob, `${basename}.png`)
+    }, 'image/png')
+    return true
+  }
+
+  const svg = container.querySelector('svg')
+  if (!svg) return false
+  const markup = new XMLSerializer().serializeToString(svg)
+  downloadText(markup, `${basename}.svg`, 'image/svg+xml')
+  return true
+}
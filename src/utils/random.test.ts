@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest'
+import { complexGaussian, createRng, gaussian } from './random'
+
+describe('random', () => {
+  it('reproduces the same sequence for the same seed', () => {
+    const a = createRng(42)
+    const b = createRng(42)
+    const c = createRng(43)
+    const first = Array.from({ length: 5 }, a)
+    expect(Array.from({ length: 5 }, b)).toEqual(first)
+    expect(Array.from({ length: 5 }, c)).not.toEqual(first)
+    first.forEach((x) => {
+      expect(x).toBeGreaterThanOrEqual(0)
+      expect(x).toBeLessThan(1)
+    })
+  })
+
+  it('draws unit-variance Gaussians and unit-power complex samples', () => {
+    const rng = createRng(7)
+    const n = 20000
+    const samples = Array.from({ length: n }, () => gaussian(rng))
+    const mean = samples.reduce((s, x) => s + x, 0) / n
+    const variance = samples.reduce((s, x) => s + (x - mean) ** 2, 0) / n
+    expect(Math.abs(mean)).toBeLessThan(0.03)
+    expect(Math.abs(variance - 1)).toBeLessThan(0.05)
+
+    const power = Array.from({ length: n }, () => complexGaussian(rng, 2))
+      .reduce((s, z) => s + z.re * z.re + z.im * z.im, 0) / n
+    expect(Math.abs(power - 2)).toBeLessThan(0.1)
+  })
+})
@@ -0,0 +1,33 @@
+/**
+ * Seeded pseudo-random numbers for reproducible simulations.
+ *
+ * Monte-Carlo style features (synthetic snapshots, tolerance runs) draw from
+ * these generators so the same seed reproduces the same result everywhere,
+ * including inside workers.
+ */
+
+export type Rng = () => number
+
+/** Mulberry32: fast 32-bit generator returning uniforms in [0, 1) */
+export function createRng(seed: number): Rng {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/** Standard normal sample (Box-Muller) */
+export function gaussian(rng: Rng): number {
+  const u = Math.max(rng(), Number.MIN_VALUE)
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng())
+}
+
+/** Circular complex Gaussian sample with E|z|² = power */
+export function complexGaussian(rng: Rng, power = 1): { re: number; im: number } {
+  const scale = Math.sqrt(power / 2)
+  return { re: scale * gaussian(rng), im: scale * gaussian(rng) }
+}
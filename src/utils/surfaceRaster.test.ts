@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import type { PatternGrid } from '@/classes/PhasedArray'
+import { projectPoint, rasterizePatternSurface } from './surfaceRaster'
+
+// Unit-gain pattern: the surface is the unit sphere
+const sphereGrid = (thetaStep: number, phiStep: number): PatternGrid => {
+  const theta = Array.from({ length: 180 / thetaStep + 1 }, (_, i) => i * thetaStep)
+  const phi = Array.from({ length: 360 / phiStep + 1 }, (_, j) => -180 + j * phiStep)
+  return { theta, phi, magnitude: new Float32Array(theta.length * phi.length).fill(1) }
+}
+
+describe('surfaceRaster', () => {
+  const frontView = { yaw: 0, pitch: 0, zoom: 1 }
+
+  it('projects broadside up and +z toward the viewer', () => {
+    const broadside = projectPoint({ x: 0, y: -1, z: 0 }, frontView, 100, 100)
+    expect(broadside.x).toBeCloseTo(50, 9)
+    expect(broadside.y).toBeCloseTo(10, 9)
+    expect(projectPoint({ x: 0, y: 0, z: 1 }, frontView, 100, 100).depth).toBeCloseTo(1, 9)
+  })
+
+  it('fills the silhouette and keeps the nearest surface in the z-buffer', () => {
+    const grid = sphereGrid(5, 10)
+    const { pixels, cells } = rasterizePatternSurface(grid, frontView, 80, 80, { floorDb: -40 })
+
+    expect(pixels).toHaveLength(80 * 80 * 4)
+    expect(cells[0]).toBe(-1)
+
+    // The sphere point facing the viewer is θ = 90°, φ = 90° (+z)
+    const cell = cells[40 * 80 + 40]
+    expect(cell).toBeGreaterThanOrEqual(0)
+    expect(Math.abs(grid.theta[cell % grid.theta.length] - 90)).toBeLessThanOrEqual(5)
+    expect(Math.abs(grid.phi[Math.floor(cell / grid.theta.length)] - 90)).toBeLessThanOrEqual(10)
+  })
+
+  it('collapses gains at or below the floor to the origin', () => {
+    const grid = sphereGrid(10, 20)
+    grid.magnitude.fill(0.001) // -60 dB
+    const { cells } = rasterizePatternSurface(grid, frontView, 40, 40, { floorDb: -40 })
+    expect(cells.every((c) => c === -1)).toBe(true)
+  })
+})
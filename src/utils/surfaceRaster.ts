@@ -0,0 +1,190 @@
+/**
+ * Software rasterizer for 3D radiation pattern surfaces.
+ *
+ * The pattern is drawn as a radial surface r(θ, φ) = normalized dB gain along
+ * û(θ, φ), triangulated from a PatternGrid and filled with a z-buffer so the
+ * viewer needs nothing beyond a 2D canvas.
+ */
+
+import type { PatternGrid, Position3D } from '@/classes/PhasedArray'
+import { getColormap, type ColormapName } from './colormap'
+
+export interface View3D {
+  yaw: number    // Rotation about the broadside axis (radians)
+  pitch: number  // Tilt toward the viewer (radians)
+  zoom: number   // Scale factor (1 = surface radius fills 40% of the viewport)
+}
+
+export const DEFAULT_VIEW_3D: View3D = {
+  yaw: Math.PI / 6,
+  pitch: Math.PI / 9,
+  zoom: 1,
+}
+
+export interface SurfaceRasterOptions {
+  floorDb: number           // Gain mapped to radius 0 (negative dB)
+  colormap?: ColormapName
+  background?: readonly [number, number, number]
+}
+
+export interface SurfaceRaster {
+  pixels: Uint8ClampedArray
+  /** Grid index (iPhi * theta.length + iTheta) of the cell under each pixel, -1 for background */
+  cells: Int32Array
+}
+
+interface ScreenPoint {
+  x: number
+  y: number
+  depth: number
+}
+
+/**
+ * Project a world point (array frame: x right, −y broadside, z out of the
+ * x–y plane) to screen coordinates. Broadside points up before rotation.
+ */
+export function projectPoint(point: Position3D, view: View3D, width: number, height: number): ScreenPoint {
+  // Display frame: X right, Y up (broadside), Z toward the viewer
+  const X = point.x
+  const Y = -point.y
+  const Z = point.z
+
+  // Yaw about the vertical (broadside) axis, then pitch about the screen X axis
+  const cosYaw = Math.cos(view.yaw)
+  const sinYaw = Math.sin(view.yaw)
+  const x1 = X * cosYaw + Z * sinYaw
+  const z1 = -X * sinYaw + Z * cosYaw
+
+  const cosPitch = Math.cos(view.pitch)
+  const sinPitch = Math.sin(view.pitch)
+  const y2 = Y * cosPitch - z1 * sinPitch
+  const z2 = Y * sinPitch + z1 * cosPitch
+
+  const scale = view.zoom * Math.min(width, height) * 0.4
+  return {
+    x: width / 2 + x1 * scale,
+    y: height / 2 - y2 * scale,
+    depth: z2,
+  }
+}
+
+const dbToRadius = (magnitude: number, floorDb: number): number => {
+  if (magnitude <= 0) return 0
+  const dB = 20 * Math.log10(magnitude)
+  return Math.max(0, Math.min(1, (dB - floorDb) / -floorDb))
+}
+
+/**
+ * Rasterize a pattern grid as a shaded, colormapped surface.
+ *
+ * @param grid - Pattern sampled by PhasedArray.computePatternGrid
+ * @param view - Camera rotation and zoom
+ * @param width - Output width in pixels
+ * @param height - Output height in pixels
+ */
+export function rasterizePatternSurface(
+  grid: PatternGrid,
+  view: View3D,
+  width: number,
+  height: number,
+  options: SurfaceRasterOptions
+): SurfaceRaster {
+  const { floorDb, colormap = 'turbo', background = [15, 17, 26] } = options
+  const colorFn = getColormap(colormap)
+  const thetaCount = grid.theta.length
+  const phiCount = grid.phi.length
+
+  const pixels = new Uint8ClampedArray(width * height * 4)
+  const cells = new Int32Array(width * height).fill(-1)
+  const depthBuffer = new Float32Array(width * height).fill(-Infinity)
+
+  for (let i = 0; i < width * height; i++) {
+    pixels[i * 4] = background[0]
+    pixels[i * 4 + 1] = background[1]
+    pixels[i * 4 + 2] = background[2]
+    pixels[i * 4 + 3] = 255
+  }
+
+  // Project every vertex once
+  const screen: ScreenPoint[] = new Array(thetaCount * phiCount)
+  const radius = new Float32Array(thetaCount * phiCount)
+  for (let j = 0; j < phiCount; j++) {
+    const phi = (grid.phi[j] * Math.PI) / 180
+    for (let i = 0; i < thetaCount; i++) {
+      const idx = j * thetaCount + i
+      const theta = (grid.theta[i] * Math.PI) / 180
+      const r = dbToRadius(grid.magnitude[idx], floorDb)
+      const point = {
+        x: r * Math.sin(theta) * Math.cos(phi),
+        y: -r * Math.cos(theta),
+        z: r * Math.sin(theta) * Math.sin(phi),
+      }
+      radius[idx] = r
+      screen[idx] = projectPoint(point, view, width, height)
+    }
+  }
+
+  const fillTriangle = (a: number, b: number, c: number, cell: number) => {
+    const p0 = screen[a]
+    const p1 = screen[b]
+    const p2 = screen[c]
+    const area = (p1.x - p0.x) * (p2.y - p0.y) - (p2.x - p0.x) * (p1.y - p0.y)
+    if (Math.abs(area) < 1e-9) return
+
+    // Flat Lambert shading from the screen-space normal (light along the view axis)
+    const ux = p1.x - p0.x
+    const uy = p1.y - p0.y
+    const uz = p1.depth - p0.depth
+    const vx = p2.x - p0.x
+    const vy = p2.y - p0.y
+    const vz = p2.depth - p0.depth
+    const scale = view.zoom * Math.min(width, height) * 0.4
+    const nx = (uy * vz - uz * vy) / scale
+    const ny = (uz * vx - ux * vz) / scale
+    const nz = (ux * vy - uy * vx) / (scale * scale)
+    const length = Math.hypot(nx, ny, nz)
+    const shade = length > 0 ? 0.35 + 0.65 * Math.abs(nz / length) : 1
+
+    const minX = Math.max(0, Math.floor(Math.min(p0.x, p1.x, p2.x)))
+    const maxX = Math.min(width - 1, Math.ceil(Math.max(p0.x, p1.x, p2.x)))
+    const minY = Math.max(0, Math.floor(Math.min(p0.y, p1.y, p2.y)))
+    const maxY = Math.min(height - 1, Math.ceil(Math.max(p0.y, p1.y, p2.y)))
+
+    for (let y = minY; y <= maxY; y++) {
+      const py = y + 0.5
+      for (let x = minX; x <= maxX; x++) {
+        const px = x + 0.5
+        // Barycentric weights from edge functions
+        const w0 = ((p1.x - px) * (p2.y - py) - (p2.x - px) * (p1.y - py)) / area
+        const w1 = ((p2.x - px) * (p0.y - py) - (p0.x - px) * (p2.y - py)) / area
+        const w2 = 1 - w0 - w1
+        if (w0 < 0 || w1 < 0 || w2 < 0) continue
+
+        const depth = w0 * p0.depth + w1 * p1.depth + w2 * p2.depth
+        const pixel = y * width + x
+        if (depth <= depthBuffer[pixel]) continue
+        depthBuffer[pixel] = depth
+
+        const value = w0 * radius[a] + w1 * radius[b] + w2 * radius[c]
+        const [r, g, bl] = colorFn(value)
+        pixels[pixel * 4] = r * shade
+        pixels[pixel * 4 + 1] = g * shade
+        pixels[pixel * 4 + 2] = bl * shade
+        cells[pixel] = cell
+      }
+    }
+  }
+
+  for (let j = 0; j < phiCount - 1; j++) {
+    for (let i = 0; i < thetaCount - 1; i++) {
+      const a = j * thetaCount + i
+      const b = a + 1
+      const c = a + thetaCount
+      const d = c + 1
+      fillTriangle(a, b, d, a)
+      fillTriangle(a, d, c, a)
+    }
+  }
+
+  return { pixels, cells }
+}
@@ -0,0 +1,136 @@
+import { describe, expect, it } from 'vitest'
+import { computeInterferenceField, type SimulationConfig } from './beam-simulator.worker'
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { makeUnitConfig } from '@/test/fixtures'
+
+const FIELD_SIZE = 2
+const GRID_SIZE = 200
+
+const makeUnit = (overrides: Partial<PhasedArrayConfig>): PhasedArrayConfig =>
+  makeUnitConfig({
+    elements: 8,
+    pitch: 0.02,
+    frequency: 8575, // λ ≈ 4 cm in air, pitch = λ/2
+    ...overrides,
+  })
+
+// Angle (degrees from broadside) of the strongest pixel on a ring around the array
+const peakAngleOnRing = (unit: PhasedArrayConfig, radius: number) => {
+  const array = PhasedArray.fromConfig(unit, 'air')
+  const config: SimulationConfig = {
+    units: [unit],
+    medium: 'air',
+    gridSize: { width: GRID_SIZE, height: GRID_SIZE },
+    wavelength: array.wavelength,
+    fieldSize: { width: FIELD_SIZE, height: FIELD_SIZE },
+    normalize: true,
+  }
+  const { intensityMap } = computeInterferenceField(config)
+  const step = FIELD_SIZE / GRID_SIZE
+
+  let bestAngle = 0
+  let bestValue = -Infinity
+  for (let angle = -80; angle <= 80; angle += 0.5) {
+    const rad = (angle * Math.PI) / 180
+    const x = unit.position.x + radius * Math.sin(rad)
+    const y = unit.position.y - radius * Math.cos(rad)
+    const px = Math.round((x + FIELD_SIZE / 2) / step)
+    const py = Math.round((y + FIELD_SIZE / 2) / step)
+    const value = intensityMap[py * GRID_SIZE + px]
+    if (value > bestValue) {
+      bestValue = value
+      bestAngle = angle
+    }
+  }
+  return bestAngle
+}
+
+describe('beam-simulator worker steering', () => {
+  it.each([-40, -15, 0, 20, 45])('points a linear array beam at %i°', (steeringAngle) => {
+    const unit = makeUnit({ position: { x: 0, y: 0.5 }, steeringAngle })
+    expect(Math.abs(peakAngleOnRing(unit, 0.8) - steeringAngle)).toBeLessThanOrEqual(3)
+  })
+
+  it.each([-40, -15, 0, 20, 45])('points a curved array beam at %i°', (steeringAngle) => {
+    const unit = makeUnit({
+      position: { x: 0, y: 0.5 },
+      geometry: 'curved',
+      curvatureRadius: 0.1,
+      steeringAngle,
+    })
+    expect(Math.abs(peakAngleOnRing(unit, 0.8) - steeringAngle)).toBeLessThanOrEqual(3)
+  })
+})
+
+describe('beam-simulator worker element patterns', () => {
+  it('matches PhasedArray.computeIntensityAt and is silent behind cosine elements', () => {
+    const unit = makeUnit({ elementPattern: { type: 'cosine', exponent: 2 } })
+    const array = PhasedArray.fromConfig(unit, 'air')
+    const { intensityMap } = computeInterferenceField({
+      units: [unit],
+      medium: 'air',
+      gridSize: { width: 20, height: 20 },
+      wavelength: array.wavelength,
+      fieldSize: { width: FIELD_SIZE, height: FIELD_SIZE },
+      normalize: false,
+    })
+
+    // Pixel (px, py) sits at (px·0.1 − 1, py·0.1 − 1); the array is at the origin facing −y
+    expect(intensityMap[15 * 20 + 12]).toBe(0)
+    expect(intensityMap[3 * 20 + 12]).toBeCloseTo(array.computeIntensityAt(0.2, -0.7), 4)
+  })
+})
+
+describe('beam-simulator worker multi-frequency superposition', () => {
+  const simulate = (units: PhasedArrayConfig[]) =>
+    computeInterferenceField({
+      units,
+      medium: 'air',
+      gridSize: { width: 20, height: 20 },
+      wavelength: 1, // ignored: units propagate at their own frequency
+      fieldSize: { width: FIELD_SIZE, height: FIELD_SIZE },
+      normalize: false,
+    })
+
+  const a = makeUnit({ id: 'a', position: { x: -0.3, y: 0.5 } })
+  const b = makeUnit({ id: 'b', position: { x: 0.3, y: 0.5 }, steeringAngle: 10 })
+  const fieldOf = (unit: PhasedArrayConfig) => PhasedArray.fromConfig(unit, 'air').computeFieldAt(0.2, -0.7)
+
+  it('adds units at one frequency coherently', () => {
+    const { intensityMap, groups } = simulate([a, b])
+    const [fa, fb] = [fieldOf(a), fieldOf(b)]
+
+    expect(groups).toEqual([{ frequency: 8575, unitIds: ['a', 'b'] }])
+    expect(intensityMap[3 * 20 + 12]).toBeCloseTo((fa.real + fb.real) ** 2 + (fa.imag + fb.imag) ** 2, 4)
+  })
+
+  it('adds units at different frequencies as power, each at its own wavenumber', () => {
+    const c = { ...b, frequency: 12000 }
+    const { intensityMap, groups } = simulate([a, c])
+    const [fa, fc] = [fieldOf(a), fieldOf(c)]
+
+    expect(groups.map((g) => g.unitIds)).toEqual([['a'], ['b']])
+    expect(intensityMap[3 * 20 + 12]).toBeCloseTo(fa.real ** 2 + fa.imag ** 2 + fc.real ** 2 + fc.imag ** 2, 4)
+  })
+})
+
+describe('beam-simulator worker propagation', () => {
+  it('applies the spreading and absorption of PhasedArray.computeIntensityAt', () => {
+    const unit = makeUnit({})
+    const propagation = { model: 'spherical' as const, attenuation: true }
+    const array = PhasedArray.fromConfig(unit, 'air', propagation)
+    const { intensityMap } = computeInterferenceField({
+      units: [unit],
+      medium: 'air',
+      propagation,
+      gridSize: { width: 20, height: 20 },
+      wavelength: array.wavelength,
+      fieldSize: { width: FIELD_SIZE, height: FIELD_SIZE },
+      normalize: false,
+    })
+
+    expect(intensityMap[3 * 20 + 12] / array.computeIntensityAt(0.2, -0.7)).toBeCloseTo(1, 5)
+    // Spreading is referenced to 1 m, so the field 0.7 m out is stronger than without it
+    expect(intensityMap[3 * 20 + 12]).toBeGreaterThan(PhasedArray.fromConfig(unit, 'air').computeIntensityAt(0.2, -0.7))
+  })
+})
@@ -4,18 +4,25 @@
  * High-performance Web Worker for computing 2D wave interference patterns.
  * Uses the PhasedArray class for all physics calculations (OOP compliant).
  * 
- * Physics: V_total(x,y) = Σ A_i * e^(j(k*d_i + φ_i))
+ * Physics: V_f(x,y) = Σ A_i * g_i * s_i * e^(j(k_f*d_i + φ_i)),   I(x,y) = Σ_f |V_f(x,y)|²
  * where:
- *   - k = 2π/λ (wave number)
- *   - d_i = distance from point (x,y) to sensor i
+ *   - f runs over the distinct unit frequencies: units sharing a frequency add
+ *     coherently, units at different frequencies add as time-averaged power
+ *     (their cross terms average out)
+ *   - k_f = 2π f / c (wave number of each unit's own frequency)
+ *   - d_i = distance from point (x,y,0) to sensor i (elements may sit off the plane)
  *   - φ_i = phase offset of sensor i
  *   - A_i = amplitude of sensor i
+ *   - g_i = element directivity of sensor i toward (x,y) (1 for isotropic)
+ *   - s_i = spreading and absorption over d_i (1 without a propagation model)
  * 
  * OOP Compliance: All math is delegated to the PhasedArray class.
  */
 
 import { PhasedArray } from '@/classes/PhasedArray';
 import type { PhasedArrayConfig } from '@/classes/PhasedArray';
+import { isLossless, type PropagationConfig } from '@/dsp/propagation';
+import { prepareWorkerMedia, type WithCustomMedia } from './workerMedia';
 
 // ============================================================================
 // TYPES
@@ -24,25 +31,42 @@ import type { PhasedArrayConfig } from '@/classes/PhasedArray';
 export interface Transmitter {
   x: number;        // Position in meters
   y: number;        // Position in meters
+  z?: number;       // Out-of-plane offset in meters (planar and ring arrays)
   phaseOffset: number;  // Phase in radians
   amplitude: number;    // Amplitude (0-1)
+  waveNumber?: number;  // k of the transmitter's frequency; omitted = 2π/config.wavelength
+  group?: number;       // Coherent (same-frequency) group index; omitted = 0
+  // Element directivity toward (dx, dy) at range distance; omitted = isotropic
+  directivity?: (dx: number, dy: number, distance: number) => number;
+  // Spreading and absorption at range distance; omitted = lossless
+  propagation?: (distance: number) => number;
 }
 
-export interface SimulationConfig {
+export interface SimulationConfig extends Partial<WithCustomMedia> {
   // Legacy format (for backward compatibility)
   transmitters?: Transmitter[];
   // New OOP format (preferred)
   units?: PhasedArrayConfig[];
   medium?: string;
+  propagation?: PropagationConfig;  // Spreading and absorption of the units (unset = lossless)
   // Common fields
   gridSize: { width: number; height: number };
-  wavelength: number;      // In meters
+  wavelength: number;      // In meters, for legacy transmitters (units use their own frequency)
   fieldSize: { width: number; height: number };  // Physical size in meters
   normalize: boolean;      // Normalize output to 0-1 range
 }
 
+/**
+ * Units radiating at one frequency, summed coherently
+ */
+export interface FrequencyGroup {
+  frequency: number;       // Hz
+  unitIds: string[];
+}
+
 export interface SimulationResult {
   intensityMap: Float32Array;
+  groups: FrequencyGroup[];  // Coherent groups, added as power (empty for legacy transmitters)
   width: number;
   height: number;
   maxIntensity: number;
@@ -75,29 +99,52 @@ let shouldCancel = false;
 // HELPER: Convert PhasedArrayConfig[] to Transmitter[] using PhasedArray class
 // ============================================================================
 
-function unitsToTransmitters(units: PhasedArrayConfig[], medium: string = 'air'): Transmitter[] {
+function unitsToTransmitters(
+  units: PhasedArrayConfig[],
+  medium: string = 'air',
+  propagation?: PropagationConfig
+): { transmitters: Transmitter[]; groups: FrequencyGroup[] } {
   const transmitters: Transmitter[] = [];
+  const groups: FrequencyGroup[] = [];
   
   for (const unitConfig of units) {
     if (!unitConfig.enabled) continue;
     
     // Instantiate PhasedArray class - ALL math is in the class
-    const phasedArray = PhasedArray.fromConfig(unitConfig, medium);
+    const phasedArray = PhasedArray.fromConfig(unitConfig, medium, propagation);
+    const lossless = isLossless(phasedArray.propagation);
+    const waveNumber = phasedArray.waveNumber;
+    
+    // Units at the same frequency share a coherent group
+    let group = groups.findIndex((g) => g.frequency === phasedArray.frequency);
+    if (group < 0) {
+      group = groups.length;
+      groups.push({ frequency: phasedArray.frequency, unitIds: [] });
+    }
+    groups[group].unitIds.push(unitConfig.id);
     
     // Get element positions (computed by the class)
     const elements = phasedArray.getElementPositions();
+    const isotropic = (unitConfig.elementPattern?.type ?? 'isotropic') === 'isotropic';
     
     for (const element of elements) {
       transmitters.push({
         x: element.x,
         y: element.y,
+        z: element.z,
         phaseOffset: element.phaseOffset,
         amplitude: element.amplitude,
+        waveNumber,
+        group,
+        directivity: isotropic
+          ? undefined
+          : (dx, dy, distance) => phasedArray.computeElementGain(element.orientation, dx, dy, distance),
+        propagation: lossless ? undefined : (distance) => phasedArray.computePropagationGain(distance),
       });
     }
   }
   
-  return transmitters;
+  return { transmitters, groups };
 }
 
 // ============================================================================
@@ -106,25 +153,31 @@ function unitsToTransmitters(units: PhasedArrayConfig[], medium: string = 'air')
 
 /**
  * Compute the 2D interference pattern using the Superposition Principle.
- * For each pixel, sum the complex phasors from all transmitters.
+ * For each pixel, sum the complex phasors of each frequency group and add
+ * the groups' intensities.
  * 
  * Supports both legacy transmitters array and new units[] (PhasedArrayConfig[]).
  */
 function computeInterferenceField(config: SimulationConfig): SimulationResult {
   const startTime = performance.now();
   
-  const { gridSize, wavelength, fieldSize, normalize, units, medium } = config;
+  const { gridSize, wavelength, fieldSize, normalize, units, medium, propagation } = config;
+  prepareWorkerMedia(config);
   const { width, height } = gridSize;
   
   // Convert units to transmitters if provided (OOP path)
   // Otherwise use legacy transmitters array
-  const transmitters = units && units.length > 0
-    ? unitsToTransmitters(units, medium)
-    : config.transmitters || [];
+  const { transmitters, groups } = units && units.length > 0
+    ? unitsToTransmitters(units, medium, propagation)
+    : { transmitters: config.transmitters || [], groups: [] };
   
-  // Wave number k = 2π/λ
+  // Wave number k = 2π/λ of legacy transmitters
   const k = (2 * Math.PI) / wavelength;
   
+  // Phasor sums per coherent group
+  const groupReal = new Float64Array(Math.max(1, groups.length));
+  const groupImag = new Float64Array(Math.max(1, groups.length));
+  
   // Output buffer
   const intensityMap = new Float32Array(width * height);
   
@@ -148,6 +201,7 @@ function computeInterferenceField(config: SimulationConfig): SimulationResult {
     if (shouldCancel) {
       return {
         intensityMap: new Float32Array(0),
+        groups,
         width: 0,
         height: 0,
         maxIntensity: 0,
@@ -163,9 +217,9 @@ function computeInterferenceField(config: SimulationConfig): SimulationResult {
       // Physical X coordinate
       const x = px * dx - offsetX;
       
-      // Sum complex phasors from all transmitters
-      let realSum = 0;
-      let imagSum = 0;
+      // Sum complex phasors from all transmitters, per coherent group
+      groupReal.fill(0);
+      groupImag.fill(0);
       
       for (let i = 0; i < transmitters.length; i++) {
         const tx = transmitters[i];
@@ -173,18 +227,27 @@ function computeInterferenceField(config: SimulationConfig): SimulationResult {
         // Distance from this point to transmitter
         const distX = x - tx.x;
         const distY = y - tx.y;
-        const distance = Math.sqrt(distX * distX + distY * distY);
+        const distZ = tx.z ?? 0;
+        const distance = Math.sqrt(distX * distX + distY * distY + distZ * distZ);
         
         // Phase: k * distance + transmitter phase offset
-        const phase = k * distance + tx.phaseOffset;
+        const phase = (tx.waveNumber ?? k) * distance + tx.phaseOffset;
         
-        // Add phasor: A * e^(j*phase) = A * (cos(phase) + j*sin(phase))
-        realSum += tx.amplitude * Math.cos(phase);
-        imagSum += tx.amplitude * Math.sin(phase);
+        // Add phasor: A * g * e^(j*phase) = A * g * (cos(phase) + j*sin(phase))
+        let weight = tx.directivity
+          ? tx.amplitude * tx.directivity(distX, distY, distance)
+          : tx.amplitude;
+        if (tx.propagation) weight *= tx.propagation(distance);
+        const group = tx.group ?? 0;
+        groupReal[group] += weight * Math.cos(phase);
+        groupImag[group] += weight * Math.sin(phase);
       }
       
-      // Intensity = |V_total|^2 = real^2 + imag^2
-      const intensity = realSum * realSum + imagSum * imagSum;
+      // Intensity = Σ |V_f|^2 over the groups (time-averaged power across frequencies)
+      let intensity = 0;
+      for (let g = 0; g < groupReal.length; g++) {
+        intensity += groupReal[g] * groupReal[g] + groupImag[g] * groupImag[g];
+      }
       
       const idx = py * width + px;
       intensityMap[idx] = intensity;
@@ -219,6 +282,7 @@ function computeInterferenceField(config: SimulationConfig): SimulationResult {
   
   return {
     intensityMap,
+    groups,
     width,
     height,
     maxIntensity,
@@ -279,5 +343,4 @@ self.onmessage = (event: MessageEvent<WorkerMessage>) => {
   }
 };
 
-// TypeScript: Mark as module
-export {};
+export { computeInterferenceField }; // surface for tests
@@ -0,0 +1,46 @@
+/// <reference lib="webworker" />
+
+/**
+ * Canceller Worker
+ * Adapts the sidelobe canceller of one unit off the main thread
+ */
+
+import { PhasedArray, type PhasedArrayConfig } from '@/classes/PhasedArray'
+import { runSidelobeCanceller, type CancellerResult, type CancellerSettings } from '@/dsp/sidelobeCanceller'
+import type { SignalEmitter } from '@/dsp/signalScene'
+import type { WorkerMessageEnvelope } from './types'
+import { prepareWorkerMedia, type WithCustomMedia } from './workerMedia'
+
+export interface CancellerJobPayload extends WithCustomMedia {
+  config: PhasedArrayConfig // Quiescent weights: the unit after beams, adaptive weights and nulls
+  medium: string
+  emitters: SignalEmitter[]
+  settings: CancellerSettings
+}
+
+export type CancellerJobResult = CancellerResult
+
+declare const self: DedicatedWorkerGlobalScope
+
+self.onmessage = (event: MessageEvent<WorkerMessageEnvelope<CancellerJobPayload>>) => {
+  const { data } = event
+  if (!data || data.type !== 'JOB_START') return
+
+  const { jobId, payload } = data
+  if (!jobId || !payload) return
+
+  try {
+    const { config, medium, emitters, settings } = payload
+    prepareWorkerMedia(payload)
+    const result: CancellerJobResult = runSidelobeCanceller(PhasedArray.fromConfig(config, medium), emitters, settings)
+    const envelope: WorkerMessageEnvelope<CancellerJobResult> = { type: 'JOB_COMPLETE', jobId, payload: result }
+    self.postMessage(envelope)
+  } catch (error) {
+    const envelope: WorkerMessageEnvelope = {
+      type: 'JOB_ERROR',
+      jobId,
+      error: error instanceof Error ? error.message : 'Canceller worker error',
+    }
+    self.postMessage(envelope)
+  }
+}
@@ -0,0 +1,45 @@
+/// <reference lib="webworker" />
+
+/**
+ * Codebook Coverage Worker
+ * Sweeps a beam codebook over the field grid off the main thread
+ */
+
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { computeCoverageMap, type Codebook, type CoverageGrid, type CoverageMap } from '@/dsp/beamCodebook'
+import type { WorkerMessageEnvelope } from './types'
+import { prepareWorkerMedia, type WithCustomMedia } from './workerMedia'
+
+export interface CoverageJobPayload extends WithCustomMedia {
+  config: PhasedArrayConfig
+  medium: string
+  codebook: Codebook
+  grid: CoverageGrid
+}
+
+export type CoverageJobResult = CoverageMap
+
+declare const self: DedicatedWorkerGlobalScope
+
+self.onmessage = (event: MessageEvent<WorkerMessageEnvelope<CoverageJobPayload>>) => {
+  const { data } = event
+  if (!data || data.type !== 'JOB_START') return
+
+  const { jobId, payload } = data
+  if (!jobId || !payload) return
+
+  try {
+    const { config, medium, codebook, grid } = payload
+    prepareWorkerMedia(payload)
+    const result: CoverageJobResult = computeCoverageMap(config, medium, codebook, grid)
+    const envelope: WorkerMessageEnvelope<CoverageJobResult> = { type: 'JOB_COMPLETE', jobId, payload: result }
+    self.postMessage(envelope, [result.bestBeam.buffer, result.gainDb.buffer])
+  } catch (error) {
+    const envelope: WorkerMessageEnvelope = {
+      type: 'JOB_ERROR',
+      jobId,
+      error: error instanceof Error ? error.message : 'Coverage worker error',
+    }
+    self.postMessage(envelope)
+  }
+}
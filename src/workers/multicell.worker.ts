@@ -0,0 +1,47 @@
+/// <reference lib="webworker" />
+
+/**
+ * Multi-Cell Worker
+ * Computes the serving cell, SINR and throughput maps off the main thread
+ */
+
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { computeCellMap, type CellGrid, type CellMap } from '@/dsp/multiCell'
+import type { PropagationConfig } from '@/dsp/propagation'
+import type { WorkerMessageEnvelope } from './types'
+import { prepareWorkerMedia, type WithCustomMedia } from './workerMedia'
+
+export interface MultiCellJobPayload extends WithCustomMedia {
+  units: PhasedArrayConfig[]
+  medium: string
+  bandwidth: number
+  grid: CellGrid
+  propagation: PropagationConfig
+}
+
+export type MultiCellJobResult = CellMap
+
+declare const self: DedicatedWorkerGlobalScope
+
+self.onmessage = (event: MessageEvent<WorkerMessageEnvelope<MultiCellJobPayload>>) => {
+  const { data } = event
+  if (!data || data.type !== 'JOB_START') return
+
+  const { jobId, payload } = data
+  if (!jobId || !payload) return
+
+  try {
+    const { units, medium, bandwidth, grid, propagation } = payload
+    prepareWorkerMedia(payload)
+    const result: MultiCellJobResult = computeCellMap(units, medium, bandwidth, grid, propagation)
+    const envelope: WorkerMessageEnvelope<MultiCellJobResult> = { type: 'JOB_COMPLETE', jobId, payload: result }
+    self.postMessage(envelope, [result.serving.buffer, result.sinrDb.buffer, result.throughput.buffer])
+  } catch (error) {
+    const envelope: WorkerMessageEnvelope = {
+      type: 'JOB_ERROR',
+      jobId,
+      error: error instanceof Error ? error.message : 'Multi-cell worker error',
+    }
+    self.postMessage(envelope)
+  }
+}
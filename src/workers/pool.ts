@@ -1,8 +1,12 @@
 import { workerPoolConfig } from '@/config/runtime'
 import type { WorkerPoolConfig } from '@/types'
 import type { JobToken, WorkerMessageEnvelope } from './types'
+import type { ToleranceJobPayload } from './tolerance.worker'
+import type { CoverageJobPayload } from './coverage.worker'
+import type { MultiCellJobPayload } from './multicell.worker'
+import type { CancellerJobPayload } from './canceller.worker'
 
-export type WorkerJobType = 'image-dsp' | 'beam-sim'
+export type WorkerJobType = 'image-dsp' | 'beam-sim' | 'tolerance' | 'coverage' | 'multicell' | 'canceller'
 
 interface WorkerJob<TPayload = unknown> {
   id: JobToken
@@ -205,3 +209,35 @@ export const beamWorkerPool = new WorkerManager(createBeamWorker, {
 })
 
 export const fftWorkerPool = new WorkerManager(createFftWorker, workerPoolConfig)
+
+const createToleranceWorker: CreateWorkerFn = () =>
+  new Worker(new URL('./tolerance.worker.ts', import.meta.url), { type: 'module' })
+
+export const toleranceWorkerPool = new WorkerManager<ToleranceJobPayload>(createToleranceWorker, {
+  ...workerPoolConfig,
+  warmupOnLoad: false,
+})
+
+const createCoverageWorker: CreateWorkerFn = () =>
+  new Worker(new URL('./coverage.worker.ts', import.meta.url), { type: 'module' })
+
+export const coverageWorkerPool = new WorkerManager<CoverageJobPayload>(createCoverageWorker, {
+  ...workerPoolConfig,
+  warmupOnLoad: false,
+})
+
+const createMultiCellWorker: CreateWorkerFn = () =>
+  new Worker(new URL('./multicell.worker.ts', import.meta.url), { type: 'module' })
+
+export const multiCellWorkerPool = new WorkerManager<MultiCellJobPayload>(createMultiCellWorker, {
+  ...workerPoolConfig,
+  warmupOnLoad: false,
+})
+
+const createCancellerWorker: CreateWorkerFn = () =>
+  new Worker(new URL('./canceller.worker.ts', import.meta.url), { type: 'module' })
+
+export const cancellerWorkerPool = new WorkerManager<CancellerJobPayload>(createCancellerWorker, {
+  ...workerPoolConfig,
+  warmupOnLoad: false,
+})
@@ -0,0 +1,46 @@
+/// <reference lib="webworker" />
+
+/**
+ * Tolerance Analysis Worker
+ * Runs a batch of Monte-Carlo trials of the tolerance analysis off the main thread
+ */
+
+import type { PhasedArrayConfig } from '@/classes/PhasedArray'
+import { runToleranceTrials, type ToleranceSettings, type ToleranceTrial } from '@/dsp/toleranceAnalysis'
+import type { WorkerMessageEnvelope } from './types'
+import { prepareWorkerMedia, type WithCustomMedia } from './workerMedia'
+
+export interface ToleranceJobPayload extends WithCustomMedia {
+  config: PhasedArrayConfig
+  medium: string
+  settings: ToleranceSettings
+  firstTrial: number
+  count: number
+}
+
+export type ToleranceJobResult = ToleranceTrial[]
+
+declare const self: DedicatedWorkerGlobalScope
+
+self.onmessage = (event: MessageEvent<WorkerMessageEnvelope<ToleranceJobPayload>>) => {
+  const { data } = event
+  if (!data || data.type !== 'JOB_START') return
+
+  const { jobId, payload } = data
+  if (!jobId || !payload) return
+
+  try {
+    const { config, medium, settings, firstTrial, count } = payload
+    prepareWorkerMedia(payload)
+    const result: ToleranceJobResult = runToleranceTrials(config, medium, settings, firstTrial, count)
+    const envelope: WorkerMessageEnvelope<ToleranceJobResult> = { type: 'JOB_COMPLETE', jobId, payload: result }
+    self.postMessage(envelope)
+  } catch (error) {
+    const envelope: WorkerMessageEnvelope = {
+      type: 'JOB_ERROR',
+      jobId,
+      error: error instanceof Error ? error.message : 'Tolerance worker error',
+    }
+    self.postMessage(envelope)
+  }
+}
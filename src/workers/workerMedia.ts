@@ -0,0 +1,16 @@
+import { registerCustomMedia, type MediumDefinition } from '@/dsp/media'
+
+/**
+ * Payload field of the jobs that evaluate units. Each worker has its own
+ * media registry, which only holds the built-ins, so jobs carry the beam
+ * store's custom media and register them with prepareWorkerMedia before
+ * resolving any medium id.
+ */
+export interface WithCustomMedia {
+  media: MediumDefinition[]
+}
+
+/** Register the custom media of a job in this worker's registry */
+export function prepareWorkerMedia({ media }: Partial<WithCustomMedia>): void {
+  if (media) registerCustomMedia(media)
+}